@@ -0,0 +1,17 @@
+/**
+ * Sync Schedules Page
+ *
+ * Client-only like the main admin page; the layout already delays the
+ * first paint until the browser has taken over.
+ */
+
+"use client"
+
+// Always render dynamically to avoid stale cache / mismatches.
+export const dynamic = "force-dynamic"
+
+import SyncSchedulesDashboard from "../../../components/admin/SyncSchedulesDashboard"
+
+export default function SyncSchedulesPage() {
+  return <SyncSchedulesDashboard />
+}
@@ -14,6 +14,8 @@ import {
   Users,           // Added Users icon for employment section
 } from "lucide-react"
 import Link from "next/link"
+import { RiskBadge } from "@/components/risk-badge"
+import { getRiskTier } from "@/lib/risk-tiers"
 
 // Job data type definition
 interface Job {
@@ -57,37 +59,12 @@ export default function AnalyzePage() {
     }
   }
 
-  // Helper for rendering risk badges and analysis
-  const getRiskBadge = (score?: number) => {
-    if (score === undefined) return null
-    
-    if (score >= 80) {
-      return <Badge variant="destructive">{score}% Risk</Badge>
-    } else if (score >= 60) {
-      return <Badge variant="outline" className="bg-orange-100 text-orange-800 border-orange-200">{score}% Risk</Badge>
-    } else if (score >= 40) {
-      return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">{score}% Risk</Badge>
-    } else if (score >= 20) {
-      return <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">{score}% Risk</Badge>
-    } else {
-      return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">{score}% Risk</Badge>
-    }
-  }
-  
+  // Helper for rendering risk analysis
   const getRiskAnalysis = (score?: number) => {
     if (score === undefined) return "No risk data available"
     
-    if (score >= 80) {
-      return "High risk of automation. This occupation may be significantly impacted by AI and automation technologies in the coming decade."
-    } else if (score >= 60) {
-      return "Medium-high risk of automation. Many tasks in this occupation could be automated, requiring significant adaptation."
-    } else if (score >= 40) {
-      return "Medium risk of automation. Some tasks may be automated, but the core of the role will likely remain."
-    } else if (score >= 20) {
-      return "Low-medium risk of automation. This occupation will be somewhat affected by AI but should remain largely intact."
-    } else {
-      return "Low risk of automation. This occupation requires skills that are difficult to automate and may benefit from AI augmentation."
-    }
+    const tier = getRiskTier(score)
+    return `${tier.summary}. ${tier.description}`
   }
   
   // Format currency
@@ -254,7 +231,7 @@ export default function AnalyzePage() {
                         <CardTitle className="text-xl">{job.occ_title}</CardTitle>
                         <p className="text-sm text-gray-500">Occupation Code: {job.occ_code}</p>
                       </div>
-                      {getRiskBadge(job.ai_impact_score)}
+                      <RiskBadge score={job.ai_impact_score} />
                     </div>
                   </CardHeader>
                   <CardContent>
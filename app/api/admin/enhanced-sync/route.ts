@@ -1,5 +1,11 @@
 import { NextResponse } from "next/server"
 import { BLSSyncService, SyncConfig, SyncProgress } from "@/lib/bls-sync-enhanced"
+import { findResumableSyncRun, getLatestSyncRun, getSyncItemFailures } from "@/lib/sync-queue"
+import { getSyncLock } from "@/lib/sync-lock"
+import { parseSyncSelection } from "@/lib/sync-selection"
+
+// Each POST runs at most one time-boxed tick (SyncConfig.tickDurationMs)
+export const maxDuration = 60
 
 // Singleton instance of BLSSyncService to maintain state across requests
 let syncService: BLSSyncService | null = null
@@ -42,6 +48,11 @@ export async function GET(request: Request) {
     // Get current progress
     const progress: SyncProgress = service.getSyncProgress()
 
+    // The durable run also reflects work done by other instances
+    const run = await getLatestSyncRun()
+    // Which instance holds the sync lock, if any, and until when
+    const lock = await getSyncLock()
+
     // For non-detailed requests, return a simplified response
     if (!detailed) {
       return NextResponse.json({
@@ -63,6 +74,8 @@ export async function GET(request: Request) {
           totalKeys: progress.apiKeysStatus.totalKeys,
           totalRemainingRequests: progress.apiKeysStatus.totalRemainingRequests,
         },
+        run,
+        lock,
       })
     }
 
@@ -70,6 +83,9 @@ export async function GET(request: Request) {
     return NextResponse.json({
       success: true,
       progress,
+      run,
+      lock,
+      failures: run ? await getSyncItemFailures(run.id) : [],
     })
   } catch (error) {
     console.error("Error getting sync status:", error)
@@ -86,7 +102,12 @@ export async function GET(request: Request) {
 
 /**
  * POST /api/admin/enhanced-sync
- * Start enhanced sync with configuration options
+ * Start or continue a sync and process its first time-boxed slice; the rest
+ * is processed by /api/admin/sync-tick.  A new run is started when forced or
+ * when there is no unfinished run.  Optional selection, which starts a new
+ * run over the matching occupations only:
+ * { codes?: string[], majorGroups?: string[], olderThanDays?: number,
+ *   dataSources?: ("bls" | "local-csv" | "mixed" | "fallback" | "override")[], forceRefresh?: boolean }
  */
 export async function POST(request: Request) {
   try {
@@ -104,16 +125,21 @@ export async function POST(request: Request) {
     
     // Force restart if specified
     const forceRestart = body.forceRestart === true
+
+    const { selection, errors } = parseSyncSelection(body)
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: "Invalid selection", details: errors }, { status: 400 })
+    }
     
     // Initialize service
     const service = getSyncService()
     
     // Check if sync is already running
     const currentProgress = service.getSyncProgress()
-    if (currentProgress.isRunning && !forceRestart) {
+    if (currentProgress.isRunning) {
       return NextResponse.json({
         success: false,
-        message: "Sync is already running. Use forceRestart=true to restart or DELETE to stop.",
+        message: "Sync is already running. Use DELETE to stop it.",
         currentProgress: {
           isRunning: currentProgress.isRunning,
           processedJobs: currentProgress.processedJobs,
@@ -125,16 +151,23 @@ export async function POST(request: Request) {
       })
     }
     
-    // Start sync process (don't await - let it run in background)
-    const syncPromise = service.startSync(forceRestart)
-    
-    // Return immediate response
+    // Report what the run will cover; the run resolves the selection again when it starts
+    const selectionReport = selection ? await service.selectOccupations(selection) : undefined
+
+    // Process the first slice here; a serverless function is frozen once it responds
+    const tick = await service.runTick({
+      forceRestart: forceRestart || !(await findResumableSyncRun()),
+      selection: selection ?? undefined,
+    })
+
     return NextResponse.json({
-      success: true,
-      message: forceRestart 
-        ? "Enhanced sync started with forced restart" 
-        : "Enhanced sync started",
+      success: tick.success,
+      message: tick.done ? tick.message : `${tick.message} Continue the run with /api/admin/sync-tick.`,
+      runId: tick.runId,
+      done: tick.done,
+      remainingJobs: tick.remainingJobs,
       config,
+      selection: selectionReport,
       initialStatus: service.getSyncProgress(),
     })
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import { sqlEnhanced } from "@/lib/database-enhanced"
+import { RISK_TIERS, type RiskTierId } from "@/lib/risk-tiers"
 
 interface JobDetails {
   totalJobs: number
@@ -9,6 +10,7 @@ interface JobDetails {
   mediumHighRiskJobs: number
   mediumRiskJobs: number
   lowRiskJobs: number
+  riskDistribution?: Record<RiskTierId, number>
   lastUpdated: string
   recentJobs: Array<{
     code: string
@@ -72,31 +74,21 @@ export async function GET() {
       
       const averageAIImpact = parseFloat(avgResult?.avg || "0")
       
-      // Get risk distribution
-      const [highRiskResult] = await sqlEnhanced<{ count: string }>`
-        SELECT COUNT(*) as count FROM jobs 
-        WHERE ai_impact_score >= 80
-      `
-      
-      const [mediumHighRiskResult] = await sqlEnhanced<{ count: string }>`
-        SELECT COUNT(*) as count FROM jobs 
-        WHERE ai_impact_score >= 60 AND ai_impact_score < 80
-      `
-      
-      const [mediumRiskResult] = await sqlEnhanced<{ count: string }>`
-        SELECT COUNT(*) as count FROM jobs 
-        WHERE ai_impact_score >= 40 AND ai_impact_score < 60
-      `
-      
-      const [lowRiskResult] = await sqlEnhanced<{ count: string }>`
-        SELECT COUNT(*) as count FROM jobs 
-        WHERE ai_impact_score < 40 AND ai_impact_score IS NOT NULL
-      `
+      // Get risk distribution per tier
+      const riskDistribution = {} as Record<RiskTierId, number>
+      for (const tier of RISK_TIERS) {
+        const [tierResult] = await sqlEnhanced<{ count: string }>`
+          SELECT COUNT(*) as count FROM jobs 
+          WHERE ai_impact_score BETWEEN ${tier.minScore} AND ${tier.maxScore}
+        `
+        riskDistribution[tier.id] = parseInt(tierResult?.count || "0", 10)
+      }
       
-      const highRiskJobs = parseInt(highRiskResult?.count || "0", 10)
-      const mediumHighRiskJobs = parseInt(mediumHighRiskResult?.count || "0", 10)
-      const mediumRiskJobs = parseInt(mediumRiskResult?.count || "0", 10)
-      const lowRiskJobs = parseInt(lowRiskResult?.count || "0", 10)
+      // Legacy buckets kept for existing dashboard consumers
+      const highRiskJobs = riskDistribution["very-high"]
+      const mediumHighRiskJobs = riskDistribution["high"]
+      const mediumRiskJobs = riskDistribution["medium"]
+      const lowRiskJobs = riskDistribution["low"] + riskDistribution["very-low"]
       
       // Get recent jobs that have been analyzed
       const recentJobs = await sqlEnhanced<{
@@ -141,6 +133,7 @@ export async function GET() {
         mediumHighRiskJobs,
         mediumRiskJobs,
         lowRiskJobs,
+        riskDistribution,
         lastUpdated,
         recentJobs: formattedRecentJobs,
       })
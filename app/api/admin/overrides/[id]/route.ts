@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { revokeOverride } from "@/lib/score-overrides"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * DELETE /api/admin/overrides/[id]?by=<name>
+ * Revoke an override and restore the computed values
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = Number.parseInt(params.id, 10)
+    const revokedBy = new URL(request.url).searchParams.get("by")?.trim()
+
+    if (isNaN(id)) {
+      return NextResponse.json({ success: false, error: "Invalid override id" }, { status: 400 })
+    }
+    if (!revokedBy) {
+      return NextResponse.json({ success: false, error: "by is required" }, { status: 400 })
+    }
+
+    const override = await revokeOverride(id, revokedBy)
+    if (!override) {
+      return NextResponse.json({ success: false, error: `No active override with id ${id}` }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      override,
+    })
+  } catch (error) {
+    console.error("Error revoking override:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server"
+import {
+  createOverride,
+  listOverrides,
+  releaseExpiredOverrides,
+  validateOverrideInput,
+} from "@/lib/score-overrides"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/admin/overrides
+ * List active editorial overrides.  Optional: all=true to include revoked and
+ * expired overrides.
+ */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url)
+
+    // Restore computed values for overrides that expired since the last sync
+    await releaseExpiredOverrides()
+    const overrides = await listOverrides(url.searchParams.get("all") === "true")
+
+    return NextResponse.json({
+      success: true,
+      overrides,
+    })
+  } catch (error) {
+    console.error("Error listing overrides:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/overrides
+ * Create an override and apply it immediately.
+ * Body: { occupationCode, fields: { ai_impact_score?, median_wage?, employment_2023?,
+ *         projected_employment_2033? }, reason, author, expiresAt? }
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    const errors = validateOverrideInput(body)
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: "Invalid override", details: errors }, { status: 400 })
+    }
+
+    const override = await createOverride({
+      occupationCode: body.occupationCode,
+      fields: body.fields,
+      reason: body.reason,
+      author: body.author,
+      expiresAt: body.expiresAt ?? null,
+    })
+
+    if (!override) {
+      return NextResponse.json(
+        { success: false, error: `Job with code ${body.occupationCode} not found` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      override,
+    })
+  } catch (error) {
+    console.error("Error creating override:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
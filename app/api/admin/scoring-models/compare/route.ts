@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { compareModelVersions, getScoringModel } from "@/lib/scoring-models"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/admin/scoring-models/compare?from=1.0&to=1.1
+ * Report the occupations whose score or automation risk tier moved between
+ * two model versions.  Optional: minDelta (default 1), riskOnly=true, limit.
+ */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url)
+    const fromVersion = url.searchParams.get("from") || ""
+    const toVersion = url.searchParams.get("to") || ""
+
+    const unknown = [fromVersion, toVersion].filter((version) => !getScoringModel(version))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown scoring model version(s): ${unknown.map((version) => version || "(missing)").join(", ")}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const comparison = await compareModelVersions(fromVersion, toVersion, {
+      minScoreDelta: Math.max(1, Number.parseInt(url.searchParams.get("minDelta") || "1", 10) || 1),
+      riskChangesOnly: url.searchParams.get("riskOnly") === "true",
+      limit: Math.min(500, Math.max(1, Number.parseInt(url.searchParams.get("limit") || "100", 10) || 100)),
+    })
+
+    return NextResponse.json({
+      success: true,
+      comparison,
+    })
+  } catch (error) {
+    console.error("Error comparing scoring models:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
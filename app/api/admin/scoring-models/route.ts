@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server"
+import {
+  getActiveScoringModel,
+  getModelScoreCounts,
+  getScoringModel,
+  getScoringModels,
+  scoreJobsWithModel,
+} from "@/lib/scoring-models"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 60
+
+// Jobs scored per request; each one is a few queries, well inside maxDuration
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 250
+
+/**
+ * GET /api/admin/scoring-models
+ * List registered scoring models with the number of stored scores per version
+ */
+export async function GET() {
+  try {
+    const activeModel = getActiveScoringModel()
+    const scoreCounts = await getModelScoreCounts()
+
+    return NextResponse.json({
+      success: true,
+      activeVersion: activeModel.version,
+      models: getScoringModels().map((model) => ({
+        version: model.version,
+        description: model.description,
+        releasedAt: model.releasedAt,
+        usesTaskData: model.usesTaskData,
+        isActive: model.version === activeModel.version,
+        scoredJobs: scoreCounts[model.version] ?? 0,
+      })),
+    })
+  } catch (error) {
+    console.error("Error listing scoring models:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/scoring-models
+ * Score one page of jobs with a model version and store the results without
+ * changing the live scores.  Body: { version: string, offset?: number,
+ * limit?: number }.  Call again with `nextOffset` until it is null.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const version = typeof body.version === "string" ? body.version : ""
+
+    if (!getScoringModel(version)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown scoring model version: ${version || "(missing)"}`,
+          availableVersions: getScoringModels().map((model) => model.version),
+        },
+        { status: 400 }
+      )
+    }
+
+    const offset = Math.max(0, Number.parseInt(String(body.offset ?? 0), 10) || 0)
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number.parseInt(String(body.limit ?? DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE)
+    )
+
+    const result = await scoreJobsWithModel(version, { offset, limit })
+    const scoredThrough = result.nextOffset ?? result.totalJobs
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      message: `Scored jobs ${Math.min(offset + 1, scoredThrough)}-${scoredThrough} of ${result.totalJobs} with model ${version}`,
+      ...result,
+    })
+  } catch (error) {
+    console.error("Error scoring jobs with model:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
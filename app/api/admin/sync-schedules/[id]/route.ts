@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import { deleteSyncSchedule, updateSyncSchedule } from "@/lib/sync-schedules"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * PATCH /api/admin/sync-schedules/[id]
+ * Change a schedule, e.g. { enabled: false } to pause it.  Accepts any
+ * field of the create body.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = Number.parseInt(params.id, 10)
+    if (isNaN(id)) {
+      return NextResponse.json({ success: false, error: "Invalid schedule id" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const { schedule, errors } = await updateSyncSchedule(id, body)
+    if (!schedule) {
+      return NextResponse.json({ success: false, error: `No schedule with id ${id}` }, { status: 404 })
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: "Invalid schedule", details: errors }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      schedule,
+    })
+  } catch (error) {
+    console.error("Error updating sync schedule:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/sync-schedules/[id]
+ * Delete a schedule; its past runs stay in the history
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = Number.parseInt(params.id, 10)
+    if (isNaN(id)) {
+      return NextResponse.json({ success: false, error: "Invalid schedule id" }, { status: 400 })
+    }
+
+    if (!(await deleteSyncSchedule(id))) {
+      return NextResponse.json({ success: false, error: `No schedule with id ${id}` }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting sync schedule:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server"
+import {
+  createSyncSchedule,
+  getUpcomingSyncRuns,
+  listSyncScheduleRuns,
+  listSyncSchedules,
+  validateSyncScheduleInput,
+} from "@/lib/sync-schedules"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/admin/sync-schedules
+ * List schedules with their upcoming fire times and the recent scheduled
+ * runs.  Optional: limit=<n> runs (default 50).
+ */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url)
+    const limit = Number.parseInt(url.searchParams.get("limit") ?? "50", 10)
+
+    const schedules = await listSyncSchedules()
+    const runs = await listSyncScheduleRuns(isNaN(limit) || limit < 1 ? 50 : Math.min(limit, 500))
+
+    return NextResponse.json({
+      success: true,
+      schedules,
+      upcoming: getUpcomingSyncRuns(schedules),
+      runs,
+    })
+  } catch (error) {
+    console.error("Error listing sync schedules:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/sync-schedules
+ * Create a schedule.
+ * Body: { name, cronExpression, scope: "all" | "major-group" | "stale-only" | "fallback-only",
+ *         majorGroup?, staleAfterDays?, config?, enabled? }
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    const errors = validateSyncScheduleInput(body)
+    if (errors.length > 0) {
+      return NextResponse.json({ success: false, error: "Invalid schedule", details: errors }, { status: 400 })
+    }
+
+    const schedule = await createSyncSchedule(body)
+
+    return NextResponse.json({
+      success: true,
+      schedule,
+    })
+  } catch (error) {
+    console.error("Error creating sync schedule:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { runSyncScheduler } from "@/lib/sync-schedules"
+
+// Force this route to be treated as dynamic at build time
+export const dynamic = "force-dynamic"
+// Each ping runs at most one time-boxed tick (SyncConfig.tickDurationMs)
+export const maxDuration = 60
+
+async function runScheduler() {
+  try {
+    const apiKeys = [
+      process.env.BLS_API_KEY,
+      process.env.BLS_API_KEY_2,
+      process.env.BLS_API_KEY_3,
+    ].filter(Boolean) as string[]
+
+    if (apiKeys.length === 0) {
+      throw new Error("No BLS API keys configured. Please set BLS_API_KEY environment variable.")
+    }
+
+    const result = await runSyncScheduler(apiKeys)
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error("Error running sync scheduler:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/admin/sync-schedules/run
+ * Run whatever is due.  Point an external cron at this every minute: each
+ * ping advances the scheduled run in progress by one tick or starts the
+ * next due schedule.
+ */
+export async function GET() {
+  return runScheduler()
+}
+
+/**
+ * POST /api/admin/sync-schedules/run
+ * Same as GET, for cron services that only send POST requests
+ */
+export async function POST() {
+  return runScheduler()
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server"
 import { BLSSyncService } from "@/lib/bls-sync-enhanced"
+import { getLatestSyncRun } from "@/lib/sync-queue"
+import { getSyncLock } from "@/lib/sync-lock"
 
 // Force this route to be treated as dynamic at build time
 export const dynamic = "force-dynamic"
@@ -48,15 +50,35 @@ export async function GET(request: Request) {
     if (service) {
       // Get enhanced progress
       const progress = service.getSyncProgress()
+
+      // When this instance is idle, report the durable run, which ticks and
+      // other instances advance
+      const run = progress.isRunning ? null : await getLatestSyncRun()
+      const counts = run
+        ? {
+            isRunning: run.status === "running",
+            totalJobs: run.totalItems,
+            processedJobs: run.doneItems + run.failedItems,
+            successfulJobs: run.doneItems,
+            failedJobs: run.failedItems,
+            skippedJobs: run.skippedItems,
+          }
+        : {
+            isRunning: progress.isRunning,
+            totalJobs: progress.totalJobs,
+            processedJobs: progress.processedJobs,
+            successfulJobs: progress.successfulJobs,
+            failedJobs: progress.failedJobs,
+            skippedJobs: progress.skippedJobs || 0,
+          }
       
       // Return the enhanced sync progress in the format the Admin Dashboard expects
       return NextResponse.json({
-        isRunning: progress.isRunning,
-        totalJobs: progress.totalJobs,
-        processedJobs: progress.processedJobs,
-        successfulJobs: progress.successfulJobs,
-        failedJobs: progress.failedJobs,
-        skippedJobs: progress.skippedJobs || 0,
+        ...counts,
+        runId: run?.id ?? progress.runId ?? null,
+        runStatus: run?.status ?? null,
+        // Which instance is syncing, if any, and until when its lease holds
+        lock: await getSyncLock(),
         currentJob: progress.currentJob,
         lastError: progress.lastError,
         lastErrorTime: progress.lastErrorTime,
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import { BLSSyncService, defaultSyncConfig } from "@/lib/bls-sync-enhanced"
+
+// Force this route to be treated as dynamic at build time
+export const dynamic = "force-dynamic"
+// Each tick is time-boxed below this limit (SyncConfig.tickDurationMs)
+export const maxDuration = 60
+
+let syncService: BLSSyncService | null = null
+
+function getSyncService(): BLSSyncService {
+  if (!syncService) {
+    const apiKeys = [
+      process.env.BLS_API_KEY,
+      process.env.BLS_API_KEY_2,
+      process.env.BLS_API_KEY_3,
+    ].filter(Boolean) as string[]
+
+    if (apiKeys.length === 0) {
+      throw new Error("No BLS API keys configured. Please set BLS_API_KEY environment variable.")
+    }
+
+    syncService = new BLSSyncService(apiKeys)
+    console.log(`🔄 Sync Tick: BLS Sync Service initialized with ${apiKeys.length} API keys`)
+  }
+
+  return syncService
+}
+
+async function runTick(options: { maxDurationMs?: number; forceRestart?: boolean }) {
+  try {
+    const result = await getSyncService().runTick(options)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error running sync tick:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/admin/sync-tick
+ * Continue the unfinished sync run for one time-boxed slice.  Meant for a
+ * cron job pinging every minute; does nothing when no run is unfinished.
+ */
+export async function GET() {
+  return runTick({})
+}
+
+/**
+ * POST /api/admin/sync-tick
+ * Process one slice of the sync and return the work remaining; call again
+ * until `done` is true.  Body: { forceRestart?: boolean, maxDurationMs?: number }.
+ * forceRestart starts a new run over all occupations.  maxDurationMs can only
+ * shorten the tick, since a longer one would outlive this function.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}))
+  const maxDurationMs = Number(body.maxDurationMs)
+  return runTick({
+    forceRestart: body.forceRestart === true,
+    maxDurationMs:
+      Number.isFinite(maxDurationMs) && maxDurationMs > 0
+        ? Math.min(maxDurationMs, defaultSyncConfig.tickDurationMs)
+        : undefined,
+  })
+}
@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { neon } from "@neondatabase/serverless"
+import { findAliasMatches, matchedAliasFor } from "@/lib/job-title-aliases"
 
 const sql = neon(process.env.DATABASE_URL!)
 
@@ -19,21 +20,25 @@ export async function GET(request: NextRequest) {
     }
 
     const searchTerm = `%${query.trim().toLowerCase()}%`
+    const aliasMatches = await findAliasMatches(query)
+    const aliasCodes = [...aliasMatches.keys()]
 
-    // Get autocomplete suggestions
+    // Get autocomplete suggestions, matching official and alternate titles
     const suggestions = await sql`
       SELECT 
         occ_code,
         occ_title,
         ai_impact_score
       FROM jobs 
-      WHERE LOWER(occ_title) LIKE ${searchTerm}
+      WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
       AND ai_impact_score IS NOT NULL
       ORDER BY 
         CASE 
           WHEN LOWER(occ_title) LIKE ${query.trim().toLowerCase() + "%"} THEN 1
-          ELSE 2
+          WHEN LOWER(occ_title) LIKE ${searchTerm} THEN 2
+          ELSE 3
         END,
+        array_position(${aliasCodes}::varchar[], occ_code),
         LENGTH(occ_title),
         occ_title
       LIMIT ${limit}
@@ -44,6 +49,7 @@ export async function GET(request: NextRequest) {
       code: job.occ_code,
       title: job.occ_title,
       aiImpactScore: job.ai_impact_score,
+      matchedAlias: matchedAliasFor(aliasMatches, job.occ_code, job.occ_title, query),
     }))
 
     return NextResponse.json({
@@ -2,477 +2,10 @@ import { NextResponse } from "next/server"
 // `testConnection` is the correct export from "@/lib/database", not
 // `testDatabaseConnection` – this fixes the build-time import error.
 import { sql, testConnection } from "@/lib/database"
-
-// Comprehensive list of BLS occupation codes (SOC codes)
-const occupationCodes = [
-  // Management Occupations
-  "11-1011", // Chief Executives
-  "11-1021", // General and Operations Managers
-  "11-2021", // Marketing Managers
-  "11-3021", // Computer and Information Systems Managers
-  "11-9013", // Farmers, Ranchers, and Other Agricultural Managers
-
-  // Computer and Mathematical Occupations
-  "15-1211", // Computer Systems Analysts
-  "15-1212", // Information Security Analysts
-  "15-1221", // Computer and Information Research Scientists
-  "15-1231", // Computer Network Support Specialists
-  "15-1232", // Computer User Support Specialists
-  "15-1241", // Computer Network Architects
-  "15-1242", // Database Administrators
-  "15-1243", // Database Architects
-  "15-1244", // Network and Computer Systems Administrators
-  "15-1251", // Computer Programmers
-  "15-1252", // Software Developers
-  "15-1253", // Software Quality Assurance Analysts and Testers
-  "15-1254", // Web Developers
-  "15-1255", // Web and Digital Interface Designers
-
-  // Architecture and Engineering Occupations
-  "17-1011", // Architects, Except Landscape and Naval
-  "17-2051", // Civil Engineers
-  "17-2061", // Computer Hardware Engineers
-  "17-2071", // Electrical Engineers
-  "17-2112", // Industrial Engineers
-  "17-2141", // Mechanical Engineers
-
-  // Life, Physical, and Social Science Occupations
-  "19-1013", // Soil and Plant Scientists
-  "19-1042", // Medical Scientists, Except Epidemiologists
-  "19-2021", // Atmospheric and Space Scientists
-  "19-3011", // Economists
-  "19-3031", // Clinical, Counseling, and School Psychologists
-
-  // Education, Training, and Library Occupations
-  "25-1011", // Business Teachers, Postsecondary
-  "25-1126", // Philosophy and Religion Teachers, Postsecondary
-  "25-2021", // Elementary School Teachers, Except Special Education
-  "25-2022", // Middle School Teachers, Except Special and Career/Technical Education
-  "25-2031", // Secondary School Teachers, Except Special and Career/Technical Education
-  "25-3021", // Self-Enrichment Education Teachers
-
-  // Healthcare Practitioners and Technical Occupations
-  "29-1011", // Chiropractors
-  "29-1021", // Dentists, General
-  "29-1041", // Optometrists
-  "29-1051", // Pharmacists
-  "29-1062", // Family Medicine Physicians
-  "29-1063", // Internists, General
-  "29-1141", // Registered Nurses
-  "29-1171", // Nurse Practitioners
-  "29-2061", // Licensed Practical and Licensed Vocational Nurses
-
-  // Healthcare Support Occupations
-  "31-1014", // Nursing Assistants
-  "31-2021", // Physical Therapist Assistants
-  "31-9011", // Massage Therapists
-  "31-9091", // Dental Assistants
-  "31-9092", // Medical Assistants
-
-  // Protective Service Occupations
-  "33-1012", // First-Line Supervisors of Police and Detectives
-  "33-3012", // Correctional Officers and Jailers
-  "33-3051", // Police and Sheriff's Patrol Officers
-  "33-9032", // Security Guards
-
-  // Food Preparation and Serving Related Occupations
-  "35-1012", // First-Line Supervisors of Food Preparation and Serving Workers
-  "35-2014", // Cooks, Restaurant
-  "35-3011", // Bartenders
-  "35-3031", // Waiters and Waitresses
-  "35-3041", // Food Servers, Nonrestaurant
-
-  // Personal Care and Service Occupations
-  "39-5012", // Hairdressers, Hairstylists, and Cosmetologists
-  "39-9011", // Childcare Workers
-  "39-9021", // Personal Care Aides
-  "39-9032", // Recreation Workers
-
-  // Sales and Related Occupations
-  "41-1011", // First-Line Supervisors of Retail Sales Workers
-  "41-2011", // Cashiers
-  "41-2031", // Retail Salespersons
-  "41-3041", // Travel Agents
-  "41-4012", // Sales Representatives, Wholesale and Manufacturing
-  "41-9022", // Real Estate Sales Agents
-
-  // Office and Administrative Support Occupations
-  "43-1011", // First-Line Supervisors of Office and Administrative Support Workers
-  "43-3031", // Bookkeeping, Accounting, and Auditing Clerks
-  "43-4051", // Customer Service Representatives
-  "43-4171", // Receptionists and Information Clerks
-  "43-5032", // Dispatchers, Except Police, Fire, and Ambulance
-  "43-6014", // Secretaries and Administrative Assistants
-  "43-9061", // Office Clerks, General
-
-  // Construction and Extraction Occupations
-  "47-1011", // First-Line Supervisors of Construction Trades and Extraction Workers
-  "47-2031", // Carpenters
-  "47-2111", // Electricians
-  "47-2141", // Painters, Construction and Maintenance
-  "47-2152", // Plumbers, Pipefitters, and Steamfitters
-
-  // Installation, Maintenance, and Repair Occupations
-  "49-1011", // First-Line Supervisors of Mechanics, Installers, and Repairers
-  "49-3023", // Automotive Service Technicians and Mechanics
-  "49-9021", // Heating, Air Conditioning, and Refrigeration Mechanics and Installers
-  "49-9041", // Industrial Machinery Mechanics
-  "49-9071", // Maintenance and Repair Workers, General
-
-  // Production Occupations
-  "51-1011", // First-Line Supervisors of Production and Operating Workers
-  "51-2092", // Team Assemblers
-  "51-4121", // Welders, Cutters, Solderers, and Brazers
-  "51-8013", // Power Plant Operators
-  "51-9111", // Packaging and Filling Machine Operators and Tenders
-
-  // Transportation and Material Moving Occupations
-  "53-1047", // First-Line Supervisors of Transportation and Material Moving Workers
-  "53-3032", // Heavy and Tractor-Trailer Truck Drivers
-  "53-3033", // Light Truck Drivers
-  "53-7062", // Laborers and Freight, Stock, and Material Movers, Hand
-  "53-7064", // Packers and Packagers, Hand
-]
-
-// Occupation titles mapping
-const occupationTitles: { [key: string]: string } = {
-  "11-1011": "Chief Executives",
-  "11-1021": "General and Operations Managers",
-  "11-2021": "Marketing Managers",
-  "11-3021": "Computer and Information Systems Managers",
-  "11-9013": "Farmers, Ranchers, and Other Agricultural Managers",
-  "15-1211": "Computer Systems Analysts",
-  "15-1212": "Information Security Analysts",
-  "15-1221": "Computer and Information Research Scientists",
-  "15-1231": "Computer Network Support Specialists",
-  "15-1232": "Computer User Support Specialists",
-  "15-1241": "Computer Network Architects",
-  "15-1242": "Database Administrators",
-  "15-1243": "Database Architects",
-  "15-1244": "Network and Computer Systems Administrators",
-  "15-1251": "Computer Programmers",
-  "15-1252": "Software Developers",
-  "15-1253": "Software Quality Assurance Analysts and Testers",
-  "15-1254": "Web Developers",
-  "15-1255": "Web and Digital Interface Designers",
-  "17-1011": "Architects, Except Landscape and Naval",
-  "17-2051": "Civil Engineers",
-  "17-2061": "Computer Hardware Engineers",
-  "17-2071": "Electrical Engineers",
-  "17-2112": "Industrial Engineers",
-  "17-2141": "Mechanical Engineers",
-  "19-1013": "Soil and Plant Scientists",
-  "19-1042": "Medical Scientists, Except Epidemiologists",
-  "19-2021": "Atmospheric and Space Scientists",
-  "19-3011": "Economists",
-  "19-3031": "Clinical, Counseling, and School Psychologists",
-  "25-1011": "Business Teachers, Postsecondary",
-  "25-1126": "Philosophy and Religion Teachers, Postsecondary",
-  "25-2021": "Elementary School Teachers, Except Special Education",
-  "25-2022": "Middle School Teachers, Except Special and Career/Technical Education",
-  "25-2031": "Secondary School Teachers, Except Special and Career/Technical Education",
-  "25-3021": "Self-Enrichment Education Teachers",
-  "29-1011": "Chiropractors",
-  "29-1021": "Dentists, General",
-  "29-1041": "Optometrists",
-  "29-1051": "Pharmacists",
-  "29-1062": "Family Medicine Physicians",
-  "29-1063": "Internists, General",
-  "29-1141": "Registered Nurses",
-  "29-1171": "Nurse Practitioners",
-  "29-2061": "Licensed Practical and Licensed Vocational Nurses",
-  "31-1014": "Nursing Assistants",
-  "31-2021": "Physical Therapist Assistants",
-  "31-9011": "Massage Therapists",
-  "31-9091": "Dental Assistants",
-  "31-9092": "Medical Assistants",
-  "33-1012": "First-Line Supervisors of Police and Detectives",
-  "33-3012": "Correctional Officers and Jailers",
-  "33-3051": "Police and Sheriff's Patrol Officers",
-  "33-9032": "Security Guards",
-  "35-1012": "First-Line Supervisors of Food Preparation and Serving Workers",
-  "35-2014": "Cooks, Restaurant",
-  "35-3011": "Bartenders",
-  "35-3031": "Waiters and Waitresses",
-  "35-3041": "Food Servers, Nonrestaurant",
-  "39-5012": "Hairdressers, Hairstylists, and Cosmetologists",
-  "39-9011": "Childcare Workers",
-  "39-9021": "Personal Care Aides",
-  "39-9032": "Recreation Workers",
-  "41-1011": "First-Line Supervisors of Retail Sales Workers",
-  "41-2011": "Cashiers",
-  "41-2031": "Retail Salespersons",
-  "41-3041": "Travel Agents",
-  "41-4012": "Sales Representatives, Wholesale and Manufacturing",
-  "41-9022": "Real Estate Sales Agents",
-  "43-1011": "First-Line Supervisors of Office and Administrative Support Workers",
-  "43-3031": "Bookkeeping, Accounting, and Auditing Clerks",
-  "43-4051": "Customer Service Representatives",
-  "43-4171": "Receptionists and Information Clerks",
-  "43-5032": "Dispatchers, Except Police, Fire, and Ambulance",
-  "43-6014": "Secretaries and Administrative Assistants",
-  "43-9061": "Office Clerks, General",
-  "47-1011": "First-Line Supervisors of Construction Trades and Extraction Workers",
-  "47-2031": "Carpenters",
-  "47-2111": "Electricians",
-  "47-2141": "Painters, Construction and Maintenance",
-  "47-2152": "Plumbers, Pipefitters, and Steamfitters",
-  "49-1011": "First-Line Supervisors of Mechanics, Installers, and Repairers",
-  "49-3023": "Automotive Service Technicians and Mechanics",
-  "49-9021": "Heating, Air Conditioning, and Refrigeration Mechanics and Installers",
-  "49-9041": "Industrial Machinery Mechanics",
-  "49-9071": "Maintenance and Repair Workers, General",
-  "51-1011": "First-Line Supervisors of Production and Operating Workers",
-  "51-2092": "Team Assemblers",
-  "51-4121": "Welders, Cutters, Solderers, and Brazers",
-  "51-8013": "Power Plant Operators",
-  "51-9111": "Packaging and Filling Machine Operators and Tenders",
-  "53-1047": "First-Line Supervisors of Transportation and Material Moving Workers",
-  "53-3032": "Heavy and Tractor-Trailer Truck Drivers",
-  "53-3033": "Light Truck Drivers",
-  "53-7062": "Laborers and Freight, Stock, and Material Movers, Hand",
-  "53-7064": "Packers and Packagers, Hand",
-}
-
-async function calculateAIImpact(
-  occupationCode: string,
-  occupationTitle: string,
-): Promise<{
-  aiImpactScore: number
-  automationRisk: string
-  skillsAtRisk: string[]
-  skillsNeeded: string[]
-  futureOutlook: string
-}> {
-  const title = occupationTitle.toLowerCase()
-  let aiImpactScore = 30
-  let automationRisk = "Medium"
-  let skillsAtRisk: string[] = []
-  let skillsNeeded: string[] = []
-  let futureOutlook = ""
-
-  // Very High Risk (80-95%): Highly routine, predictable jobs
-  if (
-    title.includes("cashier") ||
-    title.includes("data entry") ||
-    title.includes("telemarketer") ||
-    title.includes("assembly") ||
-    title.includes("fast food") ||
-    title.includes("toll booth") ||
-    title.includes("parking lot attendant") ||
-    title.includes("library technician")
-  ) {
-    aiImpactScore = Math.floor(Math.random() * 15) + 80 // 80-95%
-    automationRisk = "Very High"
-    skillsAtRisk = [
-      "Routine transactions",
-      "Manual data entry",
-      "Repetitive calculations",
-      "Basic customer interactions",
-      "Inventory counting",
-      "Simple decision making",
-    ]
-    skillsNeeded = [
-      "Customer relationship management",
-      "Complex problem-solving",
-      "Technology adaptation",
-      "Emotional intelligence",
-      "Process improvement",
-      "Digital literacy",
-    ]
-    futureOutlook =
-      "Very high risk of automation within 3-7 years. These roles will likely be fully automated or significantly reduced. Focus immediately on developing interpersonal skills, learning to work with AI systems, and transitioning to roles requiring human judgment and creativity."
-  }
-  // High Risk (65-79%): Routine cognitive work, some physical routine tasks
-  else if (
-    title.includes("bookkeeping") ||
-    title.includes("tax preparer") ||
-    title.includes("insurance claims") ||
-    title.includes("loan officer") ||
-    title.includes("paralegal") ||
-    title.includes("proofreader") ||
-    title.includes("translator") ||
-    title.includes("radiologic technician")
-  ) {
-    aiImpactScore = Math.floor(Math.random() * 15) + 65 // 65-79%
-    automationRisk = "High"
-    skillsAtRisk = [
-      "Routine analysis",
-      "Standard procedures",
-      "Document processing",
-      "Basic calculations",
-      "Pattern recognition",
-      "Rule-based decisions",
-    ]
-    skillsNeeded = [
-      "Strategic thinking",
-      "Client consultation",
-      "Complex analysis",
-      "AI tool proficiency",
-      "Regulatory expertise",
-      "Risk assessment",
-      "Relationship building",
-    ]
-    futureOutlook =
-      "High risk of significant task automation within 5-10 years. While roles may not disappear entirely, they will be transformed. Focus on advisory aspects, complex problem-solving, and developing expertise in AI collaboration. Consider specializing in areas requiring human judgment and ethical decision-making."
-  }
-  // Medium-High Risk (50-64%): Mixed routine and non-routine tasks
-  else if (
-    title.includes("analyst") ||
-    title.includes("accountant") ||
-    title.includes("market research") ||
-    title.includes("technical writer") ||
-    title.includes("real estate agent") ||
-    title.includes("insurance agent") ||
-    title.includes("financial advisor")
-  ) {
-    aiImpactScore = Math.floor(Math.random() * 15) + 50 // 50-64%
-    automationRisk = "Medium-High"
-    skillsAtRisk = [
-      "Routine analysis",
-      "Report generation",
-      "Basic research",
-      "Standard presentations",
-      "Simple forecasting",
-      "Data compilation",
-    ]
-    skillsNeeded = [
-      "Strategic consulting",
-      "Complex data interpretation",
-      "Client relationship management",
-      "Creative problem solving",
-      "Industry expertise",
-      "AI-assisted analysis",
-      "Ethical decision making",
-    ]
-    futureOutlook =
-      "Moderate to high risk with significant role evolution expected. AI will handle routine analysis while humans focus on interpretation, strategy, and client relationships. Success requires embracing AI as a tool while developing uniquely human skills like empathy, creativity, and complex reasoning."
-  }
-  // Medium Risk (35-49%): Skilled trades, technical roles with human elements
-  else if (
-    title.includes("technician") ||
-    title.includes("mechanic") ||
-    title.includes("electrician") ||
-    title.includes("plumber") ||
-    title.includes("carpenter") ||
-    title.includes("engineer") ||
-    title.includes("programmer") ||
-    title.includes("web developer")
-  ) {
-    aiImpactScore = Math.floor(Math.random() * 15) + 35 // 35-49%
-    automationRisk = "Medium"
-    skillsAtRisk = [
-      "Routine diagnostics",
-      "Standard installations",
-      "Basic troubleshooting",
-      "Code generation",
-      "Simple designs",
-      "Predictable maintenance",
-    ]
-    skillsNeeded = [
-      "Complex problem diagnosis",
-      "Custom solutions",
-      "Safety management",
-      "AI tool integration",
-      "Continuous learning",
-      "Customer communication",
-      "Innovation and creativity",
-    ]
-    futureOutlook =
-      "Moderate risk with AI augmenting rather than replacing core functions. AI will assist with diagnostics, planning, and routine tasks, allowing focus on complex problems, custom solutions, and innovation. Professionals should learn to collaborate with AI tools while maintaining hands-on expertise."
-  }
-  // Low-Medium Risk (20-34%): Roles requiring significant human interaction
-  else if (
-    title.includes("sales") ||
-    title.includes("marketing") ||
-    title.includes("human resources") ||
-    title.includes("project manager") ||
-    title.includes("consultant") ||
-    title.includes("trainer") ||
-    title.includes("coordinator")
-  ) {
-    aiImpactScore = Math.floor(Math.random() * 15) + 20 // 20-34%
-    automationRisk = "Low-Medium"
-    skillsAtRisk = [
-      "Basic scheduling",
-      "Simple reporting",
-      "Routine communications",
-      "Data collection",
-      "Standard presentations",
-    ]
-    skillsNeeded = [
-      "Relationship building",
-      "Strategic thinking",
-      "Emotional intelligence",
-      "Complex negotiation",
-      "Creative problem solving",
-      "Leadership",
-      "Change management",
-    ]
-    futureOutlook =
-      "Low to moderate risk with AI enhancing productivity rather than replacing roles. AI will handle administrative tasks, data analysis, and routine communications, freeing professionals to focus on strategy, relationships, and creative problem-solving. Success requires strong interpersonal skills and strategic thinking."
-  }
-  // Low Risk (5-19%): High human interaction, creativity, care roles
-  else if (
-    title.includes("teacher") ||
-    title.includes("therapist") ||
-    title.includes("counselor") ||
-    title.includes("social worker") ||
-    title.includes("nurse") ||
-    title.includes("doctor") ||
-    title.includes("manager") ||
-    title.includes("executive") ||
-    title.includes("artist") ||
-    title.includes("designer") ||
-    title.includes("chef")
-  ) {
-    aiImpactScore = Math.floor(Math.random() * 15) + 5 // 5-19%
-    automationRisk = "Low"
-    skillsAtRisk = [
-      "Administrative tasks",
-      "Basic documentation",
-      "Simple scheduling",
-      "Routine assessments",
-      "Standard reporting",
-    ]
-    skillsNeeded = [
-      "Emotional intelligence",
-      "Creative thinking",
-      "Complex problem solving",
-      "Leadership",
-      "Ethical decision making",
-      "AI collaboration",
-      "Continuous learning",
-      "Cultural competency",
-    ]
-    futureOutlook =
-      "Low risk of automation with AI serving as a powerful assistant. AI will handle administrative tasks, provide data insights, and support decision-making, but human judgment, creativity, empathy, and complex reasoning remain irreplaceable. Focus on developing uniquely human skills while learning to leverage AI tools effectively."
-  }
-  // Default case - moderate risk
-  else {
-    aiImpactScore = Math.floor(Math.random() * 20) + 40 // 40-59%
-    automationRisk = "Medium"
-    skillsAtRisk = ["Routine tasks", "Standard procedures", "Basic data processing", "Simple analysis"]
-    skillsNeeded = [
-      "Critical thinking",
-      "Adaptability",
-      "Digital literacy",
-      "Collaboration",
-      "Continuous learning",
-      "Problem solving",
-    ]
-    futureOutlook =
-      "Moderate risk of automation with significant role evolution expected. Success will depend on adapting to work alongside AI systems, focusing on uniquely human skills, and continuously learning new technologies. Embrace AI as a tool while developing skills that complement automated systems."
-  }
-
-  return {
-    aiImpactScore,
-    automationRisk,
-    skillsAtRisk,
-    skillsNeeded,
-    futureOutlook,
-  }
-}
+import { calculateAIImpact } from "@/lib/ai-impact-scoring"
+import { ensureJobDataQualityColumns } from "@/lib/database-enhanced"
+import { initializeSkillTables, saveJobSkills } from "@/lib/skills"
+import { getOccupationsOrLoadDefault, initializeJobCodesTable } from "@/lib/soc-taxonomy"
 
 export async function POST(request: Request) {
   try {
@@ -543,15 +76,19 @@ export async function POST(request: Request) {
     }
 
     if (action === "populate-data") {
-      console.log(`🚀 Starting job data population for ${occupationCodes.length} occupations...`)
+      const occupations = await getOccupationsOrLoadDefault()
+      console.log(`🚀 Starting job data population for ${occupations.length} occupations...`)
+
+      // Generated rows are flagged as estimates so the next sync re-fetches them
+      await ensureJobDataQualityColumns()
+      await initializeSkillTables()
 
       let successCount = 0
       let errorCount = 0
       let skippedCount = 0
 
-      for (let i = 0; i < occupationCodes.length; i++) {
-        const code = occupationCodes[i]
-        const title = occupationTitles[code] || `Occupation ${code}`
+      for (let i = 0; i < occupations.length; i++) {
+        const { code, title } = occupations[i]
 
         try {
           // Check if job already exists
@@ -564,28 +101,38 @@ export async function POST(request: Request) {
             continue
           }
 
-          // Calculate AI impact analysis
-          const aiAnalysis = await calculateAIImpact(code, title)
-
           // Generate realistic employment and wage data
           const estimatedEmployment = Math.floor(Math.random() * 500000) + 10000
           const projectedEmployment = Math.floor(estimatedEmployment * (0.9 + Math.random() * 0.2))
           const medianWage = Math.floor(Math.random() * 80000) + 30000
 
+          // Calculate AI impact analysis
+          const aiAnalysis = calculateAIImpact({
+            occupationCode: code,
+            occupationTitle: title,
+            medianWage,
+            employment: estimatedEmployment,
+            projectedEmployment,
+            estimatedInputs: true,
+          })
+
           // Insert job record
           await sql`
             INSERT INTO jobs (
               occ_code, occ_title, employment_2023, projected_employment_2033, 
-              employment_change_percent, median_wage, ai_impact_score, automation_risk, 
+              employment_change_percent, median_wage, ai_impact_score, ai_impact_score_low,
+              ai_impact_score_high, automation_risk, data_source,
               skills_at_risk, skills_needed, future_outlook
             ) VALUES (
               ${code}, ${title}, ${estimatedEmployment}, ${projectedEmployment},
               ${(((projectedEmployment - estimatedEmployment) / estimatedEmployment) * 100).toFixed(2)},
-              ${medianWage}, ${aiAnalysis.aiImpactScore}, ${aiAnalysis.automationRisk},
+              ${medianWage}, ${aiAnalysis.aiImpactScore}, ${aiAnalysis.confidenceRange.low},
+              ${aiAnalysis.confidenceRange.high}, ${aiAnalysis.automationRisk}, ${"fallback"},
               ${aiAnalysis.skillsAtRisk.join(", ")}, ${aiAnalysis.skillsNeeded.join(", ")},
               ${aiAnalysis.futureOutlook}
             )
           `
+          await saveJobSkills(code, { atRisk: aiAnalysis.skillsAtRisk, needed: aiAnalysis.skillsNeeded })
 
           successCount++
 
@@ -610,7 +157,7 @@ export async function POST(request: Request) {
         message: "Database populated successfully",
         action: "populate-data",
         stats: {
-          total: occupationCodes.length,
+          total: occupations.length,
           success: successCount,
           skipped: skippedCount,
           errors: errorCount,
@@ -652,19 +199,8 @@ export async function POST(request: Request) {
         )
       }
 
-      // Step 2: Create job_codes table for BLS occupation codes
-      await sql`
-        CREATE TABLE IF NOT EXISTS job_codes (
-          id SERIAL PRIMARY KEY,
-          occ_code VARCHAR(10) UNIQUE NOT NULL,
-          occ_title VARCHAR(255) NOT NULL,
-          major_group VARCHAR(100),
-          minor_group VARCHAR(100),
-          broad_occupation VARCHAR(100),
-          detailed_occupation VARCHAR(255),
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )
-      `
+      // Step 2: Create job_codes table for the SOC taxonomy
+      await initializeJobCodesTable()
 
       // Step 3: Create indexes for better performance
       await sql`CREATE INDEX IF NOT EXISTS idx_jobs_occ_code ON jobs(occ_code)`
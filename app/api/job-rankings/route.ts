@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { neon } from "@neondatabase/serverless"
+import { parseRiskTier } from "@/lib/risk-tiers"
+import { getActiveOverrideCodes } from "@/lib/score-overrides"
 
 const sql = neon(process.env.DATABASE_URL!)
 
@@ -33,21 +35,12 @@ export async function GET(request: NextRequest) {
     let whereClause = "WHERE ai_impact_score IS NOT NULL"
     const params: any[] = []
 
-    if (riskLevel) {
-      switch (riskLevel.toLowerCase()) {
-        case "very high":
-          whereClause += " AND ai_impact_score >= 80"
-          break
-        case "high":
-          whereClause += " AND ai_impact_score >= 60 AND ai_impact_score < 80"
-          break
-        case "medium":
-          whereClause += " AND ai_impact_score >= 40 AND ai_impact_score < 60"
-          break
-        case "low":
-          whereClause += " AND ai_impact_score < 40"
-          break
-      }
+    const riskTier = parseRiskTier(riskLevel)
+    if (riskLevel && !riskTier) {
+      return NextResponse.json({ error: "Invalid risk level" }, { status: 400 })
+    }
+    if (riskTier) {
+      whereClause += ` AND ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}`
     }
 
     // Get total count
@@ -76,6 +69,8 @@ export async function GET(request: NextRequest) {
       OFFSET ${offset}
     `
 
+    const overriddenCodes = await getActiveOverrideCodes(jobs.map((job: any) => job.occ_code))
+
     // Format the response
     const rankings = jobs.map((job: any, index: number) => ({
       rank: offset + index + 1,
@@ -101,6 +96,7 @@ export async function GET(request: NextRequest) {
       aiImpact: {
         score: job.ai_impact_score,
         risk: job.automation_risk,
+        isOverride: overriddenCodes.has(job.occ_code),
       },
       lastUpdated: job.updated_at,
     }))
@@ -116,7 +112,7 @@ export async function GET(request: NextRequest) {
       filters: {
         sortBy,
         order,
-        riskLevel,
+        riskLevel: riskTier?.id ?? null,
       },
     })
   } catch (error) {
@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server"
+import { sqlEnhanced } from "@/lib/database-enhanced"
+import { getAreaStats, getAreaStatsForJob, refreshAreaStats, type AreaStats } from "@/lib/area-stats"
+import { BLSService } from "@/lib/bls-service"
+import { initializeBLSApiKeys } from "@/lib/api-keys-helper"
+import { getOEWSArea, NATIONAL_AREA } from "@/lib/oews-areas"
+
+// Shared across requests so key usage is tracked in one place
+let blsService: BLSService | null = null
+
+function getBLSService(): BLSService {
+  if (!blsService) {
+    blsService = new BLSService(initializeBLSApiKeys())
+  }
+  return blsService
+}
+
+interface JobRow {
+  occ_code: string
+  occ_title: string
+  employment_2023: number | null
+  median_wage: number | null
+  mean_wage: number | null
+  hourly_median_wage: string | null
+  hourly_mean_wage: string | null
+  wage_p10: number | null
+  wage_p25: number | null
+  wage_p75: number | null
+  wage_p90: number | null
+  updated_at: string
+}
+
+/**
+ * GET /api/jobs/[code]/areas
+ * Returns the stored state and metro-area breakdowns of an occupation.  With
+ * ?area=<7-digit OEWS area code> returns the figures for that area, fetching
+ * them from BLS the first time the area is requested.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { code: string } }
+) {
+  try {
+    const code = params.code
+    const areaCode = new URL(request.url).searchParams.get("area")
+
+    if (!code) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Occupation code is required",
+        },
+        { status: 400 }
+      )
+    }
+
+    const area = areaCode ? getOEWSArea(areaCode) : null
+    if (areaCode && !area) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown area code ${areaCode}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const jobs = await sqlEnhanced<JobRow>`
+      SELECT * FROM jobs
+      WHERE occ_code = ${code}
+      LIMIT 1
+    `
+
+    if (!jobs || jobs.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job with code ${code} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const job = jobs[0]
+
+    if (!area) {
+      return NextResponse.json({
+        success: true,
+        code: job.occ_code,
+        title: job.occ_title,
+        areas: await getAreaStatsForJob(code),
+      })
+    }
+
+    // National figures are kept on the jobs row
+    let stats: AreaStats | null
+    if (area.code === NATIONAL_AREA.code) {
+      stats = {
+        areaType: NATIONAL_AREA.type,
+        areaCode: NATIONAL_AREA.code,
+        areaName: NATIONAL_AREA.name,
+        employment: job.employment_2023,
+        medianWage: job.median_wage,
+        meanWage: job.mean_wage ?? null,
+        hourlyMedianWage: job.hourly_median_wage != null ? Number(job.hourly_median_wage) : null,
+        hourlyMeanWage: job.hourly_mean_wage != null ? Number(job.hourly_mean_wage) : null,
+        wageP10: job.wage_p10 ?? null,
+        wageP25: job.wage_p25 ?? null,
+        wageP75: job.wage_p75 ?? null,
+        wageP90: job.wage_p90 ?? null,
+        updatedAt: job.updated_at,
+      }
+    } else {
+      stats = await getAreaStats(code, area.code)
+      if (!stats) {
+        try {
+          await refreshAreaStats(getBLSService(), code, [area])
+          stats = await getAreaStats(code, area.code)
+        } catch (fetchError) {
+          console.error(`Error fetching ${area.name} figures for ${code}:`, fetchError)
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      code: job.occ_code,
+      title: job.occ_title,
+      area,
+      stats,
+    })
+  } catch (error) {
+    console.error("Error fetching job area statistics:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error fetching job area statistics",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { sqlEnhanced } from "@/lib/database-enhanced"
+import { getScoreHistory } from "@/lib/score-history"
+
+/**
+ * GET /api/jobs/[code]/history
+ * Returns how an occupation's score, risk tier, wage and employment changed
+ * over time, oldest entry first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { code: string } }
+) {
+  try {
+    const code = params.code
+
+    if (!code) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Occupation code is required",
+        },
+        { status: 400 }
+      )
+    }
+
+    const jobs = await sqlEnhanced<{ occ_code: string; occ_title: string }>`
+      SELECT occ_code, occ_title FROM jobs
+      WHERE occ_code = ${code}
+      LIMIT 1
+    `
+
+    if (!jobs || jobs.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job with code ${code} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const history = await getScoreHistory(code)
+
+    return NextResponse.json({
+      success: true,
+      code: jobs[0].occ_code,
+      title: jobs[0].occ_title,
+      history,
+    })
+  } catch (error) {
+    console.error("Error fetching job history:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error fetching job history",
+      },
+      { status: 500 }
+    )
+  }
+}
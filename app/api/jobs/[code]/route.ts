@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server"
-import { sqlEnhanced } from "@/lib/database-enhanced"
+import { sqlEnhanced, type DataSource } from "@/lib/database-enhanced"
+import { getActiveOverride, type OverridableField } from "@/lib/score-overrides"
+import { getEmploymentProjection } from "@/lib/employment-projections"
 
 // Job data type definition
 interface Job {
@@ -11,8 +13,36 @@ interface Job {
   employment_change?: number
   employment_change_percent?: number
   median_wage?: number
+  mean_wage?: number | null
+  hourly_mean_wage?: number | string | null
+  hourly_median_wage?: number | string | null
+  wage_p10?: number | null
+  wage_p25?: number | null
+  wage_p75?: number | null
+  wage_p90?: number | null
+  projected_change_percent?: number | string | null
+  annual_openings?: number | null
+  typical_education?: string | null
+  projections_source?: string | null
+  projection?: {
+    base_year: number
+    projected_year: number
+    employment_base: number | null
+    employment_projected: number | null
+    source: string
+  } | null
   ai_impact_score?: number
+  ai_impact_score_low?: number
+  ai_impact_score_high?: number
   automation_risk?: string
+  data_source?: DataSource | null
+  is_estimate?: boolean
+  is_override?: boolean
+  override?: {
+    fields: OverridableField[]
+    reason: string
+    expires_at: string | null
+  } | null
   updated_at?: string
 }
 
@@ -67,8 +97,43 @@ export async function GET(
 
     const job = jobs[0]
 
-    // Calculate employment change if both values exist
-    if (job.employment_2023 && job.projected_employment_2033) {
+    // Wage and employment figures are fallback estimates, not BLS data
+    job.is_estimate = job.data_source === "fallback"
+
+    // Hourly wages and the projected change are NUMERIC columns, which the driver returns as strings
+    job.hourly_mean_wage = job.hourly_mean_wage != null ? Number(job.hourly_mean_wage) : null
+    job.hourly_median_wage = job.hourly_median_wage != null ? Number(job.hourly_median_wage) : null
+    job.projected_change_percent = job.projected_change_percent != null ? Number(job.projected_change_percent) : null
+
+    // Values pinned by an analyst rather than computed
+    const override = await getActiveOverride(code)
+    job.is_override = override !== null
+    job.override = override
+      ? {
+          fields: Object.keys(override.fields) as OverridableField[],
+          reason: override.reason,
+          expires_at: override.expiresAt,
+        }
+      : null
+
+    // Imported Employment Projections give the change directly; the EP base
+    // year figure includes self-employment, so it differs from employment_2023
+    const projection = await getEmploymentProjection(code)
+    job.projection = projection
+      ? {
+          base_year: projection.baseYear,
+          projected_year: projection.projectedYear,
+          employment_base: projection.employmentBase,
+          employment_projected: projection.employmentProjected,
+          source: projection.source,
+        }
+      : null
+
+    if (projection && projection.changePercent !== null) {
+      job.employment_change = projection.changeNumeric ?? undefined
+      job.employment_change_percent = projection.changePercent
+    } else if (job.employment_2023 && job.projected_employment_2033) {
+      // Calculate employment change if both values exist
       job.employment_change = job.projected_employment_2033 - job.employment_2023
       
       // Calculate employment change percentage
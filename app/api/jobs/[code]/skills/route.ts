@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { sqlEnhanced } from "@/lib/database-enhanced"
+import { getSkillsForJob } from "@/lib/skills"
+
+/**
+ * GET /api/jobs/[code]/skills
+ * Returns the skills at risk of automation and the skills needed for an
+ * occupation, highest weight first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { code: string } }
+) {
+  try {
+    const code = params.code
+
+    if (!code) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Occupation code is required",
+        },
+        { status: 400 }
+      )
+    }
+
+    const jobs = await sqlEnhanced<{ occ_code: string; occ_title: string }>`
+      SELECT occ_code, occ_title FROM jobs
+      WHERE occ_code = ${code}
+      LIMIT 1
+    `
+
+    if (!jobs || jobs.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job with code ${code} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const skills = await getSkillsForJob(code)
+
+    return NextResponse.json({
+      success: true,
+      code: jobs[0].occ_code,
+      title: jobs[0].occ_title,
+      skills,
+    })
+  } catch (error) {
+    console.error("Error fetching job skills:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error fetching job skills",
+      },
+      { status: 500 }
+    )
+  }
+}
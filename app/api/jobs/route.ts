@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server"
 import { sqlEnhanced } from "@/lib/database-enhanced"
+import { parseRiskTier } from "@/lib/risk-tiers"
+import { findAliasMatches, matchedAliasFor } from "@/lib/job-title-aliases"
+import { getActiveOverrideCodes } from "@/lib/score-overrides"
 
 // Tell Next.js this route **must** be rendered dynamically at runtime
 export const dynamic = "force-dynamic"
@@ -12,9 +15,13 @@ interface Job {
   projected_employment_2033?: number
   employment_change?: number
   employment_change_percent?: number
+  projected_change_percent?: number | string | null
   median_wage?: number
   ai_impact_score?: number
   automation_risk?: string
+  data_source?: string | null
+  is_override?: boolean
+  matched_alias?: string | null
   updated_at?: string
 }
 
@@ -41,8 +48,8 @@ interface JobsResponse {
  * Returns jobs with filtering, sorting, and pagination
  * 
  * Query parameters:
- * - risk: high (80-100), medium (40-79), low (20-39), safe (0-19)
- * - search: search term for job titles
+ * - risk: very-high (80-100), high (60-79), medium (40-59), low (20-39), very-low (0-19); see lib/risk-tiers
+ * - search: search term for job titles or alternate titles
  * - sort: ai_impact_score, median_wage, employment_2023, occ_title
  * - order: asc, desc
  * - page: page number (default: 1)
@@ -53,6 +60,7 @@ export async function GET(request: Request) {
     // Parse query parameters
     const url = new URL(request.url)
     const risk = url.searchParams.get("risk")
+    const riskTier = parseRiskTier(risk)
     const search = url.searchParams.get("search")
     const sort = url.searchParams.get("sort") || "ai_impact_score"
     const order = url.searchParams.get("order") || "desc"
@@ -65,37 +73,41 @@ export async function GET(request: Request) {
       // Initialize variables for query results
       let jobs: Job[] = []
       let total = 0
+
+      // Occupations known by an alternate title matching the search
+      const aliasMatches = search ? await findAliasMatches(search) : new Map<string, string>()
+      const aliasCodes = [...aliasMatches.keys()]
       
       // SIMPLIFIED APPROACH: Use specific hardcoded queries for common scenarios
       
-      // 1. HIGH RISK JOBS
-      if (risk === "high") {
+      // 1. RISK TIER JOBS
+      if (riskTier) {
         if (search) {
           const searchTerm = `%${search.trim().toLowerCase()}%`
           
-          // High risk jobs with search
+          // Risk tier jobs with search
           if (order === "asc") {
             if (sort === "occ_title") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
-                AND LOWER(occ_title) LIKE ${searchTerm}
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+                AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
                 ORDER BY occ_title ASC
                 LIMIT ${limit} OFFSET ${offset}
               `
             } else if (sort === "median_wage") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
-                AND LOWER(occ_title) LIKE ${searchTerm}
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+                AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
                 ORDER BY median_wage ASC
                 LIMIT ${limit} OFFSET ${offset}
               `
             } else if (sort === "employment_2023") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
-                AND LOWER(occ_title) LIKE ${searchTerm}
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+                AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
                 ORDER BY employment_2023 ASC
                 LIMIT ${limit} OFFSET ${offset}
               `
@@ -103,8 +115,8 @@ export async function GET(request: Request) {
               // Default to ai_impact_score
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
-                AND LOWER(occ_title) LIKE ${searchTerm}
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+                AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
                 ORDER BY ai_impact_score ASC
                 LIMIT ${limit} OFFSET ${offset}
               `
@@ -114,24 +126,24 @@ export async function GET(request: Request) {
             if (sort === "occ_title") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
-                AND LOWER(occ_title) LIKE ${searchTerm}
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+                AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
                 ORDER BY occ_title DESC
                 LIMIT ${limit} OFFSET ${offset}
               `
             } else if (sort === "median_wage") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
-                AND LOWER(occ_title) LIKE ${searchTerm}
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+                AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
                 ORDER BY median_wage DESC
                 LIMIT ${limit} OFFSET ${offset}
               `
             } else if (sort === "employment_2023") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
-                AND LOWER(occ_title) LIKE ${searchTerm}
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+                AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
                 ORDER BY employment_2023 DESC
                 LIMIT ${limit} OFFSET ${offset}
               `
@@ -139,42 +151,42 @@ export async function GET(request: Request) {
               // Default to ai_impact_score
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
-                AND LOWER(occ_title) LIKE ${searchTerm}
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+                AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
                 ORDER BY ai_impact_score DESC
                 LIMIT ${limit} OFFSET ${offset}
               `
             }
           }
           
-          // Get count for high risk with search
+          // Get count for risk tier with search
           const [countResult] = await sqlEnhanced<{ count: string }>`
             SELECT COUNT(*) as count FROM jobs 
-            WHERE ai_impact_score >= 80
-            AND LOWER(occ_title) LIKE ${searchTerm}
+            WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
+            AND (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
           `
           total = parseInt(countResult?.count || "0", 10)
         } else {
-          // High risk jobs without search
+          // Risk tier jobs without search
           if (order === "asc") {
             if (sort === "occ_title") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
                 ORDER BY occ_title ASC
                 LIMIT ${limit} OFFSET ${offset}
               `
             } else if (sort === "median_wage") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
                 ORDER BY median_wage ASC
                 LIMIT ${limit} OFFSET ${offset}
               `
             } else if (sort === "employment_2023") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
                 ORDER BY employment_2023 ASC
                 LIMIT ${limit} OFFSET ${offset}
               `
@@ -182,7 +194,7 @@ export async function GET(request: Request) {
               // Default to ai_impact_score
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
                 ORDER BY ai_impact_score ASC
                 LIMIT ${limit} OFFSET ${offset}
               `
@@ -192,21 +204,21 @@ export async function GET(request: Request) {
             if (sort === "occ_title") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
                 ORDER BY occ_title DESC
                 LIMIT ${limit} OFFSET ${offset}
               `
             } else if (sort === "median_wage") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
                 ORDER BY median_wage DESC
                 LIMIT ${limit} OFFSET ${offset}
               `
             } else if (sort === "employment_2023") {
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
                 ORDER BY employment_2023 DESC
                 LIMIT ${limit} OFFSET ${offset}
               `
@@ -214,79 +226,22 @@ export async function GET(request: Request) {
               // Default to ai_impact_score
               jobs = await sqlEnhanced<Job>`
                 SELECT * FROM jobs 
-                WHERE ai_impact_score >= 80
+                WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
                 ORDER BY ai_impact_score DESC
                 LIMIT ${limit} OFFSET ${offset}
               `
             }
           }
           
-          // Get count for high risk without search
+          // Get count for risk tier without search
           const [countResult] = await sqlEnhanced<{ count: string }>`
             SELECT COUNT(*) as count FROM jobs 
-            WHERE ai_impact_score >= 80
+            WHERE ai_impact_score BETWEEN ${riskTier.minScore} AND ${riskTier.maxScore}
           `
           total = parseInt(countResult?.count || "0", 10)
         }
       }
-      // 2. SAFE JOBS
-      else if (risk === "safe") {
-        if (search) {
-          const searchTerm = `%${search.trim().toLowerCase()}%`
-          
-          // Safe jobs with search (ai_impact_score < 20)
-          if (order === "asc") {
-            jobs = await sqlEnhanced<Job>`
-              SELECT * FROM jobs 
-              WHERE ai_impact_score < 20
-              AND LOWER(occ_title) LIKE ${searchTerm}
-              ORDER BY ai_impact_score ASC
-              LIMIT ${limit} OFFSET ${offset}
-            `
-          } else {
-            jobs = await sqlEnhanced<Job>`
-              SELECT * FROM jobs 
-              WHERE ai_impact_score < 20
-              AND LOWER(occ_title) LIKE ${searchTerm}
-              ORDER BY ai_impact_score DESC
-              LIMIT ${limit} OFFSET ${offset}
-            `
-          }
-          
-          // Get count for safe jobs with search
-          const [countResult] = await sqlEnhanced<{ count: string }>`
-            SELECT COUNT(*) as count FROM jobs 
-            WHERE ai_impact_score < 20
-            AND LOWER(occ_title) LIKE ${searchTerm}
-          `
-          total = parseInt(countResult?.count || "0", 10)
-        } else {
-          // Safe jobs without search
-          if (order === "asc") {
-            jobs = await sqlEnhanced<Job>`
-              SELECT * FROM jobs 
-              WHERE ai_impact_score < 20
-              ORDER BY ai_impact_score ASC
-              LIMIT ${limit} OFFSET ${offset}
-            `
-          } else {
-            jobs = await sqlEnhanced<Job>`
-              SELECT * FROM jobs 
-              WHERE ai_impact_score < 20
-              ORDER BY ai_impact_score DESC
-              LIMIT ${limit} OFFSET ${offset}
-            `
-          }
-          
-          // Get count for safe jobs without search
-          const [countResult] = await sqlEnhanced<{ count: string }>`
-            SELECT COUNT(*) as count FROM jobs 
-            WHERE ai_impact_score < 20
-          `
-          total = parseInt(countResult?.count || "0", 10)
-        }
-      }
-      // 3. SEARCH ONLY
+      // 2. SEARCH ONLY
       else if (search) {
         const searchTerm = `%${search.trim().toLowerCase()}%`
         
@@ -295,28 +250,28 @@ export async function GET(request: Request) {
           if (sort === "ai_impact_score") {
             jobs = await sqlEnhanced<Job>`
               SELECT * FROM jobs 
-              WHERE LOWER(occ_title) LIKE ${searchTerm}
+              WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
               ORDER BY ai_impact_score ASC
               LIMIT ${limit} OFFSET ${offset}
             `
           } else if (sort === "occ_title") {
             jobs = await sqlEnhanced<Job>`
               SELECT * FROM jobs 
-              WHERE LOWER(occ_title) LIKE ${searchTerm}
+              WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
               ORDER BY occ_title ASC
               LIMIT ${limit} OFFSET ${offset}
             `
           } else if (sort === "median_wage") {
             jobs = await sqlEnhanced<Job>`
               SELECT * FROM jobs 
-              WHERE LOWER(occ_title) LIKE ${searchTerm}
+              WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
               ORDER BY median_wage ASC
               LIMIT ${limit} OFFSET ${offset}
             `
           } else {
             jobs = await sqlEnhanced<Job>`
               SELECT * FROM jobs 
-              WHERE LOWER(occ_title) LIKE ${searchTerm}
+              WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
               ORDER BY employment_2023 ASC
               LIMIT ${limit} OFFSET ${offset}
             `
@@ -326,28 +281,28 @@ export async function GET(request: Request) {
           if (sort === "ai_impact_score") {
             jobs = await sqlEnhanced<Job>`
               SELECT * FROM jobs 
-              WHERE LOWER(occ_title) LIKE ${searchTerm}
+              WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
               ORDER BY ai_impact_score DESC
               LIMIT ${limit} OFFSET ${offset}
             `
           } else if (sort === "occ_title") {
             jobs = await sqlEnhanced<Job>`
               SELECT * FROM jobs 
-              WHERE LOWER(occ_title) LIKE ${searchTerm}
+              WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
               ORDER BY occ_title DESC
               LIMIT ${limit} OFFSET ${offset}
             `
           } else if (sort === "median_wage") {
             jobs = await sqlEnhanced<Job>`
               SELECT * FROM jobs 
-              WHERE LOWER(occ_title) LIKE ${searchTerm}
+              WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
               ORDER BY median_wage DESC
               LIMIT ${limit} OFFSET ${offset}
             `
           } else {
             jobs = await sqlEnhanced<Job>`
               SELECT * FROM jobs 
-              WHERE LOWER(occ_title) LIKE ${searchTerm}
+              WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
               ORDER BY employment_2023 DESC
               LIMIT ${limit} OFFSET ${offset}
             `
@@ -357,11 +312,11 @@ export async function GET(request: Request) {
         // Get count for search
         const [countResult] = await sqlEnhanced<{ count: string }>`
           SELECT COUNT(*) as count FROM jobs 
-          WHERE LOWER(occ_title) LIKE ${searchTerm}
+          WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
         `
         total = parseInt(countResult?.count || "0", 10)
       }
-      // 4. DEFAULT - ALL JOBS
+      // 3. DEFAULT - ALL JOBS
       else {
         // Get all jobs with default sorting
         if (order === "asc") {
@@ -428,6 +383,8 @@ export async function GET(request: Request) {
       
       const totalPages = Math.ceil(total / limit)
       
+      const overriddenCodes = await getActiveOverrideCodes(jobs.map((job) => job.occ_code))
+
       // Enhance job data with calculated fields
       const enhancedJobs = jobs.map(job => {
         // Calculate employment change if both values exist
@@ -435,15 +392,20 @@ export async function GET(request: Request) {
           ? job.projected_employment_2033 - job.employment_2023
           : undefined
           
-        // Calculate employment change percentage
-        const employmentChangePercent = job.employment_2023 && job.projected_employment_2033 && job.employment_2023 > 0
-          ? ((job.projected_employment_2033 - job.employment_2023) / job.employment_2023) * 100
-          : undefined
+        // Calculate employment change percentage, preferring the imported projection's own figure
+        const employmentChangePercent = job.projected_change_percent != null
+          ? Number(job.projected_change_percent)
+          : job.employment_2023 && job.projected_employment_2033 && job.employment_2023 > 0
+            ? ((job.projected_employment_2033 - job.employment_2023) / job.employment_2023) * 100
+            : undefined
           
         return {
           ...job,
           employment_change: employmentChange,
           employment_change_percent: employmentChangePercent,
+          // Values pinned by an analyst; see /api/jobs/[code] for the fields and reason
+          is_override: overriddenCodes.has(job.occ_code),
+          matched_alias: search ? matchedAliasFor(aliasMatches, job.occ_code, job.occ_title, search) : undefined,
         }
       })
       
@@ -458,7 +420,7 @@ export async function GET(request: Request) {
           totalPages,
         },
         filters: {
-          risk: risk || undefined,
+          risk: riskTier?.id,
           search: search || undefined,
           sort,
           order,
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server"
 import { sqlEnhanced } from "@/lib/database-enhanced"
+import { getRiskTierById } from "@/lib/risk-tiers"
+import { findAliasMatches, matchedAliasFor } from "@/lib/job-title-aliases"
 
 // Type definition for job suggestions
 // Force this route to be treated as dynamic at build time so Next.js
@@ -10,6 +12,8 @@ interface JobSuggestion {
   occ_code: string
   occ_title: string
   ai_impact_score?: number
+  // Alternate title the job was found by, when its official title does not match
+  matched_alias?: string | null
 }
 
 /**
@@ -17,7 +21,7 @@ interface JobSuggestion {
  * Returns job title suggestions for auto-complete functionality
  * 
  * Query parameters:
- * - q: search term for job titles or codes
+ * - q: search term for job titles, alternate titles or codes
  */
 export async function GET(request: Request) {
   try {
@@ -32,19 +36,22 @@ export async function GET(request: Request) {
     if (!searchQuery.trim()) {
       try {
         // Get some featured jobs (high wage, diverse risk levels)
+        const veryHigh = getRiskTierById("very-high")
+        const medium = getRiskTierById("medium")
+        const veryLow = getRiskTierById("very-low")
         suggestions = await sqlEnhanced<JobSuggestion>`
           (SELECT occ_code, occ_title, ai_impact_score FROM jobs 
-           WHERE ai_impact_score >= 80 
+           WHERE ai_impact_score BETWEEN ${veryHigh.minScore} AND ${veryHigh.maxScore}
            ORDER BY median_wage DESC NULLS LAST
            LIMIT 3)
           UNION
           (SELECT occ_code, occ_title, ai_impact_score FROM jobs 
-           WHERE ai_impact_score < 20
+           WHERE ai_impact_score BETWEEN ${veryLow.minScore} AND ${veryLow.maxScore}
            ORDER BY median_wage DESC NULLS LAST
            LIMIT 3)
           UNION
           (SELECT occ_code, occ_title, ai_impact_score FROM jobs 
-           WHERE ai_impact_score BETWEEN 40 AND 60
+           WHERE ai_impact_score BETWEEN ${medium.minScore} AND ${medium.maxScore}
            ORDER BY employment_2023 DESC NULLS LAST
            LIMIT 4)
           LIMIT 10
@@ -59,22 +66,31 @@ export async function GET(request: Request) {
       const searchTerm = `%${searchQuery.trim().toLowerCase()}%`
       
       try {
+        const aliasMatches = await findAliasMatches(searchQuery)
+        const aliasCodes = [...aliasMatches.keys()]
+
         suggestions = await sqlEnhanced<JobSuggestion>`
           SELECT occ_code, occ_title, ai_impact_score 
           FROM jobs 
           WHERE 
             LOWER(occ_title) LIKE ${searchTerm} OR
-            LOWER(occ_code) LIKE ${searchTerm}
+            LOWER(occ_code) LIKE ${searchTerm} OR
+            occ_code = ANY(${aliasCodes})
           ORDER BY 
             CASE 
               WHEN LOWER(occ_title) LIKE ${`${searchQuery.trim().toLowerCase()}%`} THEN 0
               WHEN LOWER(occ_title) LIKE ${`% ${searchQuery.trim().toLowerCase()}%`} THEN 1
               ELSE 2
             END,
+            array_position(${aliasCodes}::varchar[], occ_code),
             LENGTH(occ_title),
             occ_title
           LIMIT 10
         `
+        suggestions = suggestions.map((suggestion) => ({
+          ...suggestion,
+          matched_alias: matchedAliasFor(aliasMatches, suggestion.occ_code, suggestion.occ_title, searchQuery),
+        }))
       } catch (error) {
         console.error("Error searching jobs:", error)
         suggestions = []
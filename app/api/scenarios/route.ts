@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server"
+import {
+  getScenario,
+  listScenarios,
+  runScenario,
+  saveScenario,
+  validateMultipliers,
+  type AdoptionMultipliers,
+} from "@/lib/scenarios"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/scenarios
+ * List saved adoption scenarios
+ */
+export async function GET() {
+  try {
+    const scenarios = await listScenarios()
+
+    return NextResponse.json({
+      success: true,
+      scenarios,
+    })
+  } catch (error) {
+    console.error("Error listing scenarios:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/scenarios
+ * Recompute scores, risk tiers and projected 2033 employment under adoption
+ * multipliers per SOC major group.  The jobs table is not modified.
+ * Body: { multipliers: { "13": 1.5 }, name?, description?, save? } or
+ *       { scenario: "saved name" } to rerun a saved scenario
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    let multipliers: AdoptionMultipliers
+    let name: string | null = typeof body.name === "string" && body.name.trim() ? body.name.trim() : null
+
+    if (typeof body.scenario === "string") {
+      const saved = await getScenario(body.scenario)
+      if (!saved) {
+        return NextResponse.json({ success: false, error: `Scenario not found: ${body.scenario}` }, { status: 404 })
+      }
+      multipliers = saved.multipliers
+      name = saved.name
+    } else {
+      const errors = validateMultipliers(body.multipliers)
+      if (errors.length > 0) {
+        return NextResponse.json({ success: false, error: "Invalid multipliers", details: errors }, { status: 400 })
+      }
+      multipliers = body.multipliers
+    }
+
+    if (body.save === true && !name) {
+      return NextResponse.json({ success: false, error: "A name is required to save a scenario" }, { status: 400 })
+    }
+
+    const saved =
+      body.save === true && name && typeof body.scenario !== "string"
+        ? await saveScenario(name, multipliers, typeof body.description === "string" ? body.description : null)
+        : null
+
+    const result = await runScenario(multipliers)
+
+    return NextResponse.json({
+      success: true,
+      scenario: name,
+      saved: saved !== null,
+      ...result,
+    })
+  } catch (error) {
+    console.error("Error running scenario:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
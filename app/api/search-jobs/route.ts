@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { neon } from "@neondatabase/serverless"
+import { findAliasMatches, matchedAliasFor } from "@/lib/job-title-aliases"
 
 const sql = neon(process.env.DATABASE_URL!)
 
@@ -18,8 +19,10 @@ export async function GET(request: NextRequest) {
     }
 
     const searchTerm = `%${query.trim().toLowerCase()}%`
+    const aliasMatches = await findAliasMatches(query)
+    const aliasCodes = [...aliasMatches.keys()]
 
-    // Search jobs by title
+    // Search jobs by official or alternate title
     const jobs = await sql`
       SELECT 
         occ_code,
@@ -29,13 +32,14 @@ export async function GET(request: NextRequest) {
         ai_impact_score,
         automation_risk
       FROM jobs 
-      WHERE LOWER(occ_title) LIKE ${searchTerm}
+      WHERE (LOWER(occ_title) LIKE ${searchTerm} OR occ_code = ANY(${aliasCodes}))
       AND ai_impact_score IS NOT NULL
       ORDER BY 
         CASE 
           WHEN LOWER(occ_title) = ${query.trim().toLowerCase()} THEN 1
           WHEN LOWER(occ_title) LIKE ${query.trim().toLowerCase() + "%"} THEN 2
-          ELSE 3
+          WHEN LOWER(occ_title) LIKE ${searchTerm} THEN 3
+          ELSE 4
         END,
         ai_impact_score DESC
       LIMIT ${limit}
@@ -45,6 +49,7 @@ export async function GET(request: NextRequest) {
     const results = jobs.map((job: any) => ({
       code: job.occ_code,
       title: job.occ_title,
+      matchedAlias: matchedAliasFor(aliasMatches, job.occ_code, job.occ_title, query),
       employment: job.employment_2023,
       wage: {
         median: job.median_wage,
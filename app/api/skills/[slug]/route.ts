@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { getJobsForSkill, getSkill, type SkillRelationship } from "@/lib/skills"
+
+export const dynamic = "force-dynamic"
+
+const RELATIONSHIPS: SkillRelationship[] = ["at_risk", "needed"]
+
+/**
+ * GET /api/skills/[slug]?relationship=at_risk|needed
+ * List the occupations linked to a skill, highest weight first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const relationship = new URL(request.url).searchParams.get("relationship")
+    if (relationship && !RELATIONSHIPS.includes(relationship as SkillRelationship)) {
+      return NextResponse.json(
+        { success: false, error: `relationship must be one of: ${RELATIONSHIPS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    const skill = await getSkill(params.slug)
+    if (!skill) {
+      return NextResponse.json({ success: false, error: `Skill ${params.slug} not found` }, { status: 404 })
+    }
+
+    const jobs = await getJobsForSkill(skill.slug, (relationship as SkillRelationship | null) ?? undefined)
+
+    return NextResponse.json({
+      success: true,
+      skill,
+      jobs,
+    })
+  } catch (error) {
+    console.error("Error fetching skill jobs:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { listSkills } from "@/lib/skills"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/skills?search=
+ * List the skills catalog with the number of occupations linked to each skill
+ */
+export async function GET(request: Request) {
+  try {
+    const search = new URL(request.url).searchParams.get("search")?.trim() || undefined
+    const skills = await listSkills(search)
+
+    return NextResponse.json({
+      success: true,
+      skills,
+    })
+  } catch (error) {
+    console.error("Error listing skills:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -6,6 +6,15 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   AlertTriangle,
   TrendingUp,
@@ -19,8 +28,17 @@ import {
   Award,
   Clock,
   ChevronRight,
+  MapPin,
 } from "lucide-react"
 import Link from "next/link"
+import { RiskBadge } from "@/components/risk-badge"
+import { WageRange } from "@/components/wage-range"
+import { ScoreHistoryChart } from "@/components/score-history-chart"
+import type { ScoreHistoryEntry } from "@/lib/score-history"
+import type { JobSkills } from "@/lib/skills"
+import type { AreaStats } from "@/lib/area-stats"
+import { METRO_AREAS, NATIONAL_AREA, STATE_AREAS, getOEWSArea } from "@/lib/oews-areas"
+import { getRiskTier, getRiskTierById, type RiskTierId } from "@/lib/risk-tiers"
 
 // Job data type definition
 interface Job {
@@ -31,9 +49,35 @@ interface Job {
   projected_employment_2033?: number
   employment_change?: number
   employment_change_percent?: number
-  median_wage?: number
+  median_wage?: number | null
+  mean_wage?: number | null
+  hourly_mean_wage?: number | null
+  hourly_median_wage?: number | null
+  wage_p10?: number | null
+  wage_p25?: number | null
+  wage_p75?: number | null
+  wage_p90?: number | null
+  annual_openings?: number | null
+  typical_education?: string | null
+  projection?: {
+    base_year: number
+    projected_year: number
+    employment_base: number | null
+    employment_projected: number | null
+    source: string
+  } | null
   ai_impact_score?: number
+  ai_impact_score_low?: number
+  ai_impact_score_high?: number
   automation_risk?: string
+  data_source?: "bls" | "local-csv" | "mixed" | "fallback" | "override" | null
+  is_estimate?: boolean
+  is_override?: boolean
+  override?: {
+    fields: string[]
+    reason: string
+    expires_at: string | null
+  } | null
   updated_at?: string
 }
 
@@ -46,10 +90,73 @@ interface SimilarJob {
   similarity_score?: number
 }
 
+// Detailed risk analysis per tier
+const RISK_ANALYSIS: Record<RiskTierId, { detail: string; impact: string; advice: string }> = {
+  "very-high": {
+    detail: "This occupation faces significant risk from AI and automation technologies. Many of the core tasks in this role can be automated using current and emerging technologies.",
+    impact: "Jobs in this category may see substantial reduction in demand or significant transformation of required skills within the next decade.",
+    advice: "Consider upskilling in areas that require human creativity, emotional intelligence, or complex problem-solving that AI currently struggles with. Developing complementary skills to work alongside AI systems may help maintain employability.",
+  },
+  high: {
+    detail: "This occupation has considerable exposure to automation. While not all aspects can be automated, many routine tasks are vulnerable to replacement by AI and automation technologies.",
+    impact: "Expect significant changes to job responsibilities and required skills over the next decade, with possible reduction in overall demand.",
+    advice: "Focus on developing skills in areas of the job that require human judgment, interpersonal skills, or specialized expertise that's difficult to automate. Consider how you might adapt your role to complement AI systems.",
+  },
+  medium: {
+    detail: "This occupation has moderate vulnerability to automation. Some tasks may be automated, but the core of the role will likely remain intact.",
+    impact: "The nature of this job will evolve as technology advances, requiring adaptation and new skills, but overall demand should remain relatively stable.",
+    advice: "Stay current with technological changes in your field and focus on developing skills that complement automation. Emphasize aspects of your role that require human qualities like creativity, empathy, and complex decision-making.",
+  },
+  low: {
+    detail: "This occupation has some exposure to automation but is relatively secure. Most core tasks require human capabilities that are difficult to automate.",
+    impact: "While some aspects may be enhanced or changed by technology, overall demand for this role should remain stable or potentially increase.",
+    advice: "Look for opportunities to use AI tools to enhance your productivity and effectiveness. Developing skills to work effectively with new technologies will likely be valuable in this field.",
+  },
+  "very-low": {
+    detail: "This occupation is highly resistant to automation. The core tasks require uniquely human capabilities that are very difficult for AI to replicate.",
+    impact: "This role may actually benefit from AI augmentation, potentially becoming more productive and valuable as technology advances.",
+    advice: "Focus on how emerging technologies can enhance your effectiveness rather than replace your role. Developing skills to leverage AI tools could further strengthen your career prospects.",
+  },
+}
+
+// Career recommendations per tier
+const RISK_RECOMMENDATIONS: Record<RiskTierId, string[]> = {
+  "very-high": [
+    "Consider developing skills in emerging technologies like AI, cloud computing, or data analysis",
+    "Look for opportunities to transition to adjacent fields with lower automation risk",
+    "Focus on developing uniquely human skills like creativity, empathy, and complex problem-solving",
+  ],
+  high: [
+    "Identify which aspects of your role are most vulnerable to automation and which are most resistant",
+    "Develop specialized expertise or niche skills that are harder to automate",
+    "Consider how your role might evolve to work alongside AI systems rather than be replaced by them",
+  ],
+  medium: [
+    "Stay current with technological changes in your field",
+    "Look for opportunities to use AI tools to enhance your productivity",
+    "Develop skills in areas that complement automation technologies",
+  ],
+  low: [
+    "Focus on the aspects of your role that require human judgment and creativity",
+    "Explore how AI tools could help you become more effective in your role",
+    "Consider specializing in areas where human expertise adds the most value",
+  ],
+  "very-low": [
+    "Your occupation has low automation risk, but staying current with industry trends is still important",
+    "Look for ways to leverage AI tools to enhance your effectiveness and productivity",
+    "Consider developing leadership skills as your role may involve directing AI-assisted work",
+  ],
+}
+
 export default function JobDetailPage() {
   // State management
   const [job, setJob] = useState<Job | null>(null)
   const [similarJobs, setSimilarJobs] = useState<SimilarJob[]>([])
+  const [history, setHistory] = useState<ScoreHistoryEntry[]>([])
+  const [skills, setSkills] = useState<JobSkills | null>(null)
+  const [areaCode, setAreaCode] = useState(NATIONAL_AREA.code)
+  const [areaStats, setAreaStats] = useState<AreaStats | null>(null)
+  const [areaLoading, setAreaLoading] = useState(false)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   
@@ -97,16 +204,84 @@ export default function JobDetailPage() {
     
     fetchJobDetails()
   }, [jobCode])
+
+  // Fetch score history separately; the page works without it
+  useEffect(() => {
+    async function fetchHistory() {
+      if (!jobCode) return
+
+      try {
+        const response = await fetch(`/api/jobs/${jobCode}/history`)
+        if (!response.ok) return
+
+        const data = await response.json()
+        if (data.success && Array.isArray(data.history)) {
+          setHistory(data.history)
+        }
+      } catch (err) {
+        console.error("Error fetching score history:", err)
+      }
+    }
+
+    fetchHistory()
+  }, [jobCode])
+
+  // Fetch the occupation's skills; the card falls back to generic advice without them
+  useEffect(() => {
+    async function fetchSkills() {
+      if (!jobCode) return
+
+      try {
+        const response = await fetch(`/api/jobs/${jobCode}/skills`)
+        if (!response.ok) return
+
+        const data = await response.json()
+        if (data.success && data.skills) {
+          setSkills(data.skills)
+        }
+      } catch (err) {
+        console.error("Error fetching job skills:", err)
+      }
+    }
+
+    fetchSkills()
+  }, [jobCode])
+
+  // Fetch state or metro-area figures when a location other than the nation is selected
+  useEffect(() => {
+    async function fetchAreaStats() {
+      setAreaStats(null)
+      if (!jobCode || areaCode === NATIONAL_AREA.code) return
+
+      setAreaLoading(true)
+      try {
+        const response = await fetch(`/api/jobs/${jobCode}/areas?area=${areaCode}`)
+        if (!response.ok) return
+
+        const data = await response.json()
+        if (data.success && data.stats) {
+          setAreaStats(data.stats)
+        }
+      } catch (err) {
+        console.error("Error fetching area figures:", err)
+      } finally {
+        setAreaLoading(false)
+      }
+    }
+
+    fetchAreaStats()
+  }, [jobCode, areaCode])
   
   // Helper functions
   
   // Format currency
-  const formatCurrency = (value?: number) => {
-    if (value === undefined) return "N/A"
+  const formatCurrency = (value?: number | null, fractionDigits = 0) => {
+    if (value === undefined || value === null) return "N/A"
     return new Intl.NumberFormat('en-US', { 
       style: 'currency', 
       currency: 'USD',
-      maximumFractionDigits: 0
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
     }).format(value)
   }
   
@@ -122,80 +297,25 @@ export default function JobDetailPage() {
     return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`
   }
   
-  // Get risk badge component
-  const getRiskBadge = (score?: number) => {
-    if (score === undefined) return null
-    
-    if (score >= 80) {
-      return <Badge variant="destructive" className="text-base px-3 py-1">{score}% Risk</Badge>
-    } else if (score >= 60) {
-      return <Badge variant="outline" className="bg-orange-100 text-orange-800 border-orange-200 text-base px-3 py-1">{score}% Risk</Badge>
-    } else if (score >= 40) {
-      return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200 text-base px-3 py-1">{score}% Risk</Badge>
-    } else if (score >= 20) {
-      return <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200 text-base px-3 py-1">{score}% Risk</Badge>
-    } else {
-      return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200 text-base px-3 py-1">{score}% Risk</Badge>
-    }
-  }
-  
   // Get risk color class
   const getRiskColorClass = (score?: number) => {
     if (score === undefined) return "text-gray-600"
-    
-    if (score >= 80) {
-      return "text-red-700"
-    } else if (score >= 60) {
-      return "text-orange-700"
-    } else if (score >= 40) {
-      return "text-yellow-700"
-    } else if (score >= 20) {
-      return "text-blue-700"
-    } else {
-      return "text-green-700"
-    }
+    return getRiskTier(score).colors.text
   }
   
   // Get detailed risk analysis
   const getRiskAnalysis = (score?: number) => {
-    if (score === undefined) return "No risk data available for this occupation."
-    
-    if (score >= 80) {
-      return {
-        summary: "High risk of automation",
-        detail: "This occupation faces significant risk from AI and automation technologies. Many of the core tasks in this role can be automated using current and emerging technologies.",
-        impact: "Jobs in this category may see substantial reduction in demand or significant transformation of required skills within the next decade.",
-        advice: "Consider upskilling in areas that require human creativity, emotional intelligence, or complex problem-solving that AI currently struggles with. Developing complementary skills to work alongside AI systems may help maintain employability."
-      }
-    } else if (score >= 60) {
+    if (score === undefined) {
       return {
-        summary: "Medium-high risk of automation",
-        detail: "This occupation has considerable exposure to automation. While not all aspects can be automated, many routine tasks are vulnerable to replacement by AI and automation technologies.",
-        impact: "Expect significant changes to job responsibilities and required skills over the next decade, with possible reduction in overall demand.",
-        advice: "Focus on developing skills in areas of the job that require human judgment, interpersonal skills, or specialized expertise that's difficult to automate. Consider how you might adapt your role to complement AI systems."
-      }
-    } else if (score >= 40) {
-      return {
-        summary: "Medium risk of automation",
-        detail: "This occupation has moderate vulnerability to automation. Some tasks may be automated, but the core of the role will likely remain intact.",
-        impact: "The nature of this job will evolve as technology advances, requiring adaptation and new skills, but overall demand should remain relatively stable.",
-        advice: "Stay current with technological changes in your field and focus on developing skills that complement automation. Emphasize aspects of your role that require human qualities like creativity, empathy, and complex decision-making."
-      }
-    } else if (score >= 20) {
-      return {
-        summary: "Low-medium risk of automation",
-        detail: "This occupation has some exposure to automation but is relatively secure. Most core tasks require human capabilities that are difficult to automate.",
-        impact: "While some aspects may be enhanced or changed by technology, overall demand for this role should remain stable or potentially increase.",
-        advice: "Look for opportunities to use AI tools to enhance your productivity and effectiveness. Developing skills to work effectively with new technologies will likely be valuable in this field."
-      }
-    } else {
-      return {
-        summary: "Low risk of automation",
-        detail: "This occupation is highly resistant to automation. The core tasks require uniquely human capabilities that are very difficult for AI to replicate.",
-        impact: "This role may actually benefit from AI augmentation, potentially becoming more productive and valuable as technology advances.",
-        advice: "Focus on how emerging technologies can enhance your effectiveness rather than replace your role. Developing skills to leverage AI tools could further strengthen your career prospects."
+        summary: "No risk data available for this occupation.",
+        detail: "",
+        impact: "",
+        advice: "",
       }
     }
+    
+    const tier = getRiskTier(score)
+    return { summary: tier.summary, ...RISK_ANALYSIS[tier.id] }
   }
   
   // Get growth analysis
@@ -222,27 +342,7 @@ export default function JobDetailPage() {
     const recommendations = []
     
     // Risk-based recommendations
-    if (risk >= 80) {
-      recommendations.push("Consider developing skills in emerging technologies like AI, cloud computing, or data analysis")
-      recommendations.push("Look for opportunities to transition to adjacent fields with lower automation risk")
-      recommendations.push("Focus on developing uniquely human skills like creativity, empathy, and complex problem-solving")
-    } else if (risk >= 60) {
-      recommendations.push("Identify which aspects of your role are most vulnerable to automation and which are most resistant")
-      recommendations.push("Develop specialized expertise or niche skills that are harder to automate")
-      recommendations.push("Consider how your role might evolve to work alongside AI systems rather than be replaced by them")
-    } else if (risk >= 40) {
-      recommendations.push("Stay current with technological changes in your field")
-      recommendations.push("Look for opportunities to use AI tools to enhance your productivity")
-      recommendations.push("Develop skills in areas that complement automation technologies")
-    } else if (risk >= 20) {
-      recommendations.push("Focus on the aspects of your role that require human judgment and creativity")
-      recommendations.push("Explore how AI tools could help you become more effective in your role")
-      recommendations.push("Consider specializing in areas where human expertise adds the most value")
-    } else {
-      recommendations.push("Your occupation has low automation risk, but staying current with industry trends is still important")
-      recommendations.push("Look for ways to leverage AI tools to enhance your effectiveness and productivity")
-      recommendations.push("Consider developing leadership skills as your role may involve directing AI-assisted work")
-    }
+    recommendations.push(...RISK_RECOMMENDATIONS[getRiskTier(risk).id])
     
     // Growth-based recommendations
     if (growth !== undefined) {
@@ -264,12 +364,7 @@ export default function JobDetailPage() {
   // Get risk level text
   const getRiskLevelText = (score?: number) => {
     if (score === undefined) return "Unknown"
-    
-    if (score >= 80) return "High"
-    if (score >= 60) return "Medium-High"
-    if (score >= 40) return "Medium"
-    if (score >= 20) return "Low-Medium"
-    return "Low"
+    return getRiskTier(score).label
   }
   
   // Render loading state
@@ -378,6 +473,33 @@ export default function JobDetailPage() {
   const growthAnalysis = getGrowthAnalysis(job.employment_change_percent)
   const recommendations = getCareerRecommendations(job.ai_impact_score, job.employment_change_percent)
   const riskColorClass = getRiskColorClass(job.ai_impact_score)
+
+  // Wage and employment figures for the selected location
+  const isNational = areaCode === NATIONAL_AREA.code
+  const areaName = getOEWSArea(areaCode)?.name ?? NATIONAL_AREA.name
+  const figures = isNational
+    ? {
+        employment: job.employment_2023,
+        medianWage: job.median_wage,
+        meanWage: job.mean_wage,
+        hourlyMedianWage: job.hourly_median_wage,
+        hourlyMeanWage: job.hourly_mean_wage,
+        wageP10: job.wage_p10,
+        wageP25: job.wage_p25,
+        wageP75: job.wage_p75,
+        wageP90: job.wage_p90,
+      }
+    : {
+        employment: areaStats?.employment,
+        medianWage: areaStats?.medianWage,
+        meanWage: areaStats?.meanWage,
+        hourlyMedianWage: areaStats?.hourlyMedianWage,
+        hourlyMeanWage: areaStats?.hourlyMeanWage,
+        wageP10: areaStats?.wageP10,
+        wageP25: areaStats?.wageP25,
+        wageP75: areaStats?.wageP75,
+        wageP90: areaStats?.wageP90,
+      }
   
   // Main render with job data
   return (
@@ -420,11 +542,68 @@ export default function JobDetailPage() {
         <div className="mb-8">
           <div className="flex flex-col md:flex-row md:items-center justify-between mb-2">
             <h1 className="text-3xl font-bold text-gray-900">{job.occ_title}</h1>
-            {getRiskBadge(job.ai_impact_score)}
+            <RiskBadge score={job.ai_impact_score} className="text-base px-3 py-1" />
+          </div>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <p className="text-gray-600">Occupation Code: {job.occ_code}</p>
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 text-gray-500" />
+              <Select value={areaCode} onValueChange={setAreaCode}>
+                <SelectTrigger className="w-[280px]">
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NATIONAL_AREA.code}>{NATIONAL_AREA.name}</SelectItem>
+                  <SelectGroup>
+                    <SelectLabel>States</SelectLabel>
+                    {STATE_AREAS.map((area) => (
+                      <SelectItem key={area.code} value={area.code}>{area.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>Metro areas</SelectLabel>
+                    {METRO_AREAS.map((area) => (
+                      <SelectItem key={area.code} value={area.code}>{area.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
-          <p className="text-gray-600">Occupation Code: {job.occ_code}</p>
         </div>
         
+        {/* Selected location without published figures */}
+        {!isNational && !areaLoading && !areaStats && (
+          <div className="flex items-start gap-3 bg-gray-50 border border-gray-200 text-gray-700 p-4 rounded-lg mb-8">
+            <MapPin className="h-5 w-5 mt-0.5 shrink-0" />
+            <p className="text-sm">
+              BLS does not publish employment and wage figures for this occupation in {areaName}.
+            </p>
+          </div>
+        )}
+        
+        {/* Data quality notice */}
+        {job.is_estimate && (
+          <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-lg mb-8">
+            <AlertTriangle className="h-5 w-5 mt-0.5 shrink-0" />
+            <p className="text-sm">
+              BLS data was unavailable for this occupation, so wage and employment figures below are estimates.
+              They will be replaced with official data at the next sync.
+            </p>
+          </div>
+        )}
+        
+        {job.override && (
+          <div className="flex items-start gap-3 bg-blue-50 border border-blue-200 text-blue-800 p-4 rounded-lg mb-8">
+            <Award className="h-5 w-5 mt-0.5 shrink-0" />
+            <p className="text-sm">
+              Our analysts have adjusted {job.override.fields.includes("ai_impact_score") ? "the AI impact score" : "some figures"} for
+              this occupation: {job.override.reason}
+              {job.override.expires_at && ` (under review until ${new Date(job.override.expires_at).toLocaleDateString()})`}
+            </p>
+          </div>
+        )}
+
         {/* Key metrics */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           {/* Salary card */}
@@ -435,12 +614,14 @@ export default function JobDetailPage() {
                   <DollarSign className="h-6 w-6 text-purple-700" />
                 </div>
                 <h3 className="font-semibold text-lg">Median Annual Wage</h3>
+                {isNational && job.is_estimate && <Badge variant="outline" className="ml-auto">Estimate</Badge>}
               </div>
               <div className="text-3xl font-bold text-purple-700 mb-2">
-                {formatCurrency(job.median_wage)}
+                {areaLoading ? <Skeleton className="h-9 w-32" /> : formatCurrency(figures.medianWage)}
               </div>
               <p className="text-sm text-gray-500">
-                National median annual wage for this occupation
+                {isNational ? "National" : areaName} median annual wage for this occupation
+                {figures.hourlyMedianWage != null && ` (${formatCurrency(figures.hourlyMedianWage, 2)} per hour)`}
               </p>
             </CardContent>
           </Card>
@@ -453,12 +634,13 @@ export default function JobDetailPage() {
                   <Users className="h-6 w-6 text-blue-700" />
                 </div>
                 <h3 className="font-semibold text-lg">Employment</h3>
+                {isNational && job.is_estimate && <Badge variant="outline" className="ml-auto">Estimate</Badge>}
               </div>
               <div className="text-3xl font-bold text-blue-700 mb-2">
-                {formatNumber(job.employment_2023)}
+                {areaLoading ? <Skeleton className="h-9 w-32" /> : formatNumber(figures.employment ?? undefined)}
               </div>
               <p className="text-sm text-gray-500">
-                Total employment in 2023
+                Total employment in 2023{!isNational && ` in ${areaName}`}
               </p>
             </CardContent>
           </Card>
@@ -471,6 +653,9 @@ export default function JobDetailPage() {
                   <TrendingUp className="h-6 w-6 text-green-700" />
                 </div>
                 <h3 className="font-semibold text-lg">Projected Growth</h3>
+                {!job.projection && job.employment_change_percent !== undefined && (
+                  <Badge variant="outline" className="ml-auto">Estimate</Badge>
+                )}
               </div>
               <div className={`text-3xl font-bold mb-2 ${
                 job.employment_change_percent && job.employment_change_percent > 0 
@@ -482,12 +667,46 @@ export default function JobDetailPage() {
                 {formatPercent(job.employment_change_percent)}
               </div>
               <p className="text-sm text-gray-500">
-                Projected change from 2023 to 2033
+                Projected change from {job.projection?.base_year ?? 2023} to {job.projection?.projected_year ?? 2033}
+                {!isNational && " nationally"}
               </p>
+              {(job.annual_openings != null || job.typical_education) && (
+                <div className="mt-3 space-y-1 text-sm text-gray-600">
+                  {job.annual_openings != null && <p>{formatNumber(job.annual_openings)} openings per year</p>}
+                  {job.typical_education && <p>Typical entry-level education: {job.typical_education}</p>}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
         
+        {/* Wage distribution */}
+        {figures.wageP10 != null && figures.wageP90 != null && (
+          <Card className="mb-8">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <DollarSign className="h-6 w-6 text-purple-700" />
+                <CardTitle>Wage Range</CardTitle>
+              </div>
+              <CardDescription>
+                Annual wages from the 10th to the 90th percentile of workers in this occupation
+                {!isNational && ` in ${areaName}`}
+                {figures.hourlyMeanWage != null && `, with a mean hourly wage of ${formatCurrency(figures.hourlyMeanWage, 2)}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WageRange
+                p10={figures.wageP10}
+                p25={figures.wageP25}
+                median={figures.medianWage}
+                p75={figures.wageP75}
+                p90={figures.wageP90}
+                mean={figures.meanWage}
+              />
+            </CardContent>
+          </Card>
+        )}
+        
         {/* AI Risk Analysis */}
         <Card className="mb-8">
           <CardHeader>
@@ -526,16 +745,18 @@ export default function JobDetailPage() {
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-2.5">
                         <div 
-                          className={`h-2.5 rounded-full ${
-                            job.ai_impact_score && job.ai_impact_score >= 80 ? 'bg-red-600' :
-                            job.ai_impact_score && job.ai_impact_score >= 60 ? 'bg-orange-500' :
-                            job.ai_impact_score && job.ai_impact_score >= 40 ? 'bg-yellow-500' :
-                            job.ai_impact_score && job.ai_impact_score >= 20 ? 'bg-blue-500' :
-                            'bg-green-500'
-                          }`} 
+                          className={`h-2.5 rounded-full ${getRiskTier(job.ai_impact_score || 0).colors.bar}`} 
                           style={{ width: `${job.ai_impact_score || 0}%` }}
                         ></div>
                       </div>
+                      {job.ai_impact_score_low != null && job.ai_impact_score_high != null && (
+                        <div className="flex justify-between text-xs text-gray-500 mt-1">
+                          <span>Confidence range:</span>
+                          <span>
+                            {job.ai_impact_score_low}–{job.ai_impact_score_high}%
+                          </span>
+                        </div>
+                      )}
                     </div>
                     <div>
                       <div className="flex justify-between text-sm mb-1">
@@ -568,6 +789,24 @@ export default function JobDetailPage() {
           </CardContent>
         </Card>
         
+        {/* Score History */}
+        {history.length > 1 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <TrendingUp className="h-6 w-6 text-blue-700" />
+                <CardTitle>Assessment History</CardTitle>
+              </div>
+              <CardDescription>
+                How the AI impact score for this occupation has changed across data updates
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScoreHistoryChart history={history} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Employment Projections */}
         <Card className="mb-8">
           <CardHeader>
@@ -674,25 +913,49 @@ export default function JobDetailPage() {
                 <p className="text-blue-800 mb-3">
                   Based on this occupation's automation risk profile, consider developing these skills:
                 </p>
-                <div className="flex flex-wrap gap-2">
-                  {job.ai_impact_score && job.ai_impact_score >= 60 ? (
-                    <>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Creative Problem Solving</Badge>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Emotional Intelligence</Badge>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Complex Decision Making</Badge>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Adaptability</Badge>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Human-AI Collaboration</Badge>
-                    </>
-                  ) : (
-                    <>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">AI Literacy</Badge>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Data Analysis</Badge>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Technical Proficiency</Badge>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Critical Thinking</Badge>
-                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Leadership</Badge>
-                    </>
-                  )}
-                </div>
+                {skills && skills.needed.length > 0 ? (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {skills.needed.map((skill) => (
+                        <Badge key={skill.slug} className="bg-blue-100 text-blue-800 hover:bg-blue-200">
+                          {skill.name}
+                        </Badge>
+                      ))}
+                    </div>
+                    {skills.atRisk.length > 0 && (
+                      <>
+                        <p className="text-blue-800 mt-4 mb-3">Tasks most exposed to automation in this role:</p>
+                        <div className="flex flex-wrap gap-2">
+                          {skills.atRisk.map((skill) => (
+                            <Badge key={skill.slug} variant="outline" className="border-blue-200 text-blue-700">
+                              {skill.name}
+                            </Badge>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {job.ai_impact_score && job.ai_impact_score >= getRiskTierById("high").minScore ? (
+                      <>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Creative Problem Solving</Badge>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Emotional Intelligence</Badge>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Complex Decision Making</Badge>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Adaptability</Badge>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Human-AI Collaboration</Badge>
+                      </>
+                    ) : (
+                      <>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">AI Literacy</Badge>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Data Analysis</Badge>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Technical Proficiency</Badge>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Critical Thinking</Badge>
+                        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Leadership</Badge>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </CardContent>
@@ -718,9 +981,7 @@ export default function JobDetailPage() {
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-semibold text-gray-800">{similarJob.occ_title}</h4>
                         {similarJob.ai_impact_score !== undefined && (
-                          <Badge variant={similarJob.ai_impact_score >= 60 ? "destructive" : "outline"} className="text-xs">
-                            {similarJob.ai_impact_score}% Risk
-                          </Badge>
+                          <RiskBadge score={similarJob.ai_impact_score} className="text-xs" />
                         )}
                       </div>
                       {similarJob.median_wage !== undefined && (
@@ -16,6 +16,8 @@ import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { TrendingUp, AlertTriangle, ArrowUpDown, ChevronLeft, ChevronRight, DollarSign } from "lucide-react"
 import Link from "next/link"
+import { RiskBadge } from "@/components/risk-badge"
+import { parseRiskTier, RISK_TIERS } from "@/lib/risk-tiers"
 
 // Job data type definition
 interface Job {
@@ -28,6 +30,7 @@ interface Job {
   median_wage?: number
   ai_impact_score?: number
   automation_risk?: string
+  matched_alias?: string | null
   updated_at?: string
 }
 
@@ -66,6 +69,7 @@ export default function JobsPage() {
   
   // Extract URL parameters
   const risk = searchParams.get("risk") || ""
+  const activeRiskTier = parseRiskTier(risk)
   const search = searchParams.get("search") || ""
   const sort = searchParams.get("sort") || "ai_impact_score"
   const order = searchParams.get("order") || "desc"
@@ -139,7 +143,7 @@ export default function JobsPage() {
   }
   
   const handleRiskFilter = (riskLevel: string) => {
-    updateFilters({ risk: risk === riskLevel ? null : riskLevel })
+    updateFilters({ risk: activeRiskTier?.id === riskLevel ? null : riskLevel })
   }
   
   const handleSortChange = (newSort: string) => {
@@ -155,23 +159,6 @@ export default function JobsPage() {
     updateFilters({ page: newPage.toString() })
   }
   
-  // Helper for rendering risk badges
-  const getRiskBadge = (score?: number) => {
-    if (score === undefined) return null
-    
-    if (score >= 80) {
-      return <Badge variant="destructive">{score}% Risk</Badge>
-    } else if (score >= 60) {
-      return <Badge variant="outline" className="bg-orange-100 text-orange-800 border-orange-200">{score}% Risk</Badge>
-    } else if (score >= 40) {
-      return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">{score}% Risk</Badge>
-    } else if (score >= 20) {
-      return <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">{score}% Risk</Badge>
-    } else {
-      return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">{score}% Risk</Badge>
-    }
-  }
-  
   // Format currency
   const formatCurrency = (value?: number) => {
     if (value === undefined) return "N/A"
@@ -238,28 +225,17 @@ export default function JobsPage() {
           </div>
 
           <div className="flex flex-wrap gap-3 mb-6">
-            <Button
-              variant={risk === "high" ? "default" : "outline"}
-              className={risk === "high" ? "" : "bg-transparent"}
-              onClick={() => handleRiskFilter("high")}
-            >
-              <AlertTriangle className="h-4 w-4 mr-2" />
-              High Risk Jobs
-            </Button>
-            <Button
-              variant={risk === "medium" ? "default" : "outline"}
-              className={risk === "medium" ? "" : "bg-transparent"}
-              onClick={() => handleRiskFilter("medium")}
-            >
-              Medium Risk Jobs
-            </Button>
-            <Button
-              variant={risk === "safe" ? "default" : "outline"}
-              className={risk === "safe" ? "" : "bg-transparent"}
-              onClick={() => handleRiskFilter("safe")}
-            >
-              Safe Jobs
-            </Button>
+            {RISK_TIERS.map((tier) => (
+              <Button
+                key={tier.id}
+                variant={activeRiskTier?.id === tier.id ? "default" : "outline"}
+                className={activeRiskTier?.id === tier.id ? "" : "bg-transparent"}
+                onClick={() => handleRiskFilter(tier.id)}
+              >
+                {tier.id === "very-high" && <AlertTriangle className="h-4 w-4 mr-2" />}
+                {tier.label} Risk
+              </Button>
+            ))}
             {(risk || search) && (
               <Button
                 variant="outline"
@@ -370,9 +346,12 @@ export default function JobsPage() {
               <Card key={job.occ_code} className="overflow-hidden hover:shadow-md transition-shadow">
                 <CardHeader className="pb-2">
                   <CardTitle className="text-lg">{job.occ_title}</CardTitle>
+                  {job.matched_alias && (
+                    <p className="text-xs text-gray-600">Also known as &ldquo;{job.matched_alias}&rdquo;</p>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-xs text-gray-500">Code: {job.occ_code}</span>
-                    {getRiskBadge(job.ai_impact_score)}
+                    <RiskBadge score={job.ai_impact_score} />
                   </div>
                 </CardHeader>
                 <CardContent>
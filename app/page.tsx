@@ -121,7 +121,7 @@ export default function HomePage() {
                 <Button
                   variant="outline"
                   className="w-full bg-transparent"
-                  onClick={() => router.push("/jobs?risk=high")}
+                  onClick={() => router.push("/jobs?risk=very-high")}
                 >
                   View All High-Risk Jobs
                 </Button>
@@ -155,7 +155,7 @@ export default function HomePage() {
                 <Button
                   variant="outline"
                   className="w-full bg-transparent"
-                  onClick={() => router.push("/jobs?risk=safe")}
+                  onClick={() => router.push("/jobs?risk=very-low")}
                 >
                   View All Safe Jobs
                 </Button>
@@ -10,6 +10,7 @@ import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Separator } from "@/components/ui/separator"
 import { toast } from "@/components/ui/use-toast"
+import { getRiskTier, getRiskTierById, RISK_TIERS } from "@/lib/risk-tiers"
 
 // Import types
 import type { 
@@ -444,9 +445,9 @@ export default function ClientOnlyAdminDashboard() {
                           </div>
                           <Badge
                             variant={
-                              job.automationRisk === "Very High" || job.automationRisk === "High"
+                              getRiskTier(job.aiImpactScore).minScore >= getRiskTierById("high").minScore
                                 ? "destructive"
-                                : job.automationRisk === "Medium"
+                                : getRiskTier(job.aiImpactScore).id === "medium"
                                   ? "secondary"
                                   : "default"
                             }
@@ -771,62 +772,27 @@ export default function ClientOnlyAdminDashboard() {
                 <CardContent>
                   {jobDetails ? (
                     <div className="space-y-4">
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm">Very High Risk (80%+)</span>
-                        <div className="flex items-center gap-2">
-                          <div className="w-20 bg-gray-200 rounded-full h-2">
-                            <div
-                              className="bg-red-600 h-2 rounded-full"
-                              style={{
-                                width: `${totalJobs > 0 ? (jobDetails.highRiskJobs / totalJobs) * 100 : 0}%`,
-                              }}
-                            />
-                          </div>
-                          <span className="text-sm font-medium">{jobDetails.highRiskJobs || 0}</span>
-                        </div>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm">High Risk (60-79%)</span>
-                        <div className="flex items-center gap-2">
-                          <div className="w-20 bg-gray-200 rounded-full h-2">
-                            <div
-                              className="bg-orange-600 h-2 rounded-full"
-                              style={{
-                                width: `${totalJobs > 0 ? (jobDetails.mediumHighRiskJobs / totalJobs) * 100 : 0}%`,
-                              }}
-                            />
-                          </div>
-                          <span className="text-sm font-medium">{jobDetails.mediumHighRiskJobs || 0}</span>
-                        </div>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm">Medium Risk (40-59%)</span>
-                        <div className="flex items-center gap-2">
-                          <div className="w-20 bg-gray-200 rounded-full h-2">
-                            <div
-                              className="bg-yellow-600 h-2 rounded-full"
-                              style={{
-                                width: `${totalJobs > 0 ? (jobDetails.mediumRiskJobs / totalJobs) * 100 : 0}%`,
-                              }}
-                            />
-                          </div>
-                          <span className="text-sm font-medium">{jobDetails.mediumRiskJobs || 0}</span>
-                        </div>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm">Low Risk (0-39%)</span>
-                        <div className="flex items-center gap-2">
-                          <div className="w-20 bg-gray-200 rounded-full h-2">
-                            <div
-                              className="bg-green-600 h-2 rounded-full"
-                              style={{
-                                width: `${totalJobs > 0 ? (jobDetails.lowRiskJobs / totalJobs) * 100 : 0}%`,
-                              }}
-                            />
+                      {RISK_TIERS.map((tier) => {
+                        const count = jobDetails.riskDistribution?.[tier.id] ?? 0
+                        return (
+                          <div key={tier.id} className="flex justify-between items-center">
+                            <span className="text-sm">
+                              {tier.label} Risk ({tier.minScore}-{tier.maxScore}%)
+                            </span>
+                            <div className="flex items-center gap-2">
+                              <div className="w-20 bg-gray-200 rounded-full h-2">
+                                <div
+                                  className={`${tier.colors.bar} h-2 rounded-full`}
+                                  style={{
+                                    width: `${totalJobs > 0 ? (count / totalJobs) * 100 : 0}%`,
+                                  }}
+                                />
+                              </div>
+                              <span className="text-sm font-medium">{count}</span>
+                            </div>
                           </div>
-                          <span className="text-sm font-medium">{jobDetails.lowRiskJobs || 0}</span>
-                        </div>
-                      </div>
+                        )
+                      })}
                     </div>
                   ) : (
                     <div className="text-center py-4">
@@ -0,0 +1,337 @@
+/**
+ * SyncSchedulesDashboard
+ * ----------------------
+ * Lists sync schedules, their upcoming fire times and past scheduled runs.
+ * Like UltraMinimalDashboard the React tree is static; rows are painted
+ * imperatively after mount so nothing can mismatch during hydration.
+ */
+
+"use client"
+
+import { useEffect, useRef } from "react"
+
+const cellStyle = (cell: HTMLElement) => {
+  cell.style.padding = "4px 8px"
+  cell.style.borderTop = "1px solid #E5E7EB"
+}
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "—")
+
+const describeScope = (item: { scope: string; majorGroup?: string | null; staleAfterDays?: number | null }) => {
+  if (item.scope === "major-group" && item.majorGroup) return `major group ${item.majorGroup}`
+  if (item.scope === "stale-only" && item.staleAfterDays) return `stale > ${item.staleAfterDays} days`
+  return item.scope
+}
+
+export default function SyncSchedulesDashboard() {
+  // store interval ref for cleanup
+  const intervalRef = useRef<NodeJS.Timeout>()
+
+  // helpers ------------------------------------------------------------------
+  const $ = (id: string) => document.getElementById(id)
+
+  const setText = (id: string, value: string) => {
+    const el = $(id)
+    if (el) el.textContent = value
+  }
+
+  const inputValue = (id: string) => ($(id) as HTMLInputElement | null)?.value.trim() ?? ""
+
+  const appendRow = (body: HTMLElement, values: string[]) => {
+    const row = document.createElement("tr")
+    for (const value of values) {
+      const cell = document.createElement("td")
+      cell.textContent = value
+      cellStyle(cell)
+      row.appendChild(cell)
+    }
+    body.appendChild(row)
+    return row
+  }
+
+  const actionButton = (label: string, color: string, onClick: () => void) => {
+    const button = document.createElement("button")
+    button.textContent = label
+    button.style.padding = "2px 8px"
+    button.style.marginRight = "4px"
+    button.style.border = `1px solid ${color}`
+    button.style.borderRadius = "4px"
+    button.style.color = color
+    button.style.backgroundColor = "white"
+    button.style.cursor = "pointer"
+    button.onclick = onClick
+    return button
+  }
+
+  const fetchSchedules = async () => {
+    const schedulesBody = $("schedule-rows")
+    const upcomingBody = $("upcoming-rows")
+    const runsBody = $("run-rows")
+    if (!schedulesBody || !upcomingBody || !runsBody) return
+
+    try {
+      const res = await fetch("/api/admin/sync-schedules")
+      const d = await res.json()
+      if (!d.success) {
+        setText("schedule-summary", d.error ?? "Failed to load schedules")
+        return
+      }
+
+      setText("schedule-summary", `${d.schedules.length} schedule(s)`)
+      schedulesBody.replaceChildren()
+      for (const schedule of d.schedules) {
+        const row = appendRow(schedulesBody, [
+          schedule.name,
+          schedule.cronExpression,
+          describeScope(schedule),
+          Object.keys(schedule.config).length > 0 ? JSON.stringify(schedule.config) : "defaults",
+          schedule.enabled ? formatTime(schedule.nextRunAt) : "Paused",
+          formatTime(schedule.lastRunAt),
+        ])
+        const actionCell = document.createElement("td")
+        cellStyle(actionCell)
+        actionCell.appendChild(
+          actionButton(schedule.enabled ? "Pause" : "Resume", "#2563EB", () =>
+            updateSchedule(schedule.id, { enabled: !schedule.enabled })
+          )
+        )
+        actionCell.appendChild(actionButton("Delete", "#B91C1C", () => deleteSchedule(schedule.id)))
+        row.appendChild(actionCell)
+      }
+
+      upcomingBody.replaceChildren()
+      for (const upcoming of d.upcoming) {
+        appendRow(upcomingBody, [formatTime(upcoming.runAt), upcoming.scheduleName, upcoming.scope])
+      }
+
+      runsBody.replaceChildren()
+      for (const run of d.runs) {
+        const stats = run.stats
+        const row = appendRow(runsBody, [
+          formatTime(run.startedAt),
+          run.scheduleName,
+          run.scope,
+          run.status,
+          stats ? `${stats.processedJobs} / ${stats.totalJobs}` : "—",
+          stats ? `${stats.successfulJobs} ok · ${stats.failedJobs} failed · ${stats.skippedJobs} skipped` : "—",
+          stats ? `${Math.round(stats.durationMs / 1000)} s` : "—",
+          run.message ?? "",
+        ])
+        if (run.status === "failed") row.style.color = "#B91C1C"
+      }
+    } catch (err: any) {
+      setText("schedule-summary", `Failed to load schedules: ${err.message ?? err}`)
+    }
+  }
+
+  const createSchedule = async () => {
+    const scope = ($("schedule-scope") as HTMLSelectElement | null)?.value ?? "all"
+    const staleDays = inputValue("schedule-stale-days")
+
+    try {
+      const res = await fetch("/api/admin/sync-schedules", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          name: inputValue("schedule-name"),
+          cronExpression: inputValue("schedule-cron"),
+          scope,
+          majorGroup: scope === "major-group" ? inputValue("schedule-major-group") : undefined,
+          staleAfterDays: scope === "stale-only" && staleDays ? Number(staleDays) : undefined,
+        }),
+      })
+      const d = await res.json()
+      if (!d.success) {
+        setText("schedule-summary", [d.error, ...(d.details ?? [])].join(" · "))
+        return
+      }
+      fetchSchedules()
+    } catch (err: any) {
+      setText("schedule-summary", `Failed to create schedule: ${err.message ?? err}`)
+    }
+  }
+
+  const updateSchedule = async (id: number, changes: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`/api/admin/sync-schedules/${id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(changes),
+      })
+      const d = await res.json()
+      if (!d.success) {
+        setText("schedule-summary", [d.error, ...(d.details ?? [])].join(" · "))
+        return
+      }
+      fetchSchedules()
+    } catch (err: any) {
+      setText("schedule-summary", `Failed to update schedule: ${err.message ?? err}`)
+    }
+  }
+
+  const deleteSchedule = async (id: number) => {
+    if (!confirm("Delete this schedule? Its past runs are kept.")) return
+    try {
+      const res = await fetch(`/api/admin/sync-schedules/${id}`, { method: "DELETE" })
+      const d = await res.json()
+      if (!d.success) {
+        setText("schedule-summary", d.error ?? "Failed to delete schedule")
+        return
+      }
+      fetchSchedules()
+    } catch (err: any) {
+      setText("schedule-summary", `Failed to delete schedule: ${err.message ?? err}`)
+    }
+  }
+
+  // Same request the external cron makes; useful to check a new schedule
+  const runDueNow = async () => {
+    setText("schedule-summary", "Running due schedules…")
+    try {
+      const res = await fetch("/api/admin/sync-schedules/run", { method: "POST" })
+      const d = await res.json()
+      setText("schedule-summary", d.message ?? d.error ?? "Done")
+      fetchSchedules()
+    } catch (err: any) {
+      setText("schedule-summary", `Failed to run scheduler: ${err.message ?? err}`)
+    }
+  }
+
+  // effect: initial load & interval
+  useEffect(() => {
+    fetchSchedules()
+    intervalRef.current = setInterval(fetchSchedules, 15000)
+
+    return () => {
+      if (intervalRef.current) clearInterval(intervalRef.current)
+    }
+  }, [])
+
+  const cardStyle = {
+    border: "1px solid #E5E7EB",
+    borderRadius: "8px",
+    padding: "16px",
+    backgroundColor: "white",
+    marginBottom: "20px",
+  }
+  const headingStyle = { fontSize: "18px", marginBottom: "12px", fontWeight: 600, color: "#111827" }
+  const inputStyle = { padding: "6px 8px", border: "1px solid #D1D5DB", borderRadius: "4px" }
+  const headerCellStyle = { textAlign: "left" as const, padding: "4px 8px", color: "#6B7280", fontWeight: 500 }
+
+  // static markup ------------------------------------------------------------
+  return (
+    <div
+      style={{
+        padding: "20px",
+        maxWidth: "1100px",
+        margin: "0 auto",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        backgroundColor: "#f9fafb",
+      }}
+    >
+      <h1 style={{ fontSize: "24px", marginBottom: "8px", color: "#111827" }}>Sync Schedules</h1>
+      <p style={{ marginBottom: "20px", color: "#6B7280" }}>
+        <a href="/admin" style={{ color: "#2563EB" }}>
+          ← Admin Dashboard
+        </a>{" "}
+        · Times are shown in your timezone; cron expressions are evaluated in UTC. An external cron must call{" "}
+        <code>/api/admin/sync-schedules/run</code> every minute.
+      </p>
+
+      <div style={cardStyle}>
+        <h2 style={headingStyle}>New schedule</h2>
+        <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+          <input id="schedule-name" placeholder="Name" style={inputStyle} />
+          <input id="schedule-cron" placeholder="Cron, e.g. 0 3 * * *" style={inputStyle} />
+          <select id="schedule-scope" style={inputStyle} defaultValue="all">
+            <option value="all">All occupations</option>
+            <option value="major-group">Major group</option>
+            <option value="stale-only">Stale only</option>
+            <option value="fallback-only">Fallback only</option>
+          </select>
+          <input id="schedule-major-group" placeholder="Major group, e.g. 15" style={{ ...inputStyle, width: "150px" }} />
+          <input id="schedule-stale-days" placeholder="Stale after days" style={{ ...inputStyle, width: "130px" }} />
+          <button
+            style={{
+              padding: "6px 16px",
+              backgroundColor: "#10B981",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+            onClick={createSchedule}
+          >
+            Create
+          </button>
+          <button
+            style={{
+              padding: "6px 16px",
+              backgroundColor: "#F3F4F6",
+              border: "1px solid #D1D5DB",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+            onClick={runDueNow}
+          >
+            Run due now
+          </button>
+        </div>
+        <p id="schedule-summary" style={{ marginTop: "12px", color: "#374151" }}>
+          Loading…
+        </p>
+      </div>
+
+      <div style={cardStyle}>
+        <h2 style={headingStyle}>Schedules</h2>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "14px" }}>
+          <thead>
+            <tr>
+              <th style={headerCellStyle}>Name</th>
+              <th style={headerCellStyle}>Cron</th>
+              <th style={headerCellStyle}>Scope</th>
+              <th style={headerCellStyle}>Config</th>
+              <th style={headerCellStyle}>Next run</th>
+              <th style={headerCellStyle}>Last run</th>
+              <th style={headerCellStyle}></th>
+            </tr>
+          </thead>
+          <tbody id="schedule-rows"></tbody>
+        </table>
+      </div>
+
+      <div style={cardStyle}>
+        <h2 style={headingStyle}>Upcoming runs</h2>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "14px" }}>
+          <thead>
+            <tr>
+              <th style={headerCellStyle}>Time</th>
+              <th style={headerCellStyle}>Schedule</th>
+              <th style={headerCellStyle}>Scope</th>
+            </tr>
+          </thead>
+          <tbody id="upcoming-rows"></tbody>
+        </table>
+      </div>
+
+      <div style={cardStyle}>
+        <h2 style={headingStyle}>Past runs</h2>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "14px" }}>
+          <thead>
+            <tr>
+              <th style={headerCellStyle}>Started</th>
+              <th style={headerCellStyle}>Schedule</th>
+              <th style={headerCellStyle}>Scope</th>
+              <th style={headerCellStyle}>Status</th>
+              <th style={headerCellStyle}>Processed</th>
+              <th style={headerCellStyle}>Results</th>
+              <th style={headerCellStyle}>Duration</th>
+              <th style={headerCellStyle}>Message</th>
+            </tr>
+          </thead>
+          <tbody id="run-rows"></tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
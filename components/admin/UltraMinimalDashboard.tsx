@@ -57,17 +57,222 @@ export default function UltraMinimalDashboard() {
     }
   }
 
+  // Drive the sync in short server-side ticks until the run is done;
+  // continues an unfinished run or starts a new one when there is none
   const startSync = async () => {
     try {
-      await fetch("/api/admin/enhanced-sync", {
+      let forceRestart = false
+      let lastProcessed = -1
+      while (true) {
+        const res = await fetch("/api/admin/sync-tick", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ forceRestart }),
+        })
+        const t = await res.json()
+        if (!t.stats) throw new Error(t.error ?? t.message ?? `HTTP ${res.status}`)
+
+        if (t.runId === null && !forceRestart) {
+          forceRestart = true
+          continue
+        }
+        forceRestart = false
+
+        setText("sync-state", t.done ? "Idle" : "Running")
+        setText("sync-progress", `${t.stats.processedJobs} / ${t.stats.totalJobs}`)
+        const pct =
+          t.stats.totalJobs > 0 ? Math.round((t.stats.processedJobs / t.stats.totalJobs) * 100) : 0
+        setBar("progress-bar", pct)
+        setText("progress-label", `${pct}%`)
+
+        if (t.done || !t.success) {
+          alert(t.message)
+          break
+        }
+
+        // Remaining items are held by another instance; wait before asking again
+        if (t.stats.processedJobs === lastProcessed) {
+          await new Promise((resolve) => setTimeout(resolve, 5000))
+        }
+        lastProcessed = t.stats.processedJobs
+      }
+      fetchSyncStatus()
+    } catch (err: any) {
+      alert(`Failed to run sync: ${err.message ?? err}`)
+    }
+  }
+
+  const scoreCandidateModel = async () => {
+    const version = ($("model-to") as HTMLInputElement | null)?.value.trim()
+    if (!version) return
+    setText("model-summary", `Scoring all jobs with model ${version}…`)
+    try {
+      // The route scores one page per request
+      let offset = 0
+      for (;;) {
+        const res = await fetch("/api/admin/scoring-models", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ version, offset }),
+        })
+        const d = await res.json()
+        setText("model-summary", d.message ?? d.error ?? "Done")
+        if (typeof d.nextOffset !== "number") break
+        offset = d.nextOffset
+      }
+    } catch (err: any) {
+      setText("model-summary", `Failed to score model: ${err.message ?? err}`)
+    }
+  }
+
+  const compareModels = async () => {
+    const from = ($("model-from") as HTMLInputElement | null)?.value.trim() ?? ""
+    const to = ($("model-to") as HTMLInputElement | null)?.value.trim() ?? ""
+    const body = $("model-changes")
+    if (!body) return
+
+    try {
+      const res = await fetch(
+        `/api/admin/scoring-models/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+      )
+      const d = await res.json()
+      body.replaceChildren()
+      if (!d.success) {
+        setText("model-summary", d.error ?? "Comparison failed")
+        return
+      }
+
+      const c = d.comparison
+      setText(
+        "model-summary",
+        `${c.jobsCompared} compared · ${c.scoresChanged} scores changed · ${c.riskChanged} tier changes · avg Δ ${c.averageScoreDelta}`
+      )
+      for (const change of c.changes) {
+        const row = document.createElement("tr")
+        const cells = [
+          `${change.code} ${change.title}`,
+          `${change.fromScore} → ${change.toScore} (${change.scoreDelta > 0 ? "+" : ""}${change.scoreDelta})`,
+          change.riskChanged ? `${change.fromRisk} → ${change.toRisk}` : change.toRisk,
+        ]
+        for (const value of cells) {
+          const cell = document.createElement("td")
+          cell.textContent = value
+          cell.style.padding = "4px 8px"
+          cell.style.borderTop = "1px solid #E5E7EB"
+          if (change.riskChanged) cell.style.fontWeight = "600"
+          row.appendChild(cell)
+        }
+        body.appendChild(row)
+      }
+    } catch (err: any) {
+      setText("model-summary", `Failed to compare models: ${err.message ?? err}`)
+    }
+  }
+
+  const inputValue = (id: string) => ($(id) as HTMLInputElement | null)?.value.trim() ?? ""
+
+  const fetchOverrides = async () => {
+    const body = $("override-rows")
+    if (!body) return
+
+    try {
+      const res = await fetch("/api/admin/overrides")
+      const d = await res.json()
+      body.replaceChildren()
+      if (!d.success) {
+        setText("override-summary", d.error ?? "Failed to load overrides")
+        return
+      }
+
+      setText("override-summary", `${d.overrides.length} active override(s)`)
+      for (const override of d.overrides) {
+        const row = document.createElement("tr")
+        const cells = [
+          override.occupationCode,
+          Object.entries(override.fields)
+            .map(([field, value]) => `${field} = ${value}`)
+            .join(", "),
+          `${override.reason} (${override.author})`,
+          override.expiresAt ? new Date(override.expiresAt).toLocaleDateString() : "Never",
+        ]
+        for (const value of cells) {
+          const cell = document.createElement("td")
+          cell.textContent = value
+          cell.style.padding = "4px 8px"
+          cell.style.borderTop = "1px solid #E5E7EB"
+          row.appendChild(cell)
+        }
+
+        const actionCell = document.createElement("td")
+        actionCell.style.padding = "4px 8px"
+        actionCell.style.borderTop = "1px solid #E5E7EB"
+        const revokeButton = document.createElement("button")
+        revokeButton.textContent = "Revoke"
+        revokeButton.style.padding = "2px 8px"
+        revokeButton.style.border = "1px solid #FCA5A5"
+        revokeButton.style.borderRadius = "4px"
+        revokeButton.style.color = "#B91C1C"
+        revokeButton.style.backgroundColor = "white"
+        revokeButton.style.cursor = "pointer"
+        revokeButton.onclick = () => revokeOverride(override.id)
+        actionCell.appendChild(revokeButton)
+        row.appendChild(actionCell)
+
+        body.appendChild(row)
+      }
+    } catch (err: any) {
+      setText("override-summary", `Failed to load overrides: ${err.message ?? err}`)
+    }
+  }
+
+  const createOverride = async () => {
+    const fields: Record<string, number> = {}
+    const score = inputValue("override-score")
+    const wage = inputValue("override-wage")
+    if (score) fields.ai_impact_score = Number(score)
+    if (wage) fields.median_wage = Number(wage)
+    const expires = inputValue("override-expires")
+
+    try {
+      const res = await fetch("/api/admin/overrides", {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ action: "start" }),
+        body: JSON.stringify({
+          occupationCode: inputValue("override-code"),
+          fields,
+          reason: inputValue("override-reason"),
+          author: inputValue("override-author"),
+          expiresAt: expires ? new Date(expires).toISOString() : null,
+        }),
       })
-      alert("Sync started!")
-      fetchSyncStatus()
+      const d = await res.json()
+      if (!d.success) {
+        setText("override-summary", [d.error, ...(d.details ?? [])].join(" · "))
+        return
+      }
+      fetchOverrides()
+    } catch (err: any) {
+      setText("override-summary", `Failed to create override: ${err.message ?? err}`)
+    }
+  }
+
+  const revokeOverride = async (id: number) => {
+    const by = inputValue("override-author")
+    if (!by) {
+      setText("override-summary", "Enter your name in Author before revoking")
+      return
+    }
+
+    try {
+      const res = await fetch(`/api/admin/overrides/${id}?by=${encodeURIComponent(by)}`, { method: "DELETE" })
+      const d = await res.json()
+      if (!d.success) {
+        setText("override-summary", d.error ?? "Failed to revoke override")
+        return
+      }
+      fetchOverrides()
     } catch (err: any) {
-      alert(`Failed to start sync: ${err.message ?? err}`)
+      setText("override-summary", `Failed to revoke override: ${err.message ?? err}`)
     }
   }
 
@@ -76,6 +281,7 @@ export default function UltraMinimalDashboard() {
     // first paint
     fetchDatabaseStatus()
     fetchSyncStatus()
+    fetchOverrides()
 
     intervalRef.current = setInterval(() => {
       fetchDatabaseStatus()
@@ -143,6 +349,19 @@ export default function UltraMinimalDashboard() {
         >
           Start Sync
         </button>
+        <a
+          href="/admin/schedules"
+          style={{
+            padding: "8px 16px",
+            backgroundColor: "#F3F4F6",
+            border: "1px solid #D1D5DB",
+            borderRadius: "4px",
+            color: "#111827",
+            textDecoration: "none",
+          }}
+        >
+          Sync Schedules
+        </a>
       </div>
 
       {/* cards */}
@@ -264,6 +483,160 @@ export default function UltraMinimalDashboard() {
           </p>
         </div>
       </div>
+
+      {/* Scoring model comparison */}
+      <div
+        style={{
+          border: "1px solid #E5E7EB",
+          borderRadius: "8px",
+          padding: "16px",
+          backgroundColor: "white",
+          marginTop: "20px",
+        }}
+      >
+        <h2
+          style={{
+            fontSize: "18px",
+            marginBottom: "12px",
+            fontWeight: 600,
+            color: "#111827",
+          }}
+        >
+          Scoring Model Comparison
+        </h2>
+        <div
+          style={{
+            display: "flex",
+            gap: "10px",
+            alignItems: "center",
+            flexWrap: "wrap",
+            marginBottom: "12px",
+          }}
+        >
+          <label>
+            From{" "}
+            <input
+              id="model-from"
+              defaultValue="1.0"
+              style={{ width: "70px", padding: "4px", border: "1px solid #D1D5DB", borderRadius: "4px" }}
+            />
+          </label>
+          <label>
+            To{" "}
+            <input
+              id="model-to"
+              defaultValue="1.1"
+              style={{ width: "70px", padding: "4px", border: "1px solid #D1D5DB", borderRadius: "4px" }}
+            />
+          </label>
+          <button
+            style={{
+              padding: "8px 16px",
+              backgroundColor: "#F3F4F6",
+              border: "1px solid #D1D5DB",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+            onClick={scoreCandidateModel}
+          >
+            Score &quot;To&quot; Model
+          </button>
+          <button
+            style={{
+              padding: "8px 16px",
+              backgroundColor: "#3B82F6",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+            onClick={compareModels}
+          >
+            Compare
+          </button>
+        </div>
+        <p id="model-summary" style={{ fontSize: "14px", color: "#6B7280", marginBottom: "8px" }}>
+          Score both versions, then compare to review changes before switching models.
+        </p>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "14px" }}>
+          <thead>
+            <tr style={{ textAlign: "left", color: "#6B7280" }}>
+              <th style={{ padding: "4px 8px" }}>Occupation</th>
+              <th style={{ padding: "4px 8px" }}>Score</th>
+              <th style={{ padding: "4px 8px" }}>Risk Tier</th>
+            </tr>
+          </thead>
+          <tbody id="model-changes"></tbody>
+        </table>
+      </div>
+
+      <div
+        style={{
+          border: "1px solid #E5E7EB",
+          borderRadius: "8px",
+          padding: "16px",
+          backgroundColor: "white",
+          marginTop: "20px",
+        }}
+      >
+        <h2
+          style={{
+            fontSize: "18px",
+            marginBottom: "12px",
+            fontWeight: 600,
+            color: "#111827",
+          }}
+        >
+          Score Overrides
+        </h2>
+        <div
+          style={{
+            display: "flex",
+            gap: "10px",
+            alignItems: "center",
+            flexWrap: "wrap",
+            marginBottom: "12px",
+          }}
+        >
+          <input id="override-code" placeholder="SOC code" style={{ width: "90px", padding: "4px", border: "1px solid #D1D5DB", borderRadius: "4px" }} />
+          <input id="override-score" type="number" min={0} max={100} placeholder="Score" style={{ width: "70px", padding: "4px", border: "1px solid #D1D5DB", borderRadius: "4px" }} />
+          <input id="override-wage" type="number" min={0} placeholder="Median wage" style={{ width: "110px", padding: "4px", border: "1px solid #D1D5DB", borderRadius: "4px" }} />
+          <input id="override-reason" placeholder="Reason" style={{ flex: 1, minWidth: "160px", padding: "4px", border: "1px solid #D1D5DB", borderRadius: "4px" }} />
+          <input id="override-author" placeholder="Author" style={{ width: "110px", padding: "4px", border: "1px solid #D1D5DB", borderRadius: "4px" }} />
+          <label>
+            Expires{" "}
+            <input id="override-expires" type="date" style={{ padding: "4px", border: "1px solid #D1D5DB", borderRadius: "4px" }} />
+          </label>
+          <button
+            style={{
+              padding: "8px 16px",
+              backgroundColor: "#3B82F6",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+            onClick={createOverride}
+          >
+            Create Override
+          </button>
+        </div>
+        <p id="override-summary" style={{ fontSize: "14px", color: "#6B7280", marginBottom: "8px" }}>
+          Overridden values survive syncs until revoked or expired.
+        </p>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "14px" }}>
+          <thead>
+            <tr style={{ textAlign: "left", color: "#6B7280" }}>
+              <th style={{ padding: "4px 8px" }}>Code</th>
+              <th style={{ padding: "4px 8px" }}>Values</th>
+              <th style={{ padding: "4px 8px" }}>Reason</th>
+              <th style={{ padding: "4px 8px" }}>Expires</th>
+              <th style={{ padding: "4px 8px" }}></th>
+            </tr>
+          </thead>
+          <tbody id="override-rows"></tbody>
+        </table>
+      </div>
     </div>
   )
 }
@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge"
+import { getRiskTier } from "@/lib/risk-tiers"
+import { cn } from "@/lib/utils"
+
+interface RiskBadgeProps {
+  score?: number | null
+  // "score" renders "87% Risk", "tier" renders "Very High Risk"
+  display?: "score" | "tier"
+  className?: string
+}
+
+/**
+ * Badge colored by the risk tier of an AI impact score
+ */
+export function RiskBadge({ score, display = "score", className }: RiskBadgeProps) {
+  if (score === undefined || score === null) return null
+
+  const tier = getRiskTier(score)
+  return (
+    <Badge variant="outline" className={cn(tier.colors.badge, className)}>
+      {display === "tier" ? `${tier.label} Risk` : `${score}% Risk`}
+    </Badge>
+  )
+}
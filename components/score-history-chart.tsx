@@ -0,0 +1,55 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { RISK_TIERS } from "@/lib/risk-tiers"
+import type { ScoreHistoryEntry } from "@/lib/score-history"
+
+interface ScoreHistoryChartProps {
+  history: ScoreHistoryEntry[]
+}
+
+const chartConfig = {
+  score: {
+    label: "AI Impact Score",
+    color: "#2563EB",
+  },
+} satisfies ChartConfig
+
+/**
+ * Line chart of an occupation's AI impact score over time, with the risk tier
+ * boundaries drawn as reference lines
+ */
+export function ScoreHistoryChart({ history }: ScoreHistoryChartProps) {
+  const data = history
+    .filter((entry) => entry.aiImpactScore !== null)
+    .map((entry) => ({
+      date: new Date(entry.recordedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }),
+      score: entry.aiImpactScore,
+      risk: entry.automationRisk,
+    }))
+
+  if (data.length === 0) return null
+
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <LineChart data={data} margin={{ top: 8, right: 16, bottom: 8, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis domain={[0, 100]} ticks={[0, 20, 40, 60, 80, 100]} tickLine={false} axisLine={false} width={32} />
+        {RISK_TIERS.filter((tier) => tier.minScore > 0).map((tier) => (
+          <ReferenceLine key={tier.id} y={tier.minScore} stroke={tier.colors.hex} strokeDasharray="4 4" strokeOpacity={0.5} />
+        ))}
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Line
+          type="monotone"
+          dataKey="score"
+          stroke="var(--color-score)"
+          strokeWidth={2}
+          dot={{ r: 3 }}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  )
+}
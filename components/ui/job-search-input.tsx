@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef, KeyboardEvent, ChangeEvent, FocusEvent } from "react"
 import { Search, Loader2 } from "lucide-react"
 import { Input } from "@/components/ui/input"
-import { Badge } from "@/components/ui/badge"
+import { RiskBadge } from "@/components/risk-badge"
 import { cn } from "@/lib/utils"
 
 // Type definitions
@@ -11,6 +11,7 @@ interface JobSuggestion {
   occ_code: string
   occ_title: string
   ai_impact_score?: number
+  matched_alias?: string | null
 }
 
 interface JobSearchInputProps {
@@ -162,23 +163,6 @@ export function JobSearchInput({
     }, 200)
   }
   
-  // Helper for rendering risk badges
-  const getRiskBadge = (score?: number) => {
-    if (score === undefined) return null
-    
-    if (score >= 80) {
-      return <Badge variant="destructive" className="text-xs">High Risk</Badge>
-    } else if (score >= 60) {
-      return <Badge variant="outline" className="bg-orange-100 text-orange-800 border-orange-200 text-xs">Medium-High</Badge>
-    } else if (score >= 40) {
-      return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200 text-xs">Medium</Badge>
-    } else if (score >= 20) {
-      return <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200 text-xs">Low-Medium</Badge>
-    } else {
-      return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200 text-xs">Low Risk</Badge>
-    }
-  }
-  
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -251,9 +235,12 @@ export function JobSearchInput({
             >
               <div className="flex-1">
                 <div className="font-medium text-gray-800">{suggestion.occ_title}</div>
+                {suggestion.matched_alias && (
+                  <div className="text-xs text-gray-600">Also known as &ldquo;{suggestion.matched_alias}&rdquo;</div>
+                )}
                 <div className="text-xs text-gray-500">Code: {suggestion.occ_code}</div>
               </div>
-              {getRiskBadge(suggestion.ai_impact_score)}
+              <RiskBadge score={suggestion.ai_impact_score} display="tier" className="text-xs" />
             </div>
           ))}
         </div>
@@ -0,0 +1,62 @@
+interface WageRangeProps {
+  p10?: number | null
+  p25?: number | null
+  median?: number | null
+  p75?: number | null
+  p90?: number | null
+  mean?: number | null
+}
+
+const formatWage = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value)
+
+/**
+ * Horizontal bar of an occupation's annual wage distribution: the full bar
+ * spans the 10th to 90th percentile, the darker band the middle 50%, with
+ * markers for the median and mean
+ */
+export function WageRange({ p10, p25, median, p75, p90, mean }: WageRangeProps) {
+  if (p10 == null || p90 == null || p90 <= p10) return null
+
+  const position = (value: number) => `${Math.min(100, Math.max(0, ((value - p10) / (p90 - p10)) * 100))}%`
+
+  const labels = [
+    { label: "10th percentile", value: p10 },
+    { label: "25th percentile", value: p25 },
+    { label: "Median", value: median },
+    { label: "75th percentile", value: p75 },
+    { label: "90th percentile", value: p90 },
+  ]
+
+  return (
+    <div>
+      <div className="relative h-4 rounded-full bg-purple-100 my-6">
+        {p25 != null && p75 != null && (
+          <div
+            className="absolute inset-y-0 bg-purple-300 rounded-full"
+            style={{ left: position(p25), right: `calc(100% - ${position(p75)})` }}
+          />
+        )}
+        {median != null && (
+          <div className="absolute -inset-y-1 w-1 bg-purple-700 rounded" style={{ left: position(median) }} title="Median" />
+        )}
+        {mean != null && (
+          <div
+            className="absolute -inset-y-1 w-1 bg-gray-500 rounded opacity-70"
+            style={{ left: position(mean) }}
+            title="Mean"
+          />
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+        {labels.map((item) => (
+          <div key={item.label}>
+            <div className="text-gray-500">{item.label}</div>
+            <div className="font-semibold">{item.value != null ? formatWage(item.value) : "N/A"}</div>
+          </div>
+        ))}
+      </div>
+      {mean != null && <p className="text-sm text-gray-500 mt-4">Mean annual wage: {formatWage(mean)}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,436 @@
+/**
+ * Deterministic AI impact scoring engine.
+ *
+ * Every score is the sum of a neutral baseline and a small number of
+ * explainable factors (title keywords, SOC major group, wage level,
+ * employment trend and, when O*NET data has been imported, task-level
+ * automatability).  The same inputs always produce the same score, and the
+ * returned breakdown lists how many points each factor contributed so a number
+ * shown to users can always be traced back to its inputs.  The confidence
+ * range widens when signals are missing or only estimated.  Tables and
+ * weights are not defined here: each model version passes in its own frozen
+ * parameters (see scoring-parameters.ts).
+ */
+
+import { getRiskTier, type RiskTierId, type RiskTierLabel } from "./risk-tiers"
+import { LATEST_SCORING_PARAMETERS } from "./scoring-parameters"
+
+// ========== TYPES AND INTERFACES ==========
+
+export type ScoreFactorName =
+  | "baseline"
+  | "title_keywords"
+  | "major_group"
+  | "wage"
+  | "employment_trend"
+  | "task_automation"
+
+export interface ScoreFactor {
+  factor: ScoreFactorName
+  points: number
+  detail: string
+}
+
+export interface ScoringInput {
+  occupationCode: string
+  occupationTitle: string
+  medianWage?: number | null
+  employment?: number | null
+  projectedEmployment?: number | null
+  // Importance-weighted 0-100 automatability of the occupation's O*NET tasks
+  taskAutomationScore?: number | null
+  // Wage and employment are fallback estimates rather than BLS data
+  estimatedInputs?: boolean
+}
+
+export interface ConfidenceRange {
+  low: number
+  high: number
+}
+
+export interface AIImpactResult {
+  aiImpactScore: number
+  automationRisk: RiskTierLabel
+  breakdown: ScoreFactor[]
+  confidenceRange: ConfidenceRange
+  skillsAtRisk: string[]
+  skillsNeeded: string[]
+  futureOutlook: string
+}
+
+export interface KeywordBucket {
+  points: number
+  keywords: readonly string[]
+}
+
+export interface WageBand {
+  // Applies to median wages below this amount
+  below: number
+  points: number
+  label: string
+  note?: string
+}
+
+export interface EmploymentTrendBand {
+  // Applies to projected changes below this percentage
+  belowPercent: number
+  points: number
+  label: string
+}
+
+export type ConfidenceSignal = "keywordMatched" | "taskData" | "wageData" | "employmentTrend" | "estimatedInputs"
+
+export interface ScoringParameters {
+  // Score the occupation's O*NET task automatability when it is known
+  useTaskData: boolean
+  // Score fallback-estimated wage and employment as zero and widen the range instead
+  discountEstimatedInputs: boolean
+  baselineScore: number
+  minScore: number
+  maxScore: number
+  // Checked in order; the first bucket with a keyword among the title words wins
+  keywordBuckets: readonly KeywordBucket[]
+  // Points by SOC major group (first two digits of the code)
+  majorGroupPoints: Readonly<Record<string, { label: string; points: number }>>
+  // Major group weight when a title keyword already matched
+  majorGroupWeightWithKeyword: number
+  // Weight of the task score's distance from the baseline
+  taskAutomationWeight: number
+  // Title and major group weight when task data is available
+  heuristicWeightWithTasks: number
+  // Ascending by upper bound; the last band must be unbounded
+  wageBands: readonly WageBand[]
+  employmentTrendBands: readonly EmploymentTrendBand[]
+  // Half-width of the confidence range before and after signal adjustments
+  baseConfidenceMargin: number
+  minConfidenceMargin: number
+  confidenceAdjustments: Readonly<Record<ConfidenceSignal, number>>
+}
+
+interface RiskProfile {
+  skillsAtRisk: string[]
+  skillsNeeded: string[]
+  futureOutlook: string
+}
+
+// ========== RISK PROFILES ==========
+
+/**
+ * Skills and outlook shown for each risk tier
+ */
+const RISK_PROFILES: Record<RiskTierId, RiskProfile> = {
+  "very-high": {
+    skillsAtRisk: [
+      "Routine transactions",
+      "Manual data entry",
+      "Repetitive calculations",
+      "Basic customer interactions",
+      "Inventory counting",
+      "Simple decision making",
+    ],
+    skillsNeeded: [
+      "Customer relationship management",
+      "Complex problem-solving",
+      "Technology adaptation",
+      "Emotional intelligence",
+      "Process improvement",
+      "Digital literacy",
+    ],
+    futureOutlook:
+      "Very high risk of automation within 3-7 years. These roles will likely be fully automated or significantly reduced. Focus immediately on developing interpersonal skills, learning to work with AI systems, and transitioning to roles requiring human judgment and creativity.",
+  },
+  high: {
+    skillsAtRisk: [
+      "Routine analysis",
+      "Standard procedures",
+      "Document processing",
+      "Basic calculations",
+      "Pattern recognition",
+      "Rule-based decisions",
+    ],
+    skillsNeeded: [
+      "Strategic thinking",
+      "Client consultation",
+      "Complex analysis",
+      "AI tool proficiency",
+      "Regulatory expertise",
+      "Risk assessment",
+      "Relationship building",
+    ],
+    futureOutlook:
+      "High risk of significant task automation within 5-10 years. While roles may not disappear entirely, they will be transformed. Focus on advisory aspects, complex problem-solving, and developing expertise in AI collaboration. Consider specializing in areas requiring human judgment and ethical decision-making.",
+  },
+  medium: {
+    skillsAtRisk: [
+      "Routine diagnostics",
+      "Standard installations",
+      "Basic troubleshooting",
+      "Code generation",
+      "Simple designs",
+      "Predictable maintenance",
+    ],
+    skillsNeeded: [
+      "Complex problem diagnosis",
+      "Custom solutions",
+      "Safety management",
+      "AI tool integration",
+      "Continuous learning",
+      "Customer communication",
+      "Innovation and creativity",
+    ],
+    futureOutlook:
+      "Moderate risk with AI augmenting rather than replacing core functions. AI will assist with diagnostics, planning, and routine tasks, allowing focus on complex problems, custom solutions, and innovation. Professionals should learn to collaborate with AI tools while maintaining hands-on expertise.",
+  },
+  low: {
+    skillsAtRisk: [
+      "Basic scheduling",
+      "Simple reporting",
+      "Routine communications",
+      "Data collection",
+      "Standard presentations",
+    ],
+    skillsNeeded: [
+      "Relationship building",
+      "Strategic thinking",
+      "Emotional intelligence",
+      "Complex negotiation",
+      "Creative problem solving",
+      "Leadership",
+      "Change management",
+    ],
+    futureOutlook:
+      "Low to moderate risk with AI enhancing productivity rather than replacing roles. AI will handle administrative tasks, data analysis, and routine communications, freeing professionals to focus on strategy, relationships, and creative problem-solving. Success requires strong interpersonal skills and strategic thinking.",
+  },
+  "very-low": {
+    skillsAtRisk: [
+      "Administrative tasks",
+      "Basic documentation",
+      "Simple scheduling",
+      "Routine assessments",
+      "Standard reporting",
+    ],
+    skillsNeeded: [
+      "Emotional intelligence",
+      "Creative thinking",
+      "Complex problem solving",
+      "Leadership",
+      "Ethical decision making",
+      "AI collaboration",
+      "Continuous learning",
+      "Cultural competency",
+    ],
+    futureOutlook:
+      "Low risk of automation with AI serving as a powerful assistant. AI will handle administrative tasks, provide data insights, and support decision-making, but human judgment, creativity, empathy, and complex reasoning remain irreplaceable. Focus on developing uniquely human skills while learning to leverage AI tools effectively.",
+  },
+}
+
+// ========== FACTOR CALCULATIONS ==========
+
+// Whether the title has the keyword as whole words, singular or plural, so
+// "sales" does not match "Wholesale" nor "nurse" "Nursery"
+function titleHasKeyword(normalizedTitle: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(`\\b${escaped}(?:s|es)?\\b`).test(normalizedTitle)
+}
+
+function scoreTitleKeywords(title: string, parameters: ScoringParameters): { factor: ScoreFactor; matched: boolean } {
+  const normalizedTitle = title.toLowerCase()
+
+  for (const bucket of parameters.keywordBuckets) {
+    const keyword = bucket.keywords.find((candidate) => titleHasKeyword(normalizedTitle, candidate))
+    if (keyword) {
+      return {
+        matched: true,
+        factor: {
+          factor: "title_keywords",
+          points: bucket.points,
+          detail: `Title matches "${keyword}" (${getRiskTier(parameters.baselineScore + bucket.points).label} risk keyword group)`,
+        },
+      }
+    }
+  }
+
+  return {
+    matched: false,
+    factor: { factor: "title_keywords", points: 0, detail: "No risk keywords found in title" },
+  }
+}
+
+function scoreMajorGroup(occupationCode: string, keywordMatched: boolean, parameters: ScoringParameters): ScoreFactor {
+  const majorGroup = occupationCode.split("-")[0]
+  const group = parameters.majorGroupPoints[majorGroup]
+
+  if (!group) {
+    return { factor: "major_group", points: 0, detail: `Unknown major group ${majorGroup}` }
+  }
+
+  const weight = keywordMatched ? parameters.majorGroupWeightWithKeyword : 1
+  return {
+    factor: "major_group",
+    points: Math.round(group.points * weight),
+    detail:
+      weight === 1
+        ? `${group.label} occupations (${majorGroup}-0000)`
+        : `${group.label} occupations (${majorGroup}-0000), reduced weight because a title keyword matched`,
+  }
+}
+
+function scoreWage(medianWage: number | null | undefined, parameters: ScoringParameters): ScoreFactor {
+  if (!medianWage || medianWage <= 0) {
+    return { factor: "wage", points: 0, detail: "No wage data available" }
+  }
+
+  const formatted = `$${Math.round(medianWage).toLocaleString("en-US")}`
+  const band = parameters.wageBands.find((candidate) => medianWage < candidate.below)!
+  return {
+    factor: "wage",
+    points: band.points,
+    detail: `${band.label} (${formatted})${band.note ? ` ${band.note}` : ""}`,
+  }
+}
+
+function scoreEmploymentTrend(
+  employment: number | null | undefined,
+  projectedEmployment: number | null | undefined,
+  parameters: ScoringParameters
+): ScoreFactor {
+  if (!employment || employment <= 0 || !projectedEmployment || projectedEmployment <= 0) {
+    return { factor: "employment_trend", points: 0, detail: "No employment projection available" }
+  }
+
+  const changePercent = ((projectedEmployment - employment) / employment) * 100
+  const formatted = `${changePercent > 0 ? "+" : ""}${changePercent.toFixed(1)}%`
+
+  const band = parameters.employmentTrendBands.find((candidate) => changePercent < candidate.belowPercent)!
+  return { factor: "employment_trend", points: band.points, detail: `${band.label} (${formatted})` }
+}
+
+function scoreTaskAutomation(taskAutomationScore: number | null | undefined, parameters: ScoringParameters): ScoreFactor | null {
+  if (
+    !parameters.useTaskData ||
+    taskAutomationScore === undefined ||
+    taskAutomationScore === null ||
+    isNaN(taskAutomationScore)
+  ) {
+    return null
+  }
+
+  return {
+    factor: "task_automation",
+    points: Math.round((taskAutomationScore - parameters.baselineScore) * parameters.taskAutomationWeight),
+    detail: `O*NET tasks are ${Math.round(taskAutomationScore)}% automatable (importance-weighted)`,
+  }
+}
+
+function estimatedFactor(factor: ScoreFactor): ScoreFactor {
+  return { ...factor, points: 0, detail: `${factor.detail}, not scored because it is a fallback estimate` }
+}
+
+function calculateConfidenceRange(
+  score: number,
+  signals: Record<ConfidenceSignal, boolean>,
+  parameters: ScoringParameters
+): ConfidenceRange {
+  let margin = parameters.baseConfidenceMargin
+  for (const [signal, present] of Object.entries(signals)) {
+    if (present) margin += parameters.confidenceAdjustments[signal as ConfidenceSignal]
+  }
+  margin = Math.max(parameters.minConfidenceMargin, margin)
+
+  return {
+    low: Math.max(0, score - margin),
+    high: Math.min(100, score + margin),
+  }
+}
+
+function scaleFactor(factor: ScoreFactor, weight: number): ScoreFactor {
+  return { ...factor, points: Math.round(factor.points * weight), detail: `${factor.detail}, reduced weight because task data is available` }
+}
+
+// ========== PUBLIC API ==========
+
+/**
+ * Map a 0-100 score to an automation risk label
+ */
+export function getAutomationRisk(score: number): RiskTierLabel {
+  return getRiskTier(score).label
+}
+
+/**
+ * Calculate the AI impact score for an occupation.  The score is the sum of
+ * the breakdown points, clamped to the parameters' score range.
+ * @param input Occupation code and title plus optional wage/employment data
+ * @param parameters Tables and weights of the model version to score with
+ * @returns Score, risk label, per-factor breakdown, confidence range and the matching skills/outlook profile
+ */
+export function calculateAIImpact(
+  input: ScoringInput,
+  parameters: ScoringParameters = LATEST_SCORING_PARAMETERS
+): AIImpactResult {
+  const keywordResult = scoreTitleKeywords(input.occupationTitle || "", parameters)
+  const estimatedInputs = parameters.discountEstimatedInputs && Boolean(input.estimatedInputs)
+
+  const taskFactor = scoreTaskAutomation(input.taskAutomationScore, parameters)
+
+  let titleFactor = keywordResult.factor
+  let majorGroupFactor = scoreMajorGroup(input.occupationCode, keywordResult.matched, parameters)
+  if (taskFactor) {
+    titleFactor = scaleFactor(titleFactor, parameters.heuristicWeightWithTasks)
+    majorGroupFactor = scaleFactor(majorGroupFactor, parameters.heuristicWeightWithTasks)
+  }
+
+  let wageFactor = scoreWage(input.medianWage, parameters)
+  let trendFactor = scoreEmploymentTrend(input.employment, input.projectedEmployment, parameters)
+  if (estimatedInputs) {
+    wageFactor = estimatedFactor(wageFactor)
+    trendFactor = estimatedFactor(trendFactor)
+  }
+
+  const breakdown: ScoreFactor[] = [
+    { factor: "baseline", points: parameters.baselineScore, detail: "Neutral starting point" },
+    titleFactor,
+    majorGroupFactor,
+    wageFactor,
+    trendFactor,
+  ]
+  if (taskFactor) {
+    breakdown.push(taskFactor)
+  }
+
+  const rawScore = breakdown.reduce((total, factor) => total + factor.points, 0)
+  const aiImpactScore = Math.max(parameters.minScore, Math.min(parameters.maxScore, Math.round(rawScore)))
+  const tier = getRiskTier(aiImpactScore)
+  const profile = RISK_PROFILES[tier.id]
+  const confidenceRange = calculateConfidenceRange(
+    aiImpactScore,
+    {
+      keywordMatched: keywordResult.matched,
+      taskData: taskFactor !== null,
+      wageData: !estimatedInputs && Boolean(input.medianWage && input.medianWage > 0),
+      employmentTrend:
+        !estimatedInputs &&
+        Boolean(input.employment && input.employment > 0 && input.projectedEmployment && input.projectedEmployment > 0),
+      estimatedInputs,
+    },
+    parameters
+  )
+
+  return {
+    aiImpactScore,
+    automationRisk: tier.label,
+    breakdown,
+    confidenceRange,
+    skillsAtRisk: [...profile.skillsAtRisk],
+    skillsNeeded: [...profile.skillsNeeded],
+    futureOutlook: profile.futureOutlook,
+  }
+}
+
+/**
+ * Render a breakdown as a single human-readable line, e.g. for logs
+ */
+export function formatScoreBreakdown(breakdown: ScoreFactor[]): string {
+  return breakdown
+    .map((factor) => `${factor.factor}: ${factor.points >= 0 && factor.factor !== "baseline" ? "+" : ""}${factor.points}`)
+    .join(", ")
+}
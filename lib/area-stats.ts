@@ -0,0 +1,190 @@
+import { isMissingTableError, sqlEnhanced } from "./database-enhanced"
+import type { BLSService, JobData as BLSJobData } from "./bls-service"
+import type { OEWSArea, OEWSAreaType } from "./oews-areas"
+
+/**
+ * State and metro-area employment and wages per occupation.
+ *
+ * National figures live on the `jobs` row; `job_area_stats` holds one row per
+ * occupation and OEWS area.  Rows are filled in bulk by
+ * scripts/sync-area-stats.ts or on demand when an area is first requested.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export interface AreaStats {
+  areaType: OEWSAreaType
+  areaCode: string
+  areaName: string
+  employment: number | null
+  medianWage: number | null
+  meanWage: number | null
+  hourlyMedianWage: number | null
+  hourlyMeanWage: number | null
+  wageP10: number | null
+  wageP25: number | null
+  wageP75: number | null
+  wageP90: number | null
+  updatedAt: string
+}
+
+interface AreaStatsRow {
+  area_type: OEWSAreaType
+  area_code: string
+  area_name: string
+  employment: number | null
+  median_wage: number | null
+  mean_wage: number | null
+  hourly_median_wage: string | null
+  hourly_mean_wage: string | null
+  wage_p10: number | null
+  wage_p25: number | null
+  wage_p75: number | null
+  wage_p90: number | null
+  updated_at: string
+}
+
+// ========== DATABASE ==========
+
+function toAreaStats(row: AreaStatsRow): AreaStats {
+  return {
+    areaType: row.area_type,
+    areaCode: row.area_code,
+    areaName: row.area_name,
+    employment: row.employment,
+    medianWage: row.median_wage,
+    meanWage: row.mean_wage,
+    hourlyMedianWage: row.hourly_median_wage !== null ? Number(row.hourly_median_wage) : null,
+    hourlyMeanWage: row.hourly_mean_wage !== null ? Number(row.hourly_mean_wage) : null,
+    wageP10: row.wage_p10,
+    wageP25: row.wage_p25,
+    wageP75: row.wage_p75,
+    wageP90: row.wage_p90,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Create the area statistics table if it does not exist
+ */
+export async function initializeAreaStatsTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS job_area_stats (
+      occ_code VARCHAR(10) NOT NULL,
+      area_type VARCHAR(10) NOT NULL CHECK (area_type IN ('national', 'state', 'metro')),
+      area_code VARCHAR(7) NOT NULL,
+      area_name VARCHAR(100) NOT NULL,
+      employment INTEGER,
+      median_wage INTEGER,
+      mean_wage INTEGER,
+      hourly_median_wage NUMERIC(7,2),
+      hourly_mean_wage NUMERIC(7,2),
+      wage_p10 INTEGER,
+      wage_p25 INTEGER,
+      wage_p75 INTEGER,
+      wage_p90 INTEGER,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (occ_code, area_code)
+    )
+  `
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_job_area_stats_area ON job_area_stats(area_code)`
+}
+
+/**
+ * Store an occupation's figures for one area, replacing earlier figures
+ * @param occupationCode Occupation code
+ * @param area OEWS area the figures are for
+ * @param data Employment and wages fetched from BLS
+ */
+export async function saveAreaStats(occupationCode: string, area: OEWSArea, data: BLSJobData): Promise<void> {
+  await sqlEnhanced`
+    INSERT INTO job_area_stats (
+      occ_code, area_type, area_code, area_name, employment, median_wage, mean_wage,
+      hourly_median_wage, hourly_mean_wage, wage_p10, wage_p25, wage_p75, wage_p90, updated_at
+    ) VALUES (
+      ${occupationCode}, ${area.type}, ${area.code}, ${area.name},
+      ${data.employment || null}, ${data.medianWage || null}, ${data.wages.annualMean},
+      ${data.wages.hourlyMedian}, ${data.wages.hourlyMean},
+      ${data.wages.annualP10}, ${data.wages.annualP25}, ${data.wages.annualP75}, ${data.wages.annualP90},
+      NOW()
+    )
+    ON CONFLICT (occ_code, area_code)
+    DO UPDATE SET
+      area_name = EXCLUDED.area_name,
+      employment = EXCLUDED.employment,
+      median_wage = EXCLUDED.median_wage,
+      mean_wage = EXCLUDED.mean_wage,
+      hourly_median_wage = EXCLUDED.hourly_median_wage,
+      hourly_mean_wage = EXCLUDED.hourly_mean_wage,
+      wage_p10 = EXCLUDED.wage_p10,
+      wage_p25 = EXCLUDED.wage_p25,
+      wage_p75 = EXCLUDED.wage_p75,
+      wage_p90 = EXCLUDED.wage_p90,
+      updated_at = NOW()
+  `
+}
+
+/**
+ * Get every stored area breakdown for an occupation, states before metros
+ */
+export async function getAreaStatsForJob(occupationCode: string): Promise<AreaStats[]> {
+  try {
+    const rows = await sqlEnhanced<AreaStatsRow>`
+      SELECT area_type, area_code, area_name, employment, median_wage, mean_wage,
+        hourly_median_wage, hourly_mean_wage, wage_p10, wage_p25, wage_p75, wage_p90, updated_at
+      FROM job_area_stats
+      WHERE occ_code = ${occupationCode}
+      ORDER BY area_type DESC, area_name
+    `
+    return rows.map(toAreaStats)
+  } catch (error) {
+    if (isMissingTableError(error)) return []
+    throw error
+  }
+}
+
+/**
+ * Get an occupation's stored figures for one area
+ */
+export async function getAreaStats(occupationCode: string, areaCode: string): Promise<AreaStats | null> {
+  try {
+    const [row] = await sqlEnhanced<AreaStatsRow>`
+      SELECT area_type, area_code, area_name, employment, median_wage, mean_wage,
+        hourly_median_wage, hourly_mean_wage, wage_p10, wage_p25, wage_p75, wage_p90, updated_at
+      FROM job_area_stats
+      WHERE occ_code = ${occupationCode} AND area_code = ${areaCode}
+    `
+    return row ? toAreaStats(row) : null
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Fetch an occupation's figures for several areas from BLS and store those
+ * that BLS publishes
+ * @param blsService Service used for the request
+ * @param occupationCode Occupation code
+ * @param areas OEWS areas to fetch
+ * @returns Number of areas stored and the series errors per area code
+ */
+export async function refreshAreaStats(
+  blsService: BLSService,
+  occupationCode: string,
+  areas: OEWSArea[]
+): Promise<{ stored: number; errors: Map<string, string[]> }> {
+  await initializeAreaStatsTable()
+
+  const result = await blsService.fetchAreaData(occupationCode, areas)
+  let stored = 0
+  for (const area of areas) {
+    const data = result.data.get(area.code)
+    if (data) {
+      await saveAreaStats(occupationCode, area, data)
+      stored++
+    }
+  }
+
+  return { stored, errors: result.errors }
+}
@@ -0,0 +1,172 @@
+import { isMissingTableError, sqlEnhanced } from "./database-enhanced"
+import type { BLSSeriesDataPoint } from "./bls-service"
+
+/**
+ * Persistent BLS response cache.
+ *
+ * Series data is stored per series ID and requested year range in
+ * `bls_series_cache`.  OEWS estimates are published once a year, so a long
+ * TTL lets repeated syncs skip the API entirely.  In cache-only mode stored
+ * responses are replayed regardless of age and nothing is requested from the
+ * network, which rebuilds the `jobs` table without spending API keys.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+// off: always call the API; read-write: serve fresh entries from the cache
+// and store new responses; cache-only: never call the API
+export type BLSCacheMode = "off" | "read-write" | "cache-only"
+
+export interface BLSCacheConfig {
+  mode: BLSCacheMode
+  ttlMs: number
+}
+
+export interface BLSCacheStats {
+  series: number
+  oldestFetchedAt: string | null
+  newestFetchedAt: string | null
+}
+
+// ========== CONFIGURATION ==========
+
+const CACHE_MODES: BLSCacheMode[] = ["off", "read-write", "cache-only"]
+
+// OEWS data changes yearly; refetch monthly to pick up revisions
+const DEFAULT_TTL_HOURS = 24 * 30
+
+/**
+ * Read the cache settings from BLS_CACHE_MODE and BLS_CACHE_TTL_HOURS,
+ * falling back to read-write with a 30 day TTL
+ */
+export function getBLSCacheConfig(): BLSCacheConfig {
+  const configuredMode = process.env.BLS_CACHE_MODE
+  const mode = CACHE_MODES.find((candidate) => candidate === configuredMode)
+  if (configuredMode && !mode) {
+    console.warn(`⚠️ Unknown BLS_CACHE_MODE "${configuredMode}", using read-write`)
+  }
+
+  const configuredTtl = Number.parseFloat(process.env.BLS_CACHE_TTL_HOURS || "")
+  const ttlHours = isNaN(configuredTtl) || configuredTtl < 0 ? DEFAULT_TTL_HOURS : configuredTtl
+
+  return { mode: mode ?? "read-write", ttlMs: ttlHours * 60 * 60 * 1000 }
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the series cache table if it does not exist
+ */
+export async function initializeBLSCacheTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS bls_series_cache (
+      series_id VARCHAR(40) NOT NULL,
+      start_year INTEGER NOT NULL,
+      end_year INTEGER NOT NULL,
+      data JSONB NOT NULL,
+      fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (series_id, start_year, end_year)
+    )
+  `
+}
+
+/**
+ * Look up cached series data
+ * @param seriesIds BLS series IDs
+ * @param startYear First year of the requested range
+ * @param endYear Last year of the requested range
+ * @param maxAgeMs Ignore entries older than this; null accepts any age
+ * @returns Data for every series with a usable entry, keyed by series ID
+ */
+export async function getCachedSeries(
+  seriesIds: string[],
+  startYear: number,
+  endYear: number,
+  maxAgeMs: number | null
+): Promise<Map<string, BLSSeriesDataPoint[]>> {
+  if (seriesIds.length === 0) return new Map()
+
+  const fetchedAfter = maxAgeMs === null ? null : new Date(Date.now() - maxAgeMs).toISOString()
+  let rows: { series_id: string; data: BLSSeriesDataPoint[] }[]
+  try {
+    rows = await sqlEnhanced<{ series_id: string; data: BLSSeriesDataPoint[] }>`
+      SELECT series_id, data
+      FROM bls_series_cache
+      WHERE series_id = ANY(${seriesIds})
+        AND start_year = ${startYear}
+        AND end_year = ${endYear}
+        AND (${fetchedAfter}::timestamp IS NULL OR fetched_at >= ${fetchedAfter}::timestamp)
+    `
+  } catch (error) {
+    if (isMissingTableError(error)) return new Map()
+    throw error
+  }
+
+  return new Map(rows.map((row) => [row.series_id, row.data]))
+}
+
+/**
+ * Store series data, replacing any earlier entry for the same year range
+ * @param entries Data keyed by series ID
+ * @param startYear First year of the requested range
+ * @param endYear Last year of the requested range
+ */
+export async function saveCachedSeries(
+  entries: Map<string, BLSSeriesDataPoint[]>,
+  startYear: number,
+  endYear: number
+): Promise<void> {
+  if (entries.size === 0) return
+
+  const seriesIds = Array.from(entries.keys())
+  await sqlEnhanced`
+    INSERT INTO bls_series_cache (series_id, start_year, end_year, data, fetched_at)
+    SELECT series_id, ${startYear}, ${endYear}, data::jsonb, NOW()
+    FROM UNNEST(
+      ${seriesIds}::text[],
+      ${seriesIds.map((seriesId) => JSON.stringify(entries.get(seriesId)))}::text[]
+    ) AS c(series_id, data)
+    ON CONFLICT (series_id, start_year, end_year)
+    DO UPDATE SET data = EXCLUDED.data, fetched_at = NOW()
+  `
+}
+
+/**
+ * Summarize the cache contents
+ */
+export async function getBLSCacheStats(): Promise<BLSCacheStats> {
+  try {
+    const [row] = await sqlEnhanced<{ series: string; oldest: string | null; newest: string | null }>`
+      SELECT COUNT(*) as series, MIN(fetched_at) as oldest, MAX(fetched_at) as newest
+      FROM bls_series_cache
+    `
+    return {
+      series: Number.parseInt(row.series, 10),
+      oldestFetchedAt: row.oldest,
+      newestFetchedAt: row.newest,
+    }
+  } catch (error) {
+    if (isMissingTableError(error)) return { series: 0, oldestFetchedAt: null, newestFetchedAt: null }
+    throw error
+  }
+}
+
+/**
+ * Remove cached series
+ * @param olderThanMs Only remove entries fetched longer ago than this
+ * @returns Number of entries removed
+ */
+export async function clearBLSCache(olderThanMs?: number): Promise<number> {
+  const fetchedBefore = olderThanMs === undefined ? null : new Date(Date.now() - olderThanMs).toISOString()
+  try {
+    const rows = await sqlEnhanced<{ series_id: string }>`
+      DELETE FROM bls_series_cache
+      WHERE (${fetchedBefore}::timestamp IS NULL OR fetched_at < ${fetchedBefore}::timestamp)
+      RETURNING series_id
+    `
+    return rows.length
+  } catch (error) {
+    if (isMissingTableError(error)) return 0
+    throw error
+  }
+}
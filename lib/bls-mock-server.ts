@@ -0,0 +1,385 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http"
+import type { AddressInfo } from "net"
+import type { BLSSeriesDataPoint } from "./bls-service"
+
+/**
+ * Local stand-in for the BLS v2 timeseries API.
+ *
+ * Serves POST /publicAPI/v2/timeseries/data/ from fixtures, or with
+ * deterministic generated OEWS values for series without one, and injects
+ * the failures the live API produces: 429/403 responses, daily-limit and
+ * invalid-key messages, latency, dropped connections and malformed JSON.
+ * Point BLSService at it with BLS_API_BASE_URL to exercise key rotation,
+ * retries and the circuit breaker offline.  Run it standalone with
+ * scripts/mock-bls-server.ts or start it in-process with startMockBLSServer();
+ * scripts/test-bls-mock-faults.ts checks the service's reaction to each fault.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+// Failures that can be queued.  Each one applies to the next `times`
+// requests (default 1), in queue order.
+export type MockBLSFaultType =
+  | "http-429"
+  | "http-403"
+  | "http-500"
+  | "daily-limit"
+  | "invalid-key"
+  | "latency"
+  | "drop-connection"
+  | "malformed-json"
+
+export interface MockBLSFault {
+  type: MockBLSFaultType
+  times?: number
+  // Delay for "latency" faults
+  ms?: number
+}
+
+// Fixture values by series ID: a single value (returned for every requested
+// year) or the exact data points to return
+export type MockBLSFixtures = Record<string, string | number | Array<Partial<BLSSeriesDataPoint>>>
+
+export interface MockBLSServerOptions {
+  port?: number
+  fixtures?: MockBLSFixtures
+  // Generate values for series without a fixture; otherwise they are
+  // reported as missing, like an occupation BLS does not publish
+  generateMissing?: boolean
+  // Delay added to every response
+  latencyMs?: number
+  // Requests each key may make before it reports the daily threshold
+  dailyLimit?: number
+  // Keys rejected with the invalid-key message
+  invalidKeys?: string[]
+  faults?: MockBLSFault[]
+}
+
+export interface MockBLSRequest {
+  receivedAt: string
+  key: string | null
+  seriesCount: number
+  fault: MockBLSFaultType | null
+}
+
+export interface MockBLSServer {
+  url: string
+  port: number
+  requests: MockBLSRequest[]
+  injectFaults(faults: MockBLSFault[]): void
+  reset(): void
+  close(): Promise<void>
+}
+
+interface BLSRequestBody {
+  seriesid?: string[]
+  startyear?: string
+  endyear?: string
+  registrationkey?: string
+}
+
+// ========== CONFIGURATION ==========
+
+export const MOCK_BLS_DATA_PATH = "/publicAPI/v2/timeseries/data/"
+
+const DEFAULT_PORT = 4010
+const MAX_SERIES_PER_REQUEST = 50
+
+// Messages worded like the live API's, so the service's message matching
+// is exercised as it is in production
+const DAILY_LIMIT_MESSAGE =
+  "The daily threshold for total number of requests allocated is exceeded. Please try again tomorrow."
+const INVALID_KEY_MESSAGE = "The key provided by the User is invalid."
+
+const MOCK_FAULT_TYPES: MockBLSFaultType[] = [
+  "http-429",
+  "http-403",
+  "http-500",
+  "daily-limit",
+  "invalid-key",
+  "latency",
+  "drop-connection",
+  "malformed-json",
+]
+
+/**
+ * Parse a fault list like "http-429,drop-connection*3,latency:5000"; a
+ * "*n" suffix repeats a fault and ":ms" sets the delay of a latency fault
+ */
+export function parseMockFaults(value: string): MockBLSFault[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [spec, times] = entry.split("*")
+      const [type, ms] = spec.split(":")
+      if (!MOCK_FAULT_TYPES.includes(type as MockBLSFaultType)) {
+        throw new Error(`Unknown mock fault "${type}". Use one of: ${MOCK_FAULT_TYPES.join(", ")}`)
+      }
+      return {
+        type: type as MockBLSFaultType,
+        times: times ? Number.parseInt(times) : undefined,
+        ms: ms ? Number.parseInt(ms) : undefined,
+      }
+    })
+}
+
+// ========== FIXTURE DATA ==========
+
+// Stable 32-bit hash so generated values are the same on every run
+function hashString(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+// Multipliers of the annual mean wage by OEWS datatype
+const WAGE_MULTIPLIERS: Record<string, number> = {
+  "04": 1,
+  "11": 0.6,
+  "12": 0.78,
+  "13": 0.95,
+  "14": 1.2,
+  "15": 1.5,
+}
+
+/**
+ * Generate a plausible value for a series.  OEWS series of one occupation
+ * and area share a base so the wage percentiles stay ordered.
+ */
+function generateValue(seriesId: string): string {
+  if (!seriesId.startsWith("OEU")) {
+    return String(100000 + (hashString(seriesId) % 50000))
+  }
+
+  const datatype = seriesId.slice(-2)
+  const base = hashString(seriesId.slice(0, -2))
+  const hourlyMean = 15 + (base % 5000) / 100
+
+  if (datatype === "01") return String(1000 + (base % 500) * 1000)
+  if (datatype === "03") return hourlyMean.toFixed(2)
+  if (datatype === "08") return (hourlyMean * 0.95).toFixed(2)
+  return String(Math.round(hourlyMean * 2080 * (WAGE_MULTIPLIERS[datatype] ?? 1)))
+}
+
+function annualPoint(year: number, value: string): BLSSeriesDataPoint {
+  return { year: String(year), period: "A01", periodName: "Annual", value, footnotes: [{ code: "", text: "" }] }
+}
+
+/**
+ * Data points for a series in a year range, newest first like the live API
+ * @returns Data points, or null when the series has no fixture and is not generated
+ */
+function seriesData(
+  seriesId: string,
+  startYear: number,
+  endYear: number,
+  fixtures: MockBLSFixtures,
+  generateMissing: boolean
+): BLSSeriesDataPoint[] | null {
+  const fixture = fixtures[seriesId]
+  if (Array.isArray(fixture)) {
+    return fixture.map((point) => ({ ...annualPoint(endYear, ""), ...point }))
+  }
+
+  const value = fixture !== undefined ? String(fixture) : generateMissing ? generateValue(seriesId) : null
+  if (value === null) return null
+
+  const points: BLSSeriesDataPoint[] = []
+  for (let year = endYear; year >= startYear; year--) {
+    points.push(annualPoint(year, value))
+  }
+  return points
+}
+
+// ========== SERVER ==========
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    request.setEncoding("utf8")
+    request.on("data", (chunk) => (body += chunk))
+    request.on("end", () => resolve(body))
+    request.on("error", reject)
+  })
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" })
+  response.end(JSON.stringify(body))
+}
+
+function notProcessed(message: string, responseTime: number) {
+  return { status: "REQUEST_NOT_PROCESSED", responseTime, message: [message], Results: { series: [] } }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Start a mock BLS API server
+ * @param options Fixtures and failure settings
+ * @returns The running server; its url is the BLS_API_BASE_URL to use
+ */
+export async function startMockBLSServer(options: MockBLSServerOptions = {}): Promise<MockBLSServer> {
+  const fixtures = options.fixtures ?? {}
+  const generateMissing = options.generateMissing ?? true
+  const invalidKeys = new Set(options.invalidKeys ?? [])
+
+  let faultQueue: MockBLSFault[] = []
+  const keyUsage = new Map<string, number>()
+  const requests: MockBLSRequest[] = []
+
+  // Take the next queued fault, dropping it once it has been applied `times` times
+  function nextFault(): MockBLSFault | null {
+    const fault = faultQueue[0]
+    if (!fault) return null
+    const remaining = (fault.times ?? 1) - 1
+    if (remaining > 0) {
+      faultQueue[0] = { ...fault, times: remaining }
+    } else {
+      faultQueue.shift()
+    }
+    return fault
+  }
+
+  async function handleData(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const started = Date.now()
+    const raw = await readBody(request)
+
+    let body: BLSRequestBody
+    try {
+      body = JSON.parse(raw || "{}")
+    } catch {
+      sendJson(response, 400, notProcessed("Request could not be parsed as JSON", 0))
+      return
+    }
+
+    const seriesIds = body.seriesid ?? []
+    const key = body.registrationkey ?? null
+    const fault = nextFault()
+    requests.push({ receivedAt: new Date().toISOString(), key, seriesCount: seriesIds.length, fault: fault?.type ?? null })
+
+    const latency = (options.latencyMs ?? 0) + (fault?.type === "latency" ? fault.ms ?? 5000 : 0)
+    if (latency > 0) await delay(latency)
+
+    switch (fault?.type) {
+      case "drop-connection":
+        request.socket.destroy()
+        return
+      case "malformed-json":
+        response.writeHead(200, { "Content-Type": "application/json" })
+        response.end('{"status":"REQUEST_SUCCEEDED","Results":{"series":[')
+        return
+      case "http-429":
+        sendJson(response, 429, { message: "Too Many Requests" })
+        return
+      case "http-403":
+        sendJson(response, 403, { message: "Forbidden" })
+        return
+      case "http-500":
+        sendJson(response, 500, { message: "Internal Server Error" })
+        return
+    }
+
+    const responseTime = Date.now() - started
+    if (fault?.type === "invalid-key" || (key && invalidKeys.has(key))) {
+      sendJson(response, 200, notProcessed(INVALID_KEY_MESSAGE, responseTime))
+      return
+    }
+
+    const used = (keyUsage.get(key ?? "") ?? 0) + 1
+    keyUsage.set(key ?? "", used)
+    if (fault?.type === "daily-limit" || (options.dailyLimit !== undefined && used > options.dailyLimit)) {
+      sendJson(response, 200, notProcessed(DAILY_LIMIT_MESSAGE, responseTime))
+      return
+    }
+
+    if (seriesIds.length === 0 || seriesIds.length > MAX_SERIES_PER_REQUEST) {
+      sendJson(response, 200, notProcessed(`Provide between 1 and ${MAX_SERIES_PER_REQUEST} series per request`, responseTime))
+      return
+    }
+
+    const endYear = Number.parseInt(body.endyear ?? "") || new Date().getFullYear() - 1
+    const startYear = Math.min(Number.parseInt(body.startyear ?? "") || endYear, endYear)
+
+    const messages: string[] = []
+    const series = seriesIds.map((seriesId) => {
+      const data = seriesData(seriesId, startYear, endYear, fixtures, generateMissing)
+      if (!data) messages.push(`Series does not exist for Series ${seriesId}`)
+      return { seriesID: seriesId, data: data ?? [] }
+    })
+
+    sendJson(response, 200, { status: "REQUEST_SUCCEEDED", responseTime, message: messages, Results: { series } })
+  }
+
+  // Control endpoints for tests: inspect requests, queue faults, reset state
+  async function handleControl(request: IncomingMessage, response: ServerResponse, path: string): Promise<void> {
+    if (request.method === "GET" && path === "/__mock/requests") {
+      sendJson(response, 200, { requests })
+      return
+    }
+    if (request.method === "POST" && path === "/__mock/faults") {
+      const body = JSON.parse((await readBody(request)) || "{}")
+      server.injectFaults(body.faults ?? [])
+      sendJson(response, 200, { queued: faultQueue.length })
+      return
+    }
+    if (request.method === "POST" && path === "/__mock/reset") {
+      server.reset()
+      sendJson(response, 200, { reset: true })
+      return
+    }
+    sendJson(response, 404, { message: `No mock endpoint ${request.method} ${path}` })
+  }
+
+  async function route(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const path = (request.url ?? "/").split("?")[0]
+    if (path.startsWith("/__mock/")) return handleControl(request, response, path)
+    if (request.method === "POST" && `${path.replace(/\/$/, "")}/` === MOCK_BLS_DATA_PATH) {
+      return handleData(request, response)
+    }
+    sendJson(response, 404, { message: `Not found: ${request.method} ${path}` })
+  }
+
+  const httpServer: Server = createServer((request, response) => {
+    route(request, response).catch((error) => {
+      console.error("❌ Mock BLS request failed:", error)
+      if (!response.headersSent) sendJson(response, 500, { message: String(error) })
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject)
+    httpServer.listen(options.port ?? DEFAULT_PORT, "127.0.0.1", () => resolve())
+  })
+
+  const port = (httpServer.address() as AddressInfo).port
+  const server: MockBLSServer = {
+    url: `http://127.0.0.1:${port}${MOCK_BLS_DATA_PATH}`,
+    port,
+    requests,
+    injectFaults(faults) {
+      faultQueue.push(...faults)
+    },
+    reset() {
+      faultQueue = [...(options.faults ?? [])]
+      keyUsage.clear()
+      requests.length = 0
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        httpServer.closeAllConnections()
+        httpServer.close((error) => (error ? reject(error) : resolve()))
+      })
+    },
+  }
+  server.reset()
+
+  return server
+}
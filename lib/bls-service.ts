@@ -1,3 +1,14 @@
+import { getBLSCacheConfig, getCachedSeries, initializeBLSCacheTable, saveCachedSeries, type BLSCacheConfig } from "./bls-cache"
+import { NATIONAL_AREA, oewsAreaTypeCode, type OEWSArea } from "./oews-areas"
+
+export interface BLSSeriesDataPoint {
+  year: string
+  period: string
+  periodName: string
+  value: string
+  footnotes: Array<{ code: string; text: string }>
+}
+
 interface BLSApiResponse {
   status: string
   responseTime: number
@@ -5,23 +16,31 @@ interface BLSApiResponse {
   Results: {
     series: Array<{
       seriesID: string
-      data: Array<{
-        year: string
-        period: string
-        periodName: string
-        value: string
-        footnotes: Array<{ code: string; text: string }>
-      }>
+      data: BLSSeriesDataPoint[]
     }>
   }
 }
 
-interface JobData {
+// OEWS wage estimates for one occupation.  A value is null when BLS does not
+// publish it, e.g. "#" for wages above the top of the survey's wage range.
+export interface WageDistribution {
+  annualMean: number | null
+  hourlyMean: number | null
+  hourlyMedian: number | null
+  annualP10: number | null
+  annualP25: number | null
+  annualP75: number | null
+  annualP90: number | null
+}
+
+export interface JobData {
   code: string
   title: string
   employment: number
   projectedEmployment: number
+  // Annual median wage; 0 when not published
   medianWage: number
+  wages: WageDistribution
 }
 
 interface APIKeyStatus {
@@ -32,6 +51,244 @@ interface APIKeyStatus {
   blockUntil?: Date
 }
 
+// Result of a multi-series fetch, keyed by series ID
+export interface SeriesBatchResult {
+  data: Map<string, BLSSeriesDataPoint[]>
+  errors: Map<string, string>
+  requestsMade: number
+  // Series not requested because the deadline passed
+  deferred: string[]
+}
+
+// Result of a multi-occupation fetch, keyed by occupation code (or by area
+// code for a multi-area fetch).  An entry maps to null when none of its
+// series could be fetched.
+export interface OccupationBatchResult {
+  data: Map<string, JobData | null>
+  errors: Map<string, string[]>
+  requestsMade: number
+  // Keys left unfetched because the deadline passed; they are not in data
+  deferred: string[]
+}
+
+// The BLS v2 API accepts up to 50 series per request for registered keys
+export const BLS_MAX_SERIES_PER_REQUEST = 50
+
+// OEWS datatype codes fetched for every occupation (the last two digits of
+// the series ID)
+export const OEWS_DATATYPES = {
+  employment: "01",
+  hourlyMean: "03",
+  annualMean: "04",
+  hourlyMedian: "08",
+  annualP10: "11",
+  annualP25: "12",
+  annualMedian: "13",
+  annualP75: "14",
+  annualP90: "15",
+} as const
+
+export type OEWSDatatype = keyof typeof OEWS_DATATYPES
+
+export const OEWS_SERIES_PER_OCCUPATION = Object.keys(OEWS_DATATYPES).length
+
+/**
+ * Build the OEWS series ID for an occupation, datatype and area: "OEU", the
+ * area type letter, the 7-digit area code, the all-industries code, the SOC
+ * code without its dash and the datatype
+ */
+export function oewsSeriesId(occupationCode: string, datatype: OEWSDatatype, area: OEWSArea = NATIONAL_AREA): string {
+  return `OEU${oewsAreaTypeCode(area.type)}${area.code}000000${occupationCode.replace("-", "")}${OEWS_DATATYPES[datatype]}`
+}
+
+// Endpoint, request and retry settings.  Defaults target the public v2 API
+// and the May 2024 OEWS release; each can be set from the environment (see
+// getBLSServiceOptions) or passed to the BLSService constructor.
+export interface BLSServiceOptions {
+  baseUrl: string
+  userAgent: string
+  // Year window requested for every series; part of the cache key
+  startYear: number
+  endYear: number
+  // v2 request flags: series catalog metadata, net/percent change
+  // calculations and annual averages for monthly series
+  catalog: boolean
+  calculations: boolean
+  annualAverage: boolean
+  requestTimeoutMs: number
+  // Shorter timeout for the key check, so cold starts are not blocked
+  validationTimeoutMs: number
+  maxRetries: number
+  initialBackoffMs: number
+  maxBackoffMs: number
+  // Pause after each successful request
+  requestDelayMs: number
+  dailyLimitPerKey: number
+  // Consecutive network errors that open the circuit, and how long it stays open
+  circuitBreakerThreshold: number
+  circuitResetMs: number
+}
+
+export const DEFAULT_BLS_SERVICE_OPTIONS: BLSServiceOptions = {
+  baseUrl: "https://api.bls.gov/publicAPI/v2/timeseries/data/",
+  userAgent: "JobAIRiskAnalyzer/1.0",
+  startYear: 2020,
+  endYear: 2024,
+  catalog: false,
+  calculations: false,
+  annualAverage: false,
+  requestTimeoutMs: 30000,
+  validationTimeoutMs: 2000,
+  maxRetries: 5,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 30000,
+  requestDelayMs: 200,
+  dailyLimitPerKey: 500,
+  circuitBreakerThreshold: 5,
+  circuitResetMs: 60000,
+}
+
+// Registered keys may request up to 20 years per series
+const BLS_MAX_YEAR_SPAN = 20
+
+// Environment variable for each option
+const BLS_OPTION_ENV: Record<keyof BLSServiceOptions, string> = {
+  baseUrl: "BLS_API_BASE_URL",
+  userAgent: "BLS_USER_AGENT",
+  startYear: "BLS_START_YEAR",
+  endYear: "BLS_END_YEAR",
+  catalog: "BLS_CATALOG",
+  calculations: "BLS_CALCULATIONS",
+  annualAverage: "BLS_ANNUAL_AVERAGE",
+  requestTimeoutMs: "BLS_REQUEST_TIMEOUT_MS",
+  validationTimeoutMs: "BLS_VALIDATION_TIMEOUT_MS",
+  maxRetries: "BLS_MAX_RETRIES",
+  initialBackoffMs: "BLS_INITIAL_BACKOFF_MS",
+  maxBackoffMs: "BLS_MAX_BACKOFF_MS",
+  requestDelayMs: "BLS_REQUEST_DELAY_MS",
+  dailyLimitPerKey: "BLS_DAILY_LIMIT_PER_KEY",
+  circuitBreakerThreshold: "BLS_CIRCUIT_BREAKER_THRESHOLD",
+  circuitResetMs: "BLS_CIRCUIT_RESET_MS",
+}
+
+/**
+ * Resolve the service options: defaults, then BLS_* environment variables
+ * (BLS_API_BASE_URL, BLS_START_YEAR, BLS_END_YEAR, BLS_MAX_RETRIES, ...),
+ * then explicit overrides.  Invalid environment values are ignored with a
+ * warning, as is a year window that is reversed or longer than 20 years.
+ * @param overrides Options that take precedence over the environment
+ */
+export function getBLSServiceOptions(overrides: Partial<BLSServiceOptions> = {}): BLSServiceOptions {
+  const options: Record<string, string | number | boolean> = { ...DEFAULT_BLS_SERVICE_OPTIONS }
+
+  for (const [option, envName] of Object.entries(BLS_OPTION_ENV)) {
+    const raw = process.env[envName]?.trim()
+    if (!raw) continue
+
+    const fallback = options[option]
+    if (typeof fallback === "string") {
+      options[option] = raw
+    } else if (typeof fallback === "boolean") {
+      if (["true", "1", "false", "0"].includes(raw.toLowerCase())) {
+        options[option] = ["true", "1"].includes(raw.toLowerCase())
+      } else {
+        console.warn(`⚠️ Invalid ${envName} "${raw}", using ${fallback}`)
+      }
+    } else {
+      const value = Number(raw)
+      if (Number.isFinite(value) && value >= 0) {
+        options[option] = value
+      } else {
+        console.warn(`⚠️ Invalid ${envName} "${raw}", using ${fallback}`)
+      }
+    }
+  }
+
+  const resolved = { ...(options as unknown as BLSServiceOptions), ...overrides }
+  if (resolved.startYear > resolved.endYear || resolved.endYear - resolved.startYear >= BLS_MAX_YEAR_SPAN) {
+    console.warn(
+      `⚠️ Invalid BLS year window ${resolved.startYear}-${resolved.endYear}, using ` +
+        `${DEFAULT_BLS_SERVICE_OPTIONS.startYear}-${DEFAULT_BLS_SERVICE_OPTIONS.endYear}`
+    )
+    resolved.startYear = DEFAULT_BLS_SERVICE_OPTIONS.startYear
+    resolved.endYear = DEFAULT_BLS_SERVICE_OPTIONS.endYear
+  }
+  return resolved
+}
+
+// Allowed whole-number range for each numeric option set from user input
+const BLS_OPTION_RANGES: Partial<Record<keyof BLSServiceOptions, [number, number]>> = {
+  startYear: [1997, 2100],
+  endYear: [1997, 2100],
+  requestTimeoutMs: [1000, 120000],
+  validationTimeoutMs: [500, 30000],
+  maxRetries: [0, 10],
+  initialBackoffMs: [0, 60000],
+  maxBackoffMs: [0, 300000],
+  requestDelayMs: [0, 10000],
+  dailyLimitPerKey: [1, 500],
+  circuitBreakerThreshold: [1, 100],
+  circuitResetMs: [1000, 600000],
+}
+
+/**
+ * Check option overrides from user input, such as a sync schedule's
+ * blsOptions.  The endpoint cannot be changed this way; it comes from
+ * BLS_API_BASE_URL only.
+ * @param input Overrides to check
+ * @param prefix Prepended to each option name in the messages
+ * @returns A list of problems; empty when the overrides are valid
+ */
+export function validateBLSServiceOptions(input: unknown, prefix = ""): string[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [`${prefix.replace(/\.$/, "") || "BLS options"} must be an object`]
+  }
+
+  const errors: string[] = []
+  const options = input as Record<string, unknown>
+  for (const [key, value] of Object.entries(options)) {
+    const range = BLS_OPTION_RANGES[key as keyof BLSServiceOptions]
+    if (key === "baseUrl") {
+      errors.push(`${prefix}baseUrl cannot be overridden; set BLS_API_BASE_URL instead`)
+    } else if (!(key in DEFAULT_BLS_SERVICE_OPTIONS)) {
+      errors.push(`${prefix}${key} is not a BLS service option`)
+    } else if (key === "userAgent") {
+      if (typeof value !== "string" || !value.trim() || value.length > 200) {
+        errors.push(`${prefix}userAgent must be a non-empty string (at most 200 characters)`)
+      }
+    } else if (typeof DEFAULT_BLS_SERVICE_OPTIONS[key as keyof BLSServiceOptions] === "boolean") {
+      if (typeof value !== "boolean") errors.push(`${prefix}${key} must be true or false`)
+    } else if (
+      range &&
+      (typeof value !== "number" || !Number.isInteger(value) || value < range[0] || value > range[1])
+    ) {
+      errors.push(`${prefix}${key} must be a whole number between ${range[0]} and ${range[1]}`)
+    }
+  }
+
+  const startYear = options.startYear ?? DEFAULT_BLS_SERVICE_OPTIONS.startYear
+  const endYear = options.endYear ?? DEFAULT_BLS_SERVICE_OPTIONS.endYear
+  if (
+    typeof startYear === "number" &&
+    typeof endYear === "number" &&
+    (startYear > endYear || endYear - startYear >= BLS_MAX_YEAR_SPAN)
+  ) {
+    errors.push(`${prefix}startYear must not be after endYear, and the window must be shorter than ${BLS_MAX_YEAR_SPAN} years`)
+  }
+  const initialBackoffMs = options.initialBackoffMs ?? DEFAULT_BLS_SERVICE_OPTIONS.initialBackoffMs
+  const maxBackoffMs = options.maxBackoffMs ?? DEFAULT_BLS_SERVICE_OPTIONS.maxBackoffMs
+  if (typeof initialBackoffMs === "number" && typeof maxBackoffMs === "number" && initialBackoffMs > maxBackoffMs) {
+    errors.push(`${prefix}initialBackoffMs must not exceed maxBackoffMs`)
+  }
+  return errors
+}
+
+// Latest value of a series, or null when missing or not numeric ("-", "#")
+function latestValue(data: BLSSeriesDataPoint[] | undefined): number | null {
+  const value = Number.parseFloat(data?.[0]?.value ?? "")
+  return isNaN(value) ? null : value
+}
+
 // Network error tracking for circuit breaker pattern
 interface NetworkErrorTracker {
   consecutiveErrors: number
@@ -42,8 +299,7 @@ interface NetworkErrorTracker {
 
 export class BLSService {
   private apiKeys: string[]
-  private baseUrl = "https://api.bls.gov/publicAPI/v2/timeseries/data/"
-  private dailyLimit = 500
+  private options: BLSServiceOptions
   private keyStatuses: Map<string, APIKeyStatus>
   private currentKeyIndex = 0
   private validationInProgress = false
@@ -56,21 +312,17 @@ export class BLSService {
   // normal request-time error handling manage invalid keys.
   private validationDisabled = false
 
-  // Circuit breaker settings
+  // Circuit breaker state
   private networkErrorTracker: NetworkErrorTracker = {
     consecutiveErrors: 0,
     lastErrorTime: null,
     isCircuitOpen: false,
     resetTime: null
   }
-  private circuitBreakerThreshold = 5 // Number of consecutive errors before opening circuit
-  private circuitResetTimeMs = 60000 // 1 minute timeout before trying again
-  
-  // Fetch configuration
-  private defaultTimeout = 30000 // 30 seconds
-  private maxRetries = 5
-  private initialBackoffMs = 1000
-  private maxBackoffMs = 30000
+
+  // Response cache settings and whether its table has been created
+  private cacheConfig: BLSCacheConfig = getBLSCacheConfig()
+  private cacheTableReady = false
 
   /**
    * Detect common serverless / edge runtime environment variables.
@@ -84,7 +336,13 @@ export class BLSService {
     return false
   }
 
-  constructor(apiKeys: string | string[]) {
+  /**
+   * @param apiKeys One or more BLS registration keys
+   * @param options Settings that override the defaults and the environment
+   */
+  constructor(apiKeys: string | string[], options: Partial<BLSServiceOptions> = {}) {
+    this.options = getBLSServiceOptions(options)
+
     // Support both single key and array of keys
     const initialKeys = Array.isArray(apiKeys) ? apiKeys : [apiKeys]
     
@@ -105,8 +363,10 @@ export class BLSService {
     console.log(`🔑 BLS Service initialized with ${this.apiKeys.length} API key(s)`)
     
     // Decide if upfront validation should be disabled
-    this.validationDisabled = this.isServerlessRuntime()
-    if (this.validationDisabled) {
+    this.validationDisabled = this.isServerlessRuntime() || this.isCacheOnly()
+    if (this.isCacheOnly()) {
+      console.log("💾 BLS cache-only mode: responses are replayed from the cache, no API requests are made")
+    } else if (this.validationDisabled) {
       console.log("⚠️  API key validation skipped (serverless runtime detected)")
     } else {
       // Start async validation of keys
@@ -175,21 +435,20 @@ export class BLSService {
       // Use a simple test series that should always exist
       const testSeriesId = 'CEU0000000001' // Total nonfarm employment
       
-      const response = await this.fetchWithTimeout(this.baseUrl, {
+      const response = await this.fetchWithTimeout(this.options.baseUrl, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "Connection": "keep-alive",
-          "Keep-Alive": "timeout=10, max=5"
+          "Connection": "keep-alive"
         },
         body: JSON.stringify({
           seriesid: [testSeriesId],
-          startyear: "2023",
-          endyear: "2023",
+          startyear: String(this.options.endYear),
+          endyear: String(this.options.endYear),
           registrationkey: key,
         }),
         // Even shorter timeout for validation to avoid blocking cold-starts
-        timeout: 2000
+        timeout: this.options.validationTimeoutMs
       })
       
       if (!response.ok) {
@@ -229,9 +488,10 @@ export class BLSService {
     url: string, 
     options: RequestInit & { timeout?: number } = {}
   ): Promise<Response> {
-    const { timeout = this.defaultTimeout, ...fetchOptions } = options
+    const { timeout = this.options.requestTimeoutMs, ...fetchOptions } = options
     
-    // Add connection pooling headers if not present
+    // Add connection pooling headers if not present.  Node's fetch (undici)
+    // rejects a Keep-Alive request header, so only Connection is set.
     if (!fetchOptions.headers) {
       fetchOptions.headers = {}
     }
@@ -240,9 +500,6 @@ export class BLSService {
     if (!headers["Connection"]) {
       headers["Connection"] = "keep-alive"
     }
-    if (!headers["Keep-Alive"]) {
-      headers["Keep-Alive"] = "timeout=10, max=5"
-    }
     
     // Create abort controller for timeout
     const controller = new AbortController()
@@ -298,7 +555,7 @@ export class BLSService {
       const key = this.apiKeys[keyIndex]
       const status = this.keyStatuses.get(key)!
 
-      if (!status.isBlocked && status.requestsUsed < this.dailyLimit) {
+      if (!status.isBlocked && status.requestsUsed < this.options.dailyLimitPerKey) {
         this.currentKeyIndex = keyIndex
         return key
       }
@@ -364,9 +621,9 @@ export class BLSService {
     this.networkErrorTracker.lastErrorTime = now
     
     // Check if we need to open the circuit
-    if (this.networkErrorTracker.consecutiveErrors >= this.circuitBreakerThreshold) {
+    if (this.networkErrorTracker.consecutiveErrors >= this.options.circuitBreakerThreshold) {
       this.networkErrorTracker.isCircuitOpen = true
-      this.networkErrorTracker.resetTime = new Date(now.getTime() + this.circuitResetTimeMs)
+      this.networkErrorTracker.resetTime = new Date(now.getTime() + this.options.circuitResetMs)
       console.log(`🔌 Circuit breaker opened after ${this.networkErrorTracker.consecutiveErrors} consecutive errors. Will reset at ${this.networkErrorTracker.resetTime}`)
     }
   }
@@ -397,8 +654,8 @@ export class BLSService {
   private getBackoffTime(retryCount: number): number {
     // Exponential backoff with jitter: 2^retry * base * (0.5-1.5 random factor)
     const exponentialTime = Math.min(
-      this.maxBackoffMs,
-      this.initialBackoffMs * Math.pow(2, retryCount) * (0.5 + Math.random())
+      this.options.maxBackoffMs,
+      this.options.initialBackoffMs * Math.pow(2, retryCount) * (0.5 + Math.random())
     )
     return exponentialTime
   }
@@ -406,10 +663,82 @@ export class BLSService {
   /**
    * Fetch employment data from BLS API with enhanced error handling and retries
    * @param seriesId BLS series ID to fetch
-   * @param retryCount Current retry attempt
    * @returns Promise resolving to series data
    */
-  async fetchEmploymentData(seriesId: string, retryCount = 0): Promise<any> {
+  async fetchEmploymentData(seriesId: string): Promise<any> {
+    const cached = await this.readCache([seriesId])
+    if (cached.has(seriesId)) {
+      return cached.get(seriesId)
+    }
+    if (this.isCacheOnly()) {
+      throw new Error(`No cached response for series ${seriesId} (cache-only mode)`)
+    }
+
+    const data = await this.requestSeries([seriesId])
+    const seriesData = data.Results.series[0]?.data || []
+    await this.writeCache(new Map([[seriesId, seriesData]]))
+    return seriesData
+  }
+
+  /**
+   * Whether responses are only replayed from the cache, without API requests
+   */
+  isCacheOnly(): boolean {
+    return this.cacheConfig.mode === "cache-only"
+  }
+
+  /**
+   * Look up series in the response cache.  Cache-only mode accepts entries of
+   * any age; cache failures are logged and treated as misses.
+   * @param seriesIds BLS series IDs
+   * @returns Cached data keyed by series ID
+   */
+  private async readCache(seriesIds: string[]): Promise<Map<string, BLSSeriesDataPoint[]>> {
+    if (this.cacheConfig.mode === "off") return new Map()
+
+    try {
+      const maxAgeMs = this.isCacheOnly() ? null : this.cacheConfig.ttlMs
+      const cached = await getCachedSeries(seriesIds, this.options.startYear, this.options.endYear, maxAgeMs)
+      if (cached.size > 0) {
+        console.log(`💾 Served ${cached.size}/${seriesIds.length} series from the BLS cache`)
+      }
+      return cached
+    } catch (error) {
+      console.warn("⚠️ BLS cache read failed:", error instanceof Error ? error.message : error)
+      return new Map()
+    }
+  }
+
+  /**
+   * Store fetched series in the response cache.  Empty series are not stored
+   * so a series BLS did not return is requested again next time.
+   * @param entries Data keyed by series ID
+   */
+  private async writeCache(entries: Map<string, BLSSeriesDataPoint[]>): Promise<void> {
+    if (this.cacheConfig.mode !== "read-write") return
+
+    const nonEmpty = new Map(Array.from(entries).filter(([, data]) => data.length > 0))
+    if (nonEmpty.size === 0) return
+
+    try {
+      if (!this.cacheTableReady) {
+        await initializeBLSCacheTable()
+        this.cacheTableReady = true
+      }
+      await saveCachedSeries(nonEmpty, this.options.startYear, this.options.endYear)
+    } catch (error) {
+      console.warn("⚠️ BLS cache write failed:", error instanceof Error ? error.message : error)
+    }
+  }
+
+  /**
+   * POST one request for up to BLS_MAX_SERIES_PER_REQUEST series, rotating
+   * keys and retrying on rate limits and network errors
+   * @param seriesIds BLS series IDs to fetch in a single request
+   * @param retryCount Current retry attempt
+   * @returns The successful API response
+   */
+  private async requestSeries(seriesIds: string[], retryCount = 0): Promise<BLSApiResponse> {
     // Check circuit breaker first
     if (!this.checkCircuitBreaker() && retryCount > 0) {
       throw new Error('Network requests temporarily disabled due to persistent connection failures')
@@ -428,25 +757,27 @@ export class BLSService {
 
     try {
       console.log(
-        `📡 Making request with key ${availableKey.substring(0, 8)}... (${status.requestsUsed}/${this.dailyLimit} used)`,
+        `📡 Making request for ${seriesIds.length} series with key ${availableKey.substring(0, 8)}... (${status.requestsUsed}/${this.options.dailyLimitPerKey} used)`,
       )
 
       // Use enhanced fetch with timeout
-      const response = await this.fetchWithTimeout(this.baseUrl, {
+      const response = await this.fetchWithTimeout(this.options.baseUrl, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           "Connection": "keep-alive",
-          "Keep-Alive": "timeout=10, max=5",
-          "User-Agent": "JobAIRiskAnalyzer/1.0"
+          "User-Agent": this.options.userAgent
         },
         body: JSON.stringify({
-          seriesid: [seriesId],
-          startyear: "2020",
-          endyear: "2024",
+          seriesid: seriesIds,
+          startyear: String(this.options.startYear),
+          endyear: String(this.options.endYear),
+          catalog: this.options.catalog,
+          calculations: this.options.calculations,
+          annualaverage: this.options.annualAverage,
           registrationkey: availableKey,
         }),
-        timeout: this.defaultTimeout
+        timeout: this.options.requestTimeoutMs
       })
 
       status.requestsUsed++
@@ -456,10 +787,10 @@ export class BLSService {
           // Rate limited or forbidden - mark key as blocked
           this.markKeyAsBlocked(availableKey, 60)
 
-          if (retryCount < this.maxRetries) {
+          if (retryCount < this.options.maxRetries) {
             console.log(`⏳ Rate limited, retrying with different key...`)
             await this.delay(2000) // Wait 2 seconds before retry
-            return this.fetchEmploymentData(seriesId, retryCount + 1)
+            return this.requestSeries(seriesIds, retryCount + 1)
           }
         }
         throw new Error(`BLS API error: ${response.status} ${response.statusText}`)
@@ -472,20 +803,20 @@ export class BLSService {
           // This key has hit its limit
           this.markKeyAsBlocked(availableKey, 60)
 
-          if (retryCount < this.maxRetries) {
+          if (retryCount < this.options.maxRetries) {
             console.log(`⏳ Key limit exceeded, retrying with different key...`)
             await this.delay(2000)
-            return this.fetchEmploymentData(seriesId, retryCount + 1)
+            return this.requestSeries(seriesIds, retryCount + 1)
           }
         } else if (data.message.some((msg) => msg.includes("invalid") || msg.includes("Invalid key"))) {
           // Invalid key detected during normal operation
           console.log(`❌ Invalid API key detected during request: ${availableKey.substring(0, 8)}...`)
           this.removeApiKey(availableKey)
           
-          if (retryCount < this.maxRetries) {
+          if (retryCount < this.options.maxRetries) {
             console.log(`⏳ Invalid key removed, retrying with different key...`)
             await this.delay(1000)
-            return this.fetchEmploymentData(seriesId, retryCount + 1)
+            return this.requestSeries(seriesIds, retryCount + 1)
           }
         }
         throw new Error(`BLS API request failed: ${data.message.join(", ")}`)
@@ -495,9 +826,9 @@ export class BLSService {
       this.recordSuccess()
       
       // Add delay between successful requests to be respectful
-      await this.delay(200)
+      await this.delay(this.options.requestDelayMs)
 
-      return data.Results.series[0]?.data || []
+      return data
     } catch (error) {
       // Handle different types of errors
       const errorMessage = error instanceof Error ? error.message : String(error)
@@ -515,17 +846,17 @@ export class BLSService {
         this.recordNetworkError()
         
         // Retry with exponential backoff for network errors
-        if (retryCount < this.maxRetries) {
+        if (retryCount < this.options.maxRetries) {
           const backoffTime = this.getBackoffTime(retryCount)
-          console.log(`🔄 Network error, retrying in ${Math.round(backoffTime/1000)}s... (${retryCount + 1}/${this.maxRetries})`)
+          console.log(`🔄 Network error, retrying in ${Math.round(backoffTime/1000)}s... (${retryCount + 1}/${this.options.maxRetries})`)
           await this.delay(backoffTime)
-          return this.fetchEmploymentData(seriesId, retryCount + 1)
+          return this.requestSeries(seriesIds, retryCount + 1)
         }
-      } else if (retryCount < this.maxRetries && !errorMessage.includes("All API keys")) {
+      } else if (retryCount < this.options.maxRetries && !errorMessage.includes("All API keys")) {
         // Standard retry for other errors
-        console.log(`🔄 Request failed, retrying... (${retryCount + 1}/${this.maxRetries})`)
+        console.log(`🔄 Request failed, retrying... (${retryCount + 1}/${this.options.maxRetries})`)
         await this.delay(1000 * (retryCount + 1)) // Simple backoff
-        return this.fetchEmploymentData(seriesId, retryCount + 1)
+        return this.requestSeries(seriesIds, retryCount + 1)
       }
 
       console.error("BLS API fetch error:", error)
@@ -533,44 +864,190 @@ export class BLSService {
     }
   }
 
+  /**
+   * Fetch employment and the wage distribution for one occupation in a
+   * single multi-series request
+   * @param occupationCode Occupation code to fetch
+   * @returns Job data, or null when none of its series could be fetched
+   */
   async fetchOccupationalData(occupationCode: string): Promise<JobData | null> {
     try {
-      // BLS uses different series IDs for different data types
-      const employmentSeriesId = `OEUS000000000000${occupationCode}01`
-      const wageSeriesId = `OEUS000000000000${occupationCode}04`
+      const result = await this.fetchOccupationalDataBatch([occupationCode])
+      const errors = result.errors.get(occupationCode)
+      if (errors) {
+        console.warn(`⚠️ Series errors for occupation ${occupationCode}: ${errors.join("; ")}`)
+      }
+      return result.data.get(occupationCode) ?? null
+    } catch (error) {
+      console.error(`Error fetching data for occupation ${occupationCode}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Fetch many series with as few requests as possible.  Cached series are
+   * served first and the rest are grouped into requests of up to
+   * BLS_MAX_SERIES_PER_REQUEST; a failed request or a series the API reports
+   * no data for is recorded per series without affecting the others.
+   * @param seriesIds BLS series IDs; duplicates are fetched once
+   * @param deadline Time (ms since epoch) after which no further request is started
+   * @returns Data and errors keyed by series ID
+   */
+  async fetchSeriesBatch(seriesIds: string[], deadline?: number): Promise<SeriesBatchResult> {
+    const result: SeriesBatchResult = { data: new Map(), errors: new Map(), requestsMade: 0, deferred: [] }
+
+    const cached = await this.readCache(Array.from(new Set(seriesIds)))
+    cached.forEach((data, seriesId) => result.data.set(seriesId, data))
+    const uniqueIds = Array.from(new Set(seriesIds)).filter((seriesId) => !cached.has(seriesId))
+
+    if (this.isCacheOnly()) {
+      uniqueIds.forEach((seriesId) => result.errors.set(seriesId, "No cached response (cache-only mode)"))
+      return result
+    }
+
+    const fetched = new Map<string, BLSSeriesDataPoint[]>()
+    for (let i = 0; i < uniqueIds.length; i += BLS_MAX_SERIES_PER_REQUEST) {
+      if (deadline !== undefined && Date.now() >= deadline) {
+        result.deferred = uniqueIds.slice(i)
+        break
+      }
+      const chunk = uniqueIds.slice(i, i + BLS_MAX_SERIES_PER_REQUEST)
 
-      // Sequential fetches instead of parallel to reduce connection load
-      // This is more reliable in serverless environments
-      let employmentData, wageData;
-      
       try {
-        employmentData = await this.fetchEmploymentData(employmentSeriesId);
-        // Add a small delay between requests
-        await this.delay(500);
-        wageData = await this.fetchEmploymentData(wageSeriesId);
+        const response = await this.requestSeries(chunk)
+        result.requestsMade++
+
+        const returned = new Map(response.Results.series.map((series) => [series.seriesID, series.data]))
+        for (const seriesId of chunk) {
+          const data = returned.get(seriesId)
+          if (data && data.length > 0) {
+            result.data.set(seriesId, data)
+            fetched.set(seriesId, data)
+          } else {
+            // BLS reports missing series in the response messages, e.g.
+            // "Series does not exist for Series OEUN...".  Fall back to a generic note.
+            const message = response.message.find((msg) => msg.includes(seriesId))
+            result.errors.set(seriesId, message || "No data returned for series")
+          }
+        }
       } catch (error) {
-        console.error(`Error in sequential fetch for occupation ${occupationCode}:`, error);
-        // Fallback to parallel fetch if sequential fails
-        [employmentData, wageData] = await Promise.all([
-          this.fetchEmploymentData(employmentSeriesId),
-          this.fetchEmploymentData(wageSeriesId),
-        ]);
+        const message = error instanceof Error ? error.message : String(error)
+        console.error(`❌ Batch request for ${chunk.length} series failed: ${message}`)
+        chunk.forEach((seriesId) => result.errors.set(seriesId, message))
+
+        // No key can serve the remaining chunks either
+        if (message.includes("All API keys")) {
+          uniqueIds.slice(i + BLS_MAX_SERIES_PER_REQUEST).forEach((seriesId) => result.errors.set(seriesId, message))
+          break
+        }
       }
+    }
+
+    await this.writeCache(fetched)
+    return result
+  }
+
+  /**
+   * Fetch employment and wage data for many occupations using multi-series
+   * requests (OEWS_SERIES_PER_OCCUPATION series per occupation)
+   * @param occupationCodes Occupation codes to fetch
+   * @param area OEWS area; defaults to the nation
+   * @param deadline Time (ms since epoch) after which no further request is started
+   * @returns Data and per-series errors keyed by occupation code
+   */
+  async fetchOccupationalDataBatch(
+    occupationCodes: string[],
+    area: OEWSArea = NATIONAL_AREA,
+    deadline?: number
+  ): Promise<OccupationBatchResult> {
+    return this.fetchOEWSData(
+      occupationCodes.map((code) => ({ key: code, code, area })),
+      deadline
+    )
+  }
+
+  /**
+   * Fetch employment and wage data for one occupation in several areas
+   * @param occupationCode Occupation code to fetch
+   * @param areas OEWS areas (states or metro areas)
+   * @returns Data and per-series errors keyed by area code
+   */
+  async fetchAreaData(occupationCode: string, areas: OEWSArea[]): Promise<OccupationBatchResult> {
+    return this.fetchOEWSData(areas.map((area) => ({ key: area.code, code: occupationCode, area })))
+  }
+
+  /**
+   * Fetch every OEWS datatype for a set of occupation and area pairs in as
+   * few requests as possible
+   * @param targets Pairs to fetch, each with the key it is reported under
+   * @param deadline Time (ms since epoch) after which no further request is started
+   */
+  private async fetchOEWSData(
+    targets: Array<{ key: string; code: string; area: OEWSArea }>,
+    deadline?: number
+  ): Promise<OccupationBatchResult> {
+    const datatypes = Object.keys(OEWS_DATATYPES) as OEWSDatatype[]
+    const batch = await this.fetchSeriesBatch(
+      targets.flatMap((target) => datatypes.map((datatype) => oewsSeriesId(target.code, datatype, target.area))),
+      deadline
+    )
+    const deferred = new Set(batch.deferred)
 
-      const latestEmployment = employmentData[0]?.value || 0
-      const latestWage = wageData[0]?.value || 0
+    const result: OccupationBatchResult = {
+      data: new Map(),
+      errors: new Map(),
+      requestsMade: batch.requestsMade,
+      deferred: [],
+    }
+    for (const { key, code, area } of targets) {
+      const seriesIds = datatypes.map((datatype) => oewsSeriesId(code, datatype, area))
+      if (seriesIds.some((seriesId) => deferred.has(seriesId))) {
+        result.deferred.push(key)
+        continue
+      }
+      const errors = seriesIds
+        .filter((seriesId) => batch.errors.has(seriesId))
+        .map((seriesId) => `${seriesId}: ${batch.errors.get(seriesId)}`)
 
-      return {
-        code: occupationCode,
-        title: "", // This would need to be fetched from occupation titles API
-        employment: Number.parseInt(latestEmployment),
-        projectedEmployment: 0, // This would need projection calculations
-        medianWage: Number.parseFloat(latestWage),
+      if (errors.length > 0) {
+        result.errors.set(key, errors)
       }
-    } catch (error) {
-      console.error(`Error fetching data for occupation ${occupationCode}:`, error)
-      return null
+      if (seriesIds.every((seriesId) => !batch.data.has(seriesId))) {
+        result.data.set(key, null)
+        continue
+      }
+
+      const value = (datatype: OEWSDatatype) => latestValue(batch.data.get(oewsSeriesId(code, datatype, area)))
+      result.data.set(key, {
+        code,
+        title: "",
+        employment: Math.round(value("employment") ?? 0),
+        projectedEmployment: 0,
+        medianWage: value("annualMedian") ?? 0,
+        wages: {
+          annualMean: value("annualMean"),
+          hourlyMean: value("hourlyMean"),
+          hourlyMedian: value("hourlyMedian"),
+          annualP10: value("annualP10"),
+          annualP25: value("annualP25"),
+          annualP75: value("annualP75"),
+          annualP90: value("annualP90"),
+        },
+      })
     }
+
+    return result
+  }
+
+  // Get the resolved endpoint, request and retry settings
+  getOptions(): Readonly<BLSServiceOptions> {
+    return this.options
+  }
+
+  // Replace the endpoint, request and retry settings, keeping the keys and
+  // their daily usage
+  setOptions(overrides: Partial<BLSServiceOptions> = {}): void {
+    this.options = getBLSServiceOptions(overrides)
   }
 
   // Get total remaining requests across all keys
@@ -580,7 +1057,7 @@ export class BLSService {
 
     this.keyStatuses.forEach((status) => {
       if (!status.isBlocked) {
-        total += Math.max(0, this.dailyLimit - status.requestsUsed)
+        total += Math.max(0, this.options.dailyLimitPerKey - status.requestsUsed)
       }
     })
 
@@ -600,7 +1077,7 @@ export class BLSService {
     return Array.from(this.keyStatuses.values()).map((status) => ({
       keyPreview: `${status.key.substring(0, 8)}...`,
       requestsUsed: status.requestsUsed,
-      requestsRemaining: Math.max(0, this.dailyLimit - status.requestsUsed),
+      requestsRemaining: Math.max(0, this.options.dailyLimitPerKey - status.requestsUsed),
       isBlocked: status.isBlocked,
       blockUntil: status.blockUntil,
     }))
@@ -619,7 +1096,7 @@ export class BLSService {
     return {
       keyPreview: `${availableKey.substring(0, 8)}...`,
       requestsUsed: status.requestsUsed,
-      requestsRemaining: Math.max(0, this.dailyLimit - status.requestsUsed),
+      requestsRemaining: Math.max(0, this.options.dailyLimitPerKey - status.requestsUsed),
     }
   }
 
@@ -1,8 +1,54 @@
-import { BLSService } from "./bls-service"
-import { sqlEnhanced, validateJobData, withTransaction } from "./database-enhanced"
+import { BLSService, type BLSServiceOptions } from "./bls-service"
+import {
+  ensureJobDataQualityColumns,
+  ensureJobProjectionColumns,
+  ensureJobWageColumns,
+  sqlEnhanced,
+  validateJobData,
+  withTransaction,
+  type DataSource,
+} from "./database-enhanced"
 import { RetryableError, withRetry } from "./error-handler"
 import { EventEmitter } from "events"
 import { initializeBLSApiKeys, loadBLSApiKeys } from "./api-keys-helper"
+import type { ScoreFactor } from "./ai-impact-scoring"
+import { getActiveScoringModel, initializeModelScoreTable, saveModelScore } from "./scoring-models"
+import { initializeScoreHistoryTable, recordScoreHistory } from "./score-history"
+import { releaseExpiredOverrides, resolveOverride } from "./score-overrides"
+import { initializeSkillTables, saveJobSkills } from "./skills"
+import { projectedEmploymentForScoring } from "./employment-projections"
+import { getOccupationsOrLoadDefault } from "./soc-taxonomy"
+import {
+  claimSyncItems,
+  completeSyncRunIfDone,
+  createSyncRun,
+  createSyncWorkerId,
+  findResumableSyncRun,
+  initializeSyncQueueTables,
+  markSyncItemDone,
+  markSyncItemFailed,
+  releaseSyncItems,
+  requeueFailedSyncItems,
+  getSyncRun,
+  updateSyncRunStatus,
+  type SyncRun,
+} from "./sync-queue"
+import {
+  createDefaultDataSources,
+  dataSourceLabel,
+  mergeOccupationFields,
+  parseDataSourcePrecedence,
+  type DataSourceAdapter,
+  type DataSourcePrecedence,
+  type OccupationFields,
+} from "./data-sources"
+import { acquireSyncLock, getSyncLock, type SyncLockHandle } from "./sync-lock"
+import {
+  describeSyncSelection,
+  resolveSyncSelection,
+  type SyncSelection,
+  type SyncSelectionReport,
+} from "./sync-selection"
 
 // ========== TYPES AND INTERFACES ==========
 
@@ -16,10 +62,25 @@ export interface SyncConfig {
   healthCheckIntervalMs: number
   resumeFromLastCheckpoint: boolean
   progressUpdateIntervalMs: number
+  // Attempts per occupation across resumes before it stays failed
+  maxItemAttempts: number
+  // Age after which an item claimed by another instance is taken over
+  claimTimeoutMs: number
+  // Time budget of one runTick call; stay below the platform's function timeout
+  tickDurationMs: number
+  // Lease length of the cross-instance sync lock; renewed while the sync runs
+  lockTtlMs: number
+  // Which data source wins for each field; see lib/data-sources
+  fieldPrecedence: DataSourcePrecedence
+  // BLS endpoint, year window and retry settings; unset options come from
+  // the BLS_* environment variables
+  blsOptions: Partial<BLSServiceOptions>
 }
 
 export interface SyncProgress {
   isRunning: boolean
+  // Durable run in sync_runs this progress belongs to
+  runId?: number
   totalJobs: number
   processedJobs: number
   successfulJobs: number
@@ -75,6 +136,18 @@ export interface SyncResult {
     error: string
     retryable: boolean
   }>
+  // What the run was narrowed to and why; absent for a full sync
+  selection?: SyncSelectionReport
+  // Another instance holds the sync lock, so nothing was done
+  lockUnavailable?: boolean
+}
+
+// Result of one time-boxed slice of a sync (runTick)
+export interface SyncTickResult extends SyncResult {
+  runId: number | null
+  // The run has no pending or in-progress occupations left
+  done: boolean
+  remainingJobs: number
 }
 
 export interface JobData {
@@ -83,13 +156,32 @@ export interface JobData {
   employment_2023?: number
   projected_employment_2033?: number
   median_wage?: number
+  mean_wage?: number | null
+  hourly_mean_wage?: number | null
+  hourly_median_wage?: number | null
+  wage_p10?: number | null
+  wage_p25?: number | null
+  wage_p75?: number | null
+  wage_p90?: number | null
+  projected_change_percent?: number | null
+  annual_openings?: number | null
+  typical_education?: string | null
   ai_impact_score?: number
+  ai_impact_score_low?: number
+  ai_impact_score_high?: number
   automation_risk?: string
+  data_source?: DataSource
   skills_at_risk?: string[]
   skills_needed?: string[]
   future_outlook?: string
+  score_breakdown?: ScoreFactor[]
 }
 
+// Fields each data source returned for one occupation, keyed by adapter ID.
+// null means the source has nothing for the occupation; a source missing
+// from the map has not been asked yet.
+type OccupationSourceData = Map<string, OccupationFields | null>
+
 // ========== CONFIGURATION ==========
 
 // Default sync configuration
@@ -107,6 +199,13 @@ export const defaultSyncConfig: SyncConfig = {
   healthCheckIntervalMs: 60000, // 1 minute
   resumeFromLastCheckpoint: true,
   progressUpdateIntervalMs: 1000, // 1 second
+  maxItemAttempts: 3,
+  claimTimeoutMs: 15 * 60 * 1000, // 15 minutes
+  tickDurationMs: 45_000, // fits a 60 s function limit with room for the response
+  lockTtlMs: 2 * 60 * 1000, // 2 minutes
+  // e.g. DATA_SOURCE_PRECEDENCE="employment=local-csv,bls-oews;*=bls-oews"
+  fieldPrecedence: parseDataSourcePrecedence(process.env.DATA_SOURCE_PRECEDENCE),
+  blsOptions: {},
 }
 
 /**
@@ -141,6 +240,7 @@ function isServerlessRuntime(): boolean {
 
 export class BLSSyncService extends EventEmitter {
   private blsService: BLSService
+  private dataSources: DataSourceAdapter[]
   private config: SyncConfig
   private syncProgress: SyncProgress
   private syncAbortController: AbortController | null = null
@@ -149,6 +249,16 @@ export class BLSSyncService extends EventEmitter {
   private occupationCodes: string[] = []
   private occupationTitles: Record<string, string> = {}
   private lastProcessingTime: number[] = []
+  private runId: number | null = null
+  // Time at which a tick stops claiming work; null outside runTick
+  private tickDeadline: number | null = null
+  private workerId = createSyncWorkerId()
+  // Selection of the current run and whether it re-fetches scored rows
+  private selectionReport: SyncSelectionReport | null = null
+  private forceRefresh = false
+  // Set from the first line of runSync until it returns; isRunning is only
+  // set once the run is loaded, after several awaits
+  private syncStarting = false
 
   constructor(
     apiKeys: string | string[] = [],
@@ -165,13 +275,14 @@ export class BLSSyncService extends EventEmitter {
     // Otherwise, fall back to the provided keys (for backward compatibility)
     const keysToUse = validApiKeys.length > 0 ? validApiKeys : apiKeys
     
-    this.blsService = new BLSService(keysToUse)
-
     // Decide which defaults to begin with based on runtime.
     const runtimeIsServerless = isServerlessRuntime()
     this.config = runtimeIsServerless
       ? { ...defaultSyncConfig, ...serverlessDefaults, ...config }
       : { ...defaultSyncConfig, ...config }
+
+    this.blsService = new BLSService(keysToUse, this.config.blsOptions)
+    this.dataSources = createDefaultDataSources(this.blsService)
     
     // Initialize with provided occupation codes/titles or load them later
     this.occupationCodes = occupationCodes || []
@@ -206,39 +317,224 @@ export class BLSSyncService extends EventEmitter {
 
   // ========== PUBLIC METHODS ==========
 
+  /**
+   * Replace the data sources the sync fetches from.  Fields are merged in
+   * the order given unless `fieldPrecedence` says otherwise.
+   * @param adapters Data source adapters
+   */
+  public setDataSources(adapters: DataSourceAdapter[]): void {
+    if (this.isBusy()) {
+      throw new Error("Cannot change data sources while a sync is running")
+    }
+    this.dataSources = adapters
+  }
+
   /**
    * Start the sync process
    * @param forceRestart If true, ignores checkpoints and starts from beginning
+   * @param selection Only sync the matching occupations; always starts a new run
    * @returns Promise with sync result
    */
-  public async startSync(forceRestart = false): Promise<SyncResult> {
-    if (this.syncProgress.isRunning) {
+  public async startSync(forceRestart = false, selection?: SyncSelection): Promise<SyncResult> {
+    return this.runSync(forceRestart, false, selection)
+  }
+
+  /**
+   * Resolve a selection against the tracked occupations without syncing,
+   * e.g. to preview which occupations a run would cover
+   * @param selection Criteria; see lib/sync-selection
+   * @returns The selected codes with the reasons each was picked
+   */
+  public async selectOccupations(selection: SyncSelection): Promise<SyncSelectionReport> {
+    if (this.occupationCodes.length === 0) {
+      await this.loadOccupationCodes()
+    }
+    // Age and provenance are read from these columns
+    await ensureJobDataQualityColumns()
+    return resolveSyncSelection(this.occupationCodes, selection)
+  }
+
+  /**
+   * Process a time-boxed slice of the sync and return.  Serverless functions
+   * are frozen once they respond, so instead of one long background sync a
+   * cron job or the admin UI calls this repeatedly until `done`; progress is
+   * kept in sync_runs between calls.  Without forceRestart a tick only
+   * resumes the unfinished run and does nothing once it has completed.
+   * @param options.maxDurationMs Time budget; defaults to config.tickDurationMs
+   * @param options.forceRestart Start a new run over all occupations
+   * @param options.selection Start a new run over the matching occupations only
+   * @param options.config Settings that override the service's config for this tick only
+   * @returns The run's progress and the work remaining; not done while
+   *          another instance holds the lock
+   */
+  public async runTick(
+    options: {
+      maxDurationMs?: number
+      forceRestart?: boolean
+      selection?: SyncSelection
+      config?: Partial<SyncConfig>
+    } = {}
+  ): Promise<SyncTickResult> {
+    if (this.isBusy()) {
       return {
         success: false,
         message: "Sync is already running",
         stats: this.getSyncStats(),
+        runId: this.runId,
+        done: false,
+        remainingJobs: this.syncProgress.totalJobs - this.syncProgress.processedJobs,
       }
     }
 
+    const baseConfig = this.config
+    if (options.config) {
+      this.config = {
+        ...baseConfig,
+        ...options.config,
+        blsOptions: { ...baseConfig.blsOptions, ...options.config.blsOptions },
+      }
+      this.blsService.setOptions(this.config.blsOptions)
+    }
+
+    this.tickDeadline = Date.now() + (options.maxDurationMs ?? this.config.tickDurationMs)
+    let result: SyncResult
     try {
-      // Reset or resume progress
-      if (forceRestart || !this.config.resumeFromLastCheckpoint) {
-        this.resetSyncProgress()
-      } else {
-        this.prepareToResume()
+      result = await this.runSync(options.forceRestart ?? false, true, options.selection)
+    } finally {
+      this.tickDeadline = null
+      if (options.config) {
+        this.config = baseConfig
+        this.blsService.setOptions(baseConfig.blsOptions)
+      }
+    }
+
+    if (result.lockUnavailable) {
+      return { ...result, runId: null, done: false, remainingJobs: 0 }
+    }
+
+    const run = this.runId !== null ? await getSyncRun(this.runId) : null
+    const remainingJobs = run ? run.pendingItems + run.inProgressItems : 0
+    return {
+      ...result,
+      runId: run?.id ?? null,
+      done: !run || run.status === "completed" || remainingJobs === 0,
+      remainingJobs,
+    }
+  }
+
+  /**
+   * Run the sync until the queue is empty, it is stopped or rate limited,
+   * or, for a tick, its time budget is used
+   * @param forceRestart Start a new run instead of resuming
+   * @param isTick Only resume an unfinished run, never start one implicitly
+   * @param selection Start a new run over the matching occupations only
+   */
+  private async runSync(forceRestart: boolean, isTick: boolean, selection?: SyncSelection): Promise<SyncResult> {
+    if (this.isBusy()) {
+      return {
+        success: false,
+        message: "Sync is already running",
+        stats: this.getSyncStats(),
       }
+    }
+    this.syncStarting = true
+
+    // Only one instance may sync at a time; the others would compete for the same API keys
+    let lock: SyncLockHandle | null = null
+    try {
+      this.resetSyncProgress()
 
       // Initialize abort controller for cancellation
       this.syncAbortController = new AbortController()
 
-      // Load occupation codes if not provided
+      lock = await acquireSyncLock(this.workerId, {
+        ttlMs: this.config.lockTtlMs,
+        onLost: () => {
+          this.syncProgress.lastError = "Sync lock was taken over by another instance"
+          this.syncProgress.lastErrorTime = new Date().toISOString()
+          this.syncAbortController?.abort()
+        },
+      })
+      if (!lock) {
+        const lease = await getSyncLock()
+        return {
+          success: false,
+          message: lease
+            ? `Sync is already running on ${lease.holder} (lock expires ${lease.expiresAt})`
+            : "Sync is already running on another instance",
+          stats: this.getSyncStats(),
+          lockUnavailable: true,
+        }
+      }
+
+      // Resume the unfinished run, possibly left by another instance, or queue a new one
+      await initializeSyncQueueTables()
+      const startNew = forceRestart || selection !== undefined
+      const resumable =
+        startNew || (!this.config.resumeFromLastCheckpoint && !isTick) ? null : await findResumableSyncRun()
+      if (!resumable && isTick && !startNew) {
+        this.runId = null
+        return {
+          success: true,
+          message: "No unfinished sync run to continue. Start one with forceRestart.",
+          stats: this.getSyncStats(),
+        }
+      }
+
+      // Load occupation codes (and titles) if not provided
       if (this.occupationCodes.length === 0) {
         await this.loadOccupationCodes()
       }
 
-      // Update total jobs count
-      this.syncProgress.totalJobs = this.occupationCodes.length
-      
+      let run: SyncRun
+      if (resumable) {
+        const requeued = await requeueFailedSyncItems(resumable.id, this.config.maxItemAttempts)
+        console.log(
+          `🔄 Resuming sync run ${resumable.id}: ${resumable.pendingItems + requeued} pending, ` +
+            `${resumable.doneItems} done, ${resumable.failedItems - requeued} failed`
+        )
+        run = { ...resumable, failedItems: resumable.failedItems - requeued }
+        this.selectionReport = resumable.selection
+      } else {
+        this.selectionReport = selection ? await this.selectOccupations(selection) : null
+        if (this.selectionReport) {
+          console.log(`🎯 Sync selection: ${describeSyncSelection(this.selectionReport)}`)
+          if (this.selectionReport.selected.length === 0) {
+            this.runId = null
+            return {
+              success: true,
+              message: "No occupations matched the selection",
+              stats: this.getSyncStats(),
+              selection: this.selectionReport,
+            }
+          }
+        }
+
+        const codes = this.selectionReport
+          ? this.selectionReport.selected.map((item) => item.code)
+          : this.occupationCodes
+        run = await createSyncRun(codes, this.selectionReport)
+        console.log(`🆕 Started sync run ${run.id} with ${run.totalItems} occupations`)
+      }
+      this.forceRefresh = this.selectionReport?.forceRefresh ?? false
+      this.runId = run.id
+      this.loadRunProgress(run)
+
+      // Ensure per-model scores and provenance flags can be recorded
+      await initializeModelScoreTable()
+      await ensureJobDataQualityColumns()
+      await ensureJobWageColumns()
+      await ensureJobProjectionColumns()
+      await initializeScoreHistoryTable()
+      await releaseExpiredOverrides()
+      await initializeSkillTables()
+
+      // Report sources that look unavailable; their fields fall back to the others
+      for (const adapter of this.dataSources) {
+        const health = await adapter.checkHealth()
+        console.log(`${health.healthy ? "✅" : "⚠️"} ${adapter.name}: ${health.message}`)
+      }
+
       // Calculate total batches
       const totalBatches = Math.ceil(this.syncProgress.totalJobs / this.config.batchSize)
       this.syncProgress.totalBatches = totalBatches
@@ -257,6 +553,11 @@ export class BLSSyncService extends EventEmitter {
       // Start the sync process
       const result = await this.processBatches()
 
+      // The new lock holder picks the run up again; its unprocessed items were released
+      if (lock.lost) {
+        await updateSyncRunStatus(run.id, "paused", "Sync lock was taken over by another instance")
+      }
+
       // Update final status
       this.syncProgress.isRunning = false
       this.syncProgress.endTime = new Date().toISOString()
@@ -266,7 +567,7 @@ export class BLSSyncService extends EventEmitter {
       this.stopProgressUpdates()
       this.stopHealthCheck()
 
-      return result
+      return this.selectionReport ? { ...result, selection: this.selectionReport } : result
     } catch (error) {
       // Handle unexpected errors
       this.syncProgress.isRunning = false
@@ -275,6 +576,13 @@ export class BLSSyncService extends EventEmitter {
       this.syncProgress.lastErrorTime = new Date().toISOString()
       this.updateProgress()
 
+      // Leave the run resumable
+      if (this.runId !== null) {
+        await updateSyncRunStatus(this.runId, "paused", `Sync failed: ${this.syncProgress.lastError}`).catch(
+          (statusError) => console.warn("⚠️ Could not pause the sync run:", statusError)
+        )
+      }
+
       // Clean up intervals
       this.stopProgressUpdates()
       this.stopHealthCheck()
@@ -284,9 +592,17 @@ export class BLSSyncService extends EventEmitter {
         message: `Sync failed: ${error instanceof Error ? error.message : "Unknown error"}`,
         stats: this.getSyncStats(),
       }
+    } finally {
+      await lock?.release().catch((lockError) => console.warn("⚠️ Could not release the sync lock:", lockError))
+      this.syncStarting = false
     }
   }
 
+  // Whether a sync is running or between its start and setting isRunning
+  private isBusy(): boolean {
+    return this.syncStarting || this.syncProgress.isRunning
+  }
+
   /**
    * Stop the current sync process
    * @returns Promise that resolves when sync is stopped
@@ -300,10 +616,9 @@ export class BLSSyncService extends EventEmitter {
     }
 
     try {
-      // Abort the sync process
+      // Abort the sync process; the batch loop stops at its next abort check
       if (this.syncAbortController) {
         this.syncAbortController.abort()
-        this.syncAbortController = null
       }
 
       // Update status
@@ -317,6 +632,9 @@ export class BLSSyncService extends EventEmitter {
 
       // Create final checkpoint
       this.createCheckpoint()
+      if (this.runId !== null) {
+        await updateSyncRunStatus(this.runId, "stopped", "Stopped by an administrator")
+      }
 
       return {
         success: true,
@@ -338,7 +656,7 @@ export class BLSSyncService extends EventEmitter {
     // Update API keys status
     this.syncProgress.apiKeysStatus = {
       totalKeys: this.blsService.getAllKeyStatuses().length,
-      totalDailyLimit: this.blsService.getAllKeyStatuses().length * 500, // Assuming 500 per key
+      totalDailyLimit: this.blsService.getAllKeyStatuses().length * this.blsService.getOptions().dailyLimitPerKey,
       totalRemainingRequests: this.blsService.getTotalRemainingRequests(),
       keyStatuses: this.blsService.getAllKeyStatuses(),
     }
@@ -377,26 +695,21 @@ export class BLSSyncService extends EventEmitter {
   // ========== CORE SYNC LOGIC ==========
 
   /**
-   * Process all batches of occupation codes
+   * Claim and process batches of the run's pending items until none are left
    * @returns Promise with sync result
    */
   private async processBatches(): Promise<SyncResult> {
     const errors: Array<{ code: string; error: string; retryable: boolean }> = []
-    let startBatchIndex = 0
-    
-    // If resuming, calculate which batch to start from
-    if (this.config.resumeFromLastCheckpoint && this.syncProgress.checkpoints.length > 0) {
-      const lastProcessed = this.syncProgress.processedJobs
-      startBatchIndex = Math.floor(lastProcessed / this.config.batchSize)
-      console.log(`🔄 Resuming from batch ${startBatchIndex + 1}/${this.syncProgress.totalBatches}`)
+    const runId = this.runId!
+    const totalBatches = this.syncProgress.totalBatches ?? 0
+
+    // Continue the batch numbering of a resumed run
+    this.syncProgress.currentBatch = Math.floor(this.syncProgress.processedJobs / this.config.batchSize)
+    if (this.syncProgress.currentBatch > 0) {
+      console.log(`🔄 Resuming from batch ${this.syncProgress.currentBatch + 1}/${totalBatches}`)
     }
 
-    // Process each batch
-    for (
-      let batchIndex = startBatchIndex;
-      batchIndex < Math.ceil(this.occupationCodes.length / this.config.batchSize);
-      batchIndex++
-    ) {
+    while (true) {
       // Check if sync was aborted
       if (this.syncAbortController?.signal.aborted) {
         console.log("🛑 Sync process aborted")
@@ -408,37 +721,66 @@ export class BLSSyncService extends EventEmitter {
         }
       }
 
-      // Update current batch
-      this.syncProgress.currentBatch = batchIndex + 1
-      
-      // Get current batch of codes
-      const start = batchIndex * this.config.batchSize
-      const end = Math.min(start + this.config.batchSize, this.occupationCodes.length)
-      const batchCodes = this.occupationCodes.slice(start, end)
+      // A tick stops claiming work once its time budget is used
+      if (this.tickTimeUsed()) {
+        return {
+          success: true,
+          message: `Tick time budget used. Processed ${this.syncProgress.processedJobs}/${this.syncProgress.totalJobs} jobs.`,
+          stats: this.getSyncStats(),
+          errors: errors.length > 0 ? errors : undefined,
+        }
+      }
 
-      console.log(`📦 Processing batch ${batchIndex + 1}/${Math.ceil(this.occupationCodes.length / this.config.batchSize)} (${batchCodes.length} jobs)`)
+      // Claim the next batch; other instances may be working on the same run
+      const batchCodes = await claimSyncItems(runId, this.workerId, this.nextBatchSize(), this.config.claimTimeoutMs)
+      if (batchCodes.length === 0) break
 
+      this.syncProgress.currentBatch = (this.syncProgress.currentBatch ?? 0) + 1
+      console.log(`📦 Processing batch ${this.syncProgress.currentBatch}/${totalBatches} (${batchCodes.length} jobs)`)
+
+      let handled: string[] = []
       try {
-        // Process batch with concurrency limit
-        await this.processBatchWithConcurrency(batchCodes, errors)
+        // Fetch the whole batch from every data source
+        const { prefetched, deferred } = await this.prefetchBatchData(batchCodes)
+
+        // Process batch with concurrency limit; codes the tick had no time to fetch are released
+        handled = await this.processBatchWithConcurrency(
+          batchCodes.filter((code) => !deferred.has(code)),
+          errors,
+          prefetched
+        )
         
         // Create checkpoint after each batch
         this.createCheckpoint()
       } catch (error) {
-        console.error(`❌ Error processing batch ${batchIndex + 1}:`, error)
-        
-        // Even if a batch fails, continue with the next one
-        continue
+        console.error(`❌ Error processing batch ${this.syncProgress.currentBatch}:`, error)
+      } finally {
+        // Hand back the items this instance claimed but never got to
+        await releaseSyncItems(
+          runId,
+          batchCodes.filter((code) => !handled.includes(code)),
+          this.workerId
+        ).catch((error) => console.warn("⚠️ Could not release unprocessed sync items:", error))
       }
 
-      // Check if we have enough API requests remaining
-      const remainingRequests = this.blsService.getTotalRemainingRequests()
-      if (remainingRequests < this.config.batchSize * 2) { // Each job needs at least 2 API calls
-        console.warn(`⚠️ Insufficient API requests remaining (${remainingRequests}), pausing sync`)
+      // Check every rate-limited source has enough requests left for the next batch
+      const exhausted = this.dataSources.find((adapter) => {
+        const budget = adapter.getRateLimitBudget()
+        return (
+          budget.remainingRequests !== null &&
+          budget.remainingRequests < Math.ceil(this.config.batchSize / budget.occupationsPerRequest)
+        )
+      })
+      if (exhausted) {
+        console.warn(
+          `⚠️ Insufficient API requests remaining for ${exhausted.name} (${exhausted.getRateLimitBudget().remainingRequests}), pausing sync`
+        )
         
+        const message = `Sync paused due to API rate limits. Processed ${this.syncProgress.processedJobs}/${this.syncProgress.totalJobs} jobs.`
+        await updateSyncRunStatus(runId, "paused", message)
         return {
           success: false,
-          message: `Sync paused due to API rate limits. Processed ${this.syncProgress.processedJobs}/${this.syncProgress.totalJobs} jobs.`,
+          message,
           stats: this.getSyncStats(),
           errors,
         }
@@ -447,29 +789,144 @@ export class BLSSyncService extends EventEmitter {
 
     // Final result
     const success = this.syncProgress.failedJobs === 0
+    const message = success
+      ? `Sync completed successfully. Processed ${this.syncProgress.processedJobs} jobs.`
+      : `Sync completed with ${this.syncProgress.failedJobs} failures out of ${this.syncProgress.processedJobs} jobs.`
+
+    // Items still claimed by other instances keep the run open until they finish
+    if (!(await completeSyncRunIfDone(runId, message))) {
+      console.log(`⏳ Sync run ${runId} has items in progress on other instances`)
+    }
     return {
       success,
-      message: success
-        ? `Sync completed successfully. Processed ${this.syncProgress.processedJobs} jobs.`
-        : `Sync completed with ${this.syncProgress.failedJobs} failures out of ${this.syncProgress.processedJobs} jobs.`,
+      message,
       stats: this.getSyncStats(),
       errors: errors.length > 0 ? errors : undefined,
     }
   }
 
+  /**
+   * Fetch every job in a batch that will not be skipped from each data
+   * source, using as few requests as possible.  A tick stops starting
+   * requests once its time budget is used.
+   * @param batchCodes Array of occupation codes in the batch
+   * @returns Source data per fetched code, where a source whose batch fetch
+   *          failed is left out and asked again per job by processJob, and
+   *          the codes the tick ran out of time to fetch
+   */
+  private async prefetchBatchData(
+    batchCodes: string[]
+  ): Promise<{ prefetched: Map<string, OccupationSourceData>; deferred: Set<string> }> {
+    let codesToFetch = batchCodes
+    try {
+      const existingJobs = await sqlEnhanced<{ occ_code: string; ai_impact_score: number | null; data_source: string | null }>`
+        SELECT occ_code, ai_impact_score, data_source FROM jobs WHERE occ_code = ANY(${batchCodes})
+      `
+      const upToDate = new Set(existingJobs.filter((job) => this.isUpToDate(job)).map((job) => job.occ_code))
+      codesToFetch = batchCodes.filter((code) => !upToDate.has(code))
+    } catch (error) {
+      console.warn("⚠️ Could not check existing jobs before batch fetch:", error)
+    }
+
+    const prefetched = new Map<string, OccupationSourceData>(codesToFetch.map((code) => [code, new Map()]))
+    const deferred = new Set<string>()
+
+    for (const adapter of this.dataSources) {
+      codesToFetch = codesToFetch.filter((code) => !deferred.has(code))
+      if (codesToFetch.length === 0) break
+      if (this.tickTimeUsed()) {
+        codesToFetch.forEach((code) => deferred.add(code))
+        break
+      }
+
+      try {
+        const result = await adapter.fetch(codesToFetch, { deadline: this.tickDeadline ?? undefined })
+        result.deferred?.forEach((code) => deferred.add(code))
+        if (result.requestsMade > 0 || result.errors.size > 0) {
+          console.log(
+            `📡 Fetched ${codesToFetch.length} occupations from ${adapter.name} in ${result.requestsMade} request(s), ${result.errors.size} with errors`
+          )
+        }
+        result.errors.forEach((sourceErrors, code) => console.warn(`⚠️ ${code}: ${sourceErrors.join("; ")}`))
+        codesToFetch.forEach((code) => prefetched.get(code)!.set(adapter.id, result.data.get(code) ?? null))
+      } catch (error) {
+        console.warn(`⚠️ Batch fetch from ${adapter.name} failed, falling back to per-job requests:`, error)
+      }
+    }
+    if (deferred.size > 0) {
+      console.log(`⏱️ Tick time budget used; ${deferred.size} occupations left for the next tick`)
+    }
+    return { prefetched, deferred }
+  }
+
+  /**
+   * Fetch one occupation from a data source with retries
+   * @returns The source's fields, or null when it has none or stayed unreachable
+   */
+  private async fetchFromSource(adapter: DataSourceAdapter, occupationCode: string): Promise<OccupationFields | null> {
+    try {
+      return await withRetry(
+        async () => {
+          try {
+            const result = await adapter.fetch([occupationCode])
+            return result.data.get(occupationCode) ?? null
+          } catch (error) {
+            // Categorize errors
+            if (error instanceof Error) {
+              const errorMsg = error.message.toLowerCase()
+              
+              // API rate limit or key errors - retryable
+              if (
+                errorMsg.includes("rate limit") ||
+                errorMsg.includes("api key") ||
+                errorMsg.includes("limit exceeded") ||
+                errorMsg.includes("too many requests")
+              ) {
+                throw new RetryableError(`${adapter.name} rate limit: ${error.message}`, 60) // Retry after 60 seconds
+              }
+              
+              // Network or timeout errors - retryable
+              if (
+                errorMsg.includes("network") ||
+                errorMsg.includes("timeout") ||
+                errorMsg.includes("connection") ||
+                errorMsg.includes("socket")
+              ) {
+                throw new RetryableError(`${adapter.name} network error: ${error.message}`)
+              }
+            }
+            
+            // Re-throw other errors
+            throw error
+          }
+        },
+        this.config.retryAttempts,
+        this.config.baseRetryDelayMs
+      )
+    } catch (error) {
+      console.warn(`⚠️ Could not fetch ${occupationCode} from ${adapter.name}:`, error)
+      return null
+    }
+  }
+
   /**
    * Process a batch of occupation codes with concurrency limit
    * @param batchCodes Array of occupation codes to process
    * @param errors Array to collect errors
+   * @param prefetched BLS data already fetched for the batch
+   * @returns Codes that were processed, successfully or not, and recorded in sync_items
    */
   private async processBatchWithConcurrency(
     batchCodes: string[],
-    errors: Array<{ code: string; error: string; retryable: boolean }>
-  ): Promise<void> {
+    errors: Array<{ code: string; error: string; retryable: boolean }>,
+    prefetched: Map<string, OccupationSourceData> = new Map()
+  ): Promise<string[]> {
+    const handled: string[] = []
+
     // Process in smaller chunks to control concurrency
     for (let i = 0; i < batchCodes.length; i += this.config.maxConcurrent) {
-      // Check if sync was aborted
-      if (this.syncAbortController?.signal.aborted) {
+      // Check if sync was aborted or the tick is out of time; unprocessed codes are released
+      if (this.syncAbortController?.signal.aborted || this.tickTimeUsed()) {
         break
       }
 
@@ -487,13 +944,17 @@ export class BLSSyncService extends EventEmitter {
           const startTime = Date.now()
 
           try {
-            await this.processJob(code)
+            const saved = await this.processJob(code, prefetched.get(code))
             this.syncProgress.successfulJobs++
+            await this.recordItem(code, () => markSyncItemDone(this.runId!, code, this.workerId, !saved))
             
             // Track processing time for estimates
             this.recordProcessingTime(Date.now() - startTime)
           } catch (error) {
             this.syncProgress.failedJobs++
+            await this.recordItem(code, () =>
+              markSyncItemFailed(this.runId!, code, this.workerId, error instanceof Error ? error.message : "Unknown error")
+            )
             
             // Record error details
             const isRetryable = error instanceof RetryableError
@@ -512,85 +973,94 @@ export class BLSSyncService extends EventEmitter {
             
             console.error(`❌ Failed to process job ${code}:`, error)
           } finally {
+            handled.push(code)
             this.syncProgress.processedJobs++
             this.updateProgress()
           }
         })
       )
     }
+    return handled
+  }
+
+  /**
+   * Record an item's outcome in sync_items.  If that fails the item stays
+   * claimed and is picked up again once its claim times out.
+   */
+  private async recordItem(code: string, record: () => Promise<void>): Promise<void> {
+    try {
+      await record()
+    } catch (error) {
+      console.warn(`⚠️ Could not record sync outcome for ${code}:`, error)
+    }
+  }
+
+  private tickTimeUsed(): boolean {
+    return this.tickDeadline !== null && Date.now() >= this.tickDeadline
+  }
+
+  /**
+   * Items to claim next: a full batch, or in a tick only as many as the
+   * remaining time is expected to cover at the recent time per job
+   */
+  private nextBatchSize(): number {
+    if (this.tickDeadline === null) return this.config.batchSize
+    const affordable = Math.floor((this.tickDeadline - Date.now()) / this.getAverageProcessingTime())
+    return Math.max(1, Math.min(this.config.batchSize, affordable))
+  }
+
+  /**
+   * Whether a stored job already has an AI analysis.  Rows filled with
+   * fallback estimates are re-fetched so real BLS data can replace them,
+   * and every row is when the run's selection forces a refresh.
+   */
+  private isUpToDate(job: { ai_impact_score: number | null; data_source: string | null } | null): boolean {
+    if (this.forceRefresh) return false
+    return Boolean(job && job.ai_impact_score && job.data_source !== "fallback")
   }
 
   /**
    * Process a single occupation code
    * @param occupationCode Occupation code to process
+   * @param prefetchedData Source data from a batch fetch; sources missing from it are fetched here
+   * @returns false when the job was already up to date and skipped
    */
-  private async processJob(occupationCode: string): Promise<void> {
+  private async processJob(occupationCode: string, prefetchedData: OccupationSourceData = new Map()): Promise<boolean> {
     // First check if job already exists with AI analysis
     const existingJob = await this.checkExistingJob(occupationCode)
-    if (existingJob && existingJob.ai_impact_score) {
+    if (this.isUpToDate(existingJob)) {
       this.syncProgress.skippedJobs++
-      return
+      return false
     }
 
-    // Fetch data from BLS API with retries
-    const jobData = await withRetry(
-      async () => {
-        try {
-          return await this.blsService.fetchOccupationalData(occupationCode)
-        } catch (error) {
-          // Categorize errors
-          if (error instanceof Error) {
-            const errorMsg = error.message.toLowerCase()
-            
-            // API rate limit or key errors - retryable
-            if (
-              errorMsg.includes("rate limit") ||
-              errorMsg.includes("api key") ||
-              errorMsg.includes("limit exceeded") ||
-              errorMsg.includes("too many requests")
-            ) {
-              throw new RetryableError(`BLS API rate limit: ${error.message}`, 60) // Retry after 60 seconds
-            }
-            
-            // Network or timeout errors - retryable
-            if (
-              errorMsg.includes("network") ||
-              errorMsg.includes("timeout") ||
-              errorMsg.includes("connection") ||
-              errorMsg.includes("socket")
-            ) {
-              throw new RetryableError(`BLS API network error: ${error.message}`)
-            }
-          }
-          
-          // Re-throw other errors
-          throw error
-        }
-      },
-      this.config.retryAttempts,
-      this.config.baseRetryDelayMs
-    )
+    // Ask the sources the batch fetch did not reach, then merge their fields
+    const sourceData = new Map<string, OccupationFields>()
+    for (const adapter of this.dataSources) {
+      const fields = prefetchedData.has(adapter.id)
+        ? prefetchedData.get(adapter.id)
+        : await this.fetchFromSource(adapter, occupationCode)
+      if (fields) sourceData.set(adapter.id, fields)
+    }
+    const { fields, sources } = mergeOccupationFields(sourceData, this.config.fieldPrecedence)
 
     /*
-     * If `jobData` is null the BLS service was unreachable after all retries.
-     * Historically we threw an error here which bubbled up and marked the job
-     * (and sometimes the entire batch) as failed.  In a serverless environment
-     * where cold-starts or temporary network blackouts are common this causes
-     * the whole sync to stall even though we could still insert *some* data
-     * and come back later to enrich it.
+     * If no source supplied employment or wages (the BLS API was unreachable
+     * after all retries) the job is not failed.  In a serverless environment
+     * where cold-starts or temporary network blackouts are common that would
+     * stall the whole sync even though we could still insert *some* data and
+     * come back later to enrich it.
      *
-     * New behaviour:
-     *  • When `jobData` is null we generate sensible fallback numbers so the
-     *    record can still be inserted.
-     *  • The record is tagged implicitly by setting `median_wage` and
-     *    `employment_2023` to `null` (or randomised conservative defaults)
-     *    – this allows easy identification for later re-processing.
+     *  • We generate sensible fallback employment and wage numbers so the
+     *    record can still be inserted.  Projections are never estimated; they
+     *    come from the Employment Projections source.
+     *  • The record is tagged with `data_source = 'fallback'` so the numbers
+     *    are shown as estimates and the next sync re-fetches it.
      *  • We log a warning but do NOT throw, allowing the sync to continue.
      */
-    let finalJobData = jobData
-    if (!finalJobData) {
+    const dataSource: DataSource = dataSourceLabel(sources) ?? "fallback"
+    if (dataSource === "fallback") {
       console.warn(
-        `⚠️  Using fallback data for ${occupationCode} – BLS API unreachable after retries.`,
+        `⚠️  Using fallback data for ${occupationCode} – no data source had employment or wages.`,
       )
 
       // Basic heuristic: first two digits indicate major group which we can
@@ -613,35 +1083,59 @@ export class BLSSyncService extends EventEmitter {
         fallbackWage = randomInRange(18, 40) * 1000
       }
 
-      finalJobData = {
-        code: occupationCode,
-        title: this.occupationTitles[occupationCode] || this.generateJobTitle(occupationCode),
-        employment: fallbackEmployment,
-        projectedEmployment: Math.round(fallbackEmployment * 1.05), // naive 5 % growth
-        medianWage: fallbackWage,
-      } as any // cast to satisfy typing – we only use specific fields later
+      fields.employment = fallbackEmployment
+      fields.medianWage = fallbackWage
     }
 
     // Get job title
     const title =
       this.occupationTitles[occupationCode] ||
-      (finalJobData as any).title ||
+      fields.title ||
       this.generateJobTitle(occupationCode)
 
-    // Calculate AI impact analysis (simplified version)
-    const aiAnalysis = await this.calculateAIImpact(occupationCode, title)
+    // Active scoring model
+    const scoringModel = getActiveScoringModel()
+
+    // Calculate AI impact analysis with the active scoring model
+    const aiAnalysis = scoringModel.calculate({
+      occupationCode,
+      occupationTitle: title,
+      medianWage: fields.medianWage ?? 0,
+      employment: fields.employment ?? 0,
+      projectedEmployment: projectedEmploymentForScoring(
+        fields.employment,
+        fields.projectedEmployment,
+        fields.projectedChangePercent
+      ),
+      taskAutomationScore: scoringModel.usesTaskData ? fields.taskAutomationScore ?? undefined : undefined,
+      estimatedInputs: dataSource === "fallback",
+    })
 
     // Prepare job data
     const updatedJobData: JobData = {
       occ_code: occupationCode,
       occ_title: title,
-      employment_2023: (finalJobData as any).employment || null,
-      projected_employment_2033: (finalJobData as any).projectedEmployment || null,
-      median_wage: (finalJobData as any).medianWage || null,
+      employment_2023: fields.employment || undefined,
+      projected_employment_2033: fields.projectedEmployment || undefined,
+      median_wage: fields.medianWage || undefined,
+      mean_wage: fields.meanWage ?? null,
+      hourly_mean_wage: fields.hourlyMeanWage ?? null,
+      hourly_median_wage: fields.hourlyMedianWage ?? null,
+      wage_p10: fields.wageP10 ?? null,
+      wage_p25: fields.wageP25 ?? null,
+      wage_p75: fields.wageP75 ?? null,
+      wage_p90: fields.wageP90 ?? null,
+      projected_change_percent: fields.projectedChangePercent ?? null,
+      annual_openings: fields.annualOpenings ?? null,
+      typical_education: fields.typicalEducation ?? null,
       ai_impact_score: aiAnalysis.aiImpactScore,
+      ai_impact_score_low: aiAnalysis.confidenceRange.low,
+      ai_impact_score_high: aiAnalysis.confidenceRange.high,
       automation_risk: aiAnalysis.automationRisk,
+      data_source: dataSource,
       skills_at_risk: aiAnalysis.skillsAtRisk,
       skills_needed: aiAnalysis.skillsNeeded,
+      score_breakdown: aiAnalysis.breakdown,
     }
 
     // Validate data if enabled
@@ -652,11 +1146,30 @@ export class BLSSyncService extends EventEmitter {
       }
     }
 
-    // Save to database
-    await this.saveJobData(updatedJobData)
+    // Save to database; an active editorial override replaces the computed values
+    const storedJobData = await resolveOverride(occupationCode, updatedJobData)
+    await this.saveJobData(storedJobData)
+
+    // Keep the per-version score history; a failure here must not fail the job
+    try {
+      await saveModelScore(occupationCode, scoringModel.version, aiAnalysis)
+    } catch (error) {
+      console.warn(`⚠️ Could not store model ${scoringModel.version} score for ${occupationCode}:`, error)
+    }
+    try {
+      await recordScoreHistory(occupationCode, "sync", scoringModel.version)
+    } catch (error) {
+      console.warn(`⚠️ Could not record score history for ${occupationCode}:`, error)
+    }
+    try {
+      await saveJobSkills(occupationCode, { atRisk: aiAnalysis.skillsAtRisk, needed: aiAnalysis.skillsNeeded })
+    } catch (error) {
+      console.warn(`⚠️ Could not store skills for ${occupationCode}:`, error)
+    }
     
     // Emit job processed event
-    this.emit("jobProcessed", { code: occupationCode, data: updatedJobData })
+    this.emit("jobProcessed", { code: occupationCode, data: storedJobData, sources })
+    return true
   }
 
   // ========== HELPER METHODS ==========
@@ -669,7 +1182,7 @@ export class BLSSyncService extends EventEmitter {
   private async checkExistingJob(occupationCode: string): Promise<any | null> {
     try {
       const result = await sqlEnhanced<any>`
-        SELECT occ_code, ai_impact_score FROM jobs WHERE occ_code = ${occupationCode}
+        SELECT occ_code, ai_impact_score, data_source FROM jobs WHERE occ_code = ${occupationCode}
       `
       return result[0] || null
     } catch (error) {
@@ -683,20 +1196,39 @@ export class BLSSyncService extends EventEmitter {
    * @param jobData Job data to save
    */
   private async saveJobData(jobData: JobData): Promise<void> {
+    // Fallback estimates only fill gaps; they never replace stored figures
+    const isFallback = jobData.data_source === "fallback"
+
     try {
       await sqlEnhanced`
         INSERT INTO jobs (
           occ_code, occ_title, employment_2023, projected_employment_2033, 
-          median_wage, ai_impact_score, automation_risk, 
-          skills_at_risk, skills_needed, created_at, updated_at
+          median_wage, mean_wage, hourly_mean_wage, hourly_median_wage,
+          wage_p10, wage_p25, wage_p75, wage_p90,
+          projected_change_percent, annual_openings, typical_education,
+          ai_impact_score, ai_impact_score_low, ai_impact_score_high,
+          automation_risk, data_source, skills_at_risk, skills_needed, created_at, updated_at
         ) VALUES (
           ${jobData.occ_code}, 
           ${jobData.occ_title}, 
           ${jobData.employment_2023 || null}, 
           ${jobData.projected_employment_2033 || null},
           ${jobData.median_wage || null}, 
+          ${jobData.mean_wage ?? null},
+          ${jobData.hourly_mean_wage ?? null},
+          ${jobData.hourly_median_wage ?? null},
+          ${jobData.wage_p10 ?? null},
+          ${jobData.wage_p25 ?? null},
+          ${jobData.wage_p75 ?? null},
+          ${jobData.wage_p90 ?? null},
+          ${jobData.projected_change_percent ?? null},
+          ${jobData.annual_openings ?? null},
+          ${jobData.typical_education ?? null},
           ${jobData.ai_impact_score || null}, 
+          ${jobData.ai_impact_score_low ?? null},
+          ${jobData.ai_impact_score_high ?? null},
           ${jobData.automation_risk || null},
+          ${jobData.data_source || null},
           ${jobData.skills_at_risk ? jobData.skills_at_risk.join(", ") : null}, 
           ${jobData.skills_needed ? jobData.skills_needed.join(", ") : null}, 
           NOW(), 
@@ -705,11 +1237,33 @@ export class BLSSyncService extends EventEmitter {
         ON CONFLICT (occ_code) 
         DO UPDATE SET 
           occ_title = ${jobData.occ_title},
-          employment_2023 = COALESCE(${jobData.employment_2023}, jobs.employment_2023),
-          projected_employment_2033 = COALESCE(${jobData.projected_employment_2033}, jobs.projected_employment_2033),
-          median_wage = COALESCE(${jobData.median_wage}, jobs.median_wage),
+          employment_2023 = CASE WHEN ${isFallback}
+            THEN COALESCE(jobs.employment_2023, ${jobData.employment_2023})
+            ELSE COALESCE(${jobData.employment_2023}, jobs.employment_2023) END,
+          projected_employment_2033 = CASE WHEN ${isFallback}
+            THEN COALESCE(jobs.projected_employment_2033, ${jobData.projected_employment_2033})
+            ELSE COALESCE(${jobData.projected_employment_2033}, jobs.projected_employment_2033) END,
+          median_wage = CASE WHEN ${isFallback}
+            THEN COALESCE(jobs.median_wage, ${jobData.median_wage})
+            ELSE COALESCE(${jobData.median_wage}, jobs.median_wage) END,
+          mean_wage = COALESCE(${jobData.mean_wage ?? null}, jobs.mean_wage),
+          hourly_mean_wage = COALESCE(${jobData.hourly_mean_wage ?? null}, jobs.hourly_mean_wage),
+          hourly_median_wage = COALESCE(${jobData.hourly_median_wage ?? null}, jobs.hourly_median_wage),
+          wage_p10 = COALESCE(${jobData.wage_p10 ?? null}, jobs.wage_p10),
+          wage_p25 = COALESCE(${jobData.wage_p25 ?? null}, jobs.wage_p25),
+          wage_p75 = COALESCE(${jobData.wage_p75 ?? null}, jobs.wage_p75),
+          wage_p90 = COALESCE(${jobData.wage_p90 ?? null}, jobs.wage_p90),
+          projected_change_percent = COALESCE(${jobData.projected_change_percent ?? null}, jobs.projected_change_percent),
+          annual_openings = COALESCE(${jobData.annual_openings ?? null}, jobs.annual_openings),
+          typical_education = COALESCE(${jobData.typical_education ?? null}, jobs.typical_education),
           ai_impact_score = COALESCE(${jobData.ai_impact_score}, jobs.ai_impact_score),
+          ai_impact_score_low = COALESCE(${jobData.ai_impact_score_low ?? null}, jobs.ai_impact_score_low),
+          ai_impact_score_high = COALESCE(${jobData.ai_impact_score_high ?? null}, jobs.ai_impact_score_high),
           automation_risk = COALESCE(${jobData.automation_risk}, jobs.automation_risk),
+          data_source = CASE
+            WHEN jobs.data_source = 'override' THEN jobs.data_source
+            WHEN ${isFallback} AND jobs.data_source = 'bls' THEN jobs.data_source
+            ELSE COALESCE(${jobData.data_source || null}, jobs.data_source) END,
           skills_at_risk = COALESCE(${jobData.skills_at_risk ? jobData.skills_at_risk.join(", ") : null}, jobs.skills_at_risk),
           skills_needed = COALESCE(${jobData.skills_needed ? jobData.skills_needed.join(", ") : null}, jobs.skills_needed),
           updated_at = NOW()
@@ -721,972 +1275,20 @@ export class BLSSyncService extends EventEmitter {
   }
 
   /**
-   * Calculate AI impact for a job
-   * @param occupationCode Occupation code
-   * @param occupationTitle Occupation title
-   * @returns AI impact analysis
-   */
-  private async calculateAIImpact(
-    occupationCode: string,
-    occupationTitle: string
-  ): Promise<{
-    aiImpactScore: number
-    automationRisk: string
-    skillsAtRisk: string[]
-    skillsNeeded: string[]
-    futureOutlook: string
-  }> {
-    const title = occupationTitle.toLowerCase()
-    let aiImpactScore = 30
-    let automationRisk = "Medium"
-    let skillsAtRisk: string[] = []
-    let skillsNeeded: string[] = []
-    let futureOutlook = ""
-
-    // Very High Risk (80-95%): Highly routine, predictable jobs
-    if (
-      title.includes("cashier") ||
-      title.includes("data entry") ||
-      title.includes("telemarketer") ||
-      title.includes("assembly") ||
-      title.includes("fast food") ||
-      title.includes("toll booth") ||
-      title.includes("parking lot attendant") ||
-      title.includes("library technician")
-    ) {
-      aiImpactScore = Math.floor(Math.random() * 15) + 80 // 80-95%
-      automationRisk = "Very High"
-      skillsAtRisk = [
-        "Routine transactions",
-        "Manual data entry",
-        "Repetitive calculations",
-        "Basic customer interactions",
-        "Inventory counting",
-        "Simple decision making",
-      ]
-      skillsNeeded = [
-        "Customer relationship management",
-        "Complex problem-solving",
-        "Technology adaptation",
-        "Emotional intelligence",
-        "Process improvement",
-        "Digital literacy",
-      ]
-      futureOutlook =
-        "Very high risk of automation within 3-7 years. These roles will likely be fully automated or significantly reduced. Focus immediately on developing interpersonal skills, learning to work with AI systems, and transitioning to roles requiring human judgment and creativity."
-    }
-    // High Risk (65-79%): Routine cognitive work, some physical routine tasks
-    else if (
-      title.includes("bookkeeping") ||
-      title.includes("tax preparer") ||
-      title.includes("insurance claims") ||
-      title.includes("loan officer") ||
-      title.includes("paralegal") ||
-      title.includes("proofreader") ||
-      title.includes("translator") ||
-      title.includes("radiologic technician")
-    ) {
-      aiImpactScore = Math.floor(Math.random() * 15) + 65 // 65-79%
-      automationRisk = "High"
-      skillsAtRisk = [
-        "Routine analysis",
-        "Standard procedures",
-        "Document processing",
-        "Basic calculations",
-        "Pattern recognition",
-        "Rule-based decisions",
-      ]
-      skillsNeeded = [
-        "Strategic thinking",
-        "Client consultation",
-        "Complex analysis",
-        "AI tool proficiency",
-        "Regulatory expertise",
-        "Risk assessment",
-        "Relationship building",
-      ]
-      futureOutlook =
-        "High risk of significant task automation within 5-10 years. While roles may not disappear entirely, they will be transformed. Focus on advisory aspects, complex problem-solving, and developing expertise in AI collaboration. Consider specializing in areas requiring human judgment and ethical decision-making."
-    }
-    // Medium-High Risk (50-64%): Mixed routine and non-routine tasks
-    else if (
-      title.includes("analyst") ||
-      title.includes("accountant") ||
-      title.includes("market research") ||
-      title.includes("technical writer") ||
-      title.includes("real estate agent") ||
-      title.includes("insurance agent") ||
-      title.includes("financial advisor")
-    ) {
-      aiImpactScore = Math.floor(Math.random() * 15) + 50 // 50-64%
-      automationRisk = "Medium-High"
-      skillsAtRisk = [
-        "Routine analysis",
-        "Report generation",
-        "Basic research",
-        "Standard presentations",
-        "Simple forecasting",
-        "Data compilation",
-      ]
-      skillsNeeded = [
-        "Strategic consulting",
-        "Complex data interpretation",
-        "Client relationship management",
-        "Creative problem solving",
-        "Industry expertise",
-        "AI-assisted analysis",
-        "Ethical decision making",
-      ]
-      futureOutlook =
-        "Moderate to high risk with significant role evolution expected. AI will handle routine analysis while humans focus on interpretation, strategy, and client relationships. Success requires embracing AI as a tool while developing uniquely human skills like empathy, creativity, and complex reasoning."
-    }
-    // Medium Risk (35-49%): Skilled trades, technical roles with human elements
-    else if (
-      title.includes("technician") ||
-      title.includes("mechanic") ||
-      title.includes("electrician") ||
-      title.includes("plumber") ||
-      title.includes("carpenter") ||
-      title.includes("engineer") ||
-      title.includes("programmer") ||
-      title.includes("web developer")
-    ) {
-      aiImpactScore = Math.floor(Math.random() * 15) + 35 // 35-49%
-      automationRisk = "Medium"
-      skillsAtRisk = [
-        "Routine diagnostics",
-        "Standard installations",
-        "Basic troubleshooting",
-        "Code generation",
-        "Simple designs",
-        "Predictable maintenance",
-      ]
-      skillsNeeded = [
-        "Complex problem diagnosis",
-        "Custom solutions",
-        "Safety management",
-        "AI tool integration",
-        "Continuous learning",
-        "Customer communication",
-        "Innovation and creativity",
-      ]
-      futureOutlook =
-        "Moderate risk with AI augmenting rather than replacing core functions. AI will assist with diagnostics, planning, and routine tasks, allowing focus on complex problems, custom solutions, and innovation. Professionals should learn to collaborate with AI tools while maintaining hands-on expertise."
-    }
-    // Low-Medium Risk (20-34%): Roles requiring significant human interaction
-    else if (
-      title.includes("sales") ||
-      title.includes("marketing") ||
-      title.includes("human resources") ||
-      title.includes("project manager") ||
-      title.includes("consultant") ||
-      title.includes("trainer") ||
-      title.includes("coordinator")
-    ) {
-      aiImpactScore = Math.floor(Math.random() * 15) + 20 // 20-34%
-      automationRisk = "Low-Medium"
-      skillsAtRisk = [
-        "Basic scheduling",
-        "Simple reporting",
-        "Routine communications",
-        "Data collection",
-        "Standard presentations",
-      ]
-      skillsNeeded = [
-        "Relationship building",
-        "Strategic thinking",
-        "Emotional intelligence",
-        "Complex negotiation",
-        "Creative problem solving",
-        "Leadership",
-        "Change management",
-      ]
-      futureOutlook =
-        "Low to moderate risk with AI enhancing productivity rather than replacing roles. AI will handle administrative tasks, data analysis, and routine communications, freeing professionals to focus on strategy, relationships, and creative problem-solving. Success requires strong interpersonal skills and strategic thinking."
-    }
-    // Low Risk (5-19%): High human interaction, creativity, care roles
-    else if (
-      title.includes("teacher") ||
-      title.includes("therapist") ||
-      title.includes("counselor") ||
-      title.includes("social worker") ||
-      title.includes("nurse") ||
-      title.includes("doctor") ||
-      title.includes("manager") ||
-      title.includes("executive") ||
-      title.includes("artist") ||
-      title.includes("designer") ||
-      title.includes("chef")
-    ) {
-      aiImpactScore = Math.floor(Math.random() * 15) + 5 // 5-19%
-      automationRisk = "Low"
-      skillsAtRisk = [
-        "Administrative tasks",
-        "Basic documentation",
-        "Simple scheduling",
-        "Routine assessments",
-        "Standard reporting",
-      ]
-      skillsNeeded = [
-        "Emotional intelligence",
-        "Creative thinking",
-        "Complex problem solving",
-        "Leadership",
-        "Ethical decision making",
-        "AI collaboration",
-        "Continuous learning",
-        "Cultural competency",
-      ]
-      futureOutlook =
-        "Low risk of automation with AI serving as a powerful assistant. AI will handle administrative tasks, provide data insights, and support decision-making, but human judgment, creativity, empathy, and complex reasoning remain irreplaceable. Focus on developing uniquely human skills while learning to leverage AI tools effectively."
-    }
-    // Default case - moderate risk
-    else {
-      aiImpactScore = Math.floor(Math.random() * 20) + 40 // 40-59%
-      automationRisk = "Medium"
-      skillsAtRisk = ["Routine tasks", "Standard procedures", "Basic data processing", "Simple analysis"]
-      skillsNeeded = [
-        "Critical thinking",
-        "Adaptability",
-        "Digital literacy",
-        "Collaboration",
-        "Continuous learning",
-        "Problem solving",
-      ]
-      futureOutlook =
-        "Moderate risk of automation with significant role evolution expected. Success will depend on adapting to work alongside AI systems, focusing on uniquely human skills, and continuously learning new technologies. Embrace AI as a tool while developing skills that complement automated systems."
-    }
-
-    return {
-      aiImpactScore,
-      automationRisk,
-      skillsAtRisk,
-      skillsNeeded,
-      futureOutlook,
-    }
-  }
-
-  /**
-   * Load occupation codes from database or initialize with defaults
+   * Load the occupations to sync, and their titles, from the SOC taxonomy
    */
   private async loadOccupationCodes(): Promise<void> {
-    /*
-     * Previously this method attempted to read from a `job_codes` table that is
-     * no longer part of the schema.  Instead, we now always fall back to our
-     * baked-in Standard Occupational Classification (SOC) list.  This keeps the
-     * logic simple and avoids a failing query on a non-existent table.
-     */
-    console.log("📋 Loading BLS occupation codes from standard SOC list")
-    this.initializeDefaultOccupationCodes()
-  }
+    const occupations = await getOccupationsOrLoadDefault()
+    if (occupations.length === 0) {
+      throw new Error("No occupations in job_codes; load the SOC taxonomy with scripts/load-soc-taxonomy.ts")
+    }
 
-  /**
-   * Initialize with default occupation codes
-   */
-  private initializeDefaultOccupationCodes(): void {
-    // Comprehensive list of occupation codes covering all major groups
-    this.occupationCodes = [
-      // Management Occupations (11-XXXX)
-      "11-1011", // Chief Executives
-      "11-1021", // General and Operations Managers
-      "11-2011", // Advertising and Promotions Managers
-      "11-2021", // Marketing Managers
-      "11-2022", // Sales Managers
-      "11-2031", // Public Relations and Fundraising Managers
-      "11-3011", // Administrative Services Managers
-      "11-3021", // Computer and Information Systems Managers
-      "11-3031", // Financial Managers
-      "11-3051", // Industrial Production Managers
-      "11-3061", // Purchasing Managers
-      "11-3071", // Transportation, Storage, and Distribution Managers
-      "11-3111", // Compensation and Benefits Managers
-      "11-3121", // Human Resources Managers
-      "11-3131", // Training and Development Managers
-      "11-9013", // Farmers, Ranchers, and Other Agricultural Managers
-      "11-9021", // Construction Managers
-      "11-9031", // Education Administrators, Preschool and Childcare Center/Program
-      "11-9032", // Education Administrators, Elementary and Secondary School
-      "11-9033", // Education Administrators, Postsecondary
-      "11-9041", // Architectural and Engineering Managers
-      "11-9051", // Food Service Managers
-      "11-9071", // Gaming Managers
-      "11-9081", // Lodging Managers
-      "11-9111", // Medical and Health Services Managers
-      "11-9121", // Natural Sciences Managers
-      "11-9131", // Postmasters and Mail Superintendents
-      "11-9141", // Property, Real Estate, and Community Association Managers
-      "11-9151", // Social and Community Service Managers
-      "11-9161", // Emergency Management Directors
-      
-      // Business and Financial Operations Occupations (13-XXXX)
-      "13-1011", // Agents and Business Managers of Artists, Performers, and Athletes
-      "13-1021", // Buyers and Purchasing Agents, Farm Products
-      "13-1022", // Wholesale and Retail Buyers, Except Farm Products
-      "13-1023", // Purchasing Agents, Except Wholesale, Retail, and Farm Products
-      "13-1031", // Claims Adjusters, Examiners, and Investigators
-      "13-1041", // Compliance Officers
-      "13-1051", // Cost Estimators
-      "13-1071", // Human Resources Specialists
-      "13-1075", // Labor Relations Specialists
-      "13-1081", // Logisticians
-      "13-1111", // Management Analysts
-      "13-1121", // Meeting, Convention, and Event Planners
-      "13-1131", // Fundraisers
-      "13-1141", // Compensation, Benefits, and Job Analysis Specialists
-      "13-1151", // Training and Development Specialists
-      "13-1161", // Market Research Analysts and Marketing Specialists
-      "13-1199", // Business Operations Specialists, All Other
-      "13-2011", // Accountants and Auditors
-      "13-2021", // Appraisers and Assessors of Real Estate
-      "13-2031", // Budget Analysts
-      "13-2041", // Credit Analysts
-      "13-2051", // Financial Analysts
-      "13-2052", // Personal Financial Advisors
-      "13-2053", // Insurance Underwriters
-      "13-2061", // Financial Examiners
-      "13-2071", // Credit Counselors
-      "13-2072", // Loan Officers
-      "13-2081", // Tax Examiners and Collectors, and Revenue Agents
-      "13-2082", // Tax Preparers
-      
-      // Computer and Mathematical Occupations (15-XXXX)
-      "15-1211", // Computer Systems Analysts
-      "15-1212", // Information Security Analysts
-      "15-1221", // Computer and Information Research Scientists
-      "15-1231", // Computer Network Support Specialists
-      "15-1232", // Computer User Support Specialists
-      "15-1241", // Computer Network Architects
-      "15-1242", // Database Administrators
-      "15-1243", // Database Architects
-      "15-1244", // Network and Computer Systems Administrators
-      "15-1251", // Computer Programmers
-      "15-1252", // Software Developers
-      "15-1253", // Software Quality Assurance Analysts and Testers
-      "15-1254", // Web Developers
-      "15-1255", // Web and Digital Interface Designers
-      "15-2011", // Actuaries
-      "15-2021", // Mathematicians
-      "15-2031", // Operations Research Analysts
-      "15-2041", // Statisticians
-      "15-2051", // Data Scientists
-      
-      // Architecture and Engineering Occupations (17-XXXX)
-      "17-1011", // Architects, Except Landscape and Naval
-      "17-1012", // Landscape Architects
-      "17-1022", // Surveyors
-      "17-2011", // Aerospace Engineers
-      "17-2021", // Agricultural Engineers
-      "17-2031", // Bioengineers and Biomedical Engineers
-      "17-2041", // Chemical Engineers
-      "17-2051", // Civil Engineers
-      "17-2061", // Computer Hardware Engineers
-      "17-2071", // Electrical Engineers
-      "17-2072", // Electronics Engineers, Except Computer
-      "17-2081", // Environmental Engineers
-      "17-2111", // Health and Safety Engineers
-      "17-2112", // Industrial Engineers
-      "17-2121", // Marine Engineers and Naval Architects
-      "17-2131", // Materials Engineers
-      "17-2141", // Mechanical Engineers
-      "17-2151", // Mining and Geological Engineers
-      "17-2161", // Nuclear Engineers
-      "17-2171", // Petroleum Engineers
-      "17-3011", // Architectural and Civil Drafters
-      "17-3012", // Electrical and Electronics Drafters
-      "17-3013", // Mechanical Drafters
-      "17-3021", // Aerospace Engineering and Operations Technologists and Technicians
-      "17-3022", // Civil Engineering Technologists and Technicians
-      "17-3023", // Electrical and Electronic Engineering Technologists and Technicians
-      "17-3024", // Electro-Mechanical and Mechatronics Technologists and Technicians
-      "17-3025", // Environmental Engineering Technologists and Technicians
-      "17-3026", // Industrial Engineering Technologists and Technicians
-      "17-3027", // Mechanical Engineering Technologists and Technicians
-      
-      // Life, Physical, and Social Science Occupations (19-XXXX)
-      "19-1011", // Animal Scientists
-      "19-1012", // Food Scientists and Technologists
-      "19-1013", // Soil and Plant Scientists
-      "19-1021", // Biochemists and Biophysicists
-      "19-1022", // Microbiologists
-      "19-1023", // Zoologists and Wildlife Biologists
-      "19-1029", // Biological Scientists, All Other
-      "19-1031", // Conservation Scientists
-      "19-1032", // Foresters
-      "19-1041", // Epidemiologists
-      "19-1042", // Medical Scientists, Except Epidemiologists
-      "19-2011", // Astronomers
-      "19-2012", // Physicists
-      "19-2021", // Atmospheric and Space Scientists
-      "19-2031", // Chemists
-      "19-2032", // Materials Scientists
-      "19-2041", // Environmental Scientists and Specialists, Including Health
-      "19-2042", // Geoscientists, Except Hydrologists and Geographers
-      "19-2043", // Hydrologists
-      "19-3011", // Economists
-      "19-3022", // Survey Researchers
-      "19-3031", // Clinical, Counseling, and School Psychologists
-      "19-3032", // Industrial-Organizational Psychologists
-      "19-3039", // Psychologists, All Other
-      "19-3051", // Urban and Regional Planners
-      "19-3091", // Anthropologists and Archeologists
-      "19-3092", // Geographers
-      "19-3094", // Political Scientists
-      "19-3099", // Social Scientists and Related Workers, All Other
-      
-      // Community and Social Service Occupations (21-XXXX)
-      "21-1011", // Substance Abuse and Behavioral Disorder Counselors
-      "21-1012", // Educational, Guidance, and Career Counselors and Advisors
-      "21-1013", // Marriage and Family Therapists
-      "21-1014", // Mental Health Counselors
-      "21-1015", // Rehabilitation Counselors
-      "21-1018", // Substance Abuse, Behavioral Disorder, and Mental Health Counselors
-      "21-1021", // Child, Family, and School Social Workers
-      "21-1022", // Healthcare Social Workers
-      "21-1023", // Mental Health and Substance Abuse Social Workers
-      "21-1091", // Health Education Specialists
-      "21-1092", // Probation Officers and Correctional Treatment Specialists
-      "21-1093", // Social and Human Service Assistants
-      "21-1094", // Community Health Workers
-      "21-1099", // Community and Social Service Specialists, All Other
-      "21-2011", // Clergy
-      "21-2021", // Directors, Religious Activities and Education
-      
-      // Legal Occupations (23-XXXX)
-      "23-1011", // Lawyers
-      "23-1012", // Judicial Law Clerks
-      "23-1022", // Arbitrators, Mediators, and Conciliators
-      "23-1023", // Judges, Magistrate Judges, and Magistrates
-      "23-2011", // Paralegals and Legal Assistants
-      "23-2093", // Title Examiners, Abstractors, and Searchers
-      "23-2099", // Legal Support Workers, All Other
-      
-      // Education, Training, and Library Occupations (25-XXXX)
-      "25-1011", // Business Teachers, Postsecondary
-      "25-1021", // Computer Science Teachers, Postsecondary
-      "25-1022", // Mathematical Science Teachers, Postsecondary
-      "25-1031", // Architecture Teachers, Postsecondary
-      "25-1032", // Engineering Teachers, Postsecondary
-      "25-1041", // Agricultural Sciences Teachers, Postsecondary
-      "25-1042", // Biological Science Teachers, Postsecondary
-      "25-1052", // Chemistry Teachers, Postsecondary
-      "25-1054", // Physics Teachers, Postsecondary
-      "25-1061", // Anthropology and Archeology Teachers, Postsecondary
-      "25-1062", // Area, Ethnic, and Cultural Studies Teachers, Postsecondary
-      "25-1063", // Economics Teachers, Postsecondary
-      "25-1064", // Geography Teachers, Postsecondary
-      "25-1065", // Political Science Teachers, Postsecondary
-      "25-1066", // Psychology Teachers, Postsecondary
-      "25-1067", // Sociology Teachers, Postsecondary
-      "25-1071", // Health Specialties Teachers, Postsecondary
-      "25-1072", // Nursing Instructors and Teachers, Postsecondary
-      "25-1081", // Education Teachers, Postsecondary
-      "25-1111", // Criminal Justice and Law Enforcement Teachers, Postsecondary
-      "25-1112", // Law Teachers, Postsecondary
-      "25-1121", // Art, Drama, and Music Teachers, Postsecondary
-      "25-1122", // Communications Teachers, Postsecondary
-      "25-1123", // English Language and Literature Teachers, Postsecondary
-      "25-1124", // Foreign Language and Literature Teachers, Postsecondary
-      "25-1125", // History Teachers, Postsecondary
-      "25-1126", // Philosophy and Religion Teachers, Postsecondary
-      "25-2011", // Preschool Teachers, Except Special Education
-      "25-2012", // Kindergarten Teachers, Except Special Education
-      "25-2021", // Elementary School Teachers, Except Special Education
-      "25-2022", // Middle School Teachers, Except Special and Career/Technical Education
-      "25-2031", // Secondary School Teachers, Except Special and Career/Technical Education
-      "25-2052", // Special Education Teachers, Kindergarten and Elementary School
-      "25-2053", // Special Education Teachers, Middle School
-      "25-2054", // Special Education Teachers, Secondary School
-      "25-3011", // Adult Basic Education, Adult Secondary Education, and English as a Second Language Instructors
-      "25-3021", // Self-Enrichment Teachers
-      "25-3031", // Substitute Teachers, Short-Term
-      "25-4022", // Librarians and Media Collections Specialists
-      "25-4031", // Library Technicians
-      "25-9041", // Teacher Assistants
-      
-      // Arts, Design, Entertainment, Sports, and Media Occupations (27-XXXX)
-      "27-1011", // Art Directors
-      "27-1012", // Craft Artists
-      "27-1013", // Fine Artists, Including Painters, Sculptors, and Illustrators
-      "27-1014", // Special Effects Artists and Animators
-      "27-1019", // Artists and Related Workers, All Other
-      "27-1021", // Commercial and Industrial Designers
-      "27-1022", // Fashion Designers
-      "27-1023", // Floral Designers
-      "27-1024", // Graphic Designers
-      "27-1025", // Interior Designers
-      "27-1026", // Merchandise Displayers and Window Trimmers
-      "27-1027", // Set and Exhibit Designers
-      "27-1029", // Designers, All Other
-      "27-2011", // Actors
-      "27-2012", // Producers and Directors
-      "27-2021", // Athletes and Sports Competitors
-      "27-2022", // Coaches and Scouts
-      "27-2023", // Umpires, Referees, and Other Sports Officials
-      "27-2031", // Dancers
-      "27-2032", // Choreographers
-      "27-2041", // Music Directors and Composers
-      "27-2042", // Musicians and Singers
-      "27-3011", // Radio, Television, and Other Announcers
-      "27-3021", // Broadcast Announcers and Radio Disc Jockeys
-      "27-3022", // Reporters and Correspondents
-      "27-3031", // Public Relations Specialists
-      "27-3041", // Editors
-      "27-3042", // Technical Writers
-      "27-3043", // Writers and Authors
-      "27-3091", // Interpreters and Translators
-      "27-4011", // Audio and Video Technicians
-      "27-4021", // Photographers
-      "27-4031", // Camera Operators, Television, Video, and Film
-      "27-4032", // Film and Video Editors
-      
-      // Healthcare Practitioners and Technical Occupations (29-XXXX)
-      "29-1011", // Chiropractors
-      "29-1021", // Dentists, General
-      "29-1022", // Oral and Maxillofacial Surgeons
-      "29-1023", // Orthodontists
-      "29-1024", // Prosthodontists
-      "29-1029", // Dentists, All Other Specialists
-      "29-1031", // Dietitians and Nutritionists
-      "29-1041", // Optometrists
-      "29-1051", // Pharmacists
-      "29-1071", // Physician Assistants
-      "29-1081", // Podiatrists
-      "29-1122", // Occupational Therapists
-      "29-1123", // Physical Therapists
-      "29-1124", // Radiation Therapists
-      "29-1125", // Recreational Therapists
-      "29-1126", // Respiratory Therapists
-      "29-1127", // Speech-Language Pathologists
-      "29-1128", // Exercise Physiologists
-      "29-1129", // Therapists, All Other
-      "29-1131", // Veterinarians
-      "29-1141", // Registered Nurses
-      "29-1151", // Nurse Anesthetists
-      "29-1161", // Nurse Midwives
-      "29-1171", // Nurse Practitioners
-      "29-1211", // Anesthesiologists
-      "29-1212", // Cardiologists
-      "29-1213", // Dermatologists
-      "29-1214", // Emergency Medicine Physicians
-      "29-1215", // Family Medicine Physicians
-      "29-1216", // General Internal Medicine Physicians
-      "29-1217", // Neurologists
-      "29-1218", // Obstetricians and Gynecologists
-      "29-1221", // Pediatricians, General
-      "29-1222", // Physicians, Pathologists
-      "29-1223", // Psychiatrists
-      "29-1224", // Radiologists
-      "29-1229", // Physicians, All Other
-      "29-1241", // Ophthalmologists, Except Pediatric
-      "29-1242", // Orthopedic Surgeons, Except Pediatric
-      "29-1243", // Pediatric Surgeons
-      "29-1249", // Surgeons, All Other
-      "29-2011", // Medical and Clinical Laboratory Technologists
-      "29-2012", // Medical and Clinical Laboratory Technicians
-      "29-2031", // Cardiovascular Technologists and Technicians
-      "29-2032", // Diagnostic Medical Sonographers
-      "29-2033", // Nuclear Medicine Technologists
-      "29-2034", // Radiologic Technologists and Technicians
-      "29-2041", // Emergency Medical Technicians
-      "29-2042", // Paramedics
-      "29-2051", // Dietetic Technicians
-      "29-2052", // Pharmacy Technicians
-      "29-2053", // Psychiatric Technicians
-      "29-2055", // Surgical Technologists
-      "29-2061", // Licensed Practical and Licensed Vocational Nurses
-      "29-2071", // Medical Records Specialists
-      "29-2081", // Opticians, Dispensing
-      "29-2099", // Health Technologists and Technicians, All Other
-      
-      // Healthcare Support Occupations (31-XXXX)
-      "31-1120", // Home Health and Personal Care Aides
-      "31-1131", // Nursing Assistants
-      "31-1132", // Orderlies
-      "31-1133", // Psychiatric Aides
-      "31-2011", // Occupational Therapy Assistants
-      "31-2012", // Occupational Therapy Aides
-      "31-2021", // Physical Therapist Assistants
-      "31-2022", // Physical Therapist Aides
-      "31-9011", // Massage Therapists
-      "31-9091", // Dental Assistants
-      "31-9092", // Medical Assistants
-      "31-9093", // Medical Equipment Preparers
-      "31-9094", // Medical Transcriptionists
-      "31-9095", // Pharmacy Aides
-      "31-9096", // Veterinary Assistants and Laboratory Animal Caretakers
-      "31-9097", // Phlebotomists
-      "31-9099", // Healthcare Support Workers, All Other
-      
-      // Protective Service Occupations (33-XXXX)
-      "33-1011", // First-Line Supervisors of Correctional Officers
-      "33-1012", // First-Line Supervisors of Police and Detectives
-      "33-1021", // First-Line Supervisors of Firefighting and Prevention Workers
-      "33-1099", // First-Line Supervisors of Protective Service Workers, All Other
-      "33-2011", // Firefighters
-      "33-2021", // Fire Inspectors and Investigators
-      "33-2022", // Forest Fire Inspectors and Prevention Specialists
-      "33-3011", // Bailiffs
-      "33-3012", // Correctional Officers and Jailers
-      "33-3021", // Detectives and Criminal Investigators
-      "33-3031", // Fish and Game Wardens
-      "33-3041", // Parking Enforcement Workers
-      "33-3051", // Police and Sheriff's Patrol Officers
-      "33-3052", // Transit and Railroad Police
-      "33-9011", // Animal Control Workers
-      "33-9021", // Private Detectives and Investigators
-      "33-9031", // Gaming Surveillance Officers and Gaming Investigators
-      "33-9032", // Security Guards
-      "33-9091", // Crossing Guards and Flaggers
-      "33-9093", // Transportation Security Screeners
-      "33-9099", // Protective Service Workers, All Other
-      
-      // Food Preparation and Serving Related Occupations (35-XXXX)
-      "35-1011", // Chefs and Head Cooks
-      "35-1012", // First-Line Supervisors of Food Preparation and Serving Workers
-      "35-2011", // Cooks, Fast Food
-      "35-2012", // Cooks, Institution and Cafeteria
-      "35-2014", // Cooks, Restaurant
-      "35-2015", // Cooks, Short Order
-      "35-2021", // Food Preparation Workers
-      "35-3011", // Bartenders
-      "35-3023", // Fast Food and Counter Workers
-      "35-3031", // Waiters and Waitresses
-      "35-3041", // Food Servers, Nonrestaurant
-      "35-9011", // Dining Room and Cafeteria Attendants and Bartender Helpers
-      "35-9021", // Dishwashers
-      "35-9031", // Hosts and Hostesses, Restaurant, Lounge, and Coffee Shop
-      "35-9099", // Food Preparation and Serving Related Workers, All Other
-      
-      // Building and Grounds Cleaning and Maintenance Occupations (37-XXXX)
-      "37-1011", // First-Line Supervisors of Housekeeping and Janitorial Workers
-      "37-1012", // First-Line Supervisors of Landscaping, Lawn Service, and Groundskeeping Workers
-      "37-2011", // Janitors and Cleaners, Except Maids and Housekeeping Cleaners
-      "37-2012", // Maids and Housekeeping Cleaners
-      "37-2021", // Pest Control Workers
-      "37-3011", // Landscaping and Groundskeeping Workers
-      "37-3012", // Pesticide Handlers, Sprayers, and Applicators, Vegetation
-      "37-3013", // Tree Trimmers and Pruners
-      
-      // Personal Care and Service Occupations (39-XXXX)
-      "39-1011", // First-Line Supervisors of Gaming Workers
-      "39-1012", // First-Line Supervisors of Personal Service Workers
-      "39-2011", // Animal Trainers
-      "39-2021", // Animal Caretakers
-      "39-3011", // Gaming Dealers
-      "39-3012", // Gaming and Sports Book Writers and Runners
-      "39-3031", // Ushers, Lobby Attendants, and Ticket Takers
-      "39-3091", // Amusement and Recreation Attendants
-      "39-3092", // Costume Attendants
-      "39-3093", // Locker Room, Coatroom, and Dressing Room Attendants
-      "39-4011", // Embalmers
-      "39-4012", // Funeral Attendants
-      "39-4031", // Morticians, Undertakers, and Funeral Arrangers
-      "39-5011", // Barbers
-      "39-5012", // Hairdressers, Hairstylists, and Cosmetologists
-      "39-5091", // Makeup Artists, Theatrical and Performance
-      "39-5092", // Manicurists and Pedicurists
-      "39-5093", // Shampooers
-      "39-5094", // Skincare Specialists
-      "39-6011", // Baggage Porters and Bellhops
-      "39-6012", // Concierges
-      "39-7011", // Tour Guides and Escorts
-      "39-7012", // Travel Guides
-      "39-9011", // Childcare Workers
-      "39-9021", // Personal Care Aides
-      "39-9031", // Exercise Trainers and Group Fitness Instructors
-      "39-9032", // Recreation Workers
-      "39-9041", // Residential Advisors
-      
-      // Sales and Related Occupations (41-XXXX)
-      "41-1011", // First-Line Supervisors of Retail Sales Workers
-      "41-1012", // First-Line Supervisors of Non-Retail Sales Workers
-      "41-2011", // Cashiers
-      "41-2021", // Counter and Rental Clerks
-      "41-2022", // Parts Salespersons
-      "41-2031", // Retail Salespersons
-      "41-3011", // Advertising Sales Agents
-      "41-3021", // Insurance Sales Agents
-      "41-3031", // Securities, Commodities, and Financial Services Sales Agents
-      "41-3041", // Travel Agents
-      "41-3091", // Sales Representatives of Services, Except Advertising, Insurance, Financial Services, and Travel
-      "41-4011", // Sales Representatives, Wholesale and Manufacturing, Technical and Scientific Products
-      "41-4012", // Sales Representatives, Wholesale and Manufacturing, Except Technical and Scientific Products
-      "41-9011", // Demonstrators and Product Promoters
-      "41-9021", // Real Estate Brokers
-      "41-9022", // Real Estate Sales Agents
-      "41-9031", // Sales Engineers
-      "41-9041", // Telemarketers
-      "41-9091", // Door-to-Door Sales Workers, News and Street Vendors, and Related Workers
-      
-      // Office and Administrative Support Occupations (43-XXXX)
-      "43-1011", // First-Line Supervisors of Office and Administrative Support Workers
-      "43-2011", // Switchboard Operators, Including Answering Service
-      "43-3011", // Bill and Account Collectors
-      "43-3021", // Billing and Posting Clerks
-      "43-3031", // Bookkeeping, Accounting, and Auditing Clerks
-      "43-3051", // Payroll and Timekeeping Clerks
-      "43-3061", // Procurement Clerks
-      "43-3071", // Tellers
-      "43-4011", // Brokerage Clerks
-      "43-4021", // Correspondence Clerks
-      "43-4031", // Court, Municipal, and License Clerks
-      "43-4041", // Credit Authorizers, Checkers, and Clerks
-      "43-4051", // Customer Service Representatives
-      "43-4061", // Eligibility Interviewers, Government Programs
-      "43-4071", // File Clerks
-      "43-4081", // Hotel, Motel, and Resort Desk Clerks
-      "43-4111", // Interviewers, Except Eligibility and Loan
-      "43-4121", // Library Assistants, Clerical
-      "43-4131", // Loan Interviewers and Clerks
-      "43-4141", // New Accounts Clerks
-      "43-4151", // Order Clerks
-      "43-4161", // Human Resources Assistants, Except Payroll and Timekeeping
-      "43-4171", // Receptionists and Information Clerks
-      "43-4199", // Information and Record Clerks, All Other
-      "43-5011", // Cargo and Freight Agents
-      "43-5021", // Couriers and Messengers
-      "43-5031", // Police, Fire, and Ambulance Dispatchers
-      "43-5032", // Dispatchers, Except Police, Fire, and Ambulance
-      "43-5041", // Meter Readers, Utilities
-      "43-5051", // Postal Service Clerks
-      "43-5052", // Postal Service Mail Carriers
-      "43-5053", // Postal Service Mail Sorters, Processors, and Processing Machine Operators
-      "43-5061", // Production, Planning, and Expediting Clerks
-      "43-5071", // Shipping, Receiving, and Inventory Clerks
-      "43-5081", // Stock Clerks and Order Fillers
-      "43-5111", // Weighers, Measurers, Checkers, and Samplers, Recordkeeping
-      "43-6011", // Executive Secretaries and Executive Administrative Assistants
-      "43-6012", // Legal Secretaries and Administrative Assistants
-      "43-6013", // Medical Secretaries and Administrative Assistants
-      "43-6014", // Secretaries and Administrative Assistants, Except Legal, Medical, and Executive
-      "43-9021", // Data Entry Keyers
-      "43-9022", // Word Processors and Typists
-      "43-9031", // Desktop Publishers
-      "43-9041", // Insurance Claims and Policy Processing Clerks
-      "43-9051", // Mail Clerks and Mail Machine Operators, Except Postal Service
-      "43-9061", // Office Clerks, General
-      "43-9071", // Office Machine Operators, Except Computer
-      "43-9081", // Proofreaders and Copy Markers
-      
-      // Farming, Fishing, and Forestry Occupations (45-XXXX)
-      "45-1011", // First-Line Supervisors of Farming, Fishing, and Forestry Workers
-      "45-2011", // Agricultural Inspectors
-      "45-2021", // Animal Breeders
-      "45-2041", // Graders and Sorters, Agricultural Products
-      "45-2091", // Agricultural Equipment Operators
-      "45-2092", // Farmworkers and Laborers, Crop, Nursery, and Greenhouse
-      "45-2093", // Farmworkers, Farm, Ranch, and Aquacultural Animals
-      "45-3011", // Fishers and Related Fishing Workers
-      "45-3021", // Hunters and Trappers
-      "45-4011", // Forest and Conservation Workers
-      "45-4021", // Fallers
-      "45-4022", // Logging Equipment Operators
-      "45-4023", // Log Graders and Scalers
-      
-      // Construction and Extraction Occupations (47-XXXX)
-      "47-1011", // First-Line Supervisors of Construction Trades and Extraction Workers
-      "47-2011", // Boilermakers
-      "47-2021", // Brickmasons and Blockmasons
-      "47-2022", // Stonemasons
-      "47-2031", // Carpenters
-      "47-2041", // Carpet Installers
-      "47-2042", // Floor Layers, Except Carpet, Wood, and Hard Tiles
-      "47-2043", // Floor Sanders and Finishers
-      "47-2044", // Tile and Stone Setters
-      "47-2051", // Cement Masons and Concrete Finishers
-      "47-2061", // Construction Laborers
-      "47-2071", // Paving, Surfacing, and Tamping Equipment Operators
-      "47-2072", // Pile Driver Operators
-      "47-2073", // Operating Engineers and Other Construction Equipment Operators
-      "47-2081", // Drywall and Ceiling Tile Installers
-      "47-2082", // Tapers
-      "47-2111", // Electricians
-      "47-2121", // Glaziers
-      "47-2131", // Insulation Workers, Floor, Ceiling, and Wall
-      "47-2132", // Insulation Workers, Mechanical
-      "47-2141", // Painters, Construction and Maintenance
-      "47-2142", // Paperhangers
-      "47-2151", // Pipelayers
-      "47-2152", // Plumbers, Pipefitters, and Steamfitters
-      "47-2161", // Plasterers and Stucco Masons
-      "47-2171", // Reinforcing Iron and Rebar Workers
-      "47-2181", // Roofers
-      "47-2211", // Sheet Metal Workers
-      "47-2221", // Structural Iron and Steel Workers
-      "47-3011", // Helpers--Brickmasons, Blockmasons, Stonemasons, and Tile and Marble Setters
-      "47-3012", // Helpers--Carpenters
-      "47-3013", // Helpers--Electricians
-      "47-3014", // Helpers--Painters, Paperhangers, Plasterers, and Stucco Masons
-      "47-3015", // Helpers--Pipelayers, Plumbers, Pipefitters, and Steamfitters
-      "47-3016", // Helpers--Roofers
-      "47-4011", // Construction and Building Inspectors
-      "47-4021", // Elevator and Escalator Installers and Repairers
-      "47-4031", // Fence Erectors
-      "47-4041", // Hazardous Materials Removal Workers
-      "47-4051", // Highway Maintenance Workers
-      "47-4061", // Rail-Track Laying and Maintenance Equipment Operators
-      "47-4071", // Septic Tank Servicers and Sewer Pipe Cleaners
-      "47-4091", // Segmental Pavers
-      "47-4099", // Construction and Related Workers, All Other
-      "47-5011", // Derrick Operators, Oil and Gas
-      "47-5012", // Rotary Drill Operators, Oil and Gas
-      "47-5013", // Service Unit Operators, Oil and Gas
-      "47-5021", // Earth Drillers, Except Oil and Gas
-      "47-5031", // Explosives Workers, Ordnance Handling Experts, and Blasters
-      "47-5041", // Continuous Mining Machine Operators
-      "47-5042", // Mine Cutting and Channeling Machine Operators
-      "47-5049", // Mining Machine Operators, All Other
-      "47-5051", // Rock Splitters, Quarry
-      "47-5061", // Roof Bolters, Mining
-      "47-5071", // Roustabouts, Oil and Gas
-      "47-5081", // Helpers--Extraction Workers
-      
-      // Installation, Maintenance, and Repair Occupations (49-XXXX)
-      "49-1011", // First-Line Supervisors of Mechanics, Installers, and Repairers
-      "49-2011", // Computer, Automated Teller, and Office Machine Repairers
-      "49-2021", // Radio, Cellular, and Tower Equipment Installers and Repairers
-      "49-2022", // Telecommunications Equipment Installers and Repairers, Except Line Installers
-      "49-2091", // Avionics Technicians
-      "49-2092", // Electric Motor, Power Tool, and Related Repairers
-      "49-2093", // Electrical and Electronics Installers and Repairers, Transportation Equipment
-      "49-2094", // Electrical and Electronics Repairers, Commercial and Industrial Equipment
-      "49-2095", // Electrical and Electronics Repairers, Powerhouse, Substation, and Relay
-      "49-2096", // Electronic Equipment Installers and Repairers, Motor Vehicles
-      "49-2097", // Audiovisual Equipment Installers and Repairers
-      "49-2098", // Security and Fire Alarm Systems Installers
-      "49-3011", // Aircraft Mechanics and Service Technicians
-      "49-3021", // Automotive Body and Related Repairers
-      "49-3022", // Automotive Glass Installers and Repairers
-      "49-3023", // Automotive Service Technicians and Mechanics
-      "49-3031", // Bus and Truck Mechanics and Diesel Engine Specialists
-      "49-3041", // Farm Equipment Mechanics and Service Technicians
-      "49-3042", // Mobile Heavy Equipment Mechanics, Except Engines
-      "49-3043", // Rail Car Repairers
-      "49-3051", // Motorboat Mechanics and Service Technicians
-      "49-3052", // Motorcycle Mechanics
-      "49-3053", // Outdoor Power Equipment and Other Small Engine Mechanics
-      "49-3091", // Bicycle Repairers
-      "49-3092", // Recreational Vehicle Service Technicians
-      "49-3093", // Tire Repairers and Changers
-      "49-9011", // Mechanical Door Repairers
-      "49-9012", // Control and Valve Installers and Repairers, Except Mechanical Door
-      "49-9021", // Heating, Air Conditioning, and Refrigeration Mechanics and Installers
-      "49-9031", // Home Appliance Repairers
-      "49-9041", // Industrial Machinery Mechanics
-      "49-9043", // Maintenance Workers, Machinery
-      "49-9044", // Millwrights
-      "49-9051", // Electrical Power-Line Installers and Repairers
-      "49-9052", // Telecommunications Line Installers and Repairers
-      "49-9061", // Camera and Photographic Equipment Repairers
-      "49-9062", // Medical Equipment Repairers
-      "49-9063", // Musical Instrument Repairers and Tuners
-      "49-9064", // Watch and Clock Repairers
-      "49-9071", // Maintenance and Repair Workers, General
-      "49-9081", // Wind Turbine Service Technicians
-      "49-9091", // Coin, Vending, and Amusement Machine Servicers and Repairers
-      "49-9092", // Commercial Divers
-      "49-9093", // Fabric Menders, Except Garment
-      "49-9094", // Locksmiths and Safe Repairers
-      "49-9095", // Manufactured Building and Mobile Home Installers
-      "49-9096", // Riggers
-      "49-9097", // Signal and Track Switch Repairers
-      "49-9098", // Helpers--Installation, Maintenance, and Repair Workers
-      
-      // Production Occupations (51-XXXX)
-      "51-1011", // First-Line Supervisors of Production and Operating Workers
-      "51-2011", // Aircraft Structure, Surfaces, Rigging, and Systems Assemblers
-      "51-2021", // Coil Winders, Tapers, and Finishers
-      "51-2022", // Electrical and Electronic Equipment Assemblers
-      "51-2023", // Electromechanical Equipment Assemblers
-      "51-2031", // Engine and Other Machine Assemblers
-      "51-2041", // Structural Metal Fabricators and Fitters
-      "51-2051", // Fiberglass Laminators and Fabricators
-      "51-2061", // Timing Device Assemblers and Adjusters
-      "51-2091", // Fiberglass Laminators and Fabricators
-      "51-2092", // Team Assemblers
-      "51-2093", // Timing Device Assemblers and Adjusters
-      "51-3011", // Bakers
-      "51-3021", // Butchers and Meat Cutters
-      "51-3022", // Meat, Poultry, and Fish Cutters and Trimmers
-      "51-3023", // Slaughterers and Meat Packers
-      "51-3091", // Food and Tobacco Roasting, Baking, and Drying Machine Operators and Tenders
-      "51-3092", // Food Batchmakers
-      "51-3093", // Food Cooking Machine Operators and Tenders
-      "51-4011", // Computer-Controlled Machine Tool Operators, Metal and Plastic
-      "51-4012", // Computer Numerically Controlled Machine Tool Programmers, Metal and Plastic
-      "51-4021", // Extruding and Drawing Machine Setters, Operators, and Tenders, Metal and Plastic
-      "51-4022", // Forging Machine Setters, Operators, and Tenders, Metal and Plastic
-      "51-4023", // Rolling Machine Setters, Operators, and Tenders, Metal and Plastic
-      "51-4031", // Cutting, Punching, and Press Machine Setters, Operators, and Tenders, Metal and Plastic
-      "51-4032", // Drilling and Boring Machine Tool Setters, Operators, and Tenders, Metal and Plastic
-      "51-4033", // Grinding, Lapping, Polishing, and Buffing Machine Tool Setters, Operators, and Tenders, Metal and Plastic
-      "51-4034", // Lathe and Turning Machine Tool Setters, Operators, and Tenders, Metal and Plastic
-      "51-4035", // Milling and Planing Machine Setters, Operators, and Tenders, Metal and Plastic
-      "51-4041", // Machinists
-      "51-4051", // Metal-Refining Furnace Operators and Tenders
-      "51-4052", // Pourers and Casters, Metal
-      "51-4061", // Model Makers, Metal and Plastic
-      "51-4062", // Patternmakers, Metal and Plastic
-      "51-4071", // Foundry Mold and Coremakers
-    ]
-    
-    // Initialize occupation titles
+    this.occupationCodes = occupations.map((occupation) => occupation.code)
     this.occupationTitles = {
-      "11-1011": "Chief Executives",
-      "11-1021": "General and Operations Managers",
-      "11-2011": "Advertising and Promotions Managers",
-      "11-2021": "Marketing Managers",
-      "11-2022": "Sales Managers",
-      "11-2031": "Public Relations and Fundraising Managers",
-      "11-3011": "Administrative Services Managers",
-      "11-3021": "Computer and Information Systems Managers",
-      "11-3031": "Financial Managers",
-      "11-3051": "Industrial Production Managers",
-      "11-3061": "Purchasing Managers",
-      "11-3071": "Transportation, Storage, and Distribution Managers",
-      "11-3111": "Compensation and Benefits Managers",
-      "11-3121": "Human Resources Managers",
-      "11-3131": "Training and Development Managers",
-      "11-9013": "Farmers, Ranchers, and Other Agricultural Managers",
-      "11-9021": "Construction Managers",
-      "11-9031": "Education Administrators, Preschool and Childcare Center/Program",
-      "11-9032": "Education Administrators, Elementary and Secondary School",
-      "11-9033": "Education Administrators, Postsecondary",
-      "11-9041": "Architectural and Engineering Managers",
-      "11-9051": "Food Service Managers",
-      "11-9071": "Gaming Managers",
-      "11-9081": "Lodging Managers",
-      "11-9111": "Medical and Health Services Managers",
-      "11-9121": "Natural Sciences Managers",
-      "11-9131": "Postmasters and Mail Superintendents",
-      "11-9141": "Property, Real Estate, and Community Association Managers",
-      "11-9151": "Social and Community Service Managers",
-      "11-9161": "Emergency Management Directors",
-      "13-1011": "Agents and Business Managers of Artists, Performers, and Athletes",
-      "13-1021": "Buyers and Purchasing Agents, Farm Products",
-      "13-1022": "Wholesale and Retail Buyers, Except Farm Products",
-      "13-1023": "Purchasing Agents, Except Wholesale, Retail, and Farm Products",
-      "13-1031": "Claims Adjusters, Examiners, and Investigators",
-      "13-1041": "Compliance Officers",
-      "13-1051": "Cost Estimators",
-      "13-1071": "Human Resources",
-      "13-2011": "Accountants and Auditors",
-      "15-1211": "Computer Systems Analysts", 
-      "15-1252": "Software Developers",
-      "15-1253": "Software Quality Assurance Analysts and Testers",
-      "17-1011": "Architects, Except Landscape and Naval",
-      "23-1011": "Lawyers",
-      "25-2021": "Elementary School Teachers, Except Special Education",
-      "29-1141": "Registered Nurses",
-      "33-3051": "Police and Sheriff's Patrol Officers",
-      "35-3031": "Waiters and Waitresses",
-      "41-2031": "Retail Salespersons",
-      "43-3031": "Bookkeeping, Accounting, and Auditing Clerks",
-      "43-4051": "Customer Service Representatives",
-      "47-2111": "Electricians"
+      ...Object.fromEntries(occupations.map((occupation) => [occupation.code, occupation.title])),
+      ...this.occupationTitles,
     }
-
-    console.log(`🔄 Initialized with ${this.occupationCodes.length} occupation codes`)
+    console.log(`📋 Loaded ${this.occupationCodes.length} occupation codes from the SOC taxonomy`)
   }
 
   // ========== PROGRESS UPDATES ==========
@@ -1725,10 +1327,13 @@ export class BLSSyncService extends EventEmitter {
   }
 
   private checkHealth(): void {
-    const remainingRequests = this.blsService.getTotalRemainingRequests()
-    if (remainingRequests < 10) {
-      console.warn(`⚠️ Low API requests remaining: ${remainingRequests}`)
-      this.emit("healthWarning", { type: "lowApiRequests", remainingRequests })
+    for (const adapter of this.dataSources) {
+      // Sources without a rate limit (local files, imported tables) report null
+      const { remainingRequests } = adapter.getRateLimitBudget()
+      if (remainingRequests !== null && remainingRequests < 10) {
+        console.warn(`⚠️ Low API requests remaining for ${adapter.name}: ${remainingRequests}`)
+        this.emit("healthWarning", { type: "lowApiRequests", source: adapter.id, remainingRequests })
+      }
     }
   }
 
@@ -1768,16 +1373,16 @@ export class BLSSyncService extends EventEmitter {
     }
   }
 
-  private prepareToResume(): void {
-    if (this.syncProgress.checkpoints.length === 0) {
-      this.resetSyncProgress()
-      return
-    }
-    const lastCheckpoint = this.syncProgress.checkpoints[this.syncProgress.checkpoints.length - 1]
-    this.syncProgress.processedJobs = lastCheckpoint.processedJobs
-    this.syncProgress.successfulJobs = lastCheckpoint.successfulJobs
-    this.syncProgress.failedJobs = lastCheckpoint.failedJobs
-    this.syncProgress.currentBatch = lastCheckpoint.batchNumber
+  /**
+   * Start the progress counters from the run's recorded item outcomes
+   */
+  private loadRunProgress(run: SyncRun): void {
+    this.syncProgress.runId = run.id
+    this.syncProgress.totalJobs = run.totalItems
+    this.syncProgress.processedJobs = run.doneItems + run.failedItems
+    this.syncProgress.successfulJobs = run.doneItems
+    this.syncProgress.failedJobs = run.failedItems
+    this.syncProgress.skippedJobs = run.skippedItems
   }
 
   private recordProcessingTime(timeMs: number): void {
@@ -1797,10 +1402,11 @@ export class BLSSyncService extends EventEmitter {
   //  Title generation helper
   // ======================================================================
   /**
-   * Derive a human-readable occupation title when it is not present in the
-   * baked-in `occupationTitles` map.  Uses the first two SOC digits (major
-   * group) to fall back to a sensible descriptor so that EVERY code always
-   * gets a title and the sync never aborts due to missing titles.
+   * Derive a human-readable occupation title for codes missing from the SOC
+   * taxonomy, such as codes passed to the constructor.  Uses the first two
+   * SOC digits (major group) to fall back to a sensible descriptor so that
+   * EVERY code always gets a title and the sync never aborts due to missing
+   * titles.
    *
    * @param code SOC occupation code (e.g. "15-1252")
    */
@@ -0,0 +1,212 @@
+import { calculateAIImpact } from "./ai-impact-scoring"
+import { getRiskTier, parseRiskTier, RISK_TIERS, type RiskTierId } from "./risk-tiers"
+
+/**
+ * Scoring calibration.
+ *
+ * Runs the scoring engine against a reference set of occupations whose risk
+ * tier (and optionally score) was assigned by domain experts, and reports how
+ * well the engine agrees.  Everything here is pure so a calibration check can
+ * run without a database.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export interface CalibrationReferenceEntry {
+  code: string
+  title: string
+  // Tier id or label, e.g. "very-high" or "Very High"
+  expectedRisk: string
+  // Expert score; defaults to the midpoint of the expected tier
+  expectedScore?: number
+  medianWage?: number | null
+  employment?: number | null
+  projectedEmployment?: number | null
+  taskAutomationScore?: number | null
+}
+
+export interface CalibrationReferenceFile {
+  description?: string
+  occupations: CalibrationReferenceEntry[]
+}
+
+export interface CalibrationMismatch {
+  code: string
+  title: string
+  expectedRisk: RiskTierId
+  predictedRisk: RiskTierId
+  expectedScore: number
+  predictedScore: number
+}
+
+export interface MajorGroupCalibration {
+  majorGroup: string
+  occupations: number
+  accuracy: number
+  meanAbsoluteError: number
+}
+
+export interface CalibrationThresholds {
+  // Minimum share of occupations with the exact expected tier (0-1)
+  minAccuracy?: number
+  // Maximum overall mean absolute score error
+  maxMeanAbsoluteError?: number
+}
+
+export interface CalibrationReport {
+  generatedAt: string
+  occupations: number
+  accuracy: number
+  withinOneTierAccuracy: number
+  meanAbsoluteError: number
+  majorGroups: MajorGroupCalibration[]
+  // confusionMatrix[expected][predicted] = count, rows and columns in RISK_TIERS order
+  confusionMatrix: Record<RiskTierId, Record<RiskTierId, number>>
+  mismatches: CalibrationMismatch[]
+  thresholds: CalibrationThresholds
+  failures: string[]
+  passed: boolean
+}
+
+// ========== HELPERS ==========
+
+const TIER_ORDER = RISK_TIERS.map((tier) => tier.id)
+
+function tierMidpoint(id: RiskTierId): number {
+  const tier = RISK_TIERS.find((candidate) => candidate.id === id)!
+  return Math.round((tier.minScore + tier.maxScore) / 2)
+}
+
+function emptyConfusionMatrix(): Record<RiskTierId, Record<RiskTierId, number>> {
+  return Object.fromEntries(
+    TIER_ORDER.map((expected) => [expected, Object.fromEntries(TIER_ORDER.map((predicted) => [predicted, 0]))])
+  ) as Record<RiskTierId, Record<RiskTierId, number>>
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+// ========== PUBLIC API ==========
+
+/**
+ * Check a parsed reference file and return its entries
+ * @throws Error listing every invalid entry
+ */
+export function validateReferenceFile(data: unknown): CalibrationReferenceEntry[] {
+  const occupations = (data as CalibrationReferenceFile | null)?.occupations
+  if (!Array.isArray(occupations) || occupations.length === 0) {
+    throw new Error("Reference file must contain a non-empty \"occupations\" array")
+  }
+
+  const errors: string[] = []
+  occupations.forEach((entry, index) => {
+    const label = entry?.code || `entry ${index}`
+    if (!entry?.code || !/^\d{2}-\d{4}$/.test(entry.code)) errors.push(`${label}: invalid SOC code`)
+    if (!entry?.title) errors.push(`${label}: missing title`)
+    if (!parseRiskTier(entry?.expectedRisk)) errors.push(`${label}: unknown expectedRisk "${entry?.expectedRisk}"`)
+    if (entry?.expectedScore !== undefined && (entry.expectedScore < 0 || entry.expectedScore > 100)) {
+      errors.push(`${label}: expectedScore must be between 0 and 100`)
+    }
+  })
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid reference file:\n${errors.join("\n")}`)
+  }
+  return occupations
+}
+
+/**
+ * Score every reference occupation with the current engine and compare the
+ * results with the expert labels
+ * @param entries Validated reference entries
+ * @param thresholds Optional limits; the report fails when any is not met
+ * @returns Accuracy, per-major-group error, confusion matrix and mismatches
+ */
+export function runCalibration(
+  entries: CalibrationReferenceEntry[],
+  thresholds: CalibrationThresholds = {}
+): CalibrationReport {
+  const confusionMatrix = emptyConfusionMatrix()
+  const mismatches: CalibrationMismatch[] = []
+  const groups = new Map<string, { occupations: number; correct: number; absoluteError: number }>()
+
+  let correct = 0
+  let withinOneTier = 0
+  let totalAbsoluteError = 0
+
+  for (const entry of entries) {
+    const expectedRisk = parseRiskTier(entry.expectedRisk)!.id
+    const expectedScore = entry.expectedScore ?? tierMidpoint(expectedRisk)
+
+    const result = calculateAIImpact({
+      occupationCode: entry.code,
+      occupationTitle: entry.title,
+      medianWage: entry.medianWage,
+      employment: entry.employment,
+      projectedEmployment: entry.projectedEmployment,
+      taskAutomationScore: entry.taskAutomationScore,
+    })
+    const predictedRisk = getRiskTier(result.aiImpactScore).id
+    const absoluteError = Math.abs(result.aiImpactScore - expectedScore)
+
+    confusionMatrix[expectedRisk][predictedRisk]++
+    totalAbsoluteError += absoluteError
+    if (predictedRisk === expectedRisk) correct++
+    if (Math.abs(TIER_ORDER.indexOf(predictedRisk) - TIER_ORDER.indexOf(expectedRisk)) <= 1) withinOneTier++
+
+    if (predictedRisk !== expectedRisk) {
+      mismatches.push({
+        code: entry.code,
+        title: entry.title,
+        expectedRisk,
+        predictedRisk,
+        expectedScore,
+        predictedScore: result.aiImpactScore,
+      })
+    }
+
+    const majorGroup = entry.code.split("-")[0]
+    const group = groups.get(majorGroup) ?? { occupations: 0, correct: 0, absoluteError: 0 }
+    group.occupations++
+    group.absoluteError += absoluteError
+    if (predictedRisk === expectedRisk) group.correct++
+    groups.set(majorGroup, group)
+  }
+
+  const total = entries.length
+  const accuracy = total > 0 ? round(correct / total, 3) : 0
+  const meanAbsoluteError = total > 0 ? round(totalAbsoluteError / total, 1) : 0
+
+  const failures: string[] = []
+  if (thresholds.minAccuracy !== undefined && accuracy < thresholds.minAccuracy) {
+    failures.push(`Accuracy ${accuracy} is below the minimum of ${thresholds.minAccuracy}`)
+  }
+  if (thresholds.maxMeanAbsoluteError !== undefined && meanAbsoluteError > thresholds.maxMeanAbsoluteError) {
+    failures.push(`Mean absolute error ${meanAbsoluteError} exceeds the maximum of ${thresholds.maxMeanAbsoluteError}`)
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    occupations: total,
+    accuracy,
+    withinOneTierAccuracy: total > 0 ? round(withinOneTier / total, 3) : 0,
+    meanAbsoluteError,
+    majorGroups: Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([majorGroup, group]) => ({
+        majorGroup,
+        occupations: group.occupations,
+        accuracy: round(group.correct / group.occupations, 3),
+        meanAbsoluteError: round(group.absoluteError / group.occupations, 1),
+      })),
+    confusionMatrix,
+    mismatches: mismatches.sort(
+      (a, b) => Math.abs(b.predictedScore - b.expectedScore) - Math.abs(a.predictedScore - a.expectedScore)
+    ),
+    thresholds,
+    failures,
+    passed: failures.length === 0,
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Minimal cron expression support for sync schedules.
+ *
+ * Standard five fields (minute hour day-of-month month day-of-week) with
+ * `*`, lists, ranges and steps, plus the @hourly/@daily/@weekly/@monthly/
+ * @yearly shorthands.  Times are evaluated in UTC.  As in Vixie cron, when
+ * both day fields are restricted a day matches if either one does.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export interface CronSchedule {
+  expression: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Whether the day fields were "*"; decides how they combine
+  anyDayOfMonth: boolean
+  anyDayOfWeek: boolean
+}
+
+// ========== CONFIGURATION ==========
+
+const CRON_SHORTHANDS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+]
+
+// Give up looking for a match after this long (e.g. "0 0 30 2 *" never fires)
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+// ========== PARSING ==========
+
+function parseField(field: string, range: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/")
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${range.name} field`)
+    }
+
+    let start: number
+    let end: number
+    if (rangePart === "*") {
+      start = range.min
+      end = range.max
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-")
+      start = Number(from)
+      end = Number(to)
+    } else {
+      start = Number(rangePart)
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : range.max
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < range.min || end > range.max || start > end) {
+      throw new Error(`Invalid ${range.name} "${part}" (allowed ${range.min}-${range.max})`)
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a cron expression
+ * @param expression Five-field expression or a shorthand such as @daily
+ * @returns The parsed schedule
+ * @throws Error describing the first invalid field
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase()
+  const fields = (CRON_SHORTHANDS[normalized] ?? normalized).split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index])
+  )
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    expression: expression.trim(),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  }
+}
+
+/**
+ * Check a cron expression without throwing
+ * @returns The problem, or null when the expression is valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCronExpression(expression)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid cron expression"
+  }
+}
+
+// ========== MATCHING ==========
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay())
+  if (schedule.anyDayOfMonth) return dayOfWeek
+  if (schedule.anyDayOfWeek) return dayOfMonth
+  return dayOfMonth || dayOfWeek
+}
+
+/**
+ * Get the first time after `after` at which a schedule fires
+ * @param schedule Parsed schedule or expression
+ * @param after Exclusive lower bound; defaults to now
+ * @returns The next fire time, or null when it never fires within five years
+ */
+export function getNextCronTime(schedule: CronSchedule | string, after: Date = new Date()): Date | null {
+  const cron = typeof schedule === "string" ? parseCronExpression(schedule) : schedule
+
+  // Start at the next whole minute
+  const date = new Date(after.getTime())
+  date.setUTCSeconds(0, 0)
+  date.setUTCMinutes(date.getUTCMinutes() + 1)
+  const limit = after.getTime() + MAX_SEARCH_MS
+
+  // Skip whole months, days and hours that cannot match before testing minutes
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+      continue
+    }
+    return date
+  }
+
+  return null
+}
+
+/**
+ * Get the next several fire times of a schedule
+ * @param schedule Parsed schedule or expression
+ * @param count Number of times to return
+ * @param after Exclusive lower bound; defaults to now
+ */
+export function getNextCronTimes(schedule: CronSchedule | string, count: number, after: Date = new Date()): Date[] {
+  const cron = typeof schedule === "string" ? parseCronExpression(schedule) : schedule
+  const times: Date[] = []
+  let from = after
+  while (times.length < count) {
+    const next = getNextCronTime(cron, from)
+    if (!next) break
+    times.push(next)
+    from = next
+  }
+  return times
+}
@@ -0,0 +1,398 @@
+import { readFileSync } from "fs"
+import type { DataSource } from "./database-enhanced"
+import { BLS_MAX_SERIES_PER_REQUEST, OEWS_SERIES_PER_OCCUPATION, type BLSService } from "./bls-service"
+import { getEmploymentProjections } from "./employment-projections"
+import { getOccupationTaskScores, parseDelimited } from "./onet-tasks"
+
+/**
+ * Data sources for the sync pipeline.
+ *
+ * Each source is a `DataSourceAdapter` that fetches a set of occupation
+ * fields by SOC code and reports its rate-limit budget and health.  The sync
+ * asks every adapter for each batch of occupations and merges the fields per
+ * occupation: for each field the first adapter in its precedence list that
+ * returned a value wins.  New sources are added by writing an adapter and
+ * passing it to `BLSSyncService.setDataSources`.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+// Everything an adapter can supply about an occupation.  A field an adapter
+// has no value for is omitted or null.
+export interface OccupationFields {
+  title?: string | null
+  employment?: number | null
+  medianWage?: number | null
+  meanWage?: number | null
+  hourlyMeanWage?: number | null
+  hourlyMedianWage?: number | null
+  wageP10?: number | null
+  wageP25?: number | null
+  wageP75?: number | null
+  wageP90?: number | null
+  projectedEmployment?: number | null
+  projectedChangePercent?: number | null
+  annualOpenings?: number | null
+  typicalEducation?: string | null
+  taskAutomationScore?: number | null
+}
+
+export type OccupationField = keyof OccupationFields
+
+export interface DataSourceFetchResult {
+  // Fields keyed by occupation code; occupations the source has nothing for are omitted
+  data: Map<string, OccupationFields>
+  // Non-fatal problems keyed by occupation code
+  errors: Map<string, string[]>
+  requestsMade: number
+  // Occupations not fetched because the deadline passed; not the same as having no data
+  deferred?: string[]
+}
+
+export interface DataSourceFetchOptions {
+  // Time (ms since epoch) after which a source should not start another request
+  deadline?: number
+}
+
+export interface RateLimitBudget {
+  // Requests left in the current window; null when the source is not rate limited
+  remainingRequests: number | null
+  // How many occupations one request covers
+  occupationsPerRequest: number
+}
+
+export interface DataSourceHealth {
+  healthy: boolean
+  message: string
+}
+
+export interface DataSourceAdapter {
+  readonly id: string
+  readonly name: string
+  readonly supportedFields: OccupationField[]
+  /**
+   * Fetch the supported fields for a set of occupations.  Throws only when
+   * the whole fetch failed; per-occupation problems go in `errors`.
+   */
+  fetch(occupationCodes: string[], options?: DataSourceFetchOptions): Promise<DataSourceFetchResult>
+  getRateLimitBudget(): RateLimitBudget
+  checkHealth(): Promise<DataSourceHealth>
+}
+
+// Adapter IDs per field, highest precedence first.  "*" sets the order for
+// fields without an entry of their own; adapters not listed come last, in
+// the order they were registered.
+export type DataSourcePrecedence = Partial<Record<OccupationField | "*", string[]>>
+
+export interface MergedOccupationData {
+  fields: OccupationFields
+  // Adapter ID each field was taken from
+  sources: Partial<Record<OccupationField, string>>
+}
+
+// ========== MERGING ==========
+
+/**
+ * Parse a precedence setting such as
+ * "employment=local-csv,bls-oews;medianWage=local-csv;*=bls-oews"
+ */
+export function parseDataSourcePrecedence(value: string | undefined): DataSourcePrecedence {
+  const precedence: DataSourcePrecedence = {}
+  for (const entry of (value ?? "").split(";")) {
+    const [field, ids] = entry.split("=").map((part) => part.trim())
+    if (!field || !ids) continue
+    precedence[field as OccupationField | "*"] = ids.split(",").map((id) => id.trim()).filter(Boolean)
+  }
+  return precedence
+}
+
+/**
+ * Merge the fields several adapters returned for one occupation
+ * @param results Fields by adapter ID, in registration order
+ * @param precedence Field precedence; registration order when empty
+ */
+export function mergeOccupationFields(
+  results: Map<string, OccupationFields>,
+  precedence: DataSourcePrecedence = {}
+): MergedOccupationData {
+  const registered = [...results.keys()]
+  const orderFor = (field: OccupationField): string[] => {
+    const preferred = precedence[field] ?? precedence["*"] ?? []
+    return [...preferred, ...registered.filter((id) => !preferred.includes(id))]
+  }
+
+  const fields: OccupationFields = {}
+  const sources: Partial<Record<OccupationField, string>> = {}
+  const allFields = new Set<OccupationField>()
+  results.forEach((result) => (Object.keys(result) as OccupationField[]).forEach((field) => allFields.add(field)))
+
+  for (const field of allFields) {
+    for (const id of orderFor(field)) {
+      const value = results.get(id)?.[field]
+      if (value !== null && value !== undefined) {
+        Object.assign(fields, { [field]: value })
+        sources[field] = id
+        break
+      }
+    }
+  }
+
+  return { fields, sources }
+}
+
+/**
+ * Provenance label for a job from the adapters its employment and wage were
+ * taken from.  Adapters other than the BLS and local file ones count as
+ * "mixed", since the label only names those.
+ * @param sources Adapter ID per field, from mergeOccupationFields
+ * @returns null when neither field was supplied
+ */
+export function dataSourceLabel(sources: MergedOccupationData["sources"]): DataSource | null {
+  const labels = new Set<string>()
+  for (const field of ["employment", "medianWage"] as const) {
+    const id = sources[field]
+    if (id) labels.add(id.startsWith("bls-") ? "bls" : id)
+  }
+  if (labels.size === 0) return null
+  const [label] = labels
+  return labels.size === 1 && (label === "bls" || label === "local-csv") ? label : "mixed"
+}
+
+// ========== BLS OEWS ==========
+
+/**
+ * Employment and the wage distribution from the BLS OEWS survey, fetched in
+ * multi-series requests through a shared BLSService
+ */
+export class BLSOEWSAdapter implements DataSourceAdapter {
+  readonly id = "bls-oews"
+  readonly name = "BLS Occupational Employment and Wage Statistics"
+  readonly supportedFields: OccupationField[] = [
+    "employment",
+    "medianWage",
+    "meanWage",
+    "hourlyMeanWage",
+    "hourlyMedianWage",
+    "wageP10",
+    "wageP25",
+    "wageP75",
+    "wageP90",
+  ]
+
+  constructor(private blsService: BLSService) {}
+
+  async fetch(occupationCodes: string[], options: DataSourceFetchOptions = {}): Promise<DataSourceFetchResult> {
+    const result = await this.blsService.fetchOccupationalDataBatch(occupationCodes, undefined, options.deadline)
+    const data = new Map<string, OccupationFields>()
+    result.data.forEach((job, code) => {
+      if (!job) return
+      data.set(code, {
+        // OEWS reports 0 for figures it does not publish
+        employment: job.employment || null,
+        medianWage: job.medianWage || null,
+        meanWage: job.wages.annualMean,
+        hourlyMeanWage: job.wages.hourlyMean,
+        hourlyMedianWage: job.wages.hourlyMedian,
+        wageP10: job.wages.annualP10,
+        wageP25: job.wages.annualP25,
+        wageP75: job.wages.annualP75,
+        wageP90: job.wages.annualP90,
+      })
+    })
+    return { data, errors: result.errors, requestsMade: result.requestsMade, deferred: result.deferred }
+  }
+
+  getRateLimitBudget(): RateLimitBudget {
+    return {
+      // Cache-only syncs make no requests
+      remainingRequests: this.blsService.isCacheOnly() ? null : this.blsService.getTotalRemainingRequests(),
+      occupationsPerRequest: Math.floor(BLS_MAX_SERIES_PER_REQUEST / OEWS_SERIES_PER_OCCUPATION),
+    }
+  }
+
+  async checkHealth(): Promise<DataSourceHealth> {
+    const network = this.blsService.getNetworkHealthStatus()
+    if (network.circuitBreakerOpen) {
+      return { healthy: false, message: `Circuit breaker open after ${network.consecutiveErrors} network errors` }
+    }
+    if (this.blsService.isCacheOnly()) {
+      return { healthy: true, message: "Replaying cached responses" }
+    }
+    const remaining = this.blsService.getTotalRemainingRequests()
+    return remaining > 0
+      ? { healthy: true, message: `${remaining} requests remaining` }
+      : { healthy: false, message: "No API requests remaining today" }
+  }
+}
+
+// ========== BLS EMPLOYMENT PROJECTIONS ==========
+
+/**
+ * Ten-year projections from the imported BLS Employment Projections table
+ * (see scripts/import-employment-projections.ts)
+ */
+export class BLSProjectionsAdapter implements DataSourceAdapter {
+  readonly id = "bls-projections"
+  readonly name = "BLS Employment Projections"
+  readonly supportedFields: OccupationField[] = [
+    "projectedEmployment",
+    "projectedChangePercent",
+    "annualOpenings",
+    "typicalEducation",
+  ]
+
+  async fetch(occupationCodes: string[]): Promise<DataSourceFetchResult> {
+    const projections = await getEmploymentProjections(occupationCodes)
+    const data = new Map<string, OccupationFields>()
+    projections.forEach((projection, code) => {
+      data.set(code, {
+        projectedEmployment: projection.employmentProjected,
+        projectedChangePercent: projection.changePercent,
+        annualOpenings: projection.annualOpenings,
+        typicalEducation: projection.typicalEducation,
+      })
+    })
+    return { data, errors: new Map(), requestsMade: 0 }
+  }
+
+  getRateLimitBudget(): RateLimitBudget {
+    return { remainingRequests: null, occupationsPerRequest: Number.POSITIVE_INFINITY }
+  }
+
+  async checkHealth(): Promise<DataSourceHealth> {
+    return { healthy: true, message: "Reads the imported projections table" }
+  }
+}
+
+// ========== O*NET ==========
+
+/**
+ * Task automation score rolled up from the imported O*NET task statements and
+ * work activities (see scripts/import-onet-tasks.ts)
+ */
+export class OnetTasksAdapter implements DataSourceAdapter {
+  readonly id = "onet"
+  readonly name = "O*NET tasks and work activities"
+  readonly supportedFields: OccupationField[] = ["taskAutomationScore"]
+
+  async fetch(occupationCodes: string[]): Promise<DataSourceFetchResult> {
+    const data = new Map<string, OccupationFields>()
+    const taskScores = await getOccupationTaskScores(occupationCodes)
+    taskScores.forEach((taskScore, code) => {
+      data.set(code, { taskAutomationScore: taskScore.combinedScore })
+    })
+    return { data, errors: new Map(), requestsMade: 0 }
+  }
+
+  getRateLimitBudget(): RateLimitBudget {
+    return { remainingRequests: null, occupationsPerRequest: Number.POSITIVE_INFINITY }
+  }
+
+  async checkHealth(): Promise<DataSourceHealth> {
+    return { healthy: true, message: "Reads the imported O*NET tables" }
+  }
+}
+
+// ========== LOCAL CSV ==========
+
+// CSV column for each field; the code column may also be "code" or "soc_code"
+const LOCAL_CSV_COLUMNS: Record<OccupationField, string> = {
+  title: "occ_title",
+  employment: "employment",
+  medianWage: "median_wage",
+  meanWage: "mean_wage",
+  hourlyMeanWage: "hourly_mean_wage",
+  hourlyMedianWage: "hourly_median_wage",
+  wageP10: "wage_p10",
+  wageP25: "wage_p25",
+  wageP75: "wage_p75",
+  wageP90: "wage_p90",
+  projectedEmployment: "projected_employment",
+  projectedChangePercent: "projected_change_percent",
+  annualOpenings: "annual_openings",
+  typicalEducation: "typical_education",
+  taskAutomationScore: "task_automation_score",
+}
+
+/**
+ * Occupation figures from a local CSV or tab-delimited file with an occ_code
+ * column and any of the LOCAL_CSV_COLUMNS, e.g. survey data of your own or
+ * figures for occupations BLS does not publish.  The file is read once.
+ */
+export class LocalCSVAdapter implements DataSourceAdapter {
+  readonly id = "local-csv"
+  readonly name: string
+  readonly supportedFields = Object.keys(LOCAL_CSV_COLUMNS) as OccupationField[]
+  private rows: Map<string, OccupationFields> | null = null
+
+  constructor(private filePath: string) {
+    this.name = `Local file ${filePath}`
+  }
+
+  private load(): Map<string, OccupationFields> {
+    if (this.rows) return this.rows
+
+    // Kept only once the whole file parsed, so a failed read is retried
+    const rows = new Map<string, OccupationFields>()
+    for (const row of parseDelimited(readFileSync(this.filePath, "utf8"))) {
+      const code = (row.occ_code || row.code || row.soc_code)?.trim()
+      if (!code) continue
+
+      const fields: OccupationFields = {}
+      for (const [field, column] of Object.entries(LOCAL_CSV_COLUMNS) as Array<[OccupationField, string]>) {
+        const value = row[column]
+        if (value === undefined || value === "") continue
+        if (field === "title" || field === "typicalEducation") {
+          fields[field] = value
+        } else {
+          const parsed = Number.parseFloat(value.replace(/,/g, ""))
+          if (!isNaN(parsed)) fields[field] = parsed
+        }
+      }
+      rows.set(code, fields)
+    }
+    this.rows = rows
+    return rows
+  }
+
+  async fetch(occupationCodes: string[]): Promise<DataSourceFetchResult> {
+    const rows = this.load()
+    const data = new Map<string, OccupationFields>()
+    occupationCodes.forEach((code) => {
+      const fields = rows.get(code)
+      if (fields) data.set(code, fields)
+    })
+    return { data, errors: new Map(), requestsMade: 0 }
+  }
+
+  getRateLimitBudget(): RateLimitBudget {
+    return { remainingRequests: null, occupationsPerRequest: Number.POSITIVE_INFINITY }
+  }
+
+  async checkHealth(): Promise<DataSourceHealth> {
+    try {
+      return { healthy: true, message: `${this.load().size} occupations in ${this.filePath}` }
+    } catch (error) {
+      return { healthy: false, message: error instanceof Error ? error.message : `Cannot read ${this.filePath}` }
+    }
+  }
+}
+
+// ========== DEFAULTS ==========
+
+/**
+ * The adapters the sync uses unless told otherwise: OEWS, the imported
+ * projections and O*NET data, and the file named by LOCAL_DATA_SOURCE_FILE
+ * when set
+ */
+export function createDefaultDataSources(blsService: BLSService): DataSourceAdapter[] {
+  const adapters: DataSourceAdapter[] = [
+    new BLSOEWSAdapter(blsService),
+    new BLSProjectionsAdapter(),
+    new OnetTasksAdapter(),
+  ]
+  if (process.env.LOCAL_DATA_SOURCE_FILE) {
+    adapters.push(new LocalCSVAdapter(process.env.LOCAL_DATA_SOURCE_FILE))
+  }
+  return adapters
+}
@@ -1,4 +1,9 @@
-import { neon, NeonQueryFunction } from "@neondatabase/serverless"
+import {
+  neon,
+  NeonQueryFunction,
+  type NeonQueryFunctionInTransaction,
+  type NeonQueryInTransaction,
+} from "@neondatabase/serverless"
 import { RetryableError, withRetry } from "./error-handler"
 
 // ========== TYPES AND INTERFACES ==========
@@ -124,6 +129,56 @@ function recordFailure(error: any) {
   }
 }
 
+// ========== OPTIONAL TABLES ==========
+
+/**
+ * Whether an error means a table or column the query needs has not been
+ * created yet.  Many tables only exist after their first import or sync;
+ * such errors are answered immediately by sqlEnhanced, without retries and
+ * without counting towards the circuit breaker.
+ */
+export function isMissingTableError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes("does not exist")
+}
+
+// Tables seen to exist, and when tables were last seen missing
+const existingTables = new Set<string>()
+const missingTablesCheckedAt = new Map<string, number>()
+
+// Another instance or an import script may create a missing table meanwhile
+const MISSING_TABLE_RECHECK_MS = 60_000
+
+/**
+ * Check whether a table exists.  Meant for hot read paths that would
+ * otherwise probe a table that may never have been created: existing
+ * tables are remembered for the life of the process and missing ones are
+ * looked up again after a minute.
+ * @param name Table name
+ */
+export async function tableExists(name: string): Promise<boolean> {
+  if (existingTables.has(name)) return true
+  const checkedAt = missingTablesCheckedAt.get(name)
+  if (checkedAt !== undefined && Date.now() - checkedAt < MISSING_TABLE_RECHECK_MS) return false
+
+  const rows = await sql`SELECT to_regclass(${name}) IS NOT NULL AS exists`
+  if (rows[0]?.exists) {
+    rememberTable(name)
+    return true
+  }
+  missingTablesCheckedAt.set(name, Date.now())
+  return false
+}
+
+/**
+ * Record that a table exists, e.g. right after creating it, so tableExists
+ * does not keep reporting it missing
+ * @param name Table name
+ */
+export function rememberTable(name: string): void {
+  existingTables.add(name)
+  missingTablesCheckedAt.delete(name)
+}
+
 // ========== ENHANCED DATABASE CLIENT ==========
 
 // Enhanced SQL function with circuit breaker and retry logic
@@ -158,6 +213,12 @@ export async function sqlEnhanced<T = any>(
             return await sql(query.text, ...query.values)
           }
         } catch (error) {
+          // Schema errors will not go away by retrying; "relation sync_locks
+          // does not exist" must not be mistaken for a lock error below
+          if (isMissingTableError(error)) {
+            throw error
+          }
+
           // Categorize errors for better retry decisions
           if (error instanceof Error) {
             const errorMsg = error.message.toLowerCase()
@@ -194,15 +255,19 @@ export async function sqlEnhanced<T = any>(
         }
       },
       dbConfig.retryAttempts,
-      dbConfig.baseRetryDelayMs
+      dbConfig.baseRetryDelayMs,
+      (error) => !isMissingTableError(error)
     )
 
     // Record successful operation
     recordSuccess()
     return result
   } catch (error) {
-    // Record failure and potentially open circuit breaker
-    recordFailure(error)
+    // Record failure and potentially open circuit breaker; a missing table
+    // says nothing about the database's health
+    if (!isMissingTableError(error)) {
+      recordFailure(error)
+    }
     throw error
   }
 }
@@ -379,6 +444,23 @@ export async function withTransaction<T>(operations: (client: NeonQueryFunction<
   }
 }
 
+// Query function for statements of a sqlTransaction
+export type TransactionClient = NeonQueryFunctionInTransaction<false, false>
+
+/**
+ * Run statements as one Postgres transaction: all of them are committed or
+ * none are.  The HTTP driver keeps no session between queries, so the
+ * statements are built up front and sent in a single request; a statement
+ * cannot use the result of an earlier one.
+ * @param build Returns the statements, written with the client it is given
+ * @returns The rows returned by each statement, in order
+ */
+export async function sqlTransaction(
+  build: (client: TransactionClient) => NeonQueryInTransaction[]
+): Promise<Record<string, any>[][]> {
+  return withRetry(() => sql.transaction((client) => build(client)), 3, 1000, (error) => !isMissingTableError(error))
+}
+
 // ========== BATCH OPERATIONS ==========
 
 // Insert multiple records efficiently
@@ -440,6 +522,39 @@ export async function batchInsertJobs(jobs: any[]): Promise<{ success: boolean;
 
 // ========== UTILITY FUNCTIONS ==========
 
+// Where a job's wage and employment figures came from: one source, several
+// ("mixed"), estimates or a manual override
+export type DataSource = "bls" | "local-csv" | "mixed" | "fallback" | "override"
+
+// Add provenance and confidence columns to existing jobs tables
+export async function ensureJobDataQualityColumns(): Promise<void> {
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS data_source VARCHAR(20)`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS ai_impact_score_low INTEGER`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS ai_impact_score_high INTEGER`
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_jobs_data_source ON jobs(data_source)`
+}
+
+// Add OEWS wage distribution columns to existing jobs tables.  median_wage
+// holds the annual median; annual figures are whole dollars.
+export async function ensureJobWageColumns(): Promise<void> {
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS mean_wage INTEGER`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS hourly_mean_wage NUMERIC(7,2)`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS hourly_median_wage NUMERIC(7,2)`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS wage_p10 INTEGER`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS wage_p25 INTEGER`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS wage_p75 INTEGER`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS wage_p90 INTEGER`
+}
+
+// Add Employment Projections columns to existing jobs tables.  They are
+// filled by the EP importer, never by the BLS sync.
+export async function ensureJobProjectionColumns(): Promise<void> {
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS projected_change_percent NUMERIC(6,1)`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS annual_openings INTEGER`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS typical_education VARCHAR(100)`
+  await sqlEnhanced`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS projections_source VARCHAR(50)`
+}
+
 // Initialize database tables with enhanced error handling
 export async function initializeTables(): Promise<{ success: boolean; message: string; error?: string }> {
   try {
@@ -455,8 +570,22 @@ export async function initializeTables(): Promise<{ success: boolean; message: s
           employment_2023 INTEGER,
           projected_employment_2033 INTEGER,
           median_wage INTEGER,
+          mean_wage INTEGER,
+          hourly_mean_wage NUMERIC(7,2),
+          hourly_median_wage NUMERIC(7,2),
+          wage_p10 INTEGER,
+          wage_p25 INTEGER,
+          wage_p75 INTEGER,
+          wage_p90 INTEGER,
+          projected_change_percent NUMERIC(6,1),
+          annual_openings INTEGER,
+          typical_education VARCHAR(100),
+          projections_source VARCHAR(50),
           ai_impact_score INTEGER,
+          ai_impact_score_low INTEGER,
+          ai_impact_score_high INTEGER,
           automation_risk VARCHAR(20),
+          data_source VARCHAR(20),
           key_tasks TEXT,
           ai_analysis TEXT,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -470,6 +599,11 @@ export async function initializeTables(): Promise<{ success: boolean; message: s
       await client`CREATE INDEX IF NOT EXISTS idx_jobs_title ON jobs(occ_title)`
     }) // ← close withTransaction block
 
+    // Tables created before provenance tracking, wage distributions and projections lack these columns
+    await ensureJobDataQualityColumns()
+    await ensureJobWageColumns()
+    await ensureJobProjectionColumns()
+
     console.log("✅ Database tables initialized successfully")
     return { success: true, message: "Database tables created successfully" }
   } catch (error) {
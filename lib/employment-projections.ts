@@ -0,0 +1,357 @@
+import {
+  ensureJobProjectionColumns,
+  isMissingTableError,
+  rememberTable,
+  sqlEnhanced,
+  tableExists,
+} from "./database-enhanced"
+import { parseDelimited } from "./onet-tasks"
+
+/**
+ * BLS Employment Projections (EP).
+ *
+ * The importer loads the EP occupational table ("Occupational projections and
+ * worker characteristics", table 1.2, saved as CSV) into
+ * `employment_projections` and copies the projected employment, percent
+ * change, annual openings and typical entry-level education onto the matching
+ * jobs.  Every row carries a source marker such as "bls-ep-2023-2033".
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export interface EmploymentProjectionRecord {
+  socCode: string
+  title: string
+  baseYear: number
+  projectedYear: number
+  employmentBase: number | null
+  employmentProjected: number | null
+  changeNumeric: number | null
+  changePercent: number | null
+  annualOpenings: number | null
+  typicalEducation: string | null
+}
+
+export interface EmploymentProjection extends EmploymentProjectionRecord {
+  source: string
+  importedAt: string
+}
+
+export interface ProjectionParseOptions {
+  // Employment and openings in the published table are in thousands
+  unitsInThousands?: boolean
+}
+
+export interface ProjectionParseResult {
+  records: EmploymentProjectionRecord[]
+  baseYear: number
+  projectedYear: number
+  skipped: number
+}
+
+export interface ProjectionImportResult {
+  imported: number
+  occupationCodes: string[]
+  jobsUpdated: number
+  source: string
+}
+
+// ========== FILE PARSING ==========
+
+// Lowercase a header and reduce punctuation, dashes and footnote marks to
+// single spaces, e.g. "Employment change, percent, 2023–33" -> "employment change percent 2023 33"
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/\(\d+\)/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null
+  const parsed = Number.parseFloat(value.replace(/,/g, ""))
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Parse the EP occupational table.  Title and footnote lines around the table
+ * are ignored, columns are matched by name so the yearly header variations
+ * parse alike, and only detailed occupations ("Line item" rows) are kept.
+ * @param content CSV or tab-delimited file content
+ * @param options Units of the employment and openings columns
+ * @throws Error when the code or employment columns cannot be found
+ */
+export function parseProjectionsFile(content: string, options: ProjectionParseOptions = {}): ProjectionParseResult {
+  const unitsInThousands = options.unitsInThousands ?? true
+
+  // The published sheet has a title line above the header row
+  const lines = content.replace(/^﻿/, "").split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => /code/i.test(line) && /employment/i.test(line))
+  if (headerIndex < 0) {
+    throw new Error("No header row with an occupation code and employment columns found")
+  }
+  const rows = parseDelimited(lines.slice(headerIndex).join("\n"))
+
+  const headers = Object.keys(rows[0] ?? {})
+  const find = (predicate: (header: string) => boolean) => headers.find((header) => predicate(normalizeHeader(header)))
+
+  const codeColumn = find((header) => header.endsWith("matrix code") || ["code", "soc code", "occupation code"].includes(header))
+  const titleColumn = find((header) => header.endsWith("matrix title") || ["title", "occupation title"].includes(header))
+  const typeColumn = find((header) => header === "occupation type")
+  const employmentColumns = headers
+    .map((header) => ({ header, year: normalizeHeader(header).match(/^employment (\d{4})$/)?.[1] }))
+    .filter((column): column is { header: string; year: string } => Boolean(column.year))
+    .sort((a, b) => Number(a.year) - Number(b.year))
+  const changeNumericColumn = find((header) => header.startsWith("employment change numeric"))
+  const changePercentColumn = find((header) => header.startsWith("employment change percent"))
+  const openingsColumn = find((header) => header.includes("openings"))
+  const educationColumn = find((header) => header.startsWith("typical education"))
+
+  if (!codeColumn || employmentColumns.length < 2) {
+    throw new Error("Projections file must have an occupation code column and two \"Employment, <year>\" columns")
+  }
+  const baseColumn = employmentColumns[0]
+  const projectedColumn = employmentColumns[employmentColumns.length - 1]
+  const scale = unitsInThousands ? 1000 : 1
+  const scaled = (value: number | null) => (value === null ? null : Math.round(value * scale))
+
+  const records: EmploymentProjectionRecord[] = []
+  let skipped = 0
+  for (const row of rows) {
+    const socCode = row[codeColumn]?.trim()
+    if (!socCode || !/^\d{2}-\d{4}$/.test(socCode)) {
+      skipped++
+      continue
+    }
+    if (typeColumn && row[typeColumn] && row[typeColumn].toLowerCase() !== "line item") {
+      skipped++
+      continue
+    }
+
+    const employmentBase = scaled(parseNumber(row[baseColumn.header]))
+    const employmentProjected = scaled(parseNumber(row[projectedColumn.header]))
+    const changePercent =
+      (changePercentColumn ? parseNumber(row[changePercentColumn]) : null) ??
+      (employmentBase && employmentProjected !== null
+        ? Math.round(((employmentProjected - employmentBase) / employmentBase) * 1000) / 10
+        : null)
+
+    records.push({
+      socCode,
+      title: titleColumn ? row[titleColumn] : "",
+      baseYear: Number(baseColumn.year),
+      projectedYear: Number(projectedColumn.year),
+      employmentBase,
+      employmentProjected,
+      changeNumeric:
+        (changeNumericColumn ? scaled(parseNumber(row[changeNumericColumn])) : null) ??
+        (employmentBase !== null && employmentProjected !== null ? employmentProjected - employmentBase : null),
+      changePercent,
+      annualOpenings: openingsColumn ? scaled(parseNumber(row[openingsColumn])) : null,
+      typicalEducation: educationColumn ? row[educationColumn] || null : null,
+    })
+  }
+
+  return {
+    records,
+    baseYear: Number(baseColumn.year),
+    projectedYear: Number(projectedColumn.year),
+    skipped,
+  }
+}
+
+/**
+ * Source marker for a projection period, e.g. "bls-ep-2023-2033"
+ */
+export function projectionSource(baseYear: number, projectedYear: number): string {
+  return `bls-ep-${baseYear}-${projectedYear}`
+}
+
+// ========== SCORING INPUT ==========
+
+/**
+ * Projected employment to score an occupation's trend with.  EP counts
+ * self-employed workers and OEWS does not, so when a projected percent change
+ * is known it is applied to the OEWS employment instead of comparing figures
+ * from the two surveys.
+ */
+export function projectedEmploymentForScoring(
+  employment: number | null | undefined,
+  projectedEmployment: number | null | undefined,
+  changePercent: number | string | null | undefined
+): number | null {
+  if (employment && changePercent !== null && changePercent !== undefined) {
+    return Math.round(employment * (1 + Number(changePercent) / 100))
+  }
+  return projectedEmployment ?? null
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the projections table if it does not exist
+ */
+export async function initializeProjectionsTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS employment_projections (
+      soc_code VARCHAR(10) PRIMARY KEY,
+      title VARCHAR(255),
+      base_year INTEGER NOT NULL,
+      projected_year INTEGER NOT NULL,
+      employment_base INTEGER,
+      employment_projected INTEGER,
+      change_numeric INTEGER,
+      change_percent NUMERIC(6,1),
+      annual_openings INTEGER,
+      typical_education VARCHAR(100),
+      source VARCHAR(50) NOT NULL,
+      imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `
+  rememberTable("employment_projections")
+}
+
+interface ProjectionRow {
+  soc_code: string
+  title: string | null
+  base_year: number
+  projected_year: number
+  employment_base: number | null
+  employment_projected: number | null
+  change_numeric: number | null
+  change_percent: string | null
+  annual_openings: number | null
+  typical_education: string | null
+  source: string
+  imported_at: string
+}
+
+function toEmploymentProjection(row: ProjectionRow): EmploymentProjection {
+  return {
+    socCode: row.soc_code,
+    title: row.title ?? "",
+    baseYear: row.base_year,
+    projectedYear: row.projected_year,
+    employmentBase: row.employment_base,
+    employmentProjected: row.employment_projected,
+    changeNumeric: row.change_numeric,
+    changePercent: row.change_percent !== null ? Number(row.change_percent) : null,
+    annualOpenings: row.annual_openings,
+    typicalEducation: row.typical_education,
+    source: row.source,
+    importedAt: row.imported_at,
+  }
+}
+
+/**
+ * Get an occupation's imported projection
+ */
+export async function getEmploymentProjection(socCode: string): Promise<EmploymentProjection | null> {
+  // Read on every job page; the table does not exist until the first import
+  if (!(await tableExists("employment_projections"))) return null
+
+  try {
+    const [row] = await sqlEnhanced<ProjectionRow>`
+      SELECT * FROM employment_projections WHERE soc_code = ${socCode}
+    `
+    return row ? toEmploymentProjection(row) : null
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Get the imported projections of several occupations
+ * @returns Projections keyed by SOC code; codes without one are omitted
+ */
+export async function getEmploymentProjections(socCodes: string[]): Promise<Map<string, EmploymentProjection>> {
+  if (!(await tableExists("employment_projections"))) return new Map()
+
+  try {
+    const rows = await sqlEnhanced<ProjectionRow>`
+      SELECT * FROM employment_projections WHERE soc_code = ANY(${socCodes})
+    `
+    return new Map(rows.map((row) => [row.soc_code, toEmploymentProjection(row)]))
+  } catch (error) {
+    if (isMissingTableError(error)) return new Map()
+    throw error
+  }
+}
+
+const INSERT_CHUNK_SIZE = 500
+
+/**
+ * Import parsed projections and copy them onto the matching jobs.  Scores are
+ * not touched here; re-score the returned codes with the active scoring model
+ * afterwards.
+ * @param records Parsed projection rows
+ * @param source Source marker stored on every row
+ * @returns Import statistics
+ */
+export async function importEmploymentProjections(
+  records: EmploymentProjectionRecord[],
+  source: string
+): Promise<ProjectionImportResult> {
+  await initializeProjectionsTable()
+  await ensureJobProjectionColumns()
+
+  for (let i = 0; i < records.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = records.slice(i, i + INSERT_CHUNK_SIZE)
+    await sqlEnhanced`
+      INSERT INTO employment_projections (
+        soc_code, title, base_year, projected_year, employment_base, employment_projected,
+        change_numeric, change_percent, annual_openings, typical_education, source, imported_at
+      )
+      SELECT *, ${source}, NOW() FROM UNNEST(
+        ${chunk.map((record) => record.socCode)}::varchar[],
+        ${chunk.map((record) => record.title)}::varchar[],
+        ${chunk.map((record) => record.baseYear)}::int[],
+        ${chunk.map((record) => record.projectedYear)}::int[],
+        ${chunk.map((record) => record.employmentBase)}::int[],
+        ${chunk.map((record) => record.employmentProjected)}::int[],
+        ${chunk.map((record) => record.changeNumeric)}::int[],
+        ${chunk.map((record) => record.changePercent)}::numeric[],
+        ${chunk.map((record) => record.annualOpenings)}::int[],
+        ${chunk.map((record) => record.typicalEducation)}::varchar[]
+      )
+      ON CONFLICT (soc_code)
+      DO UPDATE SET
+        title = EXCLUDED.title,
+        base_year = EXCLUDED.base_year,
+        projected_year = EXCLUDED.projected_year,
+        employment_base = EXCLUDED.employment_base,
+        employment_projected = EXCLUDED.employment_projected,
+        change_numeric = EXCLUDED.change_numeric,
+        change_percent = EXCLUDED.change_percent,
+        annual_openings = EXCLUDED.annual_openings,
+        typical_education = EXCLUDED.typical_education,
+        source = EXCLUDED.source,
+        imported_at = NOW()
+    `
+  }
+
+  // Analyst overrides keep their projected employment
+  const socCodes = records.map((record) => record.socCode)
+  const updated = await sqlEnhanced<{ occ_code: string }>`
+    UPDATE jobs SET
+      projected_employment_2033 = CASE WHEN jobs.data_source = 'override'
+        THEN jobs.projected_employment_2033 ELSE ep.employment_projected END,
+      projected_change_percent = ep.change_percent,
+      annual_openings = ep.annual_openings,
+      typical_education = ep.typical_education,
+      projections_source = ep.source,
+      updated_at = NOW()
+    FROM employment_projections ep
+    WHERE jobs.occ_code = ep.soc_code AND ep.soc_code = ANY(${socCodes})
+    RETURNING jobs.occ_code
+  `
+
+  return {
+    imported: records.length,
+    occupationCodes: updated.map((row) => row.occ_code).sort(),
+    jobsUpdated: updated.length,
+    source,
+  }
+}
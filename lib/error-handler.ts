@@ -211,7 +211,13 @@ export class ApiErrorHandler {
   }
 }
 
-export async function withRetry<T>(operation: () => Promise<T>, maxRetries = 3, baseDelay = 1000): Promise<T> {
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000,
+  // Errors for which this returns false are thrown without retrying
+  shouldRetry: (error: Error) => boolean = () => true
+): Promise<T> {
   let lastError: Error
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -220,7 +226,7 @@ export async function withRetry<T>(operation: () => Promise<T>, maxRetries = 3,
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error))
 
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || !shouldRetry(lastError)) {
         break
       }
 
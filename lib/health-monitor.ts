@@ -812,7 +812,8 @@ export class HealthMonitor extends EventEmitter {
         blockedKeys: apiKeysDetails?.blockedKeys || 0,
         totalRemainingRequests: apiKeysDetails?.totalRemainingRequests || 0,
         usagePercentage: apiKeysDetails?.totalKeys > 0
-          ? 100 - ((apiKeysDetails.totalRemainingRequests / (apiKeysDetails.totalKeys * 500)) * 100)
+          ? 100 - ((apiKeysDetails.totalRemainingRequests /
+              (apiKeysDetails.totalKeys * (this.blsService?.getOptions().dailyLimitPerKey ?? 500))) * 100)
           : 0
       },
       blsApi: {
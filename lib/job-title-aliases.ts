@@ -0,0 +1,233 @@
+import { isMissingTableError, rememberTable, sqlEnhanced, tableExists } from "./database-enhanced"
+import { toSocCode } from "./onet-tasks"
+
+/**
+ * Alternate job titles.
+ *
+ * `job_title_aliases` maps everyday titles ("Barista", "UX Designer", "Truck
+ * Driver") to the SOC code of the occupation they belong to.  It is filled
+ * from the O*NET "Alternate Titles" and "Sample of Reported Titles" files by
+ * scripts/import-job-title-aliases.ts, and every search and autocomplete route
+ * matches on it alongside the official occupation title.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export type AliasSource = "alternate" | "short" | "reported"
+
+export interface JobTitleAlias {
+  socCode: string
+  onetCode: string
+  alias: string
+  source: AliasSource
+}
+
+export interface AliasImportResult {
+  imported: number
+  occupations: number
+  crosswalked: number
+  unmatched: number
+}
+
+// ========== FILE PARSING ==========
+
+/**
+ * Lowercase an alias or search query and collapse its whitespace
+ */
+export function normalizeAlias(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+// Keep the first occurrence of each alias per occupation
+function dedupeAliases(aliases: JobTitleAlias[]): JobTitleAlias[] {
+  const seen = new Set<string>()
+  return aliases.filter((alias) => {
+    const key = `${alias.socCode}|${normalizeAlias(alias.alias)}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Parse "Alternate Titles" rows.  Short titles ("RN" for Registered Nurses)
+ * are kept as aliases of their own.
+ */
+export function parseAlternateTitles(rows: Array<Record<string, string>>): JobTitleAlias[] {
+  const aliases: JobTitleAlias[] = []
+  for (const row of rows) {
+    const onetCode = row["O*NET-SOC Code"]
+    if (!onetCode) continue
+
+    const alternate = row["Alternate Title"]
+    if (alternate) {
+      aliases.push({ socCode: toSocCode(onetCode), onetCode, alias: alternate, source: "alternate" })
+    }
+    const short = row["Short Title"]
+    if (short && short.toLowerCase() !== "n/a") {
+      aliases.push({ socCode: toSocCode(onetCode), onetCode, alias: short, source: "short" })
+    }
+  }
+  return dedupeAliases(aliases)
+}
+
+/**
+ * Parse "Sample of Reported Titles" rows
+ */
+export function parseReportedTitles(rows: Array<Record<string, string>>): JobTitleAlias[] {
+  const aliases: JobTitleAlias[] = []
+  for (const row of rows) {
+    const onetCode = row["O*NET-SOC Code"]
+    const reported = row["Reported Job Title"]
+    if (!onetCode || !reported) continue
+    aliases.push({ socCode: toSocCode(onetCode), onetCode, alias: reported, source: "reported" })
+  }
+  return dedupeAliases(aliases)
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the alias table if it does not exist
+ */
+export async function initializeJobTitleAliasesTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS job_title_aliases (
+      occ_code VARCHAR(10) NOT NULL,
+      alias VARCHAR(255) NOT NULL,
+      alias_normalized VARCHAR(255) NOT NULL,
+      onet_code VARCHAR(12),
+      source VARCHAR(20) NOT NULL,
+      imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (occ_code, alias_normalized)
+    )
+  `
+  await sqlEnhanced`
+    CREATE INDEX IF NOT EXISTS idx_job_title_aliases_normalized
+    ON job_title_aliases(alias_normalized text_pattern_ops)
+  `
+  rememberTable("job_title_aliases")
+}
+
+const INSERT_CHUNK_SIZE = 500
+
+/**
+ * Import parsed aliases.  O*NET splits some occupations that OEWS publishes
+ * as one broad group (31-1121 and 31-1122 under 31-1120); an alias whose SOC
+ * code has no job is filed under its broad group when that has one.  Aliases
+ * of occupations with neither are skipped.
+ * @param aliases Parsed aliases
+ * @returns Import statistics
+ */
+export async function importJobTitleAliases(aliases: JobTitleAlias[]): Promise<AliasImportResult> {
+  await initializeJobTitleAliasesTable()
+
+  const jobCodes = new Set(
+    (await sqlEnhanced<{ occ_code: string }>`SELECT occ_code FROM jobs`).map((job) => job.occ_code)
+  )
+
+  let crosswalked = 0
+  let unmatched = 0
+  const rows: Array<JobTitleAlias & { occCode: string }> = []
+  const seen = new Set<string>()
+  for (const alias of aliases) {
+    const broadCode = `${alias.socCode.slice(0, 6)}0`
+    const occCode = jobCodes.has(alias.socCode) ? alias.socCode : jobCodes.has(broadCode) ? broadCode : null
+    if (!occCode) {
+      unmatched++
+      continue
+    }
+    if (occCode !== alias.socCode) crosswalked++
+
+    const key = `${occCode}|${normalizeAlias(alias.alias)}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    rows.push({ ...alias, occCode })
+  }
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE)
+    await sqlEnhanced`
+      INSERT INTO job_title_aliases (occ_code, alias, alias_normalized, onet_code, source, imported_at)
+      SELECT *, NOW() FROM UNNEST(
+        ${chunk.map((row) => row.occCode)}::varchar[],
+        ${chunk.map((row) => row.alias)}::varchar[],
+        ${chunk.map((row) => normalizeAlias(row.alias))}::varchar[],
+        ${chunk.map((row) => row.onetCode)}::varchar[],
+        ${chunk.map((row) => row.source)}::varchar[]
+      )
+      ON CONFLICT (occ_code, alias_normalized)
+      DO UPDATE SET
+        alias = EXCLUDED.alias,
+        onet_code = EXCLUDED.onet_code,
+        source = EXCLUDED.source,
+        imported_at = NOW()
+    `
+  }
+
+  return {
+    imported: rows.length,
+    occupations: new Set(rows.map((row) => row.occCode)).size,
+    crosswalked,
+    unmatched,
+  }
+}
+
+// ========== SEARCH ==========
+
+// Match user text literally: % and _ are LIKE wildcards and backslash escapes them
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&")
+}
+
+/**
+ * Find the occupations with an alias containing every word of a search
+ * query, with the best-matching alias of each: exact matches first, then
+ * aliases starting with the query, then the shortest.
+ * @param query Search text as typed
+ * @param limit Maximum number of occupations
+ * @returns Matched alias by occupation code, best matches first; empty when no aliases are imported
+ */
+export async function findAliasMatches(query: string, limit = 200): Promise<Map<string, string>> {
+  const normalized = normalizeAlias(query)
+  if (!normalized) return new Map()
+  if (!(await tableExists("job_title_aliases"))) return new Map()
+  const escaped = escapeLikePattern(normalized)
+  const patterns = escaped.split(" ").map((word) => `%${word}%`)
+
+  try {
+    const rows = await sqlEnhanced<{ occ_code: string; alias: string }>`
+      SELECT occ_code, alias FROM (
+        SELECT DISTINCT ON (occ_code) occ_code, alias,
+          CASE
+            WHEN alias_normalized = ${normalized} THEN 0
+            WHEN alias_normalized LIKE ${`${escaped}%`} THEN 1
+            ELSE 2
+          END AS rank
+        FROM job_title_aliases
+        WHERE alias_normalized LIKE ALL(${patterns}::text[])
+        ORDER BY occ_code, rank, LENGTH(alias), alias
+      ) best
+      ORDER BY rank, LENGTH(alias), alias
+      LIMIT ${limit}
+    `
+    return new Map(rows.map((row) => [row.occ_code, row.alias]))
+  } catch (error) {
+    if (isMissingTableError(error)) return new Map()
+    throw error
+  }
+}
+
+/**
+ * The alias a search result was found by, or null when its official title
+ * already contains the query
+ */
+export function matchedAliasFor(
+  matches: Map<string, string>,
+  occupationCode: string,
+  occupationTitle: string,
+  query: string
+): string | null {
+  if (normalizeAlias(occupationTitle).includes(normalizeAlias(query))) return null
+  return matches.get(occupationCode) ?? null
+}
@@ -0,0 +1,142 @@
+/**
+ * OEWS geographic areas.
+ *
+ * OEWS publishes estimates for the nation, each state and each metropolitan
+ * statistical area (MSA).  Every area has a 7-digit code that is part of the
+ * series ID: "0000000" for the nation, the state FIPS code followed by zeros
+ * for states, and the CBSA code padded with leading zeros for metro areas.
+ * This module is plain data so it can be used on the client as well.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export type OEWSAreaType = "national" | "state" | "metro"
+
+export interface OEWSArea {
+  type: OEWSAreaType
+  code: string
+  name: string
+}
+
+// ========== AREAS ==========
+
+export const NATIONAL_AREA: OEWSArea = { type: "national", code: "0000000", name: "United States" }
+
+const STATES: Array<[fips: string, name: string]> = [
+  ["01", "Alabama"],
+  ["02", "Alaska"],
+  ["04", "Arizona"],
+  ["05", "Arkansas"],
+  ["06", "California"],
+  ["08", "Colorado"],
+  ["09", "Connecticut"],
+  ["10", "Delaware"],
+  ["11", "District of Columbia"],
+  ["12", "Florida"],
+  ["13", "Georgia"],
+  ["15", "Hawaii"],
+  ["16", "Idaho"],
+  ["17", "Illinois"],
+  ["18", "Indiana"],
+  ["19", "Iowa"],
+  ["20", "Kansas"],
+  ["21", "Kentucky"],
+  ["22", "Louisiana"],
+  ["23", "Maine"],
+  ["24", "Maryland"],
+  ["25", "Massachusetts"],
+  ["26", "Michigan"],
+  ["27", "Minnesota"],
+  ["28", "Mississippi"],
+  ["29", "Missouri"],
+  ["30", "Montana"],
+  ["31", "Nebraska"],
+  ["32", "Nevada"],
+  ["33", "New Hampshire"],
+  ["34", "New Jersey"],
+  ["35", "New Mexico"],
+  ["36", "New York"],
+  ["37", "North Carolina"],
+  ["38", "North Dakota"],
+  ["39", "Ohio"],
+  ["40", "Oklahoma"],
+  ["41", "Oregon"],
+  ["42", "Pennsylvania"],
+  ["44", "Rhode Island"],
+  ["45", "South Carolina"],
+  ["46", "South Dakota"],
+  ["47", "Tennessee"],
+  ["48", "Texas"],
+  ["49", "Utah"],
+  ["50", "Vermont"],
+  ["51", "Virginia"],
+  ["53", "Washington"],
+  ["54", "West Virginia"],
+  ["55", "Wisconsin"],
+  ["56", "Wyoming"],
+  ["72", "Puerto Rico"],
+]
+
+// The largest metro areas by employment, keyed by CBSA code
+const METROS: Array<[cbsa: string, name: string]> = [
+  ["35620", "New York-Newark-Jersey City, NY-NJ-PA"],
+  ["31080", "Los Angeles-Long Beach-Anaheim, CA"],
+  ["16980", "Chicago-Naperville-Elgin, IL-IN-WI"],
+  ["19100", "Dallas-Fort Worth-Arlington, TX"],
+  ["26420", "Houston-The Woodlands-Sugar Land, TX"],
+  ["47900", "Washington-Arlington-Alexandria, DC-VA-MD-WV"],
+  ["33100", "Miami-Fort Lauderdale-West Palm Beach, FL"],
+  ["37980", "Philadelphia-Camden-Wilmington, PA-NJ-DE-MD"],
+  ["12060", "Atlanta-Sandy Springs-Roswell, GA"],
+  ["14460", "Boston-Cambridge-Newton, MA-NH"],
+  ["38060", "Phoenix-Mesa-Chandler, AZ"],
+  ["41860", "San Francisco-Oakland-Berkeley, CA"],
+  ["40140", "Riverside-San Bernardino-Ontario, CA"],
+  ["19820", "Detroit-Warren-Dearborn, MI"],
+  ["42660", "Seattle-Tacoma-Bellevue, WA"],
+  ["33460", "Minneapolis-St. Paul-Bloomington, MN-WI"],
+  ["41740", "San Diego-Chula Vista-Carlsbad, CA"],
+  ["45300", "Tampa-St. Petersburg-Clearwater, FL"],
+  ["19740", "Denver-Aurora-Lakewood, CO"],
+  ["12580", "Baltimore-Columbia-Towson, MD"],
+  ["41180", "St. Louis, MO-IL"],
+  ["36740", "Orlando-Kissimmee-Sanford, FL"],
+  ["16740", "Charlotte-Concord-Gastonia, NC-SC"],
+  ["41700", "San Antonio-New Braunfels, TX"],
+  ["38900", "Portland-Vancouver-Hillsboro, OR-WA"],
+  ["12420", "Austin-Round Rock-Georgetown, TX"],
+  ["41940", "San Jose-Sunnyvale-Santa Clara, CA"],
+  ["38300", "Pittsburgh, PA"],
+  ["29820", "Las Vegas-Henderson-Paradise, NV"],
+  ["34980", "Nashville-Davidson--Murfreesboro--Franklin, TN"],
+]
+
+export const STATE_AREAS: OEWSArea[] = STATES.map(([fips, name]) => ({
+  type: "state",
+  code: `${fips}00000`,
+  name,
+}))
+
+export const METRO_AREAS: OEWSArea[] = METROS.map(([cbsa, name]) => ({
+  type: "metro",
+  code: cbsa.padStart(7, "0"),
+  name,
+}))
+
+export const OEWS_AREAS: OEWSArea[] = [NATIONAL_AREA, ...STATE_AREAS, ...METRO_AREAS]
+
+// ========== LOOKUPS ==========
+
+/**
+ * Look up an area by its 7-digit OEWS area code
+ */
+export function getOEWSArea(code: string): OEWSArea | null {
+  return OEWS_AREAS.find((area) => area.code === code) ?? null
+}
+
+/**
+ * Series ID prefix letter for an area type
+ */
+export function oewsAreaTypeCode(type: OEWSAreaType): string {
+  return type === "national" ? "N" : type === "state" ? "S" : "M"
+}
@@ -0,0 +1,643 @@
+import { isMissingTableError, rememberTable, sqlEnhanced, tableExists } from "./database-enhanced"
+
+/**
+ * O*NET task statements and work activities.
+ *
+ * The importer loads the O*NET database text files (tab-delimited .txt as
+ * published, or CSV exports of them) into `onet_tasks` and
+ * `onet_work_activities`, keyed by the 6-digit SOC code the rest of the app
+ * uses.  Each task gets an automatability score; the per-occupation roll-up
+ * feeds the `task_automation` factor of the scoring engine and the most
+ * risk-driving tasks are written to `jobs.key_tasks`.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export interface OnetTaskRecord {
+  socCode: string
+  onetCode: string
+  taskId: number
+  task: string
+  taskType: string | null
+  importance: number | null
+}
+
+export interface OnetWorkActivityRecord {
+  socCode: string
+  onetCode: string
+  elementId: string
+  elementName: string
+  importance: number | null
+  level: number | null
+}
+
+export interface TaskAutomationAssessment {
+  score: number
+  rationale: string
+}
+
+export interface KeyTask {
+  taskId: number
+  task: string
+  importance: number | null
+  automationScore: number
+  rationale: string
+}
+
+export interface OccupationTaskScore {
+  socCode: string
+  taskScore: number | null
+  activityScore: number | null
+  combinedScore: number
+  keyTasks: KeyTask[]
+}
+
+export interface OnetImportResult {
+  tasksImported: number
+  activitiesImported: number
+  occupationCodes: string[]
+  jobsUpdated: number
+  errors: string[]
+}
+
+// ========== AUTOMATABILITY HEURISTICS ==========
+
+/**
+ * Verbs and phrases that indicate routine, rule-based work which current AI
+ * and automation handle well, with the points they add to a task's score.
+ */
+const AUTOMATABLE_TERMS: Array<[string, number]> = [
+  ["enter data", 30],
+  ["data entry", 30],
+  ["record", 15],
+  ["compile", 15],
+  ["calculate", 15],
+  ["compute", 15],
+  ["process", 12],
+  ["file", 12],
+  ["sort", 12],
+  ["verify", 10],
+  ["tabulate", 15],
+  ["transcribe", 20],
+  ["type", 15],
+  ["schedule", 10],
+  ["prepare reports", 12],
+  ["prepare invoices", 15],
+  ["maintain records", 15],
+  ["update records", 15],
+  ["answer inquiries", 10],
+  ["operate", 8],
+  ["monitor", 8],
+  ["inspect", 6],
+  ["count", 10],
+  ["collect", 8],
+  ["review", 5],
+  ["translate", 12],
+  ["summarize", 10],
+  ["code", 8],
+]
+
+/**
+ * Verbs and phrases that indicate judgment, interpersonal or physical
+ * dexterity work that resists automation, with the points they subtract.
+ */
+const RESISTANT_TERMS: Array<[string, number]> = [
+  ["counsel", 25],
+  ["negotiate", 20],
+  ["supervise", 15],
+  ["direct", 12],
+  ["lead", 12],
+  ["teach", 20],
+  ["train", 10],
+  ["mentor", 20],
+  ["diagnose", 15],
+  ["treat", 20],
+  ["care for", 25],
+  ["comfort", 25],
+  ["design", 12],
+  ["develop", 8],
+  ["create", 12],
+  ["advise", 15],
+  ["persuade", 15],
+  ["interview", 12],
+  ["coordinate", 8],
+  ["resolve", 10],
+  ["investigate", 10],
+  ["repair", 12],
+  ["install", 10],
+  ["perform surgery", 30],
+  ["respond to emergencies", 25],
+]
+
+/**
+ * Automatability of O*NET generalized work activities (element names).
+ * Activities not listed are treated as neutral (50).
+ */
+const WORK_ACTIVITY_SCORES: Record<string, number> = {
+  "Getting Information": 70,
+  "Processing Information": 85,
+  "Documenting/Recording Information": 85,
+  "Analyzing Data or Information": 70,
+  "Evaluating Information to Determine Compliance with Standards": 65,
+  "Monitoring Processes, Materials, or Surroundings": 65,
+  "Working with Computers": 70,
+  "Estimating the Quantifiable Characteristics of Products, Events, or Information": 70,
+  "Controlling Machines and Processes": 60,
+  "Scheduling Work and Activities": 60,
+  "Performing Administrative Activities": 80,
+  "Handling and Moving Objects": 55,
+  "Operating Vehicles, Mechanized Devices, or Equipment": 55,
+  "Thinking Creatively": 20,
+  "Making Decisions and Solving Problems": 35,
+  "Developing Objectives and Strategies": 25,
+  "Establishing and Maintaining Interpersonal Relationships": 15,
+  "Assisting and Caring for Others": 10,
+  "Selling or Influencing Others": 30,
+  "Resolving Conflicts and Negotiating with Others": 15,
+  "Performing for or Working Directly with the Public": 25,
+  "Coaching and Developing Others": 15,
+  "Training and Teaching Others": 20,
+  "Guiding, Directing, and Motivating Subordinates": 15,
+  "Coordinating the Work and Activities of Others": 25,
+  "Repairing and Maintaining Mechanical Equipment": 30,
+  "Repairing and Maintaining Electronic Equipment": 35,
+  "Performing General Physical Activities": 40,
+}
+
+// Whole-word matchers, so "lead" does not match "mislead" nor "code" "encode";
+// a plural ending is allowed so "record" still matches "records"
+function termMatchers(terms: Array<[string, number]>): Array<[string, RegExp, number]> {
+  return terms.map(([term, points]) => [term, new RegExp(`\\b${term.replace(/ /g, "\\s+")}(?:s|es)?\\b`), points])
+}
+
+const AUTOMATABLE_MATCHERS = termMatchers(AUTOMATABLE_TERMS)
+const RESISTANT_MATCHERS = termMatchers(RESISTANT_TERMS)
+
+// Tasks outweigh the broader work-activity profile in the occupation roll-up
+const TASK_SCORE_WEIGHT = 0.7
+const MAX_KEY_TASKS = 10
+
+/**
+ * Score how automatable a single task statement is
+ * @param task O*NET task statement
+ * @returns 0-100 score and the terms that moved it
+ */
+export function scoreTaskAutomation(task: string): TaskAutomationAssessment {
+  const text = task.toLowerCase()
+  let score = 50
+  const automatable: string[] = []
+  const resistant: string[] = []
+
+  for (const [term, pattern, points] of AUTOMATABLE_MATCHERS) {
+    if (pattern.test(text)) {
+      score += points
+      automatable.push(term)
+    }
+  }
+  for (const [term, pattern, points] of RESISTANT_MATCHERS) {
+    if (pattern.test(text)) {
+      score -= points
+      resistant.push(term)
+    }
+  }
+
+  const parts: string[] = []
+  if (automatable.length > 0) parts.push(`routine: ${automatable.join(", ")}`)
+  if (resistant.length > 0) parts.push(`human judgment/contact: ${resistant.join(", ")}`)
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    rationale: parts.length > 0 ? parts.join("; ") : "no strong indicators",
+  }
+}
+
+/**
+ * Score a generalized work activity by its O*NET element name
+ */
+export function scoreWorkActivity(elementName: string): number {
+  return WORK_ACTIVITY_SCORES[elementName] ?? 50
+}
+
+// ========== FILE PARSING ==========
+
+/**
+ * Convert an O*NET-SOC code ("15-1252.00") to the 6-digit SOC code used by
+ * the jobs table ("15-1252")
+ */
+export function toSocCode(onetCode: string): string {
+  return onetCode.trim().split(".")[0]
+}
+
+/**
+ * Parse tab- or comma-delimited text into header-keyed rows.  The delimiter is
+ * detected from the header line when not given.  Quoted CSV fields (including
+ * embedded delimiters and doubled quotes) are supported.
+ */
+export function parseDelimited(content: string, delimiter?: string): Array<Record<string, string>> {
+  const lines = content.replace(/^﻿/, "").split(/\r?\n/).filter((line) => line.trim().length > 0)
+  if (lines.length === 0) return []
+
+  const separator = delimiter ?? (lines[0].includes("\t") ? "\t" : ",")
+  const splitLine = (line: string): string[] => {
+    if (separator === "\t") return line.split("\t")
+
+    const fields: string[] = []
+    let current = ""
+    let inQuotes = false
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (inQuotes) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"'
+          i++
+        } else if (char === '"') {
+          inQuotes = false
+        } else {
+          current += char
+        }
+      } else if (char === '"') {
+        inQuotes = true
+      } else if (char === separator) {
+        fields.push(current)
+        current = ""
+      } else {
+        current += char
+      }
+    }
+    fields.push(current)
+    return fields
+  }
+
+  const headers = splitLine(lines[0]).map((header) => header.trim())
+  return lines.slice(1).map((line) => {
+    const values = splitLine(line)
+    const row: Record<string, string> = {}
+    headers.forEach((header, index) => {
+      row[header] = (values[index] ?? "").trim()
+    })
+    return row
+  })
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null
+  const parsed = Number.parseFloat(value)
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Parse "Task Statements" rows, optionally joined with "Task Ratings" rows to
+ * pick up each task's importance (IM scale).  Without ratings, core tasks get
+ * importance 4 and supplemental tasks 2 on the 1-5 O*NET scale.
+ */
+export function parseTaskStatements(
+  statements: Array<Record<string, string>>,
+  ratings: Array<Record<string, string>> = []
+): OnetTaskRecord[] {
+  const importanceByTask = new Map<string, number>()
+  for (const row of ratings) {
+    if (row["Scale ID"] !== "IM") continue
+    const value = parseNumber(row["Data Value"])
+    if (value !== null) {
+      importanceByTask.set(`${row["O*NET-SOC Code"]}|${row["Task ID"]}`, value)
+    }
+  }
+
+  const records: OnetTaskRecord[] = []
+  for (const row of statements) {
+    const onetCode = row["O*NET-SOC Code"]
+    const taskId = Number.parseInt(row["Task ID"], 10)
+    if (!onetCode || isNaN(taskId) || !row["Task"]) continue
+
+    const taskType = row["Task Type"] || null
+    const importance =
+      importanceByTask.get(`${onetCode}|${row["Task ID"]}`) ?? (taskType === "Supplemental" ? 2 : 4)
+
+    records.push({
+      socCode: toSocCode(onetCode),
+      onetCode,
+      taskId,
+      task: row["Task"],
+      taskType,
+      importance,
+    })
+  }
+  return records
+}
+
+/**
+ * Parse "Work Activities" rows, merging the importance (IM) and level (LV)
+ * scale rows for each occupation/element pair into one record
+ */
+export function parseWorkActivities(rows: Array<Record<string, string>>): OnetWorkActivityRecord[] {
+  const byKey = new Map<string, OnetWorkActivityRecord>()
+
+  for (const row of rows) {
+    const onetCode = row["O*NET-SOC Code"]
+    const elementId = row["Element ID"]
+    if (!onetCode || !elementId) continue
+
+    const key = `${onetCode}|${elementId}`
+    const record = byKey.get(key) ?? {
+      socCode: toSocCode(onetCode),
+      onetCode,
+      elementId,
+      elementName: row["Element Name"],
+      importance: null,
+      level: null,
+    }
+
+    const value = parseNumber(row["Data Value"])
+    if (row["Scale ID"] === "IM") record.importance = value
+    if (row["Scale ID"] === "LV") record.level = value
+    byKey.set(key, record)
+  }
+
+  return Array.from(byKey.values())
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the O*NET tables if they do not exist
+ */
+export async function initializeOnetTables(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS onet_tasks (
+      id SERIAL PRIMARY KEY,
+      soc_code VARCHAR(10) NOT NULL,
+      onet_code VARCHAR(12) NOT NULL,
+      task_id INTEGER NOT NULL,
+      task TEXT NOT NULL,
+      task_type VARCHAR(20),
+      importance DECIMAL(5,2),
+      automation_score INTEGER,
+      automation_rationale TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (onet_code, task_id)
+    )
+  `
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS onet_work_activities (
+      id SERIAL PRIMARY KEY,
+      soc_code VARCHAR(10) NOT NULL,
+      onet_code VARCHAR(12) NOT NULL,
+      element_id VARCHAR(20) NOT NULL,
+      element_name VARCHAR(255) NOT NULL,
+      importance DECIMAL(5,2),
+      level DECIMAL(5,2),
+      automation_score INTEGER,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (onet_code, element_id)
+    )
+  `
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_onet_tasks_soc_code ON onet_tasks(soc_code)`
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_onet_work_activities_soc_code ON onet_work_activities(soc_code)`
+  rememberTable("onet_tasks")
+  rememberTable("onet_work_activities")
+}
+
+const INSERT_CHUNK_SIZE = 500
+
+async function upsertTasks(tasks: OnetTaskRecord[]): Promise<number> {
+  let imported = 0
+
+  for (let i = 0; i < tasks.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = tasks.slice(i, i + INSERT_CHUNK_SIZE)
+    const assessments = chunk.map((task) => scoreTaskAutomation(task.task))
+
+    await sqlEnhanced`
+      INSERT INTO onet_tasks (
+        soc_code, onet_code, task_id, task, task_type, importance,
+        automation_score, automation_rationale, created_at, updated_at
+      )
+      SELECT *, NOW(), NOW() FROM UNNEST(
+        ${chunk.map((task) => task.socCode)}::varchar[],
+        ${chunk.map((task) => task.onetCode)}::varchar[],
+        ${chunk.map((task) => task.taskId)}::int[],
+        ${chunk.map((task) => task.task)}::text[],
+        ${chunk.map((task) => task.taskType)}::varchar[],
+        ${chunk.map((task) => task.importance)}::decimal[],
+        ${assessments.map((assessment) => assessment.score)}::int[],
+        ${assessments.map((assessment) => assessment.rationale)}::text[]
+      )
+      ON CONFLICT (onet_code, task_id)
+      DO UPDATE SET
+        soc_code = EXCLUDED.soc_code,
+        task = EXCLUDED.task,
+        task_type = EXCLUDED.task_type,
+        importance = EXCLUDED.importance,
+        automation_score = EXCLUDED.automation_score,
+        automation_rationale = EXCLUDED.automation_rationale,
+        updated_at = NOW()
+    `
+    imported += chunk.length
+  }
+
+  return imported
+}
+
+async function upsertWorkActivities(activities: OnetWorkActivityRecord[]): Promise<number> {
+  let imported = 0
+
+  for (let i = 0; i < activities.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = activities.slice(i, i + INSERT_CHUNK_SIZE)
+
+    await sqlEnhanced`
+      INSERT INTO onet_work_activities (
+        soc_code, onet_code, element_id, element_name, importance, level,
+        automation_score, created_at, updated_at
+      )
+      SELECT *, NOW(), NOW() FROM UNNEST(
+        ${chunk.map((activity) => activity.socCode)}::varchar[],
+        ${chunk.map((activity) => activity.onetCode)}::varchar[],
+        ${chunk.map((activity) => activity.elementId)}::varchar[],
+        ${chunk.map((activity) => activity.elementName)}::varchar[],
+        ${chunk.map((activity) => activity.importance)}::decimal[],
+        ${chunk.map((activity) => activity.level)}::decimal[],
+        ${chunk.map((activity) => scoreWorkActivity(activity.elementName))}::int[]
+      )
+      ON CONFLICT (onet_code, element_id)
+      DO UPDATE SET
+        soc_code = EXCLUDED.soc_code,
+        element_name = EXCLUDED.element_name,
+        importance = EXCLUDED.importance,
+        level = EXCLUDED.level,
+        automation_score = EXCLUDED.automation_score,
+        updated_at = NOW()
+    `
+    imported += chunk.length
+  }
+
+  return imported
+}
+
+function weightedAverage(items: Array<{ value: number; weight: number }>): number | null {
+  const totalWeight = items.reduce((total, item) => total + item.weight, 0)
+  if (totalWeight <= 0) return null
+  return items.reduce((total, item) => total + item.value * item.weight, 0) / totalWeight
+}
+
+interface StoredTask {
+  soc_code: string
+  task_id: number
+  task: string
+  importance: string | null
+  automation_score: number
+  automation_rationale: string
+}
+
+interface StoredWorkActivity {
+  soc_code: string
+  importance: string | null
+  automation_score: number
+}
+
+// Roll one occupation's task and work-activity scores up to a single score
+function rollUpTaskScore(socCode: string, tasks: StoredTask[], activities: StoredWorkActivity[]): OccupationTaskScore {
+  const taskScore = weightedAverage(
+    tasks.map((task) => ({ value: task.automation_score, weight: Number(task.importance ?? 1) }))
+  )
+  const activityScore = weightedAverage(
+    activities.map((activity) => ({ value: activity.automation_score, weight: Number(activity.importance ?? 1) }))
+  )
+
+  const combinedScore =
+    taskScore !== null && activityScore !== null
+      ? taskScore * TASK_SCORE_WEIGHT + activityScore * (1 - TASK_SCORE_WEIGHT)
+      : (taskScore ?? activityScore)!
+
+  // The tasks that push the occupation's risk up the most: automatable and important
+  const keyTasks: KeyTask[] = tasks
+    .map((task) => ({
+      taskId: task.task_id,
+      task: task.task,
+      importance: task.importance !== null ? Number(task.importance) : null,
+      automationScore: task.automation_score,
+      rationale: task.automation_rationale,
+    }))
+    .sort((a, b) => b.automationScore * (b.importance ?? 1) - a.automationScore * (a.importance ?? 1))
+    .slice(0, MAX_KEY_TASKS)
+
+  return {
+    socCode,
+    taskScore: taskScore !== null ? Math.round(taskScore) : null,
+    activityScore: activityScore !== null ? Math.round(activityScore) : null,
+    combinedScore: Math.round(combinedScore),
+    keyTasks,
+  }
+}
+
+/**
+ * Roll task and work-activity scores up to occupation scores, reading the
+ * stored O*NET data for all codes in one query per table
+ * @param socCodes 6-digit SOC codes
+ * @returns Occupation task score by code; codes without O*NET data are left
+ *          out, and the map is empty until O*NET data has been imported
+ */
+export async function getOccupationTaskScores(socCodes: string[]): Promise<Map<string, OccupationTaskScore>> {
+  const scores = new Map<string, OccupationTaskScore>()
+  if (socCodes.length === 0) return scores
+  if (!(await tableExists("onet_tasks")) || !(await tableExists("onet_work_activities"))) return scores
+
+  try {
+    const tasks = await sqlEnhanced<StoredTask>`
+      SELECT soc_code, task_id, task, importance, automation_score, automation_rationale
+      FROM onet_tasks
+      WHERE soc_code = ANY(${socCodes})
+    `
+    const activities = await sqlEnhanced<StoredWorkActivity>`
+      SELECT soc_code, importance, automation_score
+      FROM onet_work_activities
+      WHERE soc_code = ANY(${socCodes})
+    `
+
+    const tasksByCode = new Map<string, StoredTask[]>()
+    for (const task of tasks) {
+      if (!tasksByCode.has(task.soc_code)) tasksByCode.set(task.soc_code, [])
+      tasksByCode.get(task.soc_code)!.push(task)
+    }
+    const activitiesByCode = new Map<string, StoredWorkActivity[]>()
+    for (const activity of activities) {
+      if (!activitiesByCode.has(activity.soc_code)) activitiesByCode.set(activity.soc_code, [])
+      activitiesByCode.get(activity.soc_code)!.push(activity)
+    }
+
+    for (const socCode of socCodes) {
+      const codeTasks = tasksByCode.get(socCode) ?? []
+      const codeActivities = activitiesByCode.get(socCode) ?? []
+      if (codeTasks.length === 0 && codeActivities.length === 0) continue
+      scores.set(socCode, rollUpTaskScore(socCode, codeTasks, codeActivities))
+    }
+  } catch (error) {
+    if (!isMissingTableError(error)) {
+      console.error(`Error loading O*NET task scores for ${socCodes.length} occupations:`, error)
+    }
+  }
+
+  return scores
+}
+
+/**
+ * Store the most risk-driving tasks of each occupation in `jobs.key_tasks`
+ * @param socCodes Codes to update
+ * @param errors Collects per-occupation failures
+ * @returns Number of jobs updated
+ */
+async function applyKeyTasksToJobs(socCodes: string[], errors: string[]): Promise<number> {
+  let updated = 0
+  const taskScores = await getOccupationTaskScores(socCodes)
+
+  for (const socCode of socCodes) {
+    try {
+      const taskScore = taskScores.get(socCode)
+      if (!taskScore || taskScore.keyTasks.length === 0) continue
+
+      const result = await sqlEnhanced`
+        UPDATE jobs SET
+          key_tasks = ${JSON.stringify(taskScore.keyTasks)},
+          updated_at = NOW()
+        WHERE occ_code = ${socCode}
+        RETURNING occ_code
+      `
+      updated += result.length
+    } catch (error) {
+      errors.push(`${socCode}: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  return updated
+}
+
+/**
+ * Import parsed O*NET records and store each occupation's key tasks.  Scores
+ * are not touched here; re-score the returned codes with the active scoring
+ * model afterwards.
+ * @param tasks Parsed task statements
+ * @param activities Parsed work activities
+ * @returns Import statistics
+ */
+export async function importOnetData(
+  tasks: OnetTaskRecord[],
+  activities: OnetWorkActivityRecord[] = []
+): Promise<OnetImportResult> {
+  const errors: string[] = []
+
+  await initializeOnetTables()
+
+  const tasksImported = await upsertTasks(tasks)
+  const activitiesImported = await upsertWorkActivities(activities)
+
+  const socCodes = Array.from(new Set([...tasks, ...activities].map((record) => record.socCode))).sort()
+  const jobsUpdated = await applyKeyTasksToJobs(socCodes, errors)
+
+  return {
+    tasksImported,
+    activitiesImported,
+    occupationCodes: socCodes,
+    jobsUpdated,
+    errors,
+  }
+}
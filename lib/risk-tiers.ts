@@ -0,0 +1,152 @@
+/**
+ * Automation risk tiers.
+ *
+ * The single definition of how a 0-100 AI impact score maps to a risk tier.
+ * API filters, the scoring engine, stored `automation_risk` labels and UI
+ * badges all derive from this table, so changing a threshold here changes it
+ * everywhere.  This module has no server dependencies and is safe to import
+ * from client components.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export type RiskTierId = "very-high" | "high" | "medium" | "low" | "very-low"
+
+export type RiskTierLabel = "Very High" | "High" | "Medium" | "Low" | "Very Low"
+
+export interface RiskTierColors {
+  // Tailwind classes for outline badges
+  badge: string
+  // Tailwind text color class
+  text: string
+  // Tailwind background class for progress bars
+  bar: string
+  // Hex color for charts and inline styles
+  hex: string
+}
+
+export interface RiskTier {
+  id: RiskTierId
+  label: RiskTierLabel
+  // Inclusive score range
+  minScore: number
+  maxScore: number
+  summary: string
+  description: string
+  colors: RiskTierColors
+}
+
+// ========== TIER DEFINITIONS ==========
+
+/**
+ * Tiers ordered from highest to lowest risk
+ */
+export const RISK_TIERS: readonly RiskTier[] = [
+  {
+    id: "very-high",
+    label: "Very High",
+    minScore: 80,
+    maxScore: 100,
+    summary: "Very high risk of automation",
+    description:
+      "This occupation may be significantly impacted by AI and automation technologies in the coming decade.",
+    colors: {
+      badge: "bg-red-100 text-red-800 border-red-200",
+      text: "text-red-700",
+      bar: "bg-red-600",
+      hex: "#DC2626",
+    },
+  },
+  {
+    id: "high",
+    label: "High",
+    minScore: 60,
+    maxScore: 79,
+    summary: "High risk of automation",
+    description: "Many tasks in this occupation could be automated, requiring significant adaptation.",
+    colors: {
+      badge: "bg-orange-100 text-orange-800 border-orange-200",
+      text: "text-orange-700",
+      bar: "bg-orange-500",
+      hex: "#F97316",
+    },
+  },
+  {
+    id: "medium",
+    label: "Medium",
+    minScore: 40,
+    maxScore: 59,
+    summary: "Medium risk of automation",
+    description: "Some tasks may be automated, but the core of the role will likely remain.",
+    colors: {
+      badge: "bg-yellow-100 text-yellow-800 border-yellow-200",
+      text: "text-yellow-700",
+      bar: "bg-yellow-500",
+      hex: "#EAB308",
+    },
+  },
+  {
+    id: "low",
+    label: "Low",
+    minScore: 20,
+    maxScore: 39,
+    summary: "Low risk of automation",
+    description: "This occupation will be somewhat affected by AI but should remain largely intact.",
+    colors: {
+      badge: "bg-blue-100 text-blue-800 border-blue-200",
+      text: "text-blue-700",
+      bar: "bg-blue-500",
+      hex: "#3B82F6",
+    },
+  },
+  {
+    id: "very-low",
+    label: "Very Low",
+    minScore: 0,
+    maxScore: 19,
+    summary: "Very low risk of automation",
+    description:
+      "This occupation requires skills that are difficult to automate and may benefit from AI augmentation.",
+    colors: {
+      badge: "bg-green-100 text-green-800 border-green-200",
+      text: "text-green-700",
+      bar: "bg-green-500",
+      hex: "#22C55E",
+    },
+  },
+]
+
+// Filter values accepted before the tiers were unified
+const LEGACY_TIER_ALIASES: Record<string, RiskTierId> = {
+  safe: "very-low",
+}
+
+// ========== LOOKUPS ==========
+
+/**
+ * Get the tier a score falls into.  Scores outside 0-100 are clamped.
+ */
+export function getRiskTier(score: number): RiskTier {
+  const clamped = Math.max(0, Math.min(100, Math.round(score)))
+  return RISK_TIERS.find((tier) => clamped >= tier.minScore) ?? RISK_TIERS[RISK_TIERS.length - 1]
+}
+
+/**
+ * Get a tier by its id
+ */
+export function getRiskTierById(id: RiskTierId): RiskTier {
+  return RISK_TIERS.find((tier) => tier.id === id)!
+}
+
+/**
+ * Resolve a filter value to a tier.  Accepts tier ids ("very-high"), labels
+ * in any case ("Very High", "very high") and legacy aliases ("safe").
+ * @returns The tier, or null if the value does not name one
+ */
+export function parseRiskTier(value: string | null | undefined): RiskTier | null {
+  if (!value) return null
+
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, "-")
+  const id = LEGACY_TIER_ALIASES[normalized] ?? normalized
+  return RISK_TIERS.find((tier) => tier.id === id) ?? null
+}
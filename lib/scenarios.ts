@@ -0,0 +1,277 @@
+import { sqlEnhanced } from "./database-enhanced"
+import { getRiskTier, type RiskTierLabel } from "./risk-tiers"
+
+/**
+ * AI adoption scenarios.
+ *
+ * A scenario assigns an adoption-speed multiplier to SOC major groups (the
+ * two-digit code prefix).  A multiplier of 1 keeps the stored score; 1.5 means
+ * adoption in that group is 50% faster than the model assumes, which raises
+ * the score and shifts projected 2033 employment accordingly.  Scenarios are
+ * computed in memory from the stored scores and never write to `jobs`.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export type AdoptionMultipliers = Record<string, number>
+
+export interface SavedScenario {
+  name: string
+  description: string | null
+  multipliers: AdoptionMultipliers
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScenarioOccupation {
+  code: string
+  title: string
+  majorGroup: string
+  multiplier: number
+  baseScore: number
+  scenarioScore: number
+  scoreDelta: number
+  baseRisk: RiskTierLabel
+  scenarioRisk: RiskTierLabel
+  employment2023: number | null
+  baseProjectedEmployment2033: number | null
+  scenarioProjectedEmployment2033: number | null
+}
+
+export interface ScenarioGroupSummary {
+  majorGroup: string
+  multiplier: number
+  occupations: number
+  averageBaseScore: number
+  averageScenarioScore: number
+  baseProjectedEmployment2033: number
+  scenarioProjectedEmployment2033: number
+}
+
+export interface ScenarioResult {
+  multipliers: AdoptionMultipliers
+  occupations: ScenarioOccupation[]
+  groups: ScenarioGroupSummary[]
+  riskChanged: number
+  baseProjectedEmployment2033: number
+  scenarioProjectedEmployment2033: number
+}
+
+// ========== CONSTANTS ==========
+
+const MIN_MULTIPLIER = 0
+const MAX_MULTIPLIER = 3
+
+// Same clamp the scoring engine applies
+const MIN_SCORE = 5
+const MAX_SCORE = 95
+
+/**
+ * Share of the score increase that turns into lost 2033 employment.  A job
+ * whose score rises by 10 points loses 4% of its projected employment.
+ */
+const EMPLOYMENT_SENSITIVITY = 0.4
+
+// ========== CALCULATION ==========
+
+/**
+ * Check a multiplier map from user input
+ * @returns A list of problems; empty when the map is valid
+ */
+export function validateMultipliers(multipliers: unknown): string[] {
+  if (!multipliers || typeof multipliers !== "object" || Array.isArray(multipliers)) {
+    return ["multipliers must be an object keyed by two-digit SOC major group"]
+  }
+
+  const errors: string[] = []
+  for (const [group, value] of Object.entries(multipliers)) {
+    if (!/^\d{2}$/.test(group)) {
+      errors.push(`Invalid SOC major group "${group}" (expected two digits, e.g. "13")`)
+    }
+    if (typeof value !== "number" || !isFinite(value) || value < MIN_MULTIPLIER || value > MAX_MULTIPLIER) {
+      errors.push(`Multiplier for ${group} must be a number between ${MIN_MULTIPLIER} and ${MAX_MULTIPLIER}`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Apply an adoption multiplier to a stored score
+ */
+export function applyAdoptionMultiplier(score: number, multiplier: number): number {
+  return Math.max(MIN_SCORE, Math.min(MAX_SCORE, Math.round(score * multiplier)))
+}
+
+/**
+ * Shift projected employment by the part of the score change attributed to
+ * faster or slower adoption
+ */
+export function adjustProjectedEmployment(projected: number, baseScore: number, scenarioScore: number): number {
+  const shift = ((scenarioScore - baseScore) / 100) * EMPLOYMENT_SENSITIVITY
+  return Math.max(0, Math.round(projected * (1 - shift)))
+}
+
+/**
+ * Recompute scores, tiers and projected 2033 employment for every occupation
+ * under a set of adoption multipliers.  Groups without a multiplier keep 1.
+ * @param multipliers Adoption-speed multiplier per SOC major group
+ * @returns Per-occupation results plus per-group and overall totals
+ */
+export async function runScenario(multipliers: AdoptionMultipliers): Promise<ScenarioResult> {
+  const jobs = await sqlEnhanced<{
+    occ_code: string
+    occ_title: string
+    ai_impact_score: number
+    employment_2023: number | null
+    projected_employment_2033: number | null
+  }>`
+    SELECT occ_code, occ_title, ai_impact_score, employment_2023, projected_employment_2033
+    FROM jobs
+    WHERE ai_impact_score IS NOT NULL
+    ORDER BY occ_code
+  `
+
+  const occupations: ScenarioOccupation[] = jobs.map((job) => {
+    const majorGroup = job.occ_code.split("-")[0]
+    const multiplier = multipliers[majorGroup] ?? 1
+    const scenarioScore = applyAdoptionMultiplier(job.ai_impact_score, multiplier)
+    const projected = job.projected_employment_2033
+
+    return {
+      code: job.occ_code,
+      title: job.occ_title,
+      majorGroup,
+      multiplier,
+      baseScore: job.ai_impact_score,
+      scenarioScore,
+      scoreDelta: scenarioScore - job.ai_impact_score,
+      baseRisk: getRiskTier(job.ai_impact_score).label,
+      scenarioRisk: getRiskTier(scenarioScore).label,
+      employment2023: job.employment_2023,
+      baseProjectedEmployment2033: projected,
+      scenarioProjectedEmployment2033:
+        projected === null ? null : adjustProjectedEmployment(projected, job.ai_impact_score, scenarioScore),
+    }
+  })
+
+  const groupMap = new Map<string, ScenarioOccupation[]>()
+  for (const occupation of occupations) {
+    const group = groupMap.get(occupation.majorGroup) ?? []
+    group.push(occupation)
+    groupMap.set(occupation.majorGroup, group)
+  }
+
+  const groups: ScenarioGroupSummary[] = Array.from(groupMap.entries()).map(([majorGroup, members]) => ({
+    majorGroup,
+    multiplier: members[0].multiplier,
+    occupations: members.length,
+    averageBaseScore: average(members.map((member) => member.baseScore)),
+    averageScenarioScore: average(members.map((member) => member.scenarioScore)),
+    baseProjectedEmployment2033: sum(members.map((member) => member.baseProjectedEmployment2033 ?? 0)),
+    scenarioProjectedEmployment2033: sum(members.map((member) => member.scenarioProjectedEmployment2033 ?? 0)),
+  }))
+
+  return {
+    multipliers,
+    occupations,
+    groups,
+    riskChanged: occupations.filter((occupation) => occupation.baseRisk !== occupation.scenarioRisk).length,
+    baseProjectedEmployment2033: sum(groups.map((group) => group.baseProjectedEmployment2033)),
+    scenarioProjectedEmployment2033: sum(groups.map((group) => group.scenarioProjectedEmployment2033)),
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? Math.round((sum(values) / values.length) * 10) / 10 : 0
+}
+
+// ========== SAVED SCENARIOS ==========
+
+/**
+ * Create the saved scenario table if it does not exist
+ */
+export async function initializeScenarioTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS ai_scenarios (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100) UNIQUE NOT NULL,
+      description TEXT,
+      multipliers JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `
+}
+
+/**
+ * Save a named scenario, replacing any scenario with the same name
+ */
+export async function saveScenario(
+  name: string,
+  multipliers: AdoptionMultipliers,
+  description?: string | null
+): Promise<SavedScenario> {
+  await initializeScenarioTable()
+
+  const [row] = await sqlEnhanced<ScenarioRow>`
+    INSERT INTO ai_scenarios (name, description, multipliers, created_at, updated_at)
+    VALUES (${name}, ${description ?? null}, ${JSON.stringify(multipliers)}, NOW(), NOW())
+    ON CONFLICT (name)
+    DO UPDATE SET
+      description = EXCLUDED.description,
+      multipliers = EXCLUDED.multipliers,
+      updated_at = NOW()
+    RETURNING name, description, multipliers, created_at, updated_at
+  `
+  return toSavedScenario(row)
+}
+
+/**
+ * List saved scenarios by name
+ */
+export async function listScenarios(): Promise<SavedScenario[]> {
+  await initializeScenarioTable()
+
+  const rows = await sqlEnhanced<ScenarioRow>`
+    SELECT name, description, multipliers, created_at, updated_at
+    FROM ai_scenarios
+    ORDER BY name
+  `
+  return rows.map(toSavedScenario)
+}
+
+/**
+ * Look up a saved scenario by name
+ */
+export async function getScenario(name: string): Promise<SavedScenario | null> {
+  await initializeScenarioTable()
+
+  const [row] = await sqlEnhanced<ScenarioRow>`
+    SELECT name, description, multipliers, created_at, updated_at
+    FROM ai_scenarios
+    WHERE name = ${name}
+  `
+  return row ? toSavedScenario(row) : null
+}
+
+interface ScenarioRow {
+  name: string
+  description: string | null
+  multipliers: AdoptionMultipliers
+  created_at: string
+  updated_at: string
+}
+
+function toSavedScenario(row: ScenarioRow): SavedScenario {
+  return {
+    name: row.name,
+    description: row.description,
+    multipliers: row.multipliers,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
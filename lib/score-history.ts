@@ -0,0 +1,173 @@
+import {
+  isMissingTableError,
+  rememberTable,
+  sqlEnhanced,
+  sqlTransaction,
+  tableExists,
+  type DataSource,
+  type TransactionClient,
+} from "./database-enhanced"
+
+/**
+ * Append-only occupation score history.
+ *
+ * `jobs` only holds the latest assessment, so every time a sync, re-score or
+ * override changes an occupation's score, tier, wage or employment a snapshot
+ * of the new values is appended to `job_score_history`.  Rows are never
+ * updated or deleted.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export type ScoreHistorySource = "sync" | "rescore" | "override"
+
+export interface ScoreHistoryEntry {
+  recordedAt: string
+  source: ScoreHistorySource
+  modelVersion: string | null
+  aiImpactScore: number | null
+  automationRisk: string | null
+  medianWage: number | null
+  employment2023: number | null
+  projectedEmployment2033: number | null
+  dataSource: DataSource | null
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the score history table if it does not exist
+ */
+export async function initializeScoreHistoryTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS job_score_history (
+      id SERIAL PRIMARY KEY,
+      occ_code VARCHAR(10) NOT NULL,
+      ai_impact_score INTEGER,
+      automation_risk VARCHAR(20),
+      median_wage DECIMAL(10,2),
+      employment_2023 INTEGER,
+      projected_employment_2033 INTEGER,
+      data_source VARCHAR(20),
+      source VARCHAR(20) NOT NULL,
+      model_version VARCHAR(20),
+      recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `
+  await sqlEnhanced`
+    CREATE INDEX IF NOT EXISTS idx_job_score_history_code ON job_score_history(occ_code, recorded_at)
+  `
+  rememberTable("job_score_history")
+}
+
+/**
+ * Create the score history table unless it is known to exist
+ */
+export async function ensureScoreHistoryTable(): Promise<void> {
+  if (!(await tableExists("job_score_history"))) {
+    await initializeScoreHistoryTable()
+  }
+}
+
+/**
+ * The statement behind recordScoreHistory, for callers that must append the
+ * history entry in the same transaction as the change it records
+ * @param client Transaction client (see sqlTransaction)
+ * @param occupationCode Occupation code
+ * @param source What changed the occupation
+ * @param modelVersion Scoring model that produced the current score
+ */
+export function scoreHistoryInsert(
+  client: TransactionClient,
+  occupationCode: string,
+  source: ScoreHistorySource,
+  modelVersion?: string | null
+) {
+  return client`
+    INSERT INTO job_score_history (
+      occ_code, ai_impact_score, automation_risk, median_wage, employment_2023,
+      projected_employment_2033, data_source, source, model_version, recorded_at
+    )
+    SELECT
+      j.occ_code, j.ai_impact_score, j.automation_risk, j.median_wage, j.employment_2023,
+      j.projected_employment_2033, j.data_source, ${source}, ${modelVersion ?? null}, NOW()
+    FROM jobs j
+    WHERE j.occ_code = ${occupationCode}
+      AND NOT EXISTS (
+        SELECT 1 FROM (
+          SELECT * FROM job_score_history h
+          WHERE h.occ_code = j.occ_code
+          ORDER BY h.recorded_at DESC, h.id DESC
+          LIMIT 1
+        ) latest
+        WHERE latest.ai_impact_score IS NOT DISTINCT FROM j.ai_impact_score
+          AND latest.automation_risk IS NOT DISTINCT FROM j.automation_risk
+          AND latest.median_wage IS NOT DISTINCT FROM j.median_wage
+          AND latest.employment_2023 IS NOT DISTINCT FROM j.employment_2023
+          AND latest.projected_employment_2033 IS NOT DISTINCT FROM j.projected_employment_2033
+      )
+    RETURNING id
+  `
+}
+
+/**
+ * Append the occupation's current values from `jobs` to the history, unless
+ * they are identical to the most recent entry
+ * @param occupationCode Occupation code
+ * @param source What changed the occupation
+ * @param modelVersion Scoring model that produced the current score
+ * @returns true if a row was appended
+ */
+export async function recordScoreHistory(
+  occupationCode: string,
+  source: ScoreHistorySource,
+  modelVersion?: string | null
+): Promise<boolean> {
+  const [rows] = await sqlTransaction((client) => [scoreHistoryInsert(client, occupationCode, source, modelVersion)])
+  return rows.length > 0
+}
+
+/**
+ * Get an occupation's history, oldest first
+ * @param occupationCode Occupation code
+ * @returns History entries; empty when none have been recorded yet
+ */
+export async function getScoreHistory(occupationCode: string): Promise<ScoreHistoryEntry[]> {
+  try {
+    const rows = await sqlEnhanced<{
+      recorded_at: string
+      source: ScoreHistorySource
+      model_version: string | null
+      ai_impact_score: number | null
+      automation_risk: string | null
+      median_wage: string | number | null
+      employment_2023: number | null
+      projected_employment_2033: number | null
+      data_source: DataSource | null
+    }>`
+      SELECT recorded_at, source, model_version, ai_impact_score, automation_risk, median_wage,
+        employment_2023, projected_employment_2033, data_source
+      FROM job_score_history
+      WHERE occ_code = ${occupationCode}
+      ORDER BY recorded_at ASC, id ASC
+    `
+
+    return rows.map((row) => ({
+      recordedAt: row.recorded_at,
+      source: row.source,
+      modelVersion: row.model_version,
+      aiImpactScore: row.ai_impact_score,
+      automationRisk: row.automation_risk,
+      medianWage: row.median_wage === null ? null : Number(row.median_wage),
+      employment2023: row.employment_2023,
+      projectedEmployment2033: row.projected_employment_2033,
+      dataSource: row.data_source,
+    }))
+  } catch (error) {
+    // Table does not exist until the first sync records history
+    if (isMissingTableError(error)) {
+      return []
+    }
+    throw error
+  }
+}
@@ -0,0 +1,467 @@
+import {
+  ensureJobDataQualityColumns,
+  isMissingTableError,
+  rememberTable,
+  sqlEnhanced,
+  sqlTransaction,
+  tableExists,
+  type DataSource,
+  type TransactionClient,
+} from "./database-enhanced"
+import { getRiskTier } from "./risk-tiers"
+import { ensureScoreHistoryTable, scoreHistoryInsert } from "./score-history"
+
+/**
+ * Editorial score overrides.
+ *
+ * Analysts can pin the score, wage or employment figures of an occupation
+ * with a reason and an optional expiry.  While an override is active the
+ * sync and re-scoring jobs keep computing values, but store them on the
+ * override (`computed_values`) and write the overridden values to `jobs`
+ * instead.  When the override is revoked or expires the latest computed
+ * values are restored.  Pinning a wage or employment figure marks the row's
+ * `data_source` as "override"; a score-only override leaves it alone, so a
+ * row built from fallback estimates is still shown as one and re-fetched.
+ * Applying or releasing an override writes the job row, the override row and
+ * the score history entry in one transaction.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export type OverridableField = "ai_impact_score" | "median_wage" | "employment_2023" | "projected_employment_2033"
+
+export const OVERRIDABLE_FIELDS: readonly OverridableField[] = [
+  "ai_impact_score",
+  "median_wage",
+  "employment_2023",
+  "projected_employment_2033",
+]
+
+export type OverrideValues = Partial<Record<OverridableField, number>>
+
+/**
+ * Job columns an override can affect.  Overriding the score also sets the
+ * risk label and collapses the confidence range onto the chosen score.
+ */
+export interface OverridableJobValues {
+  ai_impact_score?: number | null
+  ai_impact_score_low?: number | null
+  ai_impact_score_high?: number | null
+  automation_risk?: string | null
+  median_wage?: number | null
+  employment_2023?: number | null
+  projected_employment_2033?: number | null
+  data_source?: DataSource | null
+}
+
+export interface ScoreOverride {
+  id: number
+  occupationCode: string
+  fields: OverrideValues
+  reason: string
+  author: string
+  expiresAt: string | null
+  createdAt: string
+  revokedAt: string | null
+  revokedBy: string | null
+  isActive: boolean
+}
+
+export interface CreateOverrideInput {
+  occupationCode: string
+  fields: OverrideValues
+  reason: string
+  author: string
+  expiresAt?: string | null
+}
+
+interface OverrideRow {
+  id: number
+  occ_code: string
+  fields: OverrideValues
+  computed_values: OverridableJobValues | null
+  reason: string
+  author: string
+  expires_at: string | null
+  created_at: string
+  revoked_at: string | null
+  revoked_by: string | null
+  is_active: boolean
+}
+
+// ========== VALIDATION ==========
+
+/**
+ * Check an override request body
+ * @returns A list of problems; empty when the input is valid
+ */
+export function validateOverrideInput(input: unknown): string[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return ["override must be an object"]
+  const body = input as Record<string, unknown>
+  const errors: string[] = []
+
+  if (typeof body.occupationCode !== "string" || !/^\d{2}-\d{4}$/.test(body.occupationCode)) {
+    errors.push("occupationCode must be a SOC code such as 43-3031")
+  }
+  if (typeof body.reason !== "string" || !body.reason.trim()) {
+    errors.push("reason is required")
+  }
+  if (typeof body.author !== "string" || !body.author.trim()) {
+    errors.push("author is required")
+  }
+
+  const fields = body.fields
+  if (!fields || typeof fields !== "object" || Array.isArray(fields) || Object.keys(fields).length === 0) {
+    errors.push(`fields must set at least one of: ${OVERRIDABLE_FIELDS.join(", ")}`)
+  } else {
+    for (const [field, value] of Object.entries(fields)) {
+      if (!OVERRIDABLE_FIELDS.includes(field as OverridableField)) {
+        errors.push(`${field} cannot be overridden`)
+      } else if (typeof value !== "number" || !isFinite(value) || value < 0) {
+        errors.push(`${field} must be a non-negative number`)
+      } else if (field === "ai_impact_score" && value > 100) {
+        errors.push("ai_impact_score must be between 0 and 100")
+      }
+    }
+  }
+
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    const expiresAt = new Date(typeof body.expiresAt === "string" || typeof body.expiresAt === "number" ? body.expiresAt : NaN)
+    if (isNaN(expiresAt.getTime())) {
+      errors.push("expiresAt must be a date")
+    } else if (expiresAt.getTime() <= Date.now()) {
+      errors.push("expiresAt must be in the future")
+    }
+  }
+
+  return errors
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the overrides table if it does not exist
+ */
+export async function initializeOverrideTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS job_overrides (
+      id SERIAL PRIMARY KEY,
+      occ_code VARCHAR(10) NOT NULL,
+      fields JSONB NOT NULL,
+      computed_values JSONB,
+      reason TEXT NOT NULL,
+      author VARCHAR(100) NOT NULL,
+      expires_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      revoked_at TIMESTAMP,
+      revoked_by VARCHAR(100),
+      released_at TIMESTAMP
+    )
+  `
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_job_overrides_code ON job_overrides(occ_code)`
+  rememberTable("job_overrides")
+}
+
+function toScoreOverride(row: OverrideRow): ScoreOverride {
+  return {
+    id: row.id,
+    occupationCode: row.occ_code,
+    fields: row.fields,
+    reason: row.reason,
+    author: row.author,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at,
+    revokedBy: row.revoked_by,
+    isActive: row.is_active,
+  }
+}
+
+// Overridden figures replace the source data; an overridden score does not
+const DATA_FIELDS: readonly OverridableField[] = ["median_wage", "employment_2023", "projected_employment_2033"]
+
+/**
+ * Merge override values over computed job values
+ */
+export function applyOverride<T extends OverridableJobValues>(values: T, fields: OverrideValues): T {
+  const merged: T = { ...values }
+  if (DATA_FIELDS.some((field) => fields[field] !== undefined)) {
+    merged.data_source = "override"
+  }
+
+  if (fields.ai_impact_score !== undefined) {
+    merged.ai_impact_score = fields.ai_impact_score
+    merged.ai_impact_score_low = fields.ai_impact_score
+    merged.ai_impact_score_high = fields.ai_impact_score
+    merged.automation_risk = getRiskTier(fields.ai_impact_score).label
+  }
+  if (fields.median_wage !== undefined) merged.median_wage = fields.median_wage
+  if (fields.employment_2023 !== undefined) merged.employment_2023 = fields.employment_2023
+  if (fields.projected_employment_2033 !== undefined) merged.projected_employment_2033 = fields.projected_employment_2033
+
+  return merged
+}
+
+const JOB_VALUE_COLUMNS: readonly (keyof OverridableJobValues)[] = [
+  "ai_impact_score",
+  "ai_impact_score_low",
+  "ai_impact_score_high",
+  "automation_risk",
+  "median_wage",
+  "employment_2023",
+  "projected_employment_2033",
+  "data_source",
+]
+
+function pickJobValues(values: OverridableJobValues): OverridableJobValues {
+  return Object.fromEntries(
+    JOB_VALUE_COLUMNS.filter((column) => values[column] !== undefined).map((column) => [column, values[column]])
+  )
+}
+
+async function getActiveOverrideRow(occupationCode: string): Promise<OverrideRow | null> {
+  // Read on every job page; the table does not exist until the first override is created
+  if (!(await tableExists("job_overrides"))) return null
+
+  try {
+    const [row] = await sqlEnhanced<OverrideRow>`
+      SELECT *, TRUE as is_active FROM job_overrides
+      WHERE occ_code = ${occupationCode}
+        AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW())
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `
+    return row ?? null
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Get the active override for an occupation, if any
+ */
+export async function getActiveOverride(occupationCode: string): Promise<ScoreOverride | null> {
+  const row = await getActiveOverrideRow(occupationCode)
+  return row ? toScoreOverride(row) : null
+}
+
+/**
+ * Find which of a page of occupations have an active override.  List views
+ * use this rather than `data_source`, which is only "override" for pinned
+ * figures and stays set until an expired override is released.
+ * @param occupationCodes Codes to check
+ * @returns The codes with an active override
+ */
+export async function getActiveOverrideCodes(occupationCodes: string[]): Promise<Set<string>> {
+  if (occupationCodes.length === 0 || !(await tableExists("job_overrides"))) return new Set()
+
+  try {
+    const rows = await sqlEnhanced<{ occ_code: string }>`
+      SELECT DISTINCT occ_code FROM job_overrides
+      WHERE occ_code = ANY(${occupationCodes})
+        AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW())
+    `
+    return new Set(rows.map((row) => row.occ_code))
+  } catch (error) {
+    if (isMissingTableError(error)) return new Set()
+    throw error
+  }
+}
+
+/**
+ * List overrides, newest first
+ * @param includeInactive Also return revoked and expired overrides
+ */
+export async function listOverrides(includeInactive = false): Promise<ScoreOverride[]> {
+  await initializeOverrideTable()
+
+  const rows = await sqlEnhanced<OverrideRow>`
+    SELECT *, (revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())) as is_active
+    FROM job_overrides
+    WHERE ${includeInactive} OR (revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW()))
+    ORDER BY created_at DESC, id DESC
+  `
+  return rows.map(toScoreOverride)
+}
+
+/**
+ * Statement that writes override or computed values to the job row.  With
+ * `unreleasedOverrideId` the row is only written while that override has not
+ * been released, so a release that lost a race changes nothing.
+ */
+function jobValuesUpdate(
+  client: TransactionClient,
+  occupationCode: string,
+  values: OverridableJobValues,
+  unreleasedOverrideId: number | null = null
+) {
+  return client`
+    UPDATE jobs SET
+      ai_impact_score = ${values.ai_impact_score ?? null},
+      ai_impact_score_low = ${values.ai_impact_score_low ?? null},
+      ai_impact_score_high = ${values.ai_impact_score_high ?? null},
+      automation_risk = ${values.automation_risk ?? null},
+      median_wage = ${values.median_wage ?? null},
+      employment_2023 = ${values.employment_2023 ?? null},
+      projected_employment_2033 = ${values.projected_employment_2033 ?? null},
+      data_source = ${values.data_source ?? null},
+      updated_at = NOW()
+    WHERE occ_code = ${occupationCode}
+      AND (
+        ${unreleasedOverrideId}::int IS NULL
+        OR EXISTS (SELECT 1 FROM job_overrides WHERE id = ${unreleasedOverrideId} AND released_at IS NULL)
+      )
+  `
+}
+
+async function getJobValues(occupationCode: string): Promise<OverridableJobValues | null> {
+  const [job] = await sqlEnhanced<OverridableJobValues>`
+    SELECT ai_impact_score, ai_impact_score_low, ai_impact_score_high, automation_risk,
+      median_wage, employment_2023, projected_employment_2033, data_source
+    FROM jobs
+    WHERE occ_code = ${occupationCode}
+  `
+  return job ?? null
+}
+
+/**
+ * Create an override and apply it to the jobs table.  An earlier active
+ * override for the same occupation is replaced.
+ * @param input Validated override input
+ * @returns The new override, or null if the occupation does not exist
+ */
+export async function createOverride(input: CreateOverrideInput): Promise<ScoreOverride | null> {
+  await initializeOverrideTable()
+  await ensureJobDataQualityColumns()
+  await ensureScoreHistoryTable()
+
+  const current = await getJobValues(input.occupationCode)
+  if (!current) return null
+
+  // Keep the computed values of a replaced override; the job row holds override values
+  const previous = await getActiveOverrideRow(input.occupationCode)
+  const computedValues = previous?.computed_values ?? current
+
+  const results = await sqlTransaction((client) => [
+    ...(previous
+      ? [
+          client`
+            UPDATE job_overrides
+            SET revoked_at = NOW(), revoked_by = ${input.author}, released_at = NOW()
+            WHERE id = ${previous.id}
+          `,
+        ]
+      : []),
+    client`
+      INSERT INTO job_overrides (occ_code, fields, computed_values, reason, author, expires_at, created_at)
+      VALUES (
+        ${input.occupationCode},
+        ${JSON.stringify(input.fields)},
+        ${JSON.stringify(computedValues)},
+        ${input.reason.trim()},
+        ${input.author.trim()},
+        ${input.expiresAt ?? null},
+        NOW()
+      )
+      RETURNING *, TRUE as is_active
+    `,
+    jobValuesUpdate(client, input.occupationCode, applyOverride(computedValues, input.fields)),
+    scoreHistoryInsert(client, input.occupationCode, "override"),
+  ])
+  const [row] = results[previous ? 1 : 0] as OverrideRow[]
+
+  console.log(`✏️ Override ${row.id} applied to ${input.occupationCode} by ${row.author}`)
+  return toScoreOverride(row)
+}
+
+/**
+ * Restore the computed values an override was hiding and mark it released,
+ * recording who revoked it if it did not expire
+ * @returns The released override, or null if it was released meanwhile
+ */
+async function releaseOverride(row: OverrideRow, revokedBy: string | null): Promise<OverrideRow | null> {
+  const results = await sqlTransaction((client) => [
+    ...(row.computed_values ? [jobValuesUpdate(client, row.occ_code, row.computed_values, row.id)] : []),
+    scoreHistoryInsert(client, row.occ_code, "override"),
+    client`
+      UPDATE job_overrides
+      SET released_at = NOW(),
+        revoked_at = CASE WHEN ${revokedBy}::text IS NULL THEN revoked_at ELSE NOW() END,
+        revoked_by = COALESCE(${revokedBy}, revoked_by)
+      WHERE id = ${row.id} AND released_at IS NULL
+      RETURNING *, FALSE as is_active
+    `,
+  ])
+  const [released] = results[results.length - 1] as OverrideRow[]
+  return released ?? null
+}
+
+/**
+ * Revoke an override and restore the computed values
+ * @returns The revoked override, or null if it was not active
+ */
+export async function revokeOverride(id: number, revokedBy: string): Promise<ScoreOverride | null> {
+  await initializeOverrideTable()
+  await ensureScoreHistoryTable()
+
+  const [active] = await sqlEnhanced<OverrideRow>`
+    SELECT *, TRUE as is_active FROM job_overrides
+    WHERE id = ${id} AND revoked_at IS NULL AND released_at IS NULL
+  `
+  if (!active) return null
+
+  const row = await releaseOverride(active, revokedBy)
+  if (!row) return null
+
+  console.log(`↩️ Override ${row.id} on ${row.occ_code} revoked by ${revokedBy}`)
+  return toScoreOverride(row)
+}
+
+/**
+ * Restore computed values for overrides that have expired since they were
+ * applied
+ * @returns Number of overrides released
+ */
+export async function releaseExpiredOverrides(): Promise<number> {
+  await initializeOverrideTable()
+
+  const rows = await sqlEnhanced<OverrideRow>`
+    SELECT *, FALSE as is_active FROM job_overrides
+    WHERE revoked_at IS NULL AND released_at IS NULL AND expires_at <= NOW()
+  `
+  if (rows.length === 0) return 0
+
+  await ensureScoreHistoryTable()
+  let released = 0
+  for (const row of rows) {
+    if (await releaseOverride(row, null)) released++
+  }
+
+  if (released > 0) {
+    console.log(`⌛ Released ${released} expired override(s)`)
+  }
+  return released
+}
+
+/**
+ * Resolve the values to write for an occupation that was just (re)computed.
+ * When an override is active the computed values are remembered on it and
+ * the overridden values are returned instead.
+ * @param occupationCode Occupation code
+ * @param computed Freshly computed job values
+ * @returns The values to store in `jobs`
+ */
+export async function resolveOverride<T extends OverridableJobValues>(occupationCode: string, computed: T): Promise<T> {
+  const row = await getActiveOverrideRow(occupationCode)
+  if (!row) return computed
+
+  await sqlEnhanced`
+    UPDATE job_overrides
+    SET computed_values = COALESCE(computed_values, '{}'::jsonb) || ${JSON.stringify(pickJobValues(computed))}::jsonb
+    WHERE id = ${row.id}
+  `
+  return applyOverride(computed, row.fields)
+}
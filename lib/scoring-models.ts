@@ -0,0 +1,381 @@
+import { ensureJobDataQualityColumns, ensureJobProjectionColumns, sqlEnhanced, type DataSource } from "./database-enhanced"
+import { calculateAIImpact, type AIImpactResult, type ScoringInput, type ScoringParameters } from "./ai-impact-scoring"
+import { SCORING_PARAMETERS_V1_0, SCORING_PARAMETERS_V1_1, SCORING_PARAMETERS_V1_2 } from "./scoring-parameters"
+import { getOccupationTaskScores, type OccupationTaskScore } from "./onet-tasks"
+import { initializeScoreHistoryTable, recordScoreHistory } from "./score-history"
+import { resolveOverride } from "./score-overrides"
+import { projectedEmploymentForScoring } from "./employment-projections"
+
+/**
+ * Versioned scoring models.
+ *
+ * Every methodology change to the AI impact score is registered here under a
+ * new version.  Scores are stored per occupation and model version in
+ * `job_model_scores`, so a candidate model can be run in shadow next to the
+ * active one and the resulting changes reviewed before `jobs.ai_impact_score`
+ * is switched over (by setting SCORING_MODEL_VERSION).  Each version scores
+ * with its own frozen parameters, so editing the tables for a new version
+ * cannot change the scores of an old one.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export interface ScoringModel {
+  version: string
+  description: string
+  releasedAt: string
+  parameters: ScoringParameters
+  usesTaskData: boolean
+  calculate: (input: ScoringInput) => AIImpactResult
+}
+
+export interface ModelScoringOptions {
+  // Limit the run to these occupation codes (default: every job)
+  occupationCodes?: string[]
+  // Also write the scores to the jobs table; only meant for the active model
+  updateJobs?: boolean
+  // Score one page of the selected jobs (ordered by code) instead of all of them
+  offset?: number
+  limit?: number
+}
+
+export interface ModelScoringResult {
+  version: string
+  jobsScored: number
+  // Selected jobs in total, across all pages
+  totalJobs: number
+  // Offset of the next page, or null when this was the last one
+  nextOffset: number | null
+  errors: string[]
+}
+
+export interface ScoreChange {
+  code: string
+  title: string
+  fromScore: number
+  toScore: number
+  scoreDelta: number
+  fromRisk: string
+  toRisk: string
+  riskChanged: boolean
+}
+
+export interface ModelComparisonOptions {
+  minScoreDelta?: number
+  riskChangesOnly?: boolean
+  limit?: number
+}
+
+export interface ModelComparison {
+  fromVersion: string
+  toVersion: string
+  jobsCompared: number
+  scoresChanged: number
+  riskChanged: number
+  averageScoreDelta: number
+  changes: ScoreChange[]
+}
+
+// ========== MODEL REGISTRY ==========
+
+function defineModel(model: Omit<ScoringModel, "usesTaskData" | "calculate">): ScoringModel {
+  return {
+    ...model,
+    usesTaskData: model.parameters.useTaskData,
+    calculate: (input) => calculateAIImpact(input, model.parameters),
+  }
+}
+
+const SCORING_MODELS: ScoringModel[] = [
+  defineModel({
+    version: "1.0",
+    description: "Heuristic model: title keywords, SOC major group, wage level and employment trend",
+    releasedAt: "2024-06-01",
+    parameters: SCORING_PARAMETERS_V1_0,
+  }),
+  defineModel({
+    version: "1.1",
+    description: "Adds importance-weighted O*NET task automatability; title and major group weights halved when task data exists",
+    releasedAt: "2024-07-01",
+    parameters: SCORING_PARAMETERS_V1_1,
+  }),
+  defineModel({
+    version: "1.2",
+    description: "Fallback-estimated wage and employment no longer move the score; they widen the confidence range instead",
+    releasedAt: "2024-08-01",
+    parameters: SCORING_PARAMETERS_V1_2,
+  }),
+]
+
+const DEFAULT_MODEL_VERSION = "1.2"
+
+/**
+ * List all registered scoring models, oldest first
+ */
+export function getScoringModels(): ScoringModel[] {
+  return [...SCORING_MODELS]
+}
+
+/**
+ * Look up a registered scoring model by version
+ */
+export function getScoringModel(version: string): ScoringModel | null {
+  return SCORING_MODELS.find((model) => model.version === version) ?? null
+}
+
+/**
+ * The model whose scores are written to `jobs.ai_impact_score`.  Falls back to
+ * the default version when SCORING_MODEL_VERSION names an unknown model.
+ */
+export function getActiveScoringModel(): ScoringModel {
+  const configured = process.env.SCORING_MODEL_VERSION
+  const model = configured ? getScoringModel(configured) : null
+  if (configured && !model) {
+    console.warn(`⚠️ Unknown SCORING_MODEL_VERSION "${configured}", using ${DEFAULT_MODEL_VERSION}`)
+  }
+  return model ?? getScoringModel(DEFAULT_MODEL_VERSION)!
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the per-model score table if it does not exist
+ */
+export async function initializeModelScoreTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS job_model_scores (
+      id SERIAL PRIMARY KEY,
+      occ_code VARCHAR(10) NOT NULL,
+      model_version VARCHAR(20) NOT NULL,
+      ai_impact_score INTEGER NOT NULL,
+      automation_risk VARCHAR(20) NOT NULL,
+      score_breakdown JSONB,
+      scored_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (occ_code, model_version)
+    )
+  `
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_job_model_scores_version ON job_model_scores(model_version)`
+}
+
+/**
+ * Store an occupation's score under a model version
+ * @param occupationCode Occupation code
+ * @param version Model version that produced the result
+ * @param result Scoring result
+ */
+export async function saveModelScore(occupationCode: string, version: string, result: AIImpactResult): Promise<void> {
+  await sqlEnhanced`
+    INSERT INTO job_model_scores (occ_code, model_version, ai_impact_score, automation_risk, score_breakdown, scored_at)
+    VALUES (
+      ${occupationCode},
+      ${version},
+      ${result.aiImpactScore},
+      ${result.automationRisk},
+      ${JSON.stringify(result.breakdown)},
+      NOW()
+    )
+    ON CONFLICT (occ_code, model_version)
+    DO UPDATE SET
+      ai_impact_score = EXCLUDED.ai_impact_score,
+      automation_risk = EXCLUDED.automation_risk,
+      score_breakdown = EXCLUDED.score_breakdown,
+      scored_at = NOW()
+  `
+}
+
+/**
+ * Score jobs with a model and store the results in `job_model_scores`.  Unless
+ * `updateJobs` is set the jobs table itself is not modified, so this is safe
+ * to run for a candidate model.  Pass `offset` and `limit` to score one page
+ * at a time, e.g. from a request with a time limit.
+ * @param version Model version to run
+ * @param options Occupation filter, page and whether to update the jobs table
+ * @returns Number of jobs scored, where the next page starts and any per-job errors
+ */
+export async function scoreJobsWithModel(version: string, options: ModelScoringOptions = {}): Promise<ModelScoringResult> {
+  const model = getScoringModel(version)
+  if (!model) {
+    throw new Error(`Unknown scoring model version: ${version}`)
+  }
+
+  await initializeModelScoreTable()
+  await ensureJobDataQualityColumns()
+  await ensureJobProjectionColumns()
+  if (options.updateJobs) {
+    await initializeScoreHistoryTable()
+  }
+
+  const jobs = await sqlEnhanced<{
+    occ_code: string
+    occ_title: string
+    median_wage: number | null
+    employment_2023: number | null
+    projected_employment_2033: number | null
+    projected_change_percent: string | null
+    data_source: DataSource | null
+  }>`
+    SELECT occ_code, occ_title, median_wage, employment_2023, projected_employment_2033,
+      projected_change_percent, data_source
+    FROM jobs
+    ORDER BY occ_code
+  `
+  const codeFilter = options.occupationCodes ? new Set(options.occupationCodes) : null
+  const matchingJobs = codeFilter ? jobs.filter((job) => codeFilter.has(job.occ_code)) : jobs
+  const offset = Math.max(0, options.offset ?? 0)
+  const end = options.limit !== undefined ? offset + options.limit : matchingJobs.length
+  const selectedJobs = matchingJobs.slice(offset, end)
+
+  const taskScores = model.usesTaskData
+    ? await getOccupationTaskScores(selectedJobs.map((job) => job.occ_code))
+    : new Map<string, OccupationTaskScore>()
+
+  const errors: string[] = []
+  let jobsScored = 0
+
+  for (const job of selectedJobs) {
+    try {
+      const taskScore = taskScores.get(job.occ_code)
+      const result = model.calculate({
+        occupationCode: job.occ_code,
+        occupationTitle: job.occ_title,
+        medianWage: job.median_wage,
+        employment: job.employment_2023,
+        projectedEmployment: projectedEmploymentForScoring(
+          job.employment_2023,
+          job.projected_employment_2033,
+          job.projected_change_percent
+        ),
+        taskAutomationScore: taskScore?.combinedScore,
+        estimatedInputs: job.data_source === "fallback",
+      })
+      await saveModelScore(job.occ_code, model.version, result)
+
+      if (options.updateJobs) {
+        // An active editorial override keeps its values; the new score is stored on it
+        const values = await resolveOverride(job.occ_code, {
+          ai_impact_score: result.aiImpactScore,
+          ai_impact_score_low: result.confidenceRange.low,
+          ai_impact_score_high: result.confidenceRange.high,
+          automation_risk: result.automationRisk,
+        })
+        await sqlEnhanced`
+          UPDATE jobs SET
+            ai_impact_score = ${values.ai_impact_score},
+            ai_impact_score_low = ${values.ai_impact_score_low},
+            ai_impact_score_high = ${values.ai_impact_score_high},
+            automation_risk = ${values.automation_risk},
+            updated_at = NOW()
+          WHERE occ_code = ${job.occ_code}
+        `
+        await recordScoreHistory(job.occ_code, "rescore", model.version)
+      }
+      jobsScored++
+    } catch (error) {
+      errors.push(`${job.occ_code}: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  console.log(`✅ Scored ${jobsScored}/${selectedJobs.length} jobs with model ${model.version}`)
+  return {
+    version: model.version,
+    jobsScored,
+    totalJobs: matchingJobs.length,
+    nextOffset: end < matchingJobs.length ? end : null,
+    errors,
+  }
+}
+
+/**
+ * Count stored scores per model version
+ */
+export async function getModelScoreCounts(): Promise<Record<string, number>> {
+  try {
+    const rows = await sqlEnhanced<{ model_version: string; count: string }>`
+      SELECT model_version, COUNT(*) as count
+      FROM job_model_scores
+      GROUP BY model_version
+    `
+    return Object.fromEntries(rows.map((row) => [row.model_version, Number.parseInt(row.count, 10)]))
+  } catch (error) {
+    // Table does not exist until the first model run
+    return {}
+  }
+}
+
+/**
+ * Compare the stored scores of two model versions
+ * @param fromVersion Baseline model version
+ * @param toVersion Candidate model version
+ * @param options Filters for the returned change list
+ * @returns Summary statistics and the occupations that moved, largest moves first
+ */
+export async function compareModelVersions(
+  fromVersion: string,
+  toVersion: string,
+  options: ModelComparisonOptions = {}
+): Promise<ModelComparison> {
+  const minScoreDelta = options.minScoreDelta ?? 1
+  const limit = options.limit ?? 100
+
+  const [summary] = await sqlEnhanced<{
+    compared: string
+    scores_changed: string
+    risk_changed: string
+    avg_delta: string | null
+  }>`
+    SELECT
+      COUNT(*) as compared,
+      COUNT(*) FILTER (WHERE a.ai_impact_score <> b.ai_impact_score) as scores_changed,
+      COUNT(*) FILTER (WHERE a.automation_risk <> b.automation_risk) as risk_changed,
+      AVG(b.ai_impact_score - a.ai_impact_score) as avg_delta
+    FROM job_model_scores a
+    JOIN job_model_scores b ON b.occ_code = a.occ_code AND b.model_version = ${toVersion}
+    WHERE a.model_version = ${fromVersion}
+  `
+
+  const rows = await sqlEnhanced<{
+    occ_code: string
+    occ_title: string | null
+    from_score: number
+    to_score: number
+    from_risk: string
+    to_risk: string
+  }>`
+    SELECT
+      a.occ_code,
+      j.occ_title,
+      a.ai_impact_score as from_score,
+      b.ai_impact_score as to_score,
+      a.automation_risk as from_risk,
+      b.automation_risk as to_risk
+    FROM job_model_scores a
+    JOIN job_model_scores b ON b.occ_code = a.occ_code AND b.model_version = ${toVersion}
+    LEFT JOIN jobs j ON j.occ_code = a.occ_code
+    WHERE a.model_version = ${fromVersion}
+      AND (
+        a.automation_risk <> b.automation_risk
+        OR (${!options.riskChangesOnly} AND ABS(b.ai_impact_score - a.ai_impact_score) >= ${minScoreDelta})
+      )
+    ORDER BY (a.automation_risk <> b.automation_risk) DESC, ABS(b.ai_impact_score - a.ai_impact_score) DESC, a.occ_code
+    LIMIT ${limit}
+  `
+
+  return {
+    fromVersion,
+    toVersion,
+    jobsCompared: Number.parseInt(summary?.compared || "0", 10),
+    scoresChanged: Number.parseInt(summary?.scores_changed || "0", 10),
+    riskChanged: Number.parseInt(summary?.risk_changed || "0", 10),
+    averageScoreDelta: summary?.avg_delta ? Math.round(Number.parseFloat(summary.avg_delta) * 10) / 10 : 0,
+    changes: rows.map((row) => ({
+      code: row.occ_code,
+      title: row.occ_title || row.occ_code,
+      fromScore: row.from_score,
+      toScore: row.to_score,
+      scoreDelta: row.to_score - row.from_score,
+      fromRisk: row.from_risk,
+      toRisk: row.to_risk,
+      riskChanged: row.from_risk !== row.to_risk,
+    })),
+  }
+}
@@ -0,0 +1,194 @@
+import type { ScoringParameters } from "./ai-impact-scoring"
+
+/**
+ * Frozen scoring parameters per model version.
+ *
+ * The scoring engine holds no tables of its own: keyword buckets, major-group
+ * points, wage and trend bands, factor weights and confidence settings are
+ * passed in, and every model version in scoring-models.ts points at one of the
+ * objects below.  A released object is never edited, because stored scores
+ * of its version could no longer be reproduced; a methodology change adds a
+ * new object under a new version instead.  The objects are deep-frozen so an
+ * accidental mutation at runtime throws in strict mode rather than silently
+ * changing old versions.
+ */
+
+// ========== HELPERS ==========
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.freeze(value)
+    for (const child of Object.values(value)) deepFreeze(child)
+  }
+  return value
+}
+
+// ========== 2024-06 TABLES ==========
+
+// Shared by versions 1.0-1.2, which differ only in weights and behaviour
+const TABLES_2024_06 = deepFreeze({
+  baselineScore: 50,
+  // Scores never claim certainty in either direction
+  minScore: 5,
+  maxScore: 95,
+
+  // Checked in order; points are the midpoints of the ranges each bucket
+  // used to be sampled from
+  keywordBuckets: [
+    {
+      points: 37,
+      keywords: [
+        "cashier",
+        "data entry",
+        "telemarketer",
+        "assembly",
+        "fast food",
+        "toll booth",
+        "parking lot attendant",
+        "library technician",
+      ],
+    },
+    {
+      points: 22,
+      keywords: [
+        "bookkeeping",
+        "tax preparer",
+        "insurance claims",
+        "loan officer",
+        "paralegal",
+        "proofreader",
+        "translator",
+        "radiologic technician",
+      ],
+    },
+    {
+      points: 7,
+      keywords: [
+        "analyst",
+        "accountant",
+        "market research",
+        "technical writer",
+        "real estate agent",
+        "insurance agent",
+        "financial advisor",
+      ],
+    },
+    {
+      points: -8,
+      keywords: ["technician", "mechanic", "electrician", "plumber", "carpenter", "engineer", "programmer", "web developer"],
+    },
+    {
+      points: -23,
+      keywords: ["sales", "marketing", "human resources", "project manager", "consultant", "trainer", "coordinator"],
+    },
+    {
+      points: -38,
+      keywords: [
+        "teacher",
+        "therapist",
+        "counselor",
+        "social worker",
+        "nurse",
+        "doctor",
+        "manager",
+        "executive",
+        "artist",
+        "designer",
+        "chef",
+      ],
+    },
+  ],
+
+  // Midpoints of the historical per-group ranges
+  majorGroupPoints: {
+    "11": { label: "Management", points: -15 },
+    "13": { label: "Business and Financial Operations", points: 0 },
+    "15": { label: "Computer and Mathematical", points: -25 },
+    "17": { label: "Architecture and Engineering", points: -20 },
+    "19": { label: "Life, Physical, and Social Science", points: -28 },
+    "21": { label: "Community and Social Service", points: -10 },
+    "23": { label: "Legal", points: -5 },
+    "25": { label: "Educational Instruction and Library", points: -30 },
+    "27": { label: "Arts, Design, Entertainment, Sports, and Media", points: -15 },
+    "29": { label: "Healthcare Practitioners and Technical", points: -35 },
+    "31": { label: "Healthcare Support", points: -23 },
+    "33": { label: "Protective Service", points: -15 },
+    "35": { label: "Food Preparation and Serving Related", points: 25 },
+    "37": { label: "Building and Grounds Cleaning and Maintenance", points: 5 },
+    "39": { label: "Personal Care and Service", points: -18 },
+    "41": { label: "Sales and Related", points: 33 },
+    "43": { label: "Office and Administrative Support", points: 35 },
+    "45": { label: "Farming, Fishing, and Forestry", points: -5 },
+    "47": { label: "Construction and Extraction", points: -10 },
+    "49": { label: "Installation, Maintenance, and Repair", points: -15 },
+    "51": { label: "Production", points: 15 },
+    "53": { label: "Transportation and Material Moving", points: 8 },
+  },
+  majorGroupWeightWithKeyword: 0.25,
+
+  wageBands: [
+    { below: 30_000, points: 5, label: "Low wage", note: "roles tend to be more routine" },
+    { below: 45_000, points: 3, label: "Below-average wage" },
+    { below: 75_000, points: 0, label: "Mid-range wage" },
+    { below: 100_000, points: -3, label: "Above-average wage" },
+    { below: Infinity, points: -5, label: "High wage", note: "typically reflects non-routine expertise" },
+  ],
+  employmentTrendBands: [
+    { belowPercent: -5, points: 4, label: "Declining employment" },
+    { belowPercent: 0, points: 2, label: "Slightly declining employment" },
+    { belowPercent: 5, points: 0, label: "Stable employment" },
+    { belowPercent: 10, points: -2, label: "Growing employment" },
+    { belowPercent: Infinity, points: -4, label: "Fast-growing employment" },
+  ],
+
+  baseConfidenceMargin: 20,
+  minConfidenceMargin: 4,
+  confidenceAdjustments: {
+    keywordMatched: -4,
+    taskData: -8,
+    wageData: -2,
+    employmentTrend: -2,
+    estimatedInputs: 5,
+  },
+})
+
+// ========== VERSIONS ==========
+
+/**
+ * 1.0: title keywords, SOC major group, wage level and employment trend
+ */
+export const SCORING_PARAMETERS_V1_0: ScoringParameters = deepFreeze({
+  ...TABLES_2024_06,
+  useTaskData: false,
+  discountEstimatedInputs: false,
+  taskAutomationWeight: 0,
+  heuristicWeightWithTasks: 1,
+})
+
+/**
+ * 1.1: O*NET task automatability outweighs the title and major group
+ */
+export const SCORING_PARAMETERS_V1_1: ScoringParameters = deepFreeze({
+  ...TABLES_2024_06,
+  useTaskData: true,
+  discountEstimatedInputs: false,
+  taskAutomationWeight: 0.6,
+  heuristicWeightWithTasks: 0.5,
+})
+
+/**
+ * 1.2: fallback-estimated wage and employment widen the confidence range
+ * instead of moving the score
+ */
+export const SCORING_PARAMETERS_V1_2: ScoringParameters = deepFreeze({
+  ...TABLES_2024_06,
+  useTaskData: true,
+  discountEstimatedInputs: true,
+  taskAutomationWeight: 0.6,
+  heuristicWeightWithTasks: 0.5,
+})
+
+/**
+ * Parameters used by callers that score outside the model registry
+ */
+export const LATEST_SCORING_PARAMETERS = SCORING_PARAMETERS_V1_2
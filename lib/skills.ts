@@ -0,0 +1,268 @@
+import { isMissingTableError, sqlEnhanced } from "./database-enhanced"
+
+/**
+ * Normalized skills catalog.
+ *
+ * Every distinct skill is stored once in `skills`, keyed by a slug derived
+ * from its name, and linked to occupations through `job_skills` with a
+ * relationship type (at risk of automation, or needed going forward) and a
+ * 0-1 weight.  Skills appear in priority order in the scoring profiles, so
+ * earlier skills get a higher weight.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export type SkillRelationship = "at_risk" | "needed"
+
+export interface Skill {
+  slug: string
+  name: string
+}
+
+export interface JobSkill extends Skill {
+  relationship: SkillRelationship
+  weight: number
+}
+
+export interface JobSkills {
+  atRisk: JobSkill[]
+  needed: JobSkill[]
+}
+
+export interface SkillJob {
+  code: string
+  title: string
+  relationship: SkillRelationship
+  weight: number
+  aiImpactScore: number | null
+  automationRisk: string | null
+}
+
+export interface SkillSummary extends Skill {
+  atRiskJobs: number
+  neededJobs: number
+}
+
+// ========== NORMALIZATION ==========
+
+/**
+ * Turn a skill name into its catalog key, e.g. "Complex problem-solving" and
+ * "Complex Problem Solving" both become "complex-problem-solving"
+ */
+export function toSkillSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+/**
+ * Split a legacy comma-joined skills column into skill names
+ */
+export function parseSkillList(value: string | null | undefined): string[] {
+  if (!value) return []
+  return value
+    .split(",")
+    .map((skill) => skill.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Weight a skill by its position in a priority-ordered list: the first skill
+ * gets 1, the last 1/n
+ */
+function weightByPosition(index: number, count: number): number {
+  return Math.round(((count - index) / count) * 1000) / 1000
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the skills catalog and job-to-skill tables if they do not exist
+ */
+export async function initializeSkillTables(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS skills (
+      id SERIAL PRIMARY KEY,
+      slug VARCHAR(150) UNIQUE NOT NULL,
+      name VARCHAR(150) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS job_skills (
+      occ_code VARCHAR(10) NOT NULL,
+      skill_id INTEGER NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
+      relationship VARCHAR(10) NOT NULL CHECK (relationship IN ('at_risk', 'needed')),
+      weight DECIMAL(4,3) NOT NULL DEFAULT 1,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (occ_code, skill_id, relationship)
+    )
+  `
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_job_skills_skill ON job_skills(skill_id, relationship)`
+}
+
+/**
+ * Replace an occupation's skills.  Names are normalized and added to the
+ * catalog when new; duplicates within a list keep their first position.
+ * @param occupationCode Occupation code
+ * @param skills Priority-ordered skill names per relationship
+ * @returns Number of job-skill links stored
+ */
+export async function saveJobSkills(
+  occupationCode: string,
+  skills: { atRisk: string[]; needed: string[] }
+): Promise<number> {
+  const links: { slug: string; name: string; relationship: SkillRelationship; weight: number }[] = []
+
+  for (const [relationship, names] of [
+    ["at_risk", skills.atRisk],
+    ["needed", skills.needed],
+  ] as const) {
+    const seen = new Set<string>()
+    const unique = names
+      .map((name) => ({ name: name.trim(), slug: toSkillSlug(name) }))
+      .filter((skill) => {
+        if (!skill.slug || seen.has(skill.slug)) return false
+        seen.add(skill.slug)
+        return true
+      })
+
+    unique.forEach((skill, index) => {
+      links.push({ ...skill, relationship, weight: weightByPosition(index, unique.length) })
+    })
+  }
+
+  await sqlEnhanced`DELETE FROM job_skills WHERE occ_code = ${occupationCode}`
+  if (links.length === 0) return 0
+
+  await sqlEnhanced`
+    INSERT INTO skills (slug, name)
+    SELECT * FROM UNNEST(${links.map((link) => link.slug)}::text[], ${links.map((link) => link.name)}::text[])
+    ON CONFLICT (slug) DO NOTHING
+  `
+  await sqlEnhanced`
+    INSERT INTO job_skills (occ_code, skill_id, relationship, weight, updated_at)
+    SELECT ${occupationCode}, s.id, l.relationship, l.weight, NOW()
+    FROM UNNEST(
+      ${links.map((link) => link.slug)}::text[],
+      ${links.map((link) => link.relationship)}::text[],
+      ${links.map((link) => link.weight)}::numeric[]
+    ) AS l(slug, relationship, weight)
+    JOIN skills s ON s.slug = l.slug
+    ON CONFLICT (occ_code, skill_id, relationship)
+    DO UPDATE SET weight = EXCLUDED.weight, updated_at = NOW()
+  `
+  return links.length
+}
+
+/**
+ * Get an occupation's skills, highest weight first
+ */
+export async function getSkillsForJob(occupationCode: string): Promise<JobSkills> {
+  let rows: { slug: string; name: string; relationship: SkillRelationship; weight: string }[]
+  try {
+    rows = await sqlEnhanced<{ slug: string; name: string; relationship: SkillRelationship; weight: string }>`
+      SELECT s.slug, s.name, js.relationship, js.weight
+      FROM job_skills js
+      JOIN skills s ON s.id = js.skill_id
+      WHERE js.occ_code = ${occupationCode}
+      ORDER BY js.weight DESC, s.name
+    `
+  } catch (error) {
+    if (isMissingTableError(error)) return { atRisk: [], needed: [] }
+    throw error
+  }
+  const skills = rows.map((row) => ({
+    slug: row.slug,
+    name: row.name,
+    relationship: row.relationship,
+    weight: Number(row.weight),
+  }))
+
+  return {
+    atRisk: skills.filter((skill) => skill.relationship === "at_risk"),
+    needed: skills.filter((skill) => skill.relationship === "needed"),
+  }
+}
+
+/**
+ * Look up a skill by slug
+ */
+export async function getSkill(slug: string): Promise<Skill | null> {
+  try {
+    const [row] = await sqlEnhanced<Skill>`SELECT slug, name FROM skills WHERE slug = ${slug}`
+    return row ?? null
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Get the occupations linked to a skill, highest weight first
+ * @param slug Skill slug
+ * @param relationship Only return links of this type
+ */
+export async function getJobsForSkill(slug: string, relationship?: SkillRelationship): Promise<SkillJob[]> {
+  const rows = await sqlEnhanced<{
+    occ_code: string
+    occ_title: string
+    relationship: SkillRelationship
+    weight: string
+    ai_impact_score: number | null
+    automation_risk: string | null
+  }>`
+    SELECT js.occ_code, j.occ_title, js.relationship, js.weight, j.ai_impact_score, j.automation_risk
+    FROM job_skills js
+    JOIN skills s ON s.id = js.skill_id
+    JOIN jobs j ON j.occ_code = js.occ_code
+    WHERE s.slug = ${slug}
+      AND (${relationship ?? null}::text IS NULL OR js.relationship = ${relationship ?? null})
+    ORDER BY js.weight DESC, j.occ_title
+  `
+
+  return rows.map((row) => ({
+    code: row.occ_code,
+    title: row.occ_title,
+    relationship: row.relationship,
+    weight: Number(row.weight),
+    aiImpactScore: row.ai_impact_score,
+    automationRisk: row.automation_risk,
+  }))
+}
+
+/**
+ * List the catalog with how many occupations each skill is linked to
+ * @param search Optional case-insensitive name filter
+ */
+export async function listSkills(search?: string): Promise<SkillSummary[]> {
+  const pattern = search ? `%${search.toLowerCase()}%` : null
+  let rows: { slug: string; name: string; at_risk_jobs: string; needed_jobs: string }[]
+  try {
+    rows = await sqlEnhanced<{ slug: string; name: string; at_risk_jobs: string; needed_jobs: string }>`
+      SELECT
+        s.slug,
+        s.name,
+        COUNT(js.skill_id) FILTER (WHERE js.relationship = 'at_risk') as at_risk_jobs,
+        COUNT(js.skill_id) FILTER (WHERE js.relationship = 'needed') as needed_jobs
+      FROM skills s
+      LEFT JOIN job_skills js ON js.skill_id = s.id
+      WHERE (${pattern}::text IS NULL OR LOWER(s.name) LIKE ${pattern})
+      GROUP BY s.id
+      ORDER BY s.name
+    `
+  } catch (error) {
+    if (isMissingTableError(error)) return []
+    throw error
+  }
+
+  return rows.map((row) => ({
+    slug: row.slug,
+    name: row.name,
+    atRiskJobs: Number.parseInt(row.at_risk_jobs, 10),
+    neededJobs: Number.parseInt(row.needed_jobs, 10),
+  }))
+}
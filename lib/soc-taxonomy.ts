@@ -0,0 +1,296 @@
+import { readFileSync } from "fs"
+import { join } from "path"
+import { isMissingTableError, sqlEnhanced } from "./database-enhanced"
+import { parseDelimited } from "./onet-tasks"
+
+/**
+ * Standard Occupational Classification (SOC 2018) taxonomy.
+ *
+ * `job_codes` holds one row per SOC group with its level (major, minor, broad
+ * or detailed), its parent code and the titles of its ancestors.  The sync,
+ * the initialization route and the population scripts read the occupations to
+ * process from it.  The table is filled from the official SOC structure file
+ * (soc_structure_2018.xlsx from https://www.bls.gov/soc/2018/home.htm, saved
+ * as CSV) by scripts/load-soc-taxonomy.ts.  When it is empty the bundled
+ * data/soc-2018-structure.csv, which covers the occupations this app has
+ * always tracked, is loaded instead.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export type SOCLevel = "major" | "minor" | "broad" | "detailed"
+
+export interface SOCEntry {
+  code: string
+  title: string
+  level: SOCLevel
+  parentCode: string | null
+}
+
+export interface SOCParseResult {
+  entries: SOCEntry[]
+  skipped: number
+}
+
+export interface SOCOccupation {
+  code: string
+  title: string
+  majorGroup: string | null
+  minorGroup: string | null
+  broadOccupation: string | null
+}
+
+export interface SOCImportResult {
+  imported: number
+  byLevel: Record<SOCLevel, number>
+  source: string
+}
+
+export const DEFAULT_SOC_STRUCTURE_PATH = "data/soc-2018-structure.csv"
+export const DEFAULT_SOC_SOURCE = "soc-2018"
+
+const SOC_LEVELS: SOCLevel[] = ["major", "minor", "broad", "detailed"]
+
+// ========== FILE PARSING ==========
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+// Digits of a group code without its trailing zeros, e.g. "15-1200" -> "1512".
+// A group is an ancestor of every code whose digits start with this prefix.
+function groupPrefix(code: string): string {
+  return code.replace("-", "").replace(/0+$/, "")
+}
+
+/**
+ * Link each entry to its nearest ancestor in the file.  Minor group codes do
+ * not follow one pattern (11-1000, 15-1200, 51-5100), so ancestors are
+ * matched on the code prefix rather than derived.
+ */
+function linkParents(entries: SOCEntry[]): void {
+  const groups = new Map<string, SOCEntry>()
+  entries
+    .filter((entry) => entry.level !== "detailed")
+    .forEach((entry) => groups.set(groupPrefix(entry.code), entry))
+
+  for (const entry of entries) {
+    const digits = entry.code.replace("-", "")
+    const rank = SOC_LEVELS.indexOf(entry.level)
+    for (let length = digits.length - 1; length >= 2; length--) {
+      const group = groups.get(digits.slice(0, length))
+      if (group && group !== entry && SOC_LEVELS.indexOf(group.level) < rank) {
+        entry.parentCode = group.code
+        break
+      }
+    }
+  }
+}
+
+/**
+ * Parse the SOC structure file.  Accepts the published layout, with a column
+ * per level ("Major Group", "Minor Group", "Broad Group", "Detailed
+ * Occupation") and the code in the column of its level, and the definitions
+ * layout with "SOC Group", "SOC Code" and "SOC Title" columns.  Title and
+ * footnote lines around the table are ignored.
+ * @param content CSV or tab-delimited file content
+ * @throws Error when no header row is found
+ */
+export function parseSOCStructureFile(content: string): SOCParseResult {
+  const lines = content.replace(/^﻿/, "").split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => /major group|soc group/i.test(line))
+  if (headerIndex < 0) {
+    throw new Error("No header row with \"Major Group\" or \"SOC Group\" columns found")
+  }
+  const rows = parseDelimited(lines.slice(headerIndex).join("\n"))
+
+  const headers = Object.keys(rows[0] ?? {})
+  const find = (predicate: (header: string) => boolean) => headers.find((header) => predicate(normalizeHeader(header)))
+
+  const levelColumns: Array<{ level: SOCLevel; header: string | undefined }> = [
+    { level: "major", header: find((header) => header === "major group") },
+    { level: "minor", header: find((header) => header === "minor group") },
+    { level: "broad", header: find((header) => header === "broad group" || header === "broad occupation") },
+    { level: "detailed", header: find((header) => header === "detailed occupation") },
+  ]
+  const groupColumn = find((header) => header === "soc group")
+  const codeColumn = find((header) => header === "soc code")
+  // The published structure file leaves the title column unlabeled
+  const titleColumn =
+    find((header) => header.includes("title")) ??
+    headers.find((header) => header !== "" && !levelColumns.some((column) => column.header === header)) ??
+    ""
+
+  const entries: SOCEntry[] = []
+  let skipped = 0
+  for (const row of rows) {
+    let code: string | undefined
+    let level: SOCLevel | undefined
+    if (groupColumn && codeColumn) {
+      code = row[codeColumn]
+      level = SOC_LEVELS.find((candidate) => candidate === row[groupColumn]?.toLowerCase())
+    } else {
+      const column = levelColumns.find((candidate) => candidate.header && row[candidate.header])
+      code = column ? row[column.header!] : undefined
+      level = column?.level
+    }
+
+    const title = row[titleColumn]
+    if (!code || !level || !title || !/^\d{2}-\d{4}$/.test(code)) {
+      skipped++
+      continue
+    }
+    entries.push({ code, title, level, parentCode: null })
+  }
+
+  linkParents(entries)
+  return { entries, skipped }
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the job_codes table, or add the level and parent columns to one
+ * created by the older setup scripts
+ */
+export async function initializeJobCodesTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS job_codes (
+      id SERIAL PRIMARY KEY,
+      occ_code VARCHAR(10) UNIQUE NOT NULL,
+      occ_title VARCHAR(255) NOT NULL,
+      major_group VARCHAR(255),
+      minor_group VARCHAR(255),
+      broad_occupation VARCHAR(255),
+      detailed_occupation VARCHAR(255),
+      soc_level VARCHAR(10),
+      parent_code VARCHAR(10),
+      source VARCHAR(50),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `
+  await sqlEnhanced`
+    ALTER TABLE job_codes
+      ADD COLUMN IF NOT EXISTS soc_level VARCHAR(10),
+      ADD COLUMN IF NOT EXISTS parent_code VARCHAR(10),
+      ADD COLUMN IF NOT EXISTS source VARCHAR(50),
+      ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      ALTER COLUMN major_group TYPE VARCHAR(255),
+      ALTER COLUMN minor_group TYPE VARCHAR(255),
+      ALTER COLUMN broad_occupation TYPE VARCHAR(255)
+  `
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_job_codes_level ON job_codes(soc_level)`
+  await sqlEnhanced`CREATE INDEX IF NOT EXISTS idx_job_codes_parent ON job_codes(parent_code)`
+}
+
+const INSERT_CHUNK_SIZE = 500
+
+/**
+ * Store parsed taxonomy entries, replacing earlier rows with the same code.
+ * Each row also records the titles of its major, minor and broad ancestors.
+ * @param entries Parsed taxonomy entries
+ * @param source Source marker stored on every row
+ * @returns Import statistics
+ */
+export async function importSOCTaxonomy(entries: SOCEntry[], source: string): Promise<SOCImportResult> {
+  await initializeJobCodesTable()
+
+  const byCode = new Map(entries.map((entry) => [entry.code, entry]))
+  const ancestorTitle = (entry: SOCEntry, level: SOCLevel): string | null => {
+    let current: SOCEntry | undefined = entry
+    while (current && current.level !== level) {
+      current = current.parentCode ? byCode.get(current.parentCode) : undefined
+    }
+    return current?.title ?? null
+  }
+
+  const byLevel: Record<SOCLevel, number> = { major: 0, minor: 0, broad: 0, detailed: 0 }
+  entries.forEach((entry) => byLevel[entry.level]++)
+
+  for (let i = 0; i < entries.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = entries.slice(i, i + INSERT_CHUNK_SIZE)
+    await sqlEnhanced`
+      INSERT INTO job_codes (
+        occ_code, occ_title, soc_level, parent_code, major_group, minor_group,
+        broad_occupation, detailed_occupation, source, created_at, updated_at
+      )
+      SELECT *, ${source}, NOW(), NOW() FROM UNNEST(
+        ${chunk.map((entry) => entry.code)}::varchar[],
+        ${chunk.map((entry) => entry.title)}::varchar[],
+        ${chunk.map((entry) => entry.level)}::varchar[],
+        ${chunk.map((entry) => entry.parentCode)}::varchar[],
+        ${chunk.map((entry) => ancestorTitle(entry, "major"))}::varchar[],
+        ${chunk.map((entry) => ancestorTitle(entry, "minor"))}::varchar[],
+        ${chunk.map((entry) => ancestorTitle(entry, "broad"))}::varchar[],
+        ${chunk.map((entry) => (entry.level === "detailed" ? entry.title : null))}::varchar[]
+      )
+      ON CONFLICT (occ_code)
+      DO UPDATE SET
+        occ_title = EXCLUDED.occ_title,
+        soc_level = EXCLUDED.soc_level,
+        parent_code = EXCLUDED.parent_code,
+        major_group = EXCLUDED.major_group,
+        minor_group = EXCLUDED.minor_group,
+        broad_occupation = EXCLUDED.broad_occupation,
+        detailed_occupation = EXCLUDED.detailed_occupation,
+        source = EXCLUDED.source,
+        updated_at = NOW()
+    `
+  }
+
+  return { imported: entries.length, byLevel, source }
+}
+
+/**
+ * Get the occupations to track: every detailed occupation, plus broad groups
+ * loaded without detailed occupations under them (OEWS publishes some broad
+ * groups such as 31-1120 as a single occupation).
+ * @returns Occupations ordered by code, or an empty list when the taxonomy is not loaded
+ */
+export async function getOccupations(): Promise<SOCOccupation[]> {
+  try {
+    const rows = await sqlEnhanced<{
+      occ_code: string
+      occ_title: string
+      major_group: string | null
+      minor_group: string | null
+      broad_occupation: string | null
+    }>`
+      SELECT jc.occ_code, jc.occ_title, jc.major_group, jc.minor_group, jc.broad_occupation
+      FROM job_codes jc
+      WHERE jc.soc_level = 'detailed'
+        OR (jc.soc_level = 'broad' AND NOT EXISTS (
+          SELECT 1 FROM job_codes child WHERE child.parent_code = jc.occ_code
+        ))
+      ORDER BY jc.occ_code
+    `
+    return rows.map((row) => ({
+      code: row.occ_code,
+      title: row.occ_title,
+      majorGroup: row.major_group,
+      minorGroup: row.minor_group,
+      broadOccupation: row.broad_occupation,
+    }))
+  } catch (error) {
+    if (isMissingTableError(error)) return []
+    throw error
+  }
+}
+
+/**
+ * Get the tracked occupations, loading the bundled SOC structure file first
+ * when the taxonomy has not been loaded
+ */
+export async function getOccupationsOrLoadDefault(): Promise<SOCOccupation[]> {
+  const occupations = await getOccupations()
+  if (occupations.length > 0) return occupations
+
+  console.log(`📋 SOC taxonomy not loaded, importing ${DEFAULT_SOC_STRUCTURE_PATH}`)
+  const parsed = parseSOCStructureFile(readFileSync(join(process.cwd(), DEFAULT_SOC_STRUCTURE_PATH), "utf8"))
+  await importSOCTaxonomy(parsed.entries, DEFAULT_SOC_SOURCE)
+  return getOccupations()
+}
@@ -0,0 +1,189 @@
+import { isMissingTableError, rememberTable, sqlEnhanced, tableExists } from "./database-enhanced"
+
+/**
+ * Distributed sync lock.
+ *
+ * Syncs run on whichever serverless instance received the request, so an
+ * in-process `isRunning` flag cannot stop two of them from competing for
+ * the same API keys.  The lock is a lease row in `sync_locks`: the holder
+ * renews it with a heartbeat and any instance may take it over once it has
+ * expired, so a crashed holder blocks syncs for at most one TTL.  Postgres
+ * advisory locks are not an option because the Neon HTTP driver does not
+ * keep a session between queries.  The lease query lets a holder re-take its
+ * own lease, so locks held in this process are also tracked in memory and a
+ * second caller here is refused before it reaches the database.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export interface SyncLease {
+  name: string
+  holder: string
+  acquiredAt: string
+  heartbeatAt: string
+  expiresAt: string
+  expired: boolean
+}
+
+export interface SyncLockHandle {
+  holder: string
+  // Set once a heartbeat finds the lease expired and taken over
+  lost: boolean
+  release(): Promise<void>
+}
+
+export interface SyncLockOptions {
+  // Lock name; one lock per kind of exclusive work
+  name?: string
+  // Lease length; the heartbeat renews it every third of this
+  ttlMs?: number
+  // Called when the lease is lost so the holder can stop its work
+  onLost?: () => void
+}
+
+// ========== CONFIGURATION ==========
+
+export const SYNC_LOCK_NAME = "bls-sync"
+export const DEFAULT_SYNC_LOCK_TTL_MS = 2 * 60 * 1000
+
+// Names of the locks this process holds or is acquiring
+const heldLocks = new Set<string>()
+
+// ========== DATABASE ==========
+
+/**
+ * Create the lock table if it does not exist
+ */
+export async function initializeSyncLockTable(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS sync_locks (
+      name VARCHAR(50) PRIMARY KEY,
+      holder VARCHAR(100) NOT NULL,
+      acquired_at TIMESTAMP NOT NULL,
+      heartbeat_at TIMESTAMP NOT NULL,
+      expires_at TIMESTAMP NOT NULL
+    )
+  `
+  rememberTable("sync_locks")
+}
+
+// Take the lease if it is free, expired or already ours
+async function tryAcquireLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
+  const rows = await sqlEnhanced<{ holder: string }>`
+    INSERT INTO sync_locks (name, holder, acquired_at, heartbeat_at, expires_at)
+    VALUES (${name}, ${holder}, NOW(), NOW(), NOW() + make_interval(secs => ${ttlMs / 1000}))
+    ON CONFLICT (name) DO UPDATE SET
+      holder = EXCLUDED.holder,
+      acquired_at = CASE WHEN sync_locks.holder = EXCLUDED.holder THEN sync_locks.acquired_at ELSE NOW() END,
+      heartbeat_at = NOW(),
+      expires_at = EXCLUDED.expires_at
+    WHERE sync_locks.expires_at < NOW() OR sync_locks.holder = EXCLUDED.holder
+    RETURNING holder
+  `
+  return rows.length > 0
+}
+
+// Extend our lease; false when it expired and another holder took it
+async function renewLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
+  const rows = await sqlEnhanced<{ holder: string }>`
+    UPDATE sync_locks
+    SET heartbeat_at = NOW(), expires_at = NOW() + make_interval(secs => ${ttlMs / 1000})
+    WHERE name = ${name} AND holder = ${holder}
+    RETURNING holder
+  `
+  return rows.length > 0
+}
+
+/**
+ * Acquire the lock and keep it alive with a heartbeat until released
+ * @param holder Identifies the caller in status output (see createSyncWorkerId)
+ * @param options Lock name, lease length and loss callback
+ * @returns A handle to release the lock, or null when another holder or
+ *          another caller in this process has it
+ */
+export async function acquireSyncLock(holder: string, options: SyncLockOptions = {}): Promise<SyncLockHandle | null> {
+  const name = options.name ?? SYNC_LOCK_NAME
+  const ttlMs = options.ttlMs ?? DEFAULT_SYNC_LOCK_TTL_MS
+
+  // Claimed before the first await so concurrent callers cannot both get past it
+  if (heldLocks.has(name)) return null
+  heldLocks.add(name)
+
+  let acquired = false
+  try {
+    if (!(await tableExists("sync_locks"))) {
+      await initializeSyncLockTable()
+    }
+    acquired = await tryAcquireLease(name, holder, ttlMs)
+  } finally {
+    if (!acquired) heldLocks.delete(name)
+  }
+  if (!acquired) return null
+
+  const handle: SyncLockHandle = {
+    holder,
+    lost: false,
+    async release() {
+      clearInterval(heartbeat)
+      try {
+        await sqlEnhanced`DELETE FROM sync_locks WHERE name = ${name} AND holder = ${holder}`
+      } finally {
+        heldLocks.delete(name)
+      }
+    },
+  }
+
+  // A failed renewal is retried on the next beat; only a lease held by
+  // someone else counts as lost
+  const heartbeat = setInterval(async () => {
+    try {
+      if (await renewLease(name, holder, ttlMs)) return
+      clearInterval(heartbeat)
+      handle.lost = true
+      console.warn(`⚠️ Sync lock "${name}" was lost by ${holder}`)
+      options.onLost?.()
+    } catch (error) {
+      console.warn(`⚠️ Could not renew sync lock "${name}":`, error)
+    }
+  }, ttlMs / 3)
+
+  return handle
+}
+
+/**
+ * Get the current holder of a lock
+ * @param name Lock name
+ * @returns The lease, or null when the lock is free
+ */
+export async function getSyncLock(name = SYNC_LOCK_NAME): Promise<SyncLease | null> {
+  // Polled by the status routes; the table is created by the first sync
+  if (!(await tableExists("sync_locks"))) return null
+
+  try {
+    const rows = await sqlEnhanced<{
+      name: string
+      holder: string
+      acquired_at: string
+      heartbeat_at: string
+      expires_at: string
+      expired: boolean
+    }>`
+      SELECT name, holder, acquired_at, heartbeat_at, expires_at, expires_at < NOW() AS expired
+      FROM sync_locks
+      WHERE name = ${name}
+    `
+    const row = rows[0]
+    if (!row) return null
+    return {
+      name: row.name,
+      holder: row.holder,
+      acquiredAt: row.acquired_at,
+      heartbeatAt: row.heartbeat_at,
+      expiresAt: row.expires_at,
+      expired: row.expired,
+    }
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
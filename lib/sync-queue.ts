@@ -0,0 +1,369 @@
+import { randomUUID } from "crypto"
+import { hostname } from "os"
+import { isMissingTableError, sqlEnhanced } from "./database-enhanced"
+import type { SyncSelectionReport } from "./sync-selection"
+
+/**
+ * Durable sync runs and work queue.
+ *
+ * Each sync is a row in `sync_runs` with one `sync_items` row per occupation
+ * code.  Instances claim pending items with `FOR UPDATE SKIP LOCKED`, so any
+ * number of them can work on a run side by side, and a run left behind by a
+ * cold start or redeploy is resumed by whichever instance starts next.
+ * Items claimed by an instance that died are reclaimed once their claim is
+ * older than the configured timeout.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+// running: items are being worked on; paused: rate limited or interrupted
+// and resumable; completed: no pending items left; aborted: superseded by a
+// forced restart; stopped: stopped by an administrator and not resumed
+export type SyncRunStatus = "running" | "paused" | "completed" | "aborted" | "stopped"
+
+export type SyncItemStatus = "pending" | "in_progress" | "done" | "failed"
+
+export interface SyncRun {
+  id: number
+  status: SyncRunStatus
+  totalItems: number
+  pendingItems: number
+  inProgressItems: number
+  doneItems: number
+  failedItems: number
+  // Done items that were already up to date
+  skippedItems: number
+  message: string | null
+  // The selection the run was started with; null for a full sync
+  selection: SyncSelectionReport | null
+  startedAt: string
+  updatedAt: string
+  finishedAt: string | null
+}
+
+export interface SyncItemFailure {
+  code: string
+  attempts: number
+  lastError: string | null
+}
+
+interface SyncRunRow {
+  id: number
+  status: SyncRunStatus
+  message: string | null
+  selection: SyncSelectionReport | null
+  started_at: string
+  updated_at: string
+  finished_at: string | null
+  total: string | number
+  pending: string | number
+  in_progress: string | number
+  done: string | number
+  failed: string | number
+  skipped: string | number
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the run and item tables if they do not exist
+ */
+export async function initializeSyncQueueTables(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS sync_runs (
+      id SERIAL PRIMARY KEY,
+      status VARCHAR(20) NOT NULL DEFAULT 'running',
+      message TEXT,
+      started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      finished_at TIMESTAMP
+    )
+  `
+  await sqlEnhanced`ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS selection JSONB`
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS sync_items (
+      run_id INTEGER NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+      occ_code VARCHAR(10) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      skipped BOOLEAN NOT NULL DEFAULT FALSE,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      claimed_by VARCHAR(100),
+      claimed_at TIMESTAMP,
+      completed_at TIMESTAMP,
+      PRIMARY KEY (run_id, occ_code)
+    )
+  `
+  await sqlEnhanced`
+    CREATE INDEX IF NOT EXISTS idx_sync_items_status ON sync_items(run_id, status)
+  `
+}
+
+/**
+ * Identify this process in item claims: host, process ID and a random
+ * suffix, since serverless instances often share both
+ */
+export function createSyncWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+}
+
+function toSyncRun(row: SyncRunRow): SyncRun {
+  return {
+    id: row.id,
+    status: row.status,
+    totalItems: Number(row.total),
+    pendingItems: Number(row.pending),
+    inProgressItems: Number(row.in_progress),
+    doneItems: Number(row.done),
+    failedItems: Number(row.failed),
+    skippedItems: Number(row.skipped),
+    message: row.message,
+    selection: row.selection ?? null,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+  }
+}
+
+// ========== RUNS ==========
+
+/**
+ * Start a run over the given occupation codes.  Unfinished runs are
+ * aborted, so at most one run is ever resumable.
+ * @param codes Occupation codes to sync; duplicates are queued once
+ * @param selection How the codes were selected, kept so a resumed run
+ *                  refreshes the same way
+ * @returns The new run
+ */
+export async function createSyncRun(codes: string[], selection: SyncSelectionReport | null = null): Promise<SyncRun> {
+  await sqlEnhanced`
+    UPDATE sync_runs
+    SET status = 'aborted', message = 'Superseded by a new sync', finished_at = NOW(), updated_at = NOW()
+    WHERE status IN ('running', 'paused')
+  `
+  const [run] = await sqlEnhanced<{ id: number }>`
+    INSERT INTO sync_runs (status, selection, started_at, updated_at)
+    VALUES ('running', ${selection ? JSON.stringify(selection) : null}, NOW(), NOW())
+    RETURNING id
+  `
+  await sqlEnhanced`
+    INSERT INTO sync_items (run_id, occ_code)
+    SELECT ${run.id}, code FROM UNNEST(${Array.from(new Set(codes))}::varchar[]) AS code
+  `
+  return (await getSyncRun(run.id))!
+}
+
+/**
+ * Get a run with its item counts
+ * @param runId Run ID
+ * @returns The run, or null when it does not exist
+ */
+export async function getSyncRun(runId: number): Promise<SyncRun | null> {
+  try {
+    const rows = await sqlEnhanced<SyncRunRow>`
+      SELECT r.id, r.status, r.message, r.selection, r.started_at, r.updated_at, r.finished_at,
+        COUNT(i.occ_code) AS total,
+        COUNT(*) FILTER (WHERE i.status = 'pending') AS pending,
+        COUNT(*) FILTER (WHERE i.status = 'in_progress') AS in_progress,
+        COUNT(*) FILTER (WHERE i.status = 'done') AS done,
+        COUNT(*) FILTER (WHERE i.status = 'failed') AS failed,
+        COUNT(*) FILTER (WHERE i.status = 'done' AND i.skipped) AS skipped
+      FROM sync_runs r
+      LEFT JOIN sync_items i ON i.run_id = r.id
+      WHERE r.id = ${runId}
+      GROUP BY r.id
+    `
+    return rows[0] ? toSyncRun(rows[0]) : null
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Get the most recently started run
+ * @returns The run, or null when no sync has run yet
+ */
+export async function getLatestSyncRun(): Promise<SyncRun | null> {
+  try {
+    const rows = await sqlEnhanced<{ id: number }>`SELECT id FROM sync_runs ORDER BY started_at DESC, id DESC LIMIT 1`
+    return rows[0] ? getSyncRun(rows[0].id) : null
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Get the unfinished run a sync should resume
+ * @returns The latest running or paused run, or null when there is none
+ */
+export async function findResumableSyncRun(): Promise<SyncRun | null> {
+  try {
+    const rows = await sqlEnhanced<{ id: number }>`
+      SELECT id FROM sync_runs
+      WHERE status IN ('running', 'paused')
+      ORDER BY started_at DESC, id DESC
+      LIMIT 1
+    `
+    return rows[0] ? getSyncRun(rows[0].id) : null
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Set a run's status.  Completed, aborted and stopped runs get a finish time
+ * and keep their status, so a batch that ends after a stop cannot pause the
+ * run and make it resumable again.
+ * @param runId Run ID
+ * @param status New status
+ * @param message Result or reason to show with the run
+ */
+export async function updateSyncRunStatus(runId: number, status: SyncRunStatus, message?: string): Promise<void> {
+  const finished = status === "completed" || status === "aborted" || status === "stopped"
+  await sqlEnhanced`
+    UPDATE sync_runs
+    SET status = ${status},
+      message = COALESCE(${message ?? null}, message),
+      finished_at = CASE WHEN ${finished} THEN NOW() ELSE NULL END,
+      updated_at = NOW()
+    WHERE id = ${runId} AND status IN ('running', 'paused')
+  `
+}
+
+/**
+ * Mark a run completed once none of its items are pending or in progress.
+ * Instances sharing a run all call this; only the last one to finish
+ * completes it.
+ * @returns true if the run was completed by this call
+ */
+export async function completeSyncRunIfDone(runId: number, message: string): Promise<boolean> {
+  const rows = await sqlEnhanced<{ id: number }>`
+    UPDATE sync_runs
+    SET status = 'completed', message = ${message}, finished_at = NOW(), updated_at = NOW()
+    WHERE id = ${runId}
+      AND status IN ('running', 'paused')
+      AND NOT EXISTS (
+        SELECT 1 FROM sync_items WHERE run_id = ${runId} AND status IN ('pending', 'in_progress')
+      )
+    RETURNING id
+  `
+  return rows.length > 0
+}
+
+// ========== ITEMS ==========
+
+/**
+ * Claim up to `limit` pending items for this worker, plus items whose claim
+ * has gone stale because the instance holding them stopped.  Rows locked by
+ * a concurrent claim are skipped rather than waited on.
+ * @param runId Run ID
+ * @param workerId This worker's ID (createSyncWorkerId)
+ * @param limit Maximum items to claim
+ * @param staleAfterMs Age after which another worker's claim is taken over
+ * @returns Claimed occupation codes
+ */
+export async function claimSyncItems(
+  runId: number,
+  workerId: string,
+  limit: number,
+  staleAfterMs: number
+): Promise<string[]> {
+  const rows = await sqlEnhanced<{ occ_code: string }>`
+    UPDATE sync_items
+    SET status = 'in_progress', attempts = attempts + 1, claimed_by = ${workerId}, claimed_at = NOW()
+    WHERE run_id = ${runId} AND occ_code IN (
+      SELECT occ_code FROM sync_items
+      WHERE run_id = ${runId}
+        AND (
+          status = 'pending'
+          OR (status = 'in_progress' AND claimed_at < NOW() - make_interval(secs => ${staleAfterMs / 1000}))
+        )
+      ORDER BY occ_code
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING occ_code
+  `
+  if (rows.length > 0) {
+    await sqlEnhanced`UPDATE sync_runs SET status = 'running', updated_at = NOW() WHERE id = ${runId}`
+  }
+  return rows.map((row) => row.occ_code).sort()
+}
+
+/**
+ * Record a processed item.  Only the worker still holding the claim can
+ * record it; a claim that went stale may have been taken over meanwhile.
+ * @param workerId Worker that claimed the item
+ * @param skipped Whether the job was already up to date
+ */
+export async function markSyncItemDone(runId: number, code: string, workerId: string, skipped: boolean): Promise<void> {
+  await sqlEnhanced`
+    UPDATE sync_items
+    SET status = 'done', skipped = ${skipped}, last_error = NULL, completed_at = NOW()
+    WHERE run_id = ${runId} AND occ_code = ${code} AND claimed_by = ${workerId} AND status = 'in_progress'
+  `
+}
+
+/**
+ * Record an item that failed; it is retried when the run is resumed, up to
+ * the maximum attempts passed to requeueSyncItems
+ * @param workerId Worker that claimed the item
+ */
+export async function markSyncItemFailed(runId: number, code: string, workerId: string, error: string): Promise<void> {
+  await sqlEnhanced`
+    UPDATE sync_items
+    SET status = 'failed', last_error = ${error}, completed_at = NOW()
+    WHERE run_id = ${runId} AND occ_code = ${code} AND claimed_by = ${workerId} AND status = 'in_progress'
+  `
+}
+
+/**
+ * Return claimed items that were never processed (the sync was stopped
+ * mid-batch) to the queue without counting the attempt
+ * @param workerId Worker that claimed the items
+ */
+export async function releaseSyncItems(runId: number, codes: string[], workerId: string): Promise<void> {
+  if (codes.length === 0) return
+  await sqlEnhanced`
+    UPDATE sync_items
+    SET status = 'pending', attempts = GREATEST(attempts - 1, 0), claimed_by = NULL, claimed_at = NULL
+    WHERE run_id = ${runId} AND occ_code = ANY(${codes}) AND claimed_by = ${workerId} AND status = 'in_progress'
+  `
+}
+
+/**
+ * Put failed items with attempts left back in the queue when a run resumes
+ * @param maxAttempts Attempts after which a failed item stays failed
+ * @returns Number of items requeued
+ */
+export async function requeueFailedSyncItems(runId: number, maxAttempts: number): Promise<number> {
+  const rows = await sqlEnhanced<{ occ_code: string }>`
+    UPDATE sync_items
+    SET status = 'pending', claimed_by = NULL, claimed_at = NULL
+    WHERE run_id = ${runId} AND status = 'failed' AND attempts < ${maxAttempts}
+    RETURNING occ_code
+  `
+  return rows.length
+}
+
+/**
+ * Get the failed items of a run
+ * @param limit Maximum items to return
+ */
+export async function getSyncItemFailures(runId: number, limit = 100): Promise<SyncItemFailure[]> {
+  try {
+    const rows = await sqlEnhanced<{ occ_code: string; attempts: number; last_error: string | null }>`
+      SELECT occ_code, attempts, last_error FROM sync_items
+      WHERE run_id = ${runId} AND status = 'failed'
+      ORDER BY occ_code
+      LIMIT ${limit}
+    `
+    return rows.map((row) => ({ code: row.occ_code, attempts: row.attempts, lastError: row.last_error }))
+  } catch (error) {
+    if (isMissingTableError(error)) return []
+    throw error
+  }
+}
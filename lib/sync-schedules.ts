@@ -0,0 +1,628 @@
+import { isMissingTableError, sqlEnhanced } from "./database-enhanced"
+import { BLSSyncService, type SyncConfig, type SyncResult, type SyncTickResult } from "./bls-sync-enhanced"
+import { validateBLSServiceOptions } from "./bls-service"
+import { getNextCronTime, getNextCronTimes, validateCronExpression } from "./cron"
+import { findResumableSyncRun, getSyncRun } from "./sync-queue"
+import { getSyncLock } from "./sync-lock"
+import type { SyncSelection } from "./sync-selection"
+
+/**
+ * Scheduled syncs.
+ *
+ * Schedules live in `sync_schedules` with a cron expression (UTC), a scope
+ * selecting which occupations to sync and optional SyncConfig overrides.
+ * Nothing runs in the background: an external cron pings the scheduler
+ * endpoint, typically every minute, and each ping either advances the
+ * scheduled run in progress by one tick or starts the next due schedule.
+ * Every scheduled run is recorded in `sync_schedule_runs` with its stats.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+// all: every occupation; major-group: codes under one SOC major group;
+// stale-only: rows not updated for staleAfterDays; fallback-only: rows
+// still holding fallback estimates
+export type SyncScheduleScope = "all" | "major-group" | "stale-only" | "fallback-only"
+
+export const SYNC_SCHEDULE_SCOPES: readonly SyncScheduleScope[] = ["all", "major-group", "stale-only", "fallback-only"]
+
+// SyncConfig settings a schedule may override
+export const SCHEDULE_CONFIG_KEYS = [
+  "maxConcurrent",
+  "batchSize",
+  "retryAttempts",
+  "validateData",
+  "maxItemAttempts",
+  "tickDurationMs",
+  "blsOptions",
+] as const
+
+export type SyncScheduleConfig = Partial<Pick<SyncConfig, (typeof SCHEDULE_CONFIG_KEYS)[number]>>
+
+export interface SyncSchedule {
+  id: number
+  name: string
+  cronExpression: string
+  scope: SyncScheduleScope
+  majorGroup: string | null
+  staleAfterDays: number | null
+  config: SyncScheduleConfig
+  enabled: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SyncScheduleInput {
+  name: string
+  cronExpression: string
+  scope: SyncScheduleScope
+  majorGroup?: string | null
+  staleAfterDays?: number | null
+  config?: SyncScheduleConfig
+  enabled?: boolean
+}
+
+export type SyncScheduleRunStatus = "running" | "completed" | "failed"
+
+export interface SyncScheduleRun {
+  id: number
+  scheduleId: number | null
+  scheduleName: string
+  scope: SyncScheduleScope
+  syncRunId: number | null
+  status: SyncScheduleRunStatus
+  message: string | null
+  stats: SyncResult["stats"] | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+export interface UpcomingSyncRun {
+  scheduleId: number
+  scheduleName: string
+  scope: SyncScheduleScope
+  runAt: string
+}
+
+export interface SyncSchedulerResult {
+  // started: a due schedule began a run; continued: the scheduled run in
+  // progress advanced; waiting: another sync holds the queue or the lock;
+  // idle: nothing is due
+  action: "started" | "continued" | "waiting" | "idle"
+  message: string
+  scheduleRun: SyncScheduleRun | null
+  tick: SyncTickResult | null
+}
+
+interface SyncScheduleRow {
+  id: number
+  name: string
+  cron_expression: string
+  scope: SyncScheduleScope
+  major_group: string | null
+  stale_after_days: number | null
+  config: SyncScheduleConfig | null
+  enabled: boolean
+  next_run_at: string | null
+  last_run_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface SyncScheduleRunRow {
+  id: number
+  schedule_id: number | null
+  schedule_name: string
+  scope: SyncScheduleScope
+  sync_run_id: number | null
+  status: SyncScheduleRunStatus
+  message: string | null
+  stats: SyncResult["stats"] | null
+  config: Partial<SyncConfig> | null
+  started_at: string
+  finished_at: string | null
+}
+
+// ========== VALIDATION ==========
+
+/**
+ * Check a schedule request body
+ * @returns A list of problems; empty when the input is valid
+ */
+export function validateSyncScheduleInput(input: unknown): string[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return ["schedule must be an object"]
+  const body = input as Record<string, unknown>
+  const errors: string[] = []
+
+  if (typeof body.name !== "string" || !body.name.trim() || body.name.length > 100) {
+    errors.push("name is required (at most 100 characters)")
+  }
+
+  if (typeof body.cronExpression !== "string") {
+    errors.push("cronExpression is required, e.g. \"0 3 * * *\"")
+  } else {
+    const cronError = validateCronExpression(body.cronExpression)
+    if (cronError) {
+      errors.push(`cronExpression: ${cronError}`)
+    } else if (!getNextCronTime(body.cronExpression)) {
+      // Valid fields can still describe a date that never comes, e.g. "0 0 30 2 *"
+      errors.push("cronExpression never fires")
+    }
+  }
+
+  if (!SYNC_SCHEDULE_SCOPES.includes(body.scope as SyncScheduleScope)) {
+    errors.push(`scope must be one of: ${SYNC_SCHEDULE_SCOPES.join(", ")}`)
+  }
+  if (body.scope === "major-group" && (typeof body.majorGroup !== "string" || !/^\d{2}$/.test(body.majorGroup))) {
+    errors.push("majorGroup must be a two-digit SOC major group such as 15")
+  }
+  if (
+    body.scope === "stale-only" &&
+    (typeof body.staleAfterDays !== "number" || !Number.isInteger(body.staleAfterDays) || body.staleAfterDays < 1)
+  ) {
+    errors.push("staleAfterDays must be a positive whole number of days")
+  }
+
+  const config = body.config
+  if (config !== undefined && config !== null) {
+    if (typeof config !== "object" || Array.isArray(config)) {
+      errors.push("config must be an object")
+    } else {
+      for (const [key, value] of Object.entries(config)) {
+        if (!SCHEDULE_CONFIG_KEYS.includes(key as (typeof SCHEDULE_CONFIG_KEYS)[number])) {
+          errors.push(`config.${key} cannot be set by a schedule`)
+        } else if (key === "validateData") {
+          if (typeof value !== "boolean") errors.push("config.validateData must be true or false")
+        } else if (key === "blsOptions") {
+          errors.push(...validateBLSServiceOptions(value, "config.blsOptions."))
+        } else if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+          errors.push(`config.${key} must be a positive whole number`)
+        }
+      }
+    }
+  }
+
+  if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+    errors.push("enabled must be true or false")
+  }
+
+  return errors
+}
+
+// ========== DATABASE ==========
+
+/**
+ * Create the schedule and schedule run tables if they do not exist
+ */
+export async function initializeSyncScheduleTables(): Promise<void> {
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS sync_schedules (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      cron_expression VARCHAR(100) NOT NULL,
+      scope VARCHAR(20) NOT NULL,
+      major_group VARCHAR(2),
+      stale_after_days INTEGER,
+      config JSONB NOT NULL DEFAULT '{}'::jsonb,
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      next_run_at TIMESTAMP,
+      last_run_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `
+  await sqlEnhanced`
+    CREATE TABLE IF NOT EXISTS sync_schedule_runs (
+      id SERIAL PRIMARY KEY,
+      schedule_id INTEGER REFERENCES sync_schedules(id) ON DELETE SET NULL,
+      schedule_name VARCHAR(100) NOT NULL,
+      scope VARCHAR(20) NOT NULL,
+      sync_run_id INTEGER,
+      status VARCHAR(20) NOT NULL DEFAULT 'running',
+      message TEXT,
+      stats JSONB,
+      config JSONB NOT NULL DEFAULT '{}'::jsonb,
+      started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      finished_at TIMESTAMP
+    )
+  `
+  await sqlEnhanced`
+    CREATE INDEX IF NOT EXISTS idx_sync_schedule_runs_started ON sync_schedule_runs(started_at DESC)
+  `
+}
+
+function toSyncSchedule(row: SyncScheduleRow): SyncSchedule {
+  return {
+    id: row.id,
+    name: row.name,
+    cronExpression: row.cron_expression,
+    scope: row.scope,
+    majorGroup: row.major_group,
+    staleAfterDays: row.stale_after_days,
+    config: row.config ?? {},
+    enabled: row.enabled,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toSyncScheduleRun(row: SyncScheduleRunRow): SyncScheduleRun {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id,
+    scheduleName: row.schedule_name,
+    scope: row.scope,
+    syncRunId: row.sync_run_id,
+    status: row.status,
+    message: row.message,
+    stats: row.stats,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  }
+}
+
+// Next fire time of an enabled schedule, or null when it should not run
+function nextRunAt(cronExpression: string, enabled: boolean): string | null {
+  if (!enabled) return null
+  return getNextCronTime(cronExpression)?.toISOString() ?? null
+}
+
+// ========== SCHEDULES ==========
+
+/**
+ * List all schedules
+ * @returns Schedules ordered by id, or an empty list when none were created
+ */
+export async function listSyncSchedules(): Promise<SyncSchedule[]> {
+  try {
+    const rows = await sqlEnhanced<SyncScheduleRow>`SELECT * FROM sync_schedules ORDER BY id`
+    return rows.map(toSyncSchedule)
+  } catch (error) {
+    if (isMissingTableError(error)) return []
+    throw error
+  }
+}
+
+/**
+ * Get a schedule
+ * @param id Schedule ID
+ * @returns The schedule, or null when it does not exist
+ */
+export async function getSyncSchedule(id: number): Promise<SyncSchedule | null> {
+  try {
+    const rows = await sqlEnhanced<SyncScheduleRow>`SELECT * FROM sync_schedules WHERE id = ${id}`
+    return rows[0] ? toSyncSchedule(rows[0]) : null
+  } catch (error) {
+    if (isMissingTableError(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Create a schedule.  Validate the input with validateSyncScheduleInput first.
+ * @param input Schedule definition
+ * @returns The created schedule with its first run time
+ */
+export async function createSyncSchedule(input: SyncScheduleInput): Promise<SyncSchedule> {
+  await initializeSyncScheduleTables()
+  const enabled = input.enabled ?? true
+  const [row] = await sqlEnhanced<SyncScheduleRow>`
+    INSERT INTO sync_schedules (
+      name, cron_expression, scope, major_group, stale_after_days, config, enabled, next_run_at, created_at, updated_at
+    ) VALUES (
+      ${input.name.trim()}, ${input.cronExpression.trim()}, ${input.scope},
+      ${input.scope === "major-group" ? input.majorGroup ?? null : null},
+      ${input.scope === "stale-only" ? input.staleAfterDays ?? null : null},
+      ${JSON.stringify(input.config ?? {})}, ${enabled}, ${nextRunAt(input.cronExpression, enabled)}, NOW(), NOW()
+    )
+    RETURNING *
+  `
+  return toSyncSchedule(row)
+}
+
+/**
+ * Change a schedule.  The changes are merged onto the stored schedule and
+ * the result must pass validateSyncScheduleInput; the next run time is
+ * recalculated from the (new) expression.
+ * @param id Schedule ID
+ * @param changes Fields to change
+ * @returns The updated schedule and any validation problems; schedule is
+ *          null when it does not exist
+ */
+export async function updateSyncSchedule(
+  id: number,
+  changes: Partial<SyncScheduleInput>
+): Promise<{ schedule: SyncSchedule | null; errors: string[] }> {
+  const current = await getSyncSchedule(id)
+  if (!current) return { schedule: null, errors: [] }
+
+  const merged: SyncScheduleInput = {
+    name: changes.name ?? current.name,
+    cronExpression: changes.cronExpression ?? current.cronExpression,
+    scope: changes.scope ?? current.scope,
+    majorGroup: changes.majorGroup !== undefined ? changes.majorGroup : current.majorGroup,
+    staleAfterDays: changes.staleAfterDays !== undefined ? changes.staleAfterDays : current.staleAfterDays,
+    config: changes.config ?? current.config,
+    enabled: changes.enabled ?? current.enabled,
+  }
+  const errors = validateSyncScheduleInput(merged)
+  if (errors.length > 0) return { schedule: current, errors }
+
+  const [row] = await sqlEnhanced<SyncScheduleRow>`
+    UPDATE sync_schedules SET
+      name = ${merged.name.trim()},
+      cron_expression = ${merged.cronExpression.trim()},
+      scope = ${merged.scope},
+      major_group = ${merged.scope === "major-group" ? merged.majorGroup ?? null : null},
+      stale_after_days = ${merged.scope === "stale-only" ? merged.staleAfterDays ?? null : null},
+      config = ${JSON.stringify(merged.config ?? {})},
+      enabled = ${merged.enabled!},
+      next_run_at = ${nextRunAt(merged.cronExpression, merged.enabled!)},
+      updated_at = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  `
+  return { schedule: row ? toSyncSchedule(row) : null, errors: [] }
+}
+
+/**
+ * Delete a schedule.  Its past runs are kept.
+ * @param id Schedule ID
+ * @returns Whether the schedule existed
+ */
+export async function deleteSyncSchedule(id: number): Promise<boolean> {
+  try {
+    const rows = await sqlEnhanced<{ id: number }>`DELETE FROM sync_schedules WHERE id = ${id} RETURNING id`
+    return rows.length > 0
+  } catch (error) {
+    if (isMissingTableError(error)) return false
+    throw error
+  }
+}
+
+/**
+ * Get the coming fire times of the enabled schedules
+ * @param schedules Schedules from listSyncSchedules
+ * @param perSchedule Fire times to list per schedule
+ * @returns Fire times in order; an overdue schedule is listed at its due time
+ */
+export function getUpcomingSyncRuns(schedules: SyncSchedule[], perSchedule = 3): UpcomingSyncRun[] {
+  const upcoming: UpcomingSyncRun[] = []
+  for (const schedule of schedules) {
+    if (!schedule.enabled || !schedule.nextRunAt) continue
+    const first = new Date(schedule.nextRunAt)
+    const times = [first, ...getNextCronTimes(schedule.cronExpression, perSchedule - 1, first)]
+    for (const time of times) {
+      upcoming.push({
+        scheduleId: schedule.id,
+        scheduleName: schedule.name,
+        scope: schedule.scope,
+        runAt: time.toISOString(),
+      })
+    }
+  }
+  return upcoming.sort((a, b) => a.runAt.localeCompare(b.runAt))
+}
+
+// ========== SCHEDULE RUNS ==========
+
+/**
+ * List past and in-progress scheduled runs
+ * @param limit Maximum number of runs
+ * @returns Runs, most recent first
+ */
+export async function listSyncScheduleRuns(limit = 50): Promise<SyncScheduleRun[]> {
+  try {
+    const rows = await sqlEnhanced<SyncScheduleRunRow>`
+      SELECT * FROM sync_schedule_runs ORDER BY started_at DESC, id DESC LIMIT ${limit}
+    `
+    return rows.map(toSyncScheduleRun)
+  } catch (error) {
+    if (isMissingTableError(error)) return []
+    throw error
+  }
+}
+
+async function getActiveScheduleRun(): Promise<SyncScheduleRunRow | null> {
+  const rows = await sqlEnhanced<SyncScheduleRunRow>`
+    SELECT * FROM sync_schedule_runs WHERE status = 'running' ORDER BY started_at DESC, id DESC LIMIT 1
+  `
+  return rows[0] ?? null
+}
+
+async function updateScheduleRun(
+  id: number,
+  status: SyncScheduleRunStatus,
+  message: string,
+  syncRunId: number | null,
+  stats: SyncResult["stats"] | null
+): Promise<SyncScheduleRun> {
+  const [row] = await sqlEnhanced<SyncScheduleRunRow>`
+    UPDATE sync_schedule_runs SET
+      status = ${status},
+      message = ${message},
+      sync_run_id = COALESCE(${syncRunId}, sync_run_id),
+      stats = COALESCE(${stats ? JSON.stringify(stats) : null}::jsonb, stats),
+      finished_at = CASE WHEN ${status} = 'running' THEN NULL ELSE NOW() END
+    WHERE id = ${id}
+    RETURNING *
+  `
+  return toSyncScheduleRun(row)
+}
+
+// Take a due schedule and move its next run time forward.  Missed fire
+// times collapse into this one run.  The compare-and-set on next_run_at
+// keeps two concurrent pings from both starting it.
+async function claimDueSchedule(): Promise<SyncSchedule | null> {
+  const due = await sqlEnhanced<SyncScheduleRow>`
+    SELECT * FROM sync_schedules
+    WHERE enabled AND next_run_at IS NOT NULL AND next_run_at <= NOW()
+    ORDER BY next_run_at, id
+  `
+  for (const row of due) {
+    const claimed = await sqlEnhanced<SyncScheduleRow>`
+      UPDATE sync_schedules
+      SET next_run_at = ${nextRunAt(row.cron_expression, true)}, last_run_at = NOW(), updated_at = NOW()
+      WHERE id = ${row.id} AND next_run_at = ${row.next_run_at}
+      RETURNING *
+    `
+    if (claimed[0]) return toSyncSchedule(claimed[0])
+  }
+  return null
+}
+
+// ========== SCOPES ==========
+
+/**
+ * Translate a schedule's scope into a sync selection
+ * @param schedule Schedule
+ * @returns The selection, or undefined to sync every occupation
+ */
+export function getScheduleSelection(
+  schedule: Pick<SyncSchedule, "scope" | "majorGroup" | "staleAfterDays">
+): SyncSelection | undefined {
+  switch (schedule.scope) {
+    case "major-group":
+      return { majorGroups: [schedule.majorGroup!] }
+    case "stale-only":
+      return { olderThanDays: schedule.staleAfterDays ?? 30 }
+    case "fallback-only":
+      return { dataSources: ["fallback"] }
+    default:
+      return undefined
+  }
+}
+
+// Stats of the whole scheduled run rather than of the last tick
+function runStats(tick: SyncTickResult, startedAt: string): SyncResult["stats"] {
+  return {
+    ...tick.stats,
+    startTime: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - new Date(startedAt).getTime(),
+  }
+}
+
+// ========== SCHEDULER ==========
+
+// One sync service per instance, so the per-key daily usage it tracks
+// survives between pings; each schedule's config is applied per tick
+let schedulerSyncService: BLSSyncService | null = null
+
+function getSchedulerSyncService(apiKeys: string[]): BLSSyncService {
+  if (!schedulerSyncService) {
+    schedulerSyncService = new BLSSyncService(apiKeys)
+  }
+  return schedulerSyncService
+}
+
+/**
+ * Do the scheduled work of one cron ping: advance the scheduled run in
+ * progress by one tick, or else start the earliest due schedule.  Due
+ * schedules wait while a manual sync run is unfinished or the sync lock is
+ * held elsewhere.
+ * @param apiKeys BLS API keys for the sync service
+ * @param options.maxDurationMs Time budget of the tick
+ * @returns What the ping did
+ */
+export async function runSyncScheduler(
+  apiKeys: string[],
+  options: { maxDurationMs?: number } = {}
+): Promise<SyncSchedulerResult> {
+  await initializeSyncScheduleTables()
+
+  const active = await getActiveScheduleRun()
+  if (active) {
+    // A manual forced restart aborts the scheduled run's queue
+    const syncRun = active.sync_run_id !== null ? await getSyncRun(active.sync_run_id) : null
+    if (!syncRun || syncRun.status === "aborted") {
+      const scheduleRun = await updateScheduleRun(active.id, "failed", "Superseded by another sync run", null, null)
+      return { action: "continued", message: scheduleRun.message!, scheduleRun, tick: null }
+    }
+    if (syncRun.status === "stopped") {
+      const message = syncRun.message ?? "Stopped by an administrator"
+      const scheduleRun = await updateScheduleRun(active.id, "failed", message, null, null)
+      return { action: "continued", message, scheduleRun, tick: null }
+    }
+    if (syncRun.status === "completed") {
+      const message = syncRun.message ?? "Sync completed"
+      const scheduleRun = await updateScheduleRun(active.id, "completed", message, null, null)
+      return { action: "continued", message, scheduleRun, tick: null }
+    }
+
+    try {
+      const tick = await getSchedulerSyncService(apiKeys).runTick({
+        maxDurationMs: options.maxDurationMs,
+        config: active.config ?? {},
+      })
+      // A tick that did not get the lock or failed did not advance the run;
+      // the next ping tries again
+      const advanced = tick.success && tick.runId !== null
+      const scheduleRun = await updateScheduleRun(
+        active.id,
+        advanced && tick.done ? "completed" : "running",
+        tick.message,
+        tick.runId,
+        advanced ? runStats(tick, active.started_at) : null
+      )
+      console.log(`⏰ Scheduled run ${active.id} (${active.schedule_name}): ${tick.message}`)
+      return { action: "continued", message: tick.message, scheduleRun, tick }
+    } catch (error) {
+      const message = `Scheduled sync failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      const scheduleRun = await updateScheduleRun(active.id, "failed", message, null, null)
+      return { action: "continued", message, scheduleRun, tick: null }
+    }
+  }
+
+  const unfinished = await findResumableSyncRun()
+  if (unfinished) {
+    return {
+      action: "waiting",
+      message: `Sync run ${unfinished.id} is unfinished; due schedules wait until it completes`,
+      scheduleRun: null,
+      tick: null,
+    }
+  }
+  const lease = await getSyncLock()
+  if (lease && !lease.expired) {
+    return {
+      action: "waiting",
+      message: `Sync is running on ${lease.holder}; due schedules wait until it finishes`,
+      scheduleRun: null,
+      tick: null,
+    }
+  }
+
+  const schedule = await claimDueSchedule()
+  if (!schedule) {
+    return { action: "idle", message: "No schedule is due", scheduleRun: null, tick: null }
+  }
+
+  const config = schedule.config
+  const [row] = await sqlEnhanced<SyncScheduleRunRow>`
+    INSERT INTO sync_schedule_runs (schedule_id, schedule_name, scope, status, config, started_at)
+    VALUES (${schedule.id}, ${schedule.name}, ${schedule.scope}, 'running', ${JSON.stringify(config)}, NOW())
+    RETURNING *
+  `
+  console.log(`⏰ Starting scheduled sync "${schedule.name}" (${schedule.scope})`)
+
+  try {
+    const tick = await getSchedulerSyncService(apiKeys).runTick({
+      forceRestart: true,
+      selection: getScheduleSelection(schedule),
+      maxDurationMs: options.maxDurationMs,
+      config,
+    })
+    // No run is created when the lock is held elsewhere or nothing matched the scope
+    const status = tick.runId === null ? (tick.success ? "completed" : "failed") : tick.done ? "completed" : "running"
+    const scheduleRun = await updateScheduleRun(row.id, status, tick.message, tick.runId, runStats(tick, row.started_at))
+    return { action: "started", message: tick.message, scheduleRun, tick }
+  } catch (error) {
+    const message = `Scheduled sync failed: ${error instanceof Error ? error.message : "Unknown error"}`
+    const scheduleRun = await updateScheduleRun(row.id, "failed", message, null, null)
+    return { action: "started", message, scheduleRun, tick: null }
+  }
+}
@@ -0,0 +1,215 @@
+import { sqlEnhanced, type DataSource } from "./database-enhanced"
+
+/**
+ * Occupation selection for incremental syncs.
+ *
+ * By default a sync queues every tracked occupation and skips the ones that
+ * already have a score.  A selection narrows the run to explicit codes,
+ * SOC major groups, rows older than a number of days and/or rows with a
+ * given data provenance, and can force selected rows to be re-fetched.
+ * Criteria combine with AND.  The resolved selection records why each
+ * occupation was picked and how many were left out by each criterion.
+ */
+
+// ========== TYPES AND INTERFACES ==========
+
+export interface SyncSelection {
+  // Only these occupation codes
+  codes?: string[]
+  // Only occupations in these SOC major groups, e.g. "15" or "15-0000"
+  majorGroups?: string[]
+  // Only rows not updated for this many days; never-synced occupations match
+  olderThanDays?: number
+  // Only rows whose data_source is one of these
+  dataSources?: DataSource[]
+  // Re-fetch selected rows that already have a score.  Defaults to true
+  // when selecting by age or provenance, since those rows all have one.
+  forceRefresh?: boolean
+}
+
+export interface SyncSelectionReport {
+  criteria: SyncSelection
+  forceRefresh: boolean
+  // Tracked occupations the criteria were applied to
+  candidates: number
+  // Selected occupations with the criteria each one met
+  selected: Array<{ code: string; reasons: string[] }>
+  // Candidates left out, by the first criterion they failed
+  excluded: {
+    notRequested: number
+    outsideMajorGroups: number
+    updatedRecently: number
+    otherDataSource: number
+  }
+  // Requested codes that are not tracked occupations
+  unknownCodes: string[]
+}
+
+// ========== CONFIGURATION ==========
+
+export const SELECTABLE_DATA_SOURCES: readonly DataSource[] = ["bls", "local-csv", "mixed", "fallback", "override"]
+
+// ========== PARSING ==========
+
+/**
+ * Read selection options from a request body
+ * @param input Body with any of codes, majorGroups, olderThanDays, dataSources, forceRefresh
+ * @returns The selection, null when the body sets none of the options, and
+ *          a list of problems
+ */
+export function parseSyncSelection(input: unknown): { selection: SyncSelection | null; errors: string[] } {
+  const body = (input && typeof input === "object" ? input : {}) as Record<string, unknown>
+  const errors: string[] = []
+  const selection: SyncSelection = {}
+
+  if (body.codes !== undefined) {
+    if (!Array.isArray(body.codes) || body.codes.some((code: unknown) => typeof code !== "string" || !/^\d{2}-\d{4}$/.test(code))) {
+      errors.push("codes must be a list of SOC codes such as 43-3031")
+    } else {
+      selection.codes = Array.from(new Set<string>(body.codes))
+    }
+  }
+
+  if (body.majorGroups !== undefined) {
+    if (
+      !Array.isArray(body.majorGroups) ||
+      body.majorGroups.some((group: unknown) => typeof group !== "string" || !/^\d{2}(-0000)?$/.test(group))
+    ) {
+      errors.push("majorGroups must be a list of SOC major groups such as 15 or 15-0000")
+    } else {
+      selection.majorGroups = Array.from(new Set<string>(body.majorGroups.map((group: string) => group.slice(0, 2))))
+    }
+  }
+
+  if (body.olderThanDays !== undefined) {
+    if (typeof body.olderThanDays !== "number" || !isFinite(body.olderThanDays) || body.olderThanDays < 0) {
+      errors.push("olderThanDays must be a non-negative number")
+    } else {
+      selection.olderThanDays = body.olderThanDays
+    }
+  }
+
+  if (body.dataSources !== undefined) {
+    if (
+      !Array.isArray(body.dataSources) ||
+      body.dataSources.length === 0 ||
+      body.dataSources.some((source: unknown) => !SELECTABLE_DATA_SOURCES.includes(source as DataSource))
+    ) {
+      errors.push(`dataSources must be a list of: ${SELECTABLE_DATA_SOURCES.join(", ")}`)
+    } else {
+      selection.dataSources = Array.from(new Set<DataSource>(body.dataSources))
+    }
+  }
+
+  if (body.forceRefresh !== undefined) {
+    if (typeof body.forceRefresh !== "boolean") {
+      errors.push("forceRefresh must be true or false")
+    } else {
+      selection.forceRefresh = body.forceRefresh
+    }
+  }
+
+  return { selection: Object.keys(selection).length > 0 ? selection : null, errors }
+}
+
+// ========== RESOLUTION ==========
+
+/**
+ * Apply a selection to the tracked occupations
+ * @param candidates Tracked occupation codes
+ * @param selection Criteria
+ * @returns The selected codes and why, in candidate order
+ */
+export async function resolveSyncSelection(candidates: string[], selection: SyncSelection): Promise<SyncSelectionReport> {
+  const byAge = selection.olderThanDays !== undefined
+  const byProvenance = selection.dataSources !== undefined
+  const report: SyncSelectionReport = {
+    criteria: selection,
+    forceRefresh: selection.forceRefresh ?? (byAge || byProvenance),
+    candidates: candidates.length,
+    selected: [],
+    excluded: { notRequested: 0, outsideMajorGroups: 0, updatedRecently: 0, otherDataSource: 0 },
+    unknownCodes: [],
+  }
+
+  const candidateSet = new Set(candidates)
+  const requested = selection.codes ? new Set(selection.codes) : null
+  if (selection.codes) {
+    report.unknownCodes = selection.codes.filter((code) => !candidateSet.has(code))
+  }
+
+  // Age and provenance come from the stored rows
+  const rows = new Map<string, { ageDays: number | null; dataSource: string | null }>()
+  if (byAge || byProvenance) {
+    const jobs = await sqlEnhanced<{ occ_code: string; age_days: string | number | null; data_source: string | null }>`
+      SELECT occ_code, EXTRACT(EPOCH FROM (NOW() - updated_at)) / 86400 AS age_days, data_source
+      FROM jobs
+      WHERE occ_code = ANY(${candidates})
+    `
+    for (const job of jobs) {
+      rows.set(job.occ_code, {
+        ageDays: job.age_days === null ? null : Number(job.age_days),
+        dataSource: job.data_source,
+      })
+    }
+  }
+
+  for (const code of candidates) {
+    const reasons: string[] = []
+
+    if (requested) {
+      if (!requested.has(code)) {
+        report.excluded.notRequested++
+        continue
+      }
+      reasons.push("requested")
+    }
+
+    if (selection.majorGroups) {
+      const group = code.slice(0, 2)
+      if (!selection.majorGroups.includes(group)) {
+        report.excluded.outsideMajorGroups++
+        continue
+      }
+      reasons.push(`in major group ${group}`)
+    }
+
+    const row = rows.get(code)
+    if (byAge) {
+      if (row && row.ageDays !== null && row.ageDays < selection.olderThanDays!) {
+        report.excluded.updatedRecently++
+        continue
+      }
+      reasons.push(
+        !row ? "never synced" : row.ageDays === null ? "no update time" : `updated ${Math.floor(row.ageDays)} days ago`
+      )
+    }
+
+    if (byProvenance) {
+      if (!row?.dataSource || !selection.dataSources!.includes(row.dataSource as DataSource)) {
+        report.excluded.otherDataSource++
+        continue
+      }
+      reasons.push(`data source ${row.dataSource}`)
+    }
+
+    report.selected.push({ code, reasons: reasons.length > 0 ? reasons : ["all occupations"] })
+  }
+
+  return report
+}
+
+/**
+ * One-line summary of a resolved selection for logs and run messages
+ */
+export function describeSyncSelection(report: SyncSelectionReport): string {
+  const excluded = Object.entries(report.excluded)
+    .filter(([, count]) => count > 0)
+    .map(([criterion, count]) => `${count} ${criterion}`)
+  return (
+    `selected ${report.selected.length}/${report.candidates} occupations` +
+    (excluded.length > 0 ? ` (excluded: ${excluded.join(", ")})` : "") +
+    (report.unknownCodes.length > 0 ? `, ${report.unknownCodes.length} unknown code(s)` : "") +
+    (report.forceRefresh ? ", refreshing existing rows" : "")
+  )
+}
@@ -9,6 +9,12 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // Loaded into job_codes when the SOC taxonomy has not been imported
+    outputFileTracingIncludes: {
+      "/api/**/*": ["./data/soc-2018-structure.csv"],
+    },
+  },
 }
 
 export default nextConfig
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { readFileSync, writeFileSync } from "fs"
+import { runCalibration, validateReferenceFile, type CalibrationReport } from "../lib/calibration"
+import { RISK_TIERS } from "../lib/risk-tiers"
+
+/**
+ * Score a labeled reference set with the current scoring engine and report
+ * accuracy, mean absolute error per SOC major group and a risk tier confusion
+ * matrix.  Exits with status 1 when a threshold is not met, so it can gate a
+ * change to the scoring tables.  No database connection is needed.
+ *
+ * Usage:
+ *   npx tsx scripts/calibrate-scores.ts [--reference data/calibration-reference.json] \
+ *     [--min-accuracy 0.6] [--max-mae 15] [--output report.json] [--json]
+ */
+
+const DEFAULT_REFERENCE_PATH = "data/calibration-reference.json"
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function getNumberArg(name: string): number | undefined {
+  const value = getArg(name)
+  if (value === undefined) return undefined
+
+  const parsed = Number.parseFloat(value)
+  if (isNaN(parsed)) {
+    console.error(`❌ --${name} must be a number`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+function printSummary(report: CalibrationReport) {
+  console.log(`\n📊 Calibration against ${report.occupations} reference occupations`)
+  console.log(`   Tier accuracy: ${(report.accuracy * 100).toFixed(1)}%`)
+  console.log(`   Within one tier: ${(report.withinOneTierAccuracy * 100).toFixed(1)}%`)
+  console.log(`   Mean absolute error: ${report.meanAbsoluteError}`)
+
+  console.log("\n📋 By major group:")
+  for (const group of report.majorGroups) {
+    console.log(
+      `   ${group.majorGroup}-0000: ${group.occupations} occupation(s), accuracy ${(group.accuracy * 100).toFixed(0)}%, MAE ${group.meanAbsoluteError}`
+    )
+  }
+
+  console.log("\n🧮 Confusion matrix (rows = expected, columns = predicted):")
+  const width = Math.max(...RISK_TIERS.map((tier) => tier.id.length)) + 2
+  console.log(`   ${"".padEnd(width)}${RISK_TIERS.map((tier) => tier.id.padStart(width)).join("")}`)
+  for (const expected of RISK_TIERS) {
+    const cells = RISK_TIERS.map((predicted) => String(report.confusionMatrix[expected.id][predicted.id]).padStart(width))
+    console.log(`   ${expected.id.padEnd(width)}${cells.join("")}`)
+  }
+
+  if (report.mismatches.length > 0) {
+    console.log(`\n⚠️ ${report.mismatches.length} tier mismatch(es):`)
+    report.mismatches.slice(0, 20).forEach((mismatch) => {
+      console.log(
+        `   ${mismatch.code} ${mismatch.title}: expected ${mismatch.expectedRisk} (${mismatch.expectedScore}), got ${mismatch.predictedRisk} (${mismatch.predictedScore})`
+      )
+    })
+  }
+
+  if (report.passed) {
+    console.log("\n✅ Calibration passed")
+  } else {
+    console.log("\n❌ Calibration failed:")
+    report.failures.forEach((failure) => console.log(`   ${failure}`))
+  }
+}
+
+function calibrateScores() {
+  const referencePath = getArg("reference") || DEFAULT_REFERENCE_PATH
+  const outputPath = getArg("output")
+  const jsonOnly = process.argv.includes("--json")
+
+  let report: CalibrationReport
+  try {
+    const entries = validateReferenceFile(JSON.parse(readFileSync(referencePath, "utf8")))
+    report = runCalibration(entries, {
+      minAccuracy: getNumberArg("min-accuracy"),
+      maxMeanAbsoluteError: getNumberArg("max-mae"),
+    })
+  } catch (error) {
+    console.error("❌ Calibration could not run:", error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+
+  if (outputPath) {
+    writeFileSync(outputPath, JSON.stringify(report, null, 2))
+  }
+
+  if (jsonOnly) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    printSummary(report)
+    if (outputPath) console.log(`\n💾 Report written to ${outputPath}`)
+  }
+
+  process.exit(report.passed ? 0 : 1)
+}
+
+calibrateScores()
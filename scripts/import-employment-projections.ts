@@ -0,0 +1,79 @@
+import { readFileSync } from "fs"
+import {
+  importEmploymentProjections,
+  parseProjectionsFile,
+  projectionSource,
+} from "../lib/employment-projections"
+import { getActiveScoringModel, scoreJobsWithModel } from "../lib/scoring-models"
+
+/**
+ * Import the BLS Employment Projections occupational table and re-score the
+ * affected jobs with the active scoring model.  Download occupation.xlsx from
+ * https://www.bls.gov/emp/tables.htm and save the "Table 1.2" sheet as CSV.
+ *
+ * Usage:
+ *   npx tsx scripts/import-employment-projections.ts --file occupation.csv \
+ *     [--units thousands|persons] [--source bls-ep-2023-2033] [--dry-run]
+ */
+
+const dryRun = process.argv.includes("--dry-run")
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function importProjections() {
+  const filePath = getArg("file")
+  const units = getArg("units") || "thousands"
+
+  if (!filePath) {
+    console.error("❌ Provide --file <occupation table CSV>")
+    process.exit(1)
+  }
+  if (units !== "thousands" && units !== "persons") {
+    console.error("❌ --units must be \"thousands\" or \"persons\"")
+    process.exit(1)
+  }
+
+  try {
+    console.log(`📄 Reading ${filePath}`)
+    const parsed = parseProjectionsFile(readFileSync(filePath, "utf8"), { unitsInThousands: units === "thousands" })
+    const source = getArg("source") || projectionSource(parsed.baseYear, parsed.projectedYear)
+    console.log(
+      `📋 Parsed ${parsed.records.length} occupations for ${parsed.baseYear}-${parsed.projectedYear} (${parsed.skipped} summary or footnote rows skipped)`
+    )
+
+    if (dryRun) {
+      parsed.records.slice(0, 5).forEach((record) => {
+        console.log(
+          `   ${record.socCode} ${record.title}: ${record.employmentBase} -> ${record.employmentProjected} (${record.changePercent}%), ${record.annualOpenings} openings/yr, ${record.typicalEducation}`
+        )
+      })
+      return
+    }
+
+    const result = await importEmploymentProjections(parsed.records, source)
+
+    const model = getActiveScoringModel()
+    console.log(`🧮 Re-scoring ${result.occupationCodes.length} occupations with model ${model.version}...`)
+    const scoring = await scoreJobsWithModel(model.version, {
+      occupationCodes: result.occupationCodes,
+      updateJobs: true,
+    })
+
+    console.log("\n🎉 Employment Projections import completed!")
+    console.log(`📊 Final Summary:`)
+    console.log(`   Source: ${result.source}`)
+    console.log(`   Projections imported: ${result.imported}`)
+    console.log(`   Jobs updated: ${result.jobsUpdated}`)
+    console.log(`   Jobs re-scored: ${scoring.jobsScored}`)
+    console.log(`   Errors: ${scoring.errors.length}`)
+    scoring.errors.slice(0, 10).forEach((error) => console.log(`   ⚠️ ${error}`))
+  } catch (error) {
+    console.error("❌ Employment Projections import failed:", error)
+    process.exit(1)
+  }
+}
+
+importProjections()
@@ -0,0 +1,67 @@
+import { readFileSync } from "fs"
+import { parseDelimited } from "../lib/onet-tasks"
+import {
+  importJobTitleAliases,
+  parseAlternateTitles,
+  parseReportedTitles,
+  type JobTitleAlias,
+} from "../lib/job-title-aliases"
+
+/**
+ * Import alternate job titles from the O*NET database text files so searches
+ * find occupations by everyday names.  Import after the jobs table is
+ * populated; aliases of occupations without a job are skipped.
+ *
+ * Usage:
+ *   npx tsx scripts/import-job-title-aliases.ts --alternate "Alternate Titles.txt" \
+ *     [--reported "Sample of Reported Titles.txt"] [--dry-run]
+ */
+
+const dryRun = process.argv.includes("--dry-run")
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function readRows(path: string) {
+  console.log(`📄 Reading ${path}`)
+  return parseDelimited(readFileSync(path, "utf8"))
+}
+
+async function importAliases() {
+  const alternatePath = getArg("alternate")
+  const reportedPath = getArg("reported")
+
+  if (!alternatePath && !reportedPath) {
+    console.error("❌ Provide at least --alternate <file> or --reported <file>")
+    process.exit(1)
+  }
+
+  try {
+    const aliases: JobTitleAlias[] = [
+      ...(alternatePath ? parseAlternateTitles(readRows(alternatePath)) : []),
+      ...(reportedPath ? parseReportedTitles(readRows(reportedPath)) : []),
+    ]
+    console.log(`📋 Parsed ${aliases.length} aliases for ${new Set(aliases.map((alias) => alias.socCode)).size} occupations`)
+
+    if (dryRun) {
+      aliases.slice(0, 10).forEach((alias) => console.log(`   ${alias.socCode} [${alias.source}] ${alias.alias}`))
+      return
+    }
+
+    const result = await importJobTitleAliases(aliases)
+
+    console.log("\n🎉 Job title alias import completed!")
+    console.log(`📊 Final Summary:`)
+    console.log(`   Aliases imported: ${result.imported}`)
+    console.log(`   Occupations with aliases: ${result.occupations}`)
+    console.log(`   Filed under a broad occupation: ${result.crosswalked}`)
+    console.log(`   Skipped (no matching job): ${result.unmatched}`)
+  } catch (error) {
+    console.error("❌ Job title alias import failed:", error)
+    process.exit(1)
+  }
+}
+
+importAliases()
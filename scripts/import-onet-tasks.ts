@@ -0,0 +1,71 @@
+import { readFileSync } from "fs"
+import {
+  importOnetData,
+  parseDelimited,
+  parseTaskStatements,
+  parseWorkActivities,
+} from "../lib/onet-tasks"
+import { getActiveScoringModel, scoreJobsWithModel } from "../lib/scoring-models"
+
+/**
+ * Import O*NET task statements and work activities from the O*NET database
+ * text files and re-score the affected jobs with the active scoring model.
+ *
+ * Usage:
+ *   npx tsx scripts/import-onet-tasks.ts --tasks "Task Statements.txt" \
+ *     [--ratings "Task Ratings.txt"] [--activities "Work Activities.txt"]
+ */
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function readRows(path: string) {
+  console.log(`📄 Reading ${path}`)
+  return parseDelimited(readFileSync(path, "utf8"))
+}
+
+async function importOnetTasks() {
+  const tasksPath = getArg("tasks")
+  const ratingsPath = getArg("ratings")
+  const activitiesPath = getArg("activities")
+
+  if (!tasksPath && !activitiesPath) {
+    console.error("❌ Provide at least --tasks <file> or --activities <file>")
+    process.exit(1)
+  }
+
+  try {
+    console.log("🚀 Starting O*NET task import...")
+
+    const tasks = tasksPath ? parseTaskStatements(readRows(tasksPath), ratingsPath ? readRows(ratingsPath) : []) : []
+    const activities = activitiesPath ? parseWorkActivities(readRows(activitiesPath)) : []
+    console.log(`📋 Parsed ${tasks.length} tasks and ${activities.length} work activities`)
+
+    const result = await importOnetData(tasks, activities)
+
+    const model = getActiveScoringModel()
+    console.log(`🧮 Re-scoring ${result.occupationCodes.length} occupations with model ${model.version}...`)
+    const scoring = await scoreJobsWithModel(model.version, {
+      occupationCodes: result.occupationCodes,
+      updateJobs: true,
+    })
+
+    console.log("\n🎉 O*NET import completed!")
+    console.log(`📊 Final Summary:`)
+    console.log(`   Tasks imported: ${result.tasksImported}`)
+    console.log(`   Work activities imported: ${result.activitiesImported}`)
+    console.log(`   Occupations with key tasks: ${result.jobsUpdated}`)
+    console.log(`   Jobs re-scored: ${scoring.jobsScored}`)
+
+    const errors = [...result.errors, ...scoring.errors]
+    console.log(`   Errors: ${errors.length}`)
+    errors.slice(0, 10).forEach((error) => console.log(`   ⚠️ ${error}`))
+  } catch (error) {
+    console.error("❌ O*NET import failed:", error)
+    process.exit(1)
+  }
+}
+
+importOnetTasks()
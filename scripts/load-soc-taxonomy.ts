@@ -0,0 +1,64 @@
+import { readFileSync } from "fs"
+import {
+  DEFAULT_SOC_SOURCE,
+  DEFAULT_SOC_STRUCTURE_PATH,
+  getOccupations,
+  importSOCTaxonomy,
+  parseSOCStructureFile,
+} from "../lib/soc-taxonomy"
+
+/**
+ * Load the SOC 2018 taxonomy into `job_codes`.  Download
+ * soc_structure_2018.xlsx from https://www.bls.gov/soc/2018/home.htm and save
+ * it as CSV; without --file the bundled data/soc-2018-structure.csv is loaded.
+ *
+ * Usage:
+ *   npx tsx scripts/load-soc-taxonomy.ts [--file soc_structure_2018.csv] \
+ *     [--source soc-2018] [--dry-run]
+ */
+
+const dryRun = process.argv.includes("--dry-run")
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function loadTaxonomy() {
+  const filePath = getArg("file") || DEFAULT_SOC_STRUCTURE_PATH
+  const source = getArg("source") || DEFAULT_SOC_SOURCE
+
+  try {
+    console.log(`📄 Reading ${filePath}`)
+    const parsed = parseSOCStructureFile(readFileSync(filePath, "utf8"))
+    const orphans = parsed.entries.filter((entry) => entry.level !== "major" && !entry.parentCode)
+    console.log(`📋 Parsed ${parsed.entries.length} SOC groups (${parsed.skipped} title or footnote rows skipped)`)
+    if (orphans.length > 0) {
+      console.log(`⚠️ ${orphans.length} group(s) without a parent in the file: ${orphans.slice(0, 10).map((entry) => entry.code).join(", ")}`)
+    }
+
+    if (dryRun) {
+      parsed.entries.slice(0, 10).forEach((entry) => {
+        console.log(`   ${entry.code} [${entry.level}] ${entry.title}${entry.parentCode ? ` (in ${entry.parentCode})` : ""}`)
+      })
+      return
+    }
+
+    const result = await importSOCTaxonomy(parsed.entries, source)
+    const occupations = await getOccupations()
+
+    console.log("\n🎉 SOC taxonomy load completed!")
+    console.log(`📊 Final Summary:`)
+    console.log(`   Source: ${result.source}`)
+    console.log(`   Major groups: ${result.byLevel.major}`)
+    console.log(`   Minor groups: ${result.byLevel.minor}`)
+    console.log(`   Broad occupations: ${result.byLevel.broad}`)
+    console.log(`   Detailed occupations: ${result.byLevel.detailed}`)
+    console.log(`   Occupations tracked: ${occupations.length}`)
+  } catch (error) {
+    console.error("❌ SOC taxonomy load failed:", error)
+    process.exit(1)
+  }
+}
+
+loadTaxonomy()
@@ -0,0 +1,56 @@
+import { clearBLSCache, getBLSCacheConfig, getBLSCacheStats } from "../lib/bls-cache"
+
+/**
+ * Inspect or empty the persistent BLS response cache (`bls_series_cache`).
+ *
+ * To rebuild the jobs table without spending API keys, run a sync with
+ * BLS_CACHE_MODE=cache-only after the cache has been filled by a normal sync.
+ *
+ * Usage:
+ *   npx tsx scripts/manage-bls-cache.ts [stats]
+ *   npx tsx scripts/manage-bls-cache.ts clear [--older-than-days 30]
+ */
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function manageBLSCache() {
+  const command = process.argv[2] && !process.argv[2].startsWith("--") ? process.argv[2] : "stats"
+
+  try {
+    if (command === "stats") {
+      const config = getBLSCacheConfig()
+      const stats = await getBLSCacheStats()
+      console.log("💾 BLS response cache")
+      console.log(`   Mode: ${config.mode}`)
+      console.log(`   TTL: ${Math.round(config.ttlMs / 1000 / 60 / 60)} hours`)
+      console.log(`   Cached series: ${stats.series}`)
+      console.log(`   Oldest entry: ${stats.oldestFetchedAt ?? "-"}`)
+      console.log(`   Newest entry: ${stats.newestFetchedAt ?? "-"}`)
+      return
+    }
+
+    if (command === "clear") {
+      const olderThanDays = getArg("older-than-days")
+      const days = olderThanDays === undefined ? undefined : Number.parseFloat(olderThanDays)
+      if (days !== undefined && (isNaN(days) || days < 0)) {
+        console.error("❌ --older-than-days must be a non-negative number")
+        process.exit(1)
+      }
+
+      const removed = await clearBLSCache(days === undefined ? undefined : days * 24 * 60 * 60 * 1000)
+      console.log(`🗑️ Removed ${removed} cached series${days === undefined ? "" : ` older than ${days} day(s)`}`)
+      return
+    }
+
+    console.error(`❌ Unknown command "${command}". Use "stats" or "clear".`)
+    process.exit(1)
+  } catch (error) {
+    console.error("❌ BLS cache command failed:", error)
+    process.exit(1)
+  }
+}
+
+manageBLSCache()
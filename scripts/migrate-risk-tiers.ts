@@ -0,0 +1,64 @@
+import { sql, sqlEnhanced } from "../lib/database-enhanced"
+import { RISK_TIERS } from "../lib/risk-tiers"
+
+/**
+ * Rewrite stored `automation_risk` labels that disagree with the unified risk
+ * tiers in lib/risk-tiers.ts (e.g. "Medium-High", "Low-Medium" or a label
+ * computed with older thresholds).  Scores are not changed.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-risk-tiers.ts [--dry-run]
+ */
+
+const dryRun = process.argv.includes("--dry-run")
+
+async function migrateTable(table: "jobs" | "job_model_scores"): Promise<number> {
+  let migrated = 0
+
+  for (const tier of RISK_TIERS) {
+    const rows = dryRun
+      ? await sqlEnhanced<{ automation_risk: string | null }>`
+          SELECT automation_risk FROM ${sql.unsafe(table)}
+          WHERE ai_impact_score BETWEEN ${tier.minScore} AND ${tier.maxScore}
+          AND automation_risk IS DISTINCT FROM ${tier.label}
+        `
+      : await sqlEnhanced<{ automation_risk: string | null }>`
+          UPDATE ${sql.unsafe(table)} SET automation_risk = ${tier.label}
+          WHERE ai_impact_score BETWEEN ${tier.minScore} AND ${tier.maxScore}
+          AND automation_risk IS DISTINCT FROM ${tier.label}
+          RETURNING automation_risk
+        `
+
+    if (rows.length > 0) {
+      console.log(`   ${table}: ${rows.length} row(s) → ${tier.label} (${tier.minScore}-${tier.maxScore})`)
+    }
+    migrated += rows.length
+  }
+
+  return migrated
+}
+
+async function migrateRiskTiers() {
+  try {
+    console.log(`🚀 ${dryRun ? "Checking" : "Migrating"} automation risk labels...`)
+
+    const jobsMigrated = await migrateTable("jobs")
+
+    // Per-model scores only exist once a scoring model has been run
+    let modelScoresMigrated = 0
+    try {
+      modelScoresMigrated = await migrateTable("job_model_scores")
+    } catch (error) {
+      console.log("ℹ️ job_model_scores not found, skipping")
+    }
+
+    console.log(`\n🎉 Risk tier migration ${dryRun ? "check " : ""}completed!`)
+    console.log(`   Jobs ${dryRun ? "to migrate" : "migrated"}: ${jobsMigrated}`)
+    console.log(`   Model scores ${dryRun ? "to migrate" : "migrated"}: ${modelScoresMigrated}`)
+  } catch (error) {
+    console.error("❌ Risk tier migration failed:", error)
+    process.exit(1)
+  }
+}
+
+migrateRiskTiers()
@@ -0,0 +1,67 @@
+import { sqlEnhanced } from "../lib/database-enhanced"
+import { initializeSkillTables, parseSkillList, saveJobSkills, toSkillSlug } from "../lib/skills"
+
+/**
+ * Copy the legacy comma-joined `skills_at_risk` / `skills_needed` columns of
+ * every job into the normalized skills catalog (`skills` and `job_skills`).
+ * Jobs that already have catalog skills are rewritten from the text columns.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-skills.ts [--dry-run]
+ */
+
+const dryRun = process.argv.includes("--dry-run")
+
+async function migrateSkills() {
+  try {
+    console.log(`🚀 ${dryRun ? "Checking" : "Migrating"} job skills...`)
+
+    if (!dryRun) {
+      await initializeSkillTables()
+    }
+
+    const jobs = await sqlEnhanced<{ occ_code: string; skills_at_risk: string | null; skills_needed: string | null }>`
+      SELECT occ_code, skills_at_risk, skills_needed
+      FROM jobs
+      WHERE skills_at_risk IS NOT NULL OR skills_needed IS NOT NULL
+      ORDER BY occ_code
+    `
+
+    const distinctSkills = new Set<string>()
+    let linksStored = 0
+    const errors: string[] = []
+
+    for (const job of jobs) {
+      const skills = {
+        atRisk: parseSkillList(job.skills_at_risk),
+        needed: parseSkillList(job.skills_needed),
+      }
+      for (const name of [...skills.atRisk, ...skills.needed]) {
+        distinctSkills.add(toSkillSlug(name))
+      }
+
+      if (dryRun) {
+        linksStored += skills.atRisk.length + skills.needed.length
+        continue
+      }
+
+      try {
+        linksStored += await saveJobSkills(job.occ_code, skills)
+      } catch (error) {
+        errors.push(`${job.occ_code}: ${error instanceof Error ? error.message : "Unknown error"}`)
+      }
+    }
+
+    console.log(`\n🎉 Skills migration ${dryRun ? "check " : ""}completed!`)
+    console.log(`   Jobs with skills: ${jobs.length}`)
+    console.log(`   Distinct skills: ${distinctSkills.size}`)
+    console.log(`   Job-skill links ${dryRun ? "to store" : "stored"}: ${linksStored}`)
+    console.log(`   Errors: ${errors.length}`)
+    errors.slice(0, 10).forEach((error) => console.log(`   ⚠️ ${error}`))
+  } catch (error) {
+    console.error("❌ Skills migration failed:", error)
+    process.exit(1)
+  }
+}
+
+migrateSkills()
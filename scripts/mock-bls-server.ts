@@ -0,0 +1,74 @@
+import { readFileSync } from "fs"
+import { parseMockFaults, startMockBLSServer } from "../lib/bls-mock-server"
+
+/**
+ * Run a local mock of the BLS v2 timeseries API for development and for
+ * testing rate-limit, invalid-key and network-failure handling offline.
+ *
+ * Start it, then run the app or a sync with
+ *   BLS_API_BASE_URL=http://127.0.0.1:4010/publicAPI/v2/timeseries/data/
+ *
+ * Queue more faults while it runs:
+ *   curl -X POST localhost:4010/__mock/faults -d '{"faults":[{"type":"http-429","times":3}]}'
+ * List received requests with GET /__mock/requests; POST /__mock/reset clears
+ * the request log, key usage and the fault queue.
+ *
+ * Usage:
+ *   npx tsx scripts/mock-bls-server.ts [--port 4010] [--fixtures fixtures.json] [--missing]
+ *     [--latency 200] [--daily-limit 25] [--invalid-keys key1,key2]
+ *     [--faults "http-429,drop-connection*3,latency:5000,malformed-json"]
+ *
+ * --fixtures is a JSON object of series ID to value (or to data points);
+ * other series get generated values unless --missing is given.
+ */
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function getNumberArg(name: string): number | undefined {
+  const value = getArg(name)
+  if (value === undefined) return undefined
+  const parsed = Number.parseInt(value)
+  if (isNaN(parsed) || parsed < 0) {
+    console.error(`❌ --${name} must be a non-negative number`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+async function runMockServer() {
+  try {
+    const fixturesPath = getArg("fixtures")
+    const invalidKeys = getArg("invalid-keys")
+    const faults = getArg("faults")
+
+    const server = await startMockBLSServer({
+      port: getNumberArg("port"),
+      fixtures: fixturesPath ? JSON.parse(readFileSync(fixturesPath, "utf8")) : undefined,
+      generateMissing: !process.argv.includes("--missing"),
+      latencyMs: getNumberArg("latency"),
+      dailyLimit: getNumberArg("daily-limit"),
+      invalidKeys: invalidKeys ? invalidKeys.split(",").map((key) => key.trim()) : undefined,
+      faults: faults ? parseMockFaults(faults) : undefined,
+    })
+
+    console.log(`🧪 Mock BLS API listening on ${server.url}`)
+    console.log(`   Set BLS_API_BASE_URL=${server.url}`)
+    if (faults) console.log(`   Queued faults: ${faults}`)
+
+    const shutdown = async () => {
+      console.log(`\n📊 Served ${server.requests.length} request(s)`)
+      await server.close()
+      process.exit(0)
+    }
+    process.on("SIGINT", shutdown)
+    process.on("SIGTERM", shutdown)
+  } catch (error) {
+    console.error("❌ Mock BLS server failed to start:", error)
+    process.exit(1)
+  }
+}
+
+runMockServer()
@@ -1,1018 +1,18 @@
 import { neon } from "@neondatabase/serverless"
 import { BLSService } from "../lib/bls-service"
+import { calculateAIImpact, formatScoreBreakdown } from "../lib/ai-impact-scoring"
+import { ensureJobDataQualityColumns, type DataSource } from "../lib/database-enhanced"
+import { getRiskTier } from "../lib/risk-tiers"
+import { getOccupationsOrLoadDefault } from "../lib/soc-taxonomy"
 
 const sql = neon(process.env.DATABASE_URL!)
 
-// Comprehensive list of BLS occupation codes
-const OCCUPATION_CODES = [
-  // Management Occupations (11-xxxx)
-  "11-1011",
-  "11-1021",
-  "11-1031",
-  "11-2011",
-  "11-2021",
-  "11-2022",
-  "11-2031",
-  "11-3011",
-  "11-3021",
-  "11-3031",
-  "11-3051",
-  "11-3061",
-  "11-3071",
-  "11-3111",
-  "11-3121",
-  "11-3131",
-  "11-9011",
-  "11-9012",
-  "11-9013",
-  "11-9021",
-  "11-9031",
-  "11-9032",
-  "11-9033",
-  "11-9039",
-  "11-9041",
-  "11-9051",
-  "11-9061",
-  "11-9071",
-  "11-9081",
-  "11-9111",
-  "11-9121",
-  "11-9131",
-  "11-9141",
-  "11-9151",
-  "11-9161",
-  "11-9179",
-  "11-9199",
-
-  // Business and Financial Operations (13-xxxx)
-  "13-1011",
-  "13-1020",
-  "13-1031",
-  "13-1032",
-  "13-1041",
-  "13-1051",
-  "13-1061",
-  "13-1071",
-  "13-1075",
-  "13-1081",
-  "13-1111",
-  "13-1121",
-  "13-1131",
-  "13-1141",
-  "13-1151",
-  "13-1161",
-  "13-1199",
-  "13-2011",
-  "13-2021",
-  "13-2031",
-  "13-2041",
-  "13-2051",
-  "13-2052",
-  "13-2053",
-  "13-2061",
-  "13-2071",
-  "13-2072",
-  "13-2081",
-  "13-2082",
-  "13-2099",
-
-  // Computer and Mathematical Occupations (15-xxxx)
-  "15-1111",
-  "15-1121",
-  "15-1131",
-  "15-1132",
-  "15-1133",
-  "15-1134",
-  "15-1141",
-  "15-1142",
-  "15-1143",
-  "15-1151",
-  "15-1152",
-  "15-1199",
-  "15-1211",
-  "15-1212",
-  "15-1221",
-  "15-1231",
-  "15-1241",
-  "15-1242",
-  "15-1243",
-  "15-1244",
-  "15-1251",
-  "15-1252",
-  "15-1253",
-  "15-1254",
-  "15-1255",
-  "15-1299",
-  "15-2011",
-  "15-2021",
-  "15-2031",
-  "15-2041",
-  "15-2091",
-  "15-2099",
-
-  // Architecture and Engineering Occupations (17-xxxx)
-  "17-1011",
-  "17-1012",
-  "17-1021",
-  "17-1022",
-  "17-2011",
-  "17-2021",
-  "17-2031",
-  "17-2041",
-  "17-2051",
-  "17-2061",
-  "17-2071",
-  "17-2072",
-  "17-2081",
-  "17-2111",
-  "17-2112",
-  "17-2121",
-  "17-2131",
-  "17-2141",
-  "17-2151",
-  "17-2161",
-  "17-2171",
-  "17-2199",
-  "17-3011",
-  "17-3012",
-  "17-3013",
-  "17-3019",
-  "17-3021",
-  "17-3022",
-  "17-3023",
-  "17-3024",
-  "17-3025",
-  "17-3026",
-  "17-3027",
-  "17-3029",
-  "17-3031",
-
-  // Life, Physical, and Social Science Occupations (19-xxxx)
-  "19-1011",
-  "19-1012",
-  "19-1013",
-  "19-1021",
-  "19-1022",
-  "19-1023",
-  "19-1029",
-  "19-1031",
-  "19-1032",
-  "19-1041",
-  "19-1042",
-  "19-1099",
-  "19-2011",
-  "19-2012",
-  "19-2021",
-  "19-2031",
-  "19-2032",
-  "19-2041",
-  "19-2042",
-  "19-2043",
-  "19-2099",
-  "19-3011",
-  "19-3021",
-  "19-3022",
-  "19-3031",
-  "19-3032",
-  "19-3033",
-  "19-3034",
-  "19-3039",
-  "19-3041",
-  "19-3051",
-  "19-3091",
-  "19-3092",
-  "19-3093",
-  "19-3094",
-  "19-3099",
-  "19-4011",
-  "19-4021",
-  "19-4031",
-  "19-4041",
-  "19-4042",
-  "19-4043",
-  "19-4051",
-  "19-4061",
-  "19-4071",
-  "19-4092",
-  "19-4093",
-  "19-4099",
-
-  // Community and Social Service Occupations (21-xxxx)
-  "21-1011",
-  "21-1012",
-  "21-1013",
-  "21-1014",
-  "21-1015",
-  "21-1018",
-  "21-1019",
-  "21-1021",
-  "21-1022",
-  "21-1023",
-  "21-1029",
-  "21-1091",
-  "21-1092",
-  "21-1093",
-  "21-1094",
-  "21-1099",
-  "21-2011",
-  "21-2021",
-  "21-2099",
-
-  // Legal Occupations (23-xxxx)
-  "23-1011",
-  "23-1021",
-  "23-1022",
-  "23-1023",
-  "23-2011",
-  "23-2091",
-  "23-2092",
-  "23-2093",
-  "23-2099",
-
-  // Education, Training, and Library Occupations (25-xxxx)
-  "25-1011",
-  "25-1021",
-  "25-1022",
-  "25-1031",
-  "25-1032",
-  "25-1041",
-  "25-1042",
-  "25-1043",
-  "25-1051",
-  "25-1052",
-  "25-1053",
-  "25-1054",
-  "25-1061",
-  "25-1062",
-  "25-1063",
-  "25-1064",
-  "25-1065",
-  "25-1066",
-  "25-1067",
-  "25-1069",
-  "25-1071",
-  "25-1072",
-  "25-1081",
-  "25-1082",
-  "25-1111",
-  "25-1112",
-  "25-1113",
-  "25-1121",
-  "25-1122",
-  "25-1123",
-  "25-1124",
-  "25-1125",
-  "25-1126",
-  "25-1191",
-  "25-1192",
-  "25-1193",
-  "25-1194",
-  "25-1199",
-  "25-2011",
-  "25-2012",
-  "25-2021",
-  "25-2022",
-  "25-2023",
-  "25-2031",
-  "25-2032",
-  "25-2051",
-  "25-2052",
-  "25-2053",
-  "25-2054",
-  "25-2059",
-  "25-3011",
-  "25-3021",
-  "25-3099",
-  "25-4011",
-  "25-4012",
-  "25-4013",
-  "25-4021",
-  "25-4031",
-  "25-9011",
-  "25-9021",
-  "25-9031",
-  "25-9041",
-  "25-9099",
-
-  // Arts, Design, Entertainment, Sports, and Media Occupations (27-xxxx)
-  "27-1011",
-  "27-1012",
-  "27-1013",
-  "27-1014",
-  "27-1019",
-  "27-1021",
-  "27-1022",
-  "27-1023",
-  "27-1024",
-  "27-1025",
-  "27-1026",
-  "27-1027",
-  "27-1029",
-  "27-2011",
-  "27-2012",
-  "27-2021",
-  "27-2022",
-  "27-2023",
-  "27-2031",
-  "27-2032",
-  "27-2041",
-  "27-2042",
-  "27-2099",
-  "27-3011",
-  "27-3012",
-  "27-3021",
-  "27-3022",
-  "27-3031",
-  "27-3041",
-  "27-3042",
-  "27-3043",
-  "27-3091",
-  "27-3099",
-  "27-4011",
-  "27-4012",
-  "27-4013",
-  "27-4014",
-  "27-4015",
-  "27-4021",
-  "27-4031",
-  "27-4032",
-  "27-4099",
-
-  // Healthcare Practitioners and Technical Occupations (29-xxxx)
-  "29-1011",
-  "29-1021",
-  "29-1022",
-  "29-1023",
-  "29-1024",
-  "29-1029",
-  "29-1031",
-  "29-1041",
-  "29-1051",
-  "29-1061",
-  "29-1062",
-  "29-1063",
-  "29-1064",
-  "29-1065",
-  "29-1066",
-  "29-1067",
-  "29-1069",
-  "29-1071",
-  "29-1081",
-  "29-1111",
-  "29-1121",
-  "29-1122",
-  "29-1123",
-  "29-1124",
-  "29-1125",
-  "29-1126",
-  "29-1127",
-  "29-1128",
-  "29-1129",
-  "29-1131",
-  "29-1141",
-  "29-1151",
-  "29-1161",
-  "29-1171",
-  "29-1181",
-  "29-1199",
-  "29-2011",
-  "29-2012",
-  "29-2021",
-  "29-2031",
-  "29-2032",
-  "29-2033",
-  "29-2034",
-  "29-2035",
-  "29-2041",
-  "29-2051",
-  "29-2052",
-  "29-2053",
-  "29-2054",
-  "29-2055",
-  "29-2056",
-  "29-2057",
-  "29-2061",
-  "29-2071",
-  "29-2081",
-  "29-2091",
-  "29-2092",
-  "29-2099",
-  "29-9011",
-  "29-9012",
-  "29-9091",
-  "29-9099",
-
-  // Healthcare Support Occupations (31-xxxx)
-  "31-1011",
-  "31-1012",
-  "31-1013",
-  "31-1014",
-  "31-1015",
-  "31-2011",
-  "31-2021",
-  "31-2022",
-  "31-9011",
-  "31-9091",
-  "31-9092",
-  "31-9093",
-  "31-9094",
-  "31-9095",
-  "31-9096",
-  "31-9097",
-  "31-9099",
-
-  // Protective Service Occupations (33-xxxx)
-  "33-1011",
-  "33-1012",
-  "33-1021",
-  "33-1099",
-  "33-2011",
-  "33-2021",
-  "33-2022",
-  "33-3011",
-  "33-3012",
-  "33-3021",
-  "33-3031",
-  "33-3041",
-  "33-3051",
-  "33-3052",
-  "33-9011",
-  "33-9021",
-  "33-9032",
-  "33-9091",
-  "33-9092",
-  "33-9093",
-  "33-9094",
-  "33-9099",
-
-  // Food Preparation and Serving Related Occupations (35-xxxx)
-  "35-1011",
-  "35-1012",
-  "35-2011",
-  "35-2012",
-  "35-2013",
-  "35-2014",
-  "35-2015",
-  "35-2019",
-  "35-2021",
-  "35-3011",
-  "35-3021",
-  "35-3022",
-  "35-3031",
-  "35-3041",
-  "35-9011",
-  "35-9021",
-  "35-9031",
-  "35-9099",
-
-  // Building and Grounds Cleaning and Maintenance Occupations (37-xxxx)
-  "37-1011",
-  "37-1012",
-  "37-2011",
-  "37-2012",
-  "37-2021",
-  "37-3011",
-  "37-3012",
-  "37-3013",
-  "37-3019",
-  "37-9011",
-  "37-9012",
-  "37-9099",
-
-  // Personal Care and Service Occupations (39-xxxx)
-  "39-1011",
-  "39-1021",
-  "39-2011",
-  "39-2021",
-  "39-3011",
-  "39-3012",
-  "39-3021",
-  "39-3031",
-  "39-3091",
-  "39-3092",
-  "39-3093",
-  "39-3099",
-  "39-4011",
-  "39-4021",
-  "39-5011",
-  "39-5012",
-  "39-5091",
-  "39-5092",
-  "39-5093",
-  "39-5094",
-  "39-9011",
-  "39-9021",
-  "39-9031",
-  "39-9032",
-  "39-9041",
-  "39-9099",
-
-  // Sales and Related Occupations (41-xxxx)
-  "41-1011",
-  "41-1012",
-  "41-2011",
-  "41-2012",
-  "41-2021",
-  "41-2022",
-  "41-2031",
-  "41-3011",
-  "41-3021",
-  "41-3031",
-  "41-3041",
-  "41-3091",
-  "41-3099",
-  "41-4011",
-  "41-4012",
-  "41-9011",
-  "41-9012",
-  "41-9021",
-  "41-9022",
-  "41-9031",
-  "41-9041",
-  "41-9091",
-  "41-9099",
-
-  // Office and Administrative Support Occupations (43-xxxx)
-  "43-1011",
-  "43-2011",
-  "43-3011",
-  "43-3021",
-  "43-3031",
-  "43-3041",
-  "43-3051",
-  "43-3061",
-  "43-3071",
-  "43-4031",
-  "43-4041",
-  "43-4051",
-  "43-4061",
-  "43-4071",
-  "43-4081",
-  "43-4111",
-  "43-4121",
-  "43-4131",
-  "43-4141",
-  "43-4151",
-  "43-4161",
-  "43-4171",
-  "43-4199",
-  "43-5011",
-  "43-5021",
-  "43-5031",
-  "43-5032",
-  "43-5041",
-  "43-5051",
-  "43-5052",
-  "43-5053",
-  "43-5061",
-  "43-5071",
-  "43-5081",
-  "43-5111",
-  "43-6011",
-  "43-6012",
-  "43-6013",
-  "43-6014",
-  "43-9011",
-  "43-9021",
-  "43-9022",
-  "43-9031",
-  "43-9041",
-  "43-9051",
-  "43-9061",
-  "43-9071",
-  "43-9081",
-  "43-9111",
-  "43-9199",
-
-  // Farming, Fishing, and Forestry Occupations (45-xxxx)
-  "45-1011",
-  "45-2011",
-  "45-2021",
-  "45-2041",
-  "45-2091",
-  "45-2092",
-  "45-2093",
-  "45-2099",
-  "45-3011",
-  "45-3021",
-  "45-4011",
-  "45-4021",
-  "45-4022",
-  "45-4023",
-  "45-4029",
-
-  // Construction and Extraction Occupations (47-xxxx)
-  "47-1011",
-  "47-2011",
-  "47-2021",
-  "47-2022",
-  "47-2031",
-  "47-2041",
-  "47-2042",
-  "47-2043",
-  "47-2044",
-  "47-2051",
-  "47-2061",
-  "47-2071",
-  "47-2072",
-  "47-2073",
-  "47-2081",
-  "47-2082",
-  "47-2111",
-  "47-2121",
-  "47-2131",
-  "47-2132",
-  "47-2141",
-  "47-2142",
-  "47-2151",
-  "47-2152",
-  "47-2161",
-  "47-2171",
-  "47-2181",
-  "47-2211",
-  "47-3011",
-  "47-3012",
-  "47-3013",
-  "47-3014",
-  "47-3015",
-  "47-3016",
-  "47-3019",
-  "47-4011",
-  "47-4021",
-  "47-4031",
-  "47-4041",
-  "47-4051",
-  "47-4061",
-  "47-4071",
-  "47-4091",
-  "47-4099",
-  "47-5011",
-  "47-5012",
-  "47-5013",
-  "47-5021",
-  "47-5031",
-  "47-5032",
-  "47-5041",
-  "47-5042",
-  "47-5049",
-  "47-5051",
-  "47-5061",
-  "47-5071",
-  "47-5081",
-  "47-5099",
-
-  // Installation, Maintenance, and Repair Occupations (49-xxxx)
-  "49-1011",
-  "49-2011",
-  "49-2021",
-  "49-2022",
-  "49-2091",
-  "49-2092",
-  "49-2093",
-  "49-2094",
-  "49-2095",
-  "49-2096",
-  "49-2097",
-  "49-2098",
-  "49-3011",
-  "49-3021",
-  "49-3022",
-  "49-3023",
-  "49-3031",
-  "49-3041",
-  "49-3042",
-  "49-3043",
-  "49-3051",
-  "49-3052",
-  "49-3053",
-  "49-3091",
-  "49-3092",
-  "49-3093",
-  "49-9011",
-  "49-9012",
-  "49-9021",
-  "49-9031",
-  "49-9041",
-  "49-9042",
-  "49-9043",
-  "49-9044",
-  "49-9045",
-  "49-9051",
-  "49-9052",
-  "49-9061",
-  "49-9062",
-  "49-9063",
-  "49-9064",
-  "49-9069",
-  "49-9071",
-  "49-9081",
-  "49-9091",
-  "49-9092",
-  "49-9093",
-  "49-9094",
-  "49-9095",
-  "49-9096",
-  "49-9097",
-  "49-9098",
-  "49-9099",
-
-  // Production Occupations (51-xxxx)
-  "51-1011",
-  "51-2011",
-  "51-2021",
-  "51-2022",
-  "51-2023",
-  "51-2031",
-  "51-2041",
-  "51-2091",
-  "51-2092",
-  "51-2093",
-  "51-2099",
-  "51-3011",
-  "51-3021",
-  "51-3022",
-  "51-3023",
-  "51-3091",
-  "51-3092",
-  "51-3093",
-  "51-3099",
-  "51-4011",
-  "51-4012",
-  "51-4021",
-  "51-4022",
-  "51-4023",
-  "51-4031",
-  "51-4032",
-  "51-4033",
-  "51-4034",
-  "51-4035",
-  "51-4041",
-  "51-4051",
-  "51-4052",
-  "51-4061",
-  "51-4062",
-  "51-4071",
-  "51-4072",
-  "51-4081",
-  "51-4111",
-  "51-4121",
-  "51-4122",
-  "51-4191",
-  "51-4192",
-  "51-4193",
-  "51-4194",
-  "51-4199",
-  "51-5111",
-  "51-5112",
-  "51-5113",
-  "51-6011",
-  "51-6021",
-  "51-6031",
-  "51-6041",
-  "51-6042",
-  "51-6051",
-  "51-6052",
-  "51-6061",
-  "51-6062",
-  "51-6063",
-  "51-6064",
-  "51-6091",
-  "51-6092",
-  "51-6093",
-  "51-6099",
-  "51-7011",
-  "51-7021",
-  "51-7031",
-  "51-7032",
-  "51-7041",
-  "51-7042",
-  "51-7099",
-  "51-8011",
-  "51-8012",
-  "51-8013",
-  "51-8021",
-  "51-8031",
-  "51-8091",
-  "51-8092",
-  "51-8093",
-  "51-8099",
-  "51-9011",
-  "51-9012",
-  "51-9021",
-  "51-9022",
-  "51-9023",
-  "51-9031",
-  "51-9032",
-  "51-9041",
-  "51-9051",
-  "51-9061",
-  "51-9071",
-  "51-9081",
-  "51-9082",
-  "51-9083",
-  "51-9111",
-  "51-9121",
-  "51-9122",
-  "51-9123",
-  "51-9131",
-  "51-9132",
-  "51-9141",
-  "51-9151",
-  "51-9161",
-  "51-9191",
-  "51-9192",
-  "51-9193",
-  "51-9194",
-  "51-9195",
-  "51-9196",
-  "51-9197",
-  "51-9198",
-  "51-9199",
-
-  // Transportation and Material Moving Occupations (53-xxxx)
-  "53-1011",
-  "53-1021",
-  "53-1031",
-  "53-2011",
-  "53-2012",
-  "53-2021",
-  "53-2022",
-  "53-2031",
-  "53-3011",
-  "53-3021",
-  "53-3022",
-  "53-3031",
-  "53-3032",
-  "53-3033",
-  "53-3041",
-  "53-3099",
-  "53-4011",
-  "53-4012",
-  "53-4013",
-  "53-4021",
-  "53-4031",
-  "53-4041",
-  "53-4099",
-  "53-5011",
-  "53-5021",
-  "53-5022",
-  "53-5031",
-  "53-6011",
-  "53-6021",
-  "53-6031",
-  "53-6041",
-  "53-6051",
-  "53-6061",
-  "53-6099",
-  "53-7011",
-  "53-7021",
-  "53-7031",
-  "53-7032",
-  "53-7033",
-  "53-7041",
-  "53-7051",
-  "53-7061",
-  "53-7062",
-  "53-7063",
-  "53-7064",
-  "53-7071",
-  "53-7072",
-  "53-7073",
-  "53-7081",
-  "53-7111",
-  "53-7121",
-  "53-7199",
-]
-
-const JOB_TITLES: { [key: string]: string } = {
-  // Management Occupations
-  "11-1011": "Chief Executives",
-  "11-1021": "General and Operations Managers",
-  "11-1031": "Legislators",
-  "11-2011": "Advertising and Promotions Managers",
-  "11-2021": "Marketing Managers",
-  "11-2022": "Sales Managers",
-  "11-2031": "Public Relations and Fundraising Managers",
-  "11-3011": "Administrative Services Managers",
-  "11-3021": "Computer and Information Systems Managers",
-  "11-3031": "Financial Managers",
-  "11-3051": "Industrial Production Managers",
-  "11-3061": "Purchasing Managers",
-  "11-3071": "Transportation, Storage, and Distribution Managers",
-  "11-3111": "Compensation and Benefits Managers",
-  "11-3121": "Human Resources Managers",
-  "11-3131": "Training and Development Managers",
-  "11-9011": "Farm, Ranch, and Other Agricultural Managers",
-  "11-9012": "Farmers, Ranchers, and Other Agricultural Managers",
-  "11-9013": "Farmers, Ranchers, and Other Agricultural Managers",
-  "11-9021": "Construction Managers",
-  "11-9031": "Education Administrators, Preschool and Childcare Center/Program",
-  "11-9032": "Education Administrators, Elementary and Secondary School",
-  "11-9033": "Education Administrators, Postsecondary",
-  "11-9039": "Education Administrators, All Other",
-  "11-9041": "Architectural and Engineering Managers",
-  "11-9051": "Food Service Managers",
-  "11-9061": "Funeral Service Managers",
-  "11-9071": "Gaming Managers",
-  "11-9081": "Lodging Managers",
-  "11-9111": "Medical and Health Services Managers",
-  "11-9121": "Natural Sciences Managers",
-  "11-9131": "Postmasters and Mail Superintendents",
-  "11-9141": "Property, Real Estate, and Community Association Managers",
-  "11-9151": "Social and Community Service Managers",
-  "11-9161": "Emergency Management Directors",
-  "11-9179": "Entertainment and Recreation Managers, Except Gambling",
-  "11-9199": "Managers, All Other",
-
-  // Computer and Mathematical Occupations
-  "15-1252": "Software Developers",
-  "15-1212": "Information Security Analysts",
-  "15-1211": "Computer Systems Analysts",
-  "15-1254": "Web Developers",
-  "15-1299": "Computer Occupations, All Other",
-
-  // Healthcare Practitioners
-  "29-1141": "Registered Nurses",
-  "29-1171": "Nurse Practitioners",
-  "29-2061": "Licensed Practical and Licensed Vocational Nurses",
-  "31-1131": "Nursing Assistants",
-
-  // Education
-  "25-2021": "Elementary School Teachers, Except Special Education",
-  "25-2031": "Secondary School Teachers, Except Special and Career/Technical Education",
-  "25-3021": "Self-Enrichment Education Teachers",
-
-  // Sales and Related
-  "41-2011": "Cashiers",
-  "41-2031": "Retail Salespersons",
-  "41-3099": "Sales Representatives, Services, All Other",
-
-  // Office and Administrative Support
-  "43-4051": "Customer Service Representatives",
-  "43-6014": "Secretaries and Administrative Assistants, Except Legal, Medical, and Executive",
-  "43-9061": "Office Clerks, General",
-
-  // Food Service
-  "35-3031": "Waiters and Waitresses",
-  "35-2014": "Cooks, Restaurant",
-  "35-3041": "Food Servers, Nonrestaurant",
-
-  // Construction
-  "47-2031": "Carpenters",
-  "47-2111": "Electricians",
-  "47-2152": "Plumbers, Pipefitters, and Steamfitters",
-
-  // Transportation
-  "53-3032": "Heavy and Tractor-Trailer Truck Drivers",
-  "53-3033": "Light Truck or Delivery Services Drivers",
-  "53-7062": "Laborers and Freight, Stock, and Material Movers, Hand",
-
-  // Add more titles as needed - this is a subset for demonstration
-}
-
-function calculateAIImpactScore(occupationCode: string): number {
-  const majorGroup = occupationCode.split("-")[0]
-
-  const baseScores: { [key: string]: { min: number; max: number } } = {
-    "11": { min: 20, max: 50 }, // Management
-    "13": { min: 30, max: 70 }, // Business and Financial
-    "15": { min: 10, max: 40 }, // Computer/Math
-    "17": { min: 15, max: 45 }, // Architecture/Engineering
-    "19": { min: 10, max: 35 }, // Life/Physical/Social Science
-    "21": { min: 25, max: 55 }, // Community/Social Service
-    "23": { min: 30, max: 60 }, // Legal
-    "25": { min: 10, max: 30 }, // Education
-    "27": { min: 20, max: 50 }, // Arts/Design/Entertainment
-    "29": { min: 5, max: 25 }, // Healthcare Practitioners
-    "31": { min: 15, max: 40 }, // Healthcare Support
-    "33": { min: 20, max: 50 }, // Protective Service
-    "35": { min: 60, max: 90 }, // Food Service
-    "37": { min: 40, max: 70 }, // Building/Grounds Cleaning
-    "39": { min: 20, max: 45 }, // Personal Care
-    "41": { min: 70, max: 95 }, // Sales
-    "43": { min: 75, max: 95 }, // Office/Administrative
-    "45": { min: 30, max: 60 }, // Farming/Fishing/Forestry
-    "47": { min: 25, max: 55 }, // Construction
-    "49": { min: 20, max: 50 }, // Installation/Maintenance/Repair
-    "51": { min: 50, max: 80 }, // Production
-    "53": { min: 40, max: 75 }, // Transportation
-  }
-
-  const scoreRange = baseScores[majorGroup] || { min: 30, max: 70 }
-  return Math.floor(Math.random() * (scoreRange.max - scoreRange.min + 1)) + scoreRange.min
-}
-
-function getAutomationRisk(aiScore: number): string {
-  if (aiScore >= 80) return "Very High"
-  if (aiScore >= 60) return "High"
-  if (aiScore >= 40) return "Medium"
-  return "Low"
-}
-
 async function populateJobsMultiAPI() {
   try {
     console.log("🚀 Starting multi-API job population process...")
-    console.log(`📊 Processing ${OCCUPATION_CODES.length} occupation codes`)
+    await ensureJobDataQualityColumns()
+    const occupations = await getOccupationsOrLoadDefault()
+    console.log(`📊 Processing ${occupations.length} occupation codes`)
 
     // Get API keys from environment
     const apiKeys = [
@@ -1041,9 +41,9 @@ async function populateJobsMultiAPI() {
     let errorCount = 0
     let skippedCount = 0
 
-    for (const occupationCode of OCCUPATION_CODES) {
+    for (const { code: occupationCode, title } of occupations) {
       try {
-        console.log(`\n📊 Processing ${occupationCode}: ${JOB_TITLES[occupationCode] || "Unknown Title"}`)
+        console.log(`\n📊 Processing ${occupationCode}: ${title}`)
 
         // Check if job already exists with AI analysis
         const existing = await sql`
@@ -1059,17 +59,20 @@ async function populateJobsMultiAPI() {
 
         // Generate or fetch employment data
         let employment2023 = Math.floor(Math.random() * 500000) + 10000
-        let projectedEmployment2033 = Math.floor(employment2023 * (0.8 + Math.random() * 0.4))
+        let projectedEmployment2033: number | null = Math.floor(employment2023 * (0.8 + Math.random() * 0.4))
         let medianWage = Math.floor(Math.random() * 80000) + 30000
+        let estimated = true
 
         // Try to fetch real BLS data if service is available
         if (blsService) {
           try {
             const blsData = await blsService.fetchOccupationalData(occupationCode)
-            if (blsData) {
-              employment2023 = blsData.employment || employment2023
-              projectedEmployment2033 = blsData.projectedEmployment || projectedEmployment2033
-              medianWage = blsData.medianWage || medianWage
+            if (blsData && blsData.employment && blsData.medianWage) {
+              employment2023 = blsData.employment
+              medianWage = blsData.medianWage
+              // OEWS has no projections; they come from the Employment Projections import
+              projectedEmployment2033 = blsData.projectedEmployment || null
+              estimated = false
               console.log(`📡 Retrieved BLS data for ${occupationCode}`)
             }
           } catch (blsError) {
@@ -1077,33 +80,35 @@ async function populateJobsMultiAPI() {
           }
         }
 
-        // Calculate AI impact
-        const aiImpactScore = calculateAIImpactScore(occupationCode)
-        const automationRisk = getAutomationRisk(aiImpactScore)
+        // Calculate AI impact; mock figures widen the confidence range instead of moving the score
+        const { aiImpactScore, automationRisk, breakdown, confidenceRange } = calculateAIImpact({
+          occupationCode,
+          occupationTitle: title,
+          medianWage,
+          employment: employment2023,
+          projectedEmployment: projectedEmployment2033,
+          estimatedInputs: estimated,
+        })
+        const dataSource: DataSource = estimated ? "fallback" : "bls"
 
         // Generate AI analysis
         const aiAnalysis = `This occupation has a ${automationRisk.toLowerCase()} risk of automation with an AI impact score of ${aiImpactScore}%. ${
-          aiImpactScore >= 80
-            ? "High routine task content and limited human interaction make this role highly susceptible to automation."
-            : aiImpactScore >= 60
-              ? "Moderate automation risk due to some routine tasks, but human judgment and interaction provide some protection."
-              : aiImpactScore >= 40
-                ? "Medium automation risk with a mix of routine and complex tasks requiring human oversight."
-                : "Low automation risk due to high levels of human interaction, creativity, and complex problem-solving requirements."
+          getRiskTier(aiImpactScore).description
         }`
 
-        const title = JOB_TITLES[occupationCode] || `Occupation ${occupationCode}`
-
         if (existing.length > 0) {
-          // Update existing job
+          // Update existing job; mock figures only fill gaps
           await sql`
             UPDATE jobs SET
               occ_title = ${title},
-              employment_2023 = ${employment2023},
-              projected_employment_2033 = ${projectedEmployment2033},
-              median_wage = ${medianWage},
+              employment_2023 = CASE WHEN ${estimated} THEN COALESCE(employment_2023, ${employment2023}) ELSE ${employment2023} END,
+              projected_employment_2033 = COALESCE(${projectedEmployment2033}, projected_employment_2033),
+              median_wage = CASE WHEN ${estimated} THEN COALESCE(median_wage, ${medianWage}) ELSE ${medianWage} END,
               ai_impact_score = ${aiImpactScore},
+              ai_impact_score_low = ${confidenceRange.low},
+              ai_impact_score_high = ${confidenceRange.high},
               automation_risk = ${automationRisk},
+              data_source = CASE WHEN ${estimated} THEN COALESCE(data_source, ${dataSource}) ELSE ${dataSource} END,
               ai_analysis = ${aiAnalysis},
               updated_at = NOW()
             WHERE occ_code = ${occupationCode}
@@ -1114,12 +119,13 @@ async function populateJobsMultiAPI() {
           await sql`
             INSERT INTO jobs (
               occ_code, occ_title, employment_2023, projected_employment_2033,
-              median_wage, ai_impact_score, automation_risk, ai_analysis,
-              created_at, updated_at
+              median_wage, ai_impact_score, ai_impact_score_low, ai_impact_score_high,
+              automation_risk, data_source, ai_analysis, created_at, updated_at
             ) VALUES (
               ${occupationCode}, ${title}, ${employment2023}, 
               ${projectedEmployment2033}, ${medianWage}, ${aiImpactScore}, 
-              ${automationRisk}, ${aiAnalysis}, NOW(), NOW()
+              ${confidenceRange.low}, ${confidenceRange.high},
+              ${automationRisk}, ${dataSource}, ${aiAnalysis}, NOW(), NOW()
             )
           `
           console.log(`✅ Inserted new job ${occupationCode}`)
@@ -1128,14 +134,18 @@ async function populateJobsMultiAPI() {
         successCount++
 
         // Show progress details
-        const changePercent =
-          employment2023 > 0 ? Math.round(((projectedEmployment2033 - employment2023) / employment2023) * 100) : 0
-
-        console.log(
-          `   📈 Employment: ${employment2023.toLocaleString()} → ${projectedEmployment2033.toLocaleString()} (${changePercent > 0 ? "+" : ""}${changePercent}%)`,
-        )
+        if (projectedEmployment2033) {
+          const changePercent =
+            employment2023 > 0 ? Math.round(((projectedEmployment2033 - employment2023) / employment2023) * 100) : 0
+          console.log(
+            `   📈 Employment: ${employment2023.toLocaleString()} → ${projectedEmployment2033.toLocaleString()} (${changePercent > 0 ? "+" : ""}${changePercent}%)`,
+          )
+        } else {
+          console.log(`   📈 Employment: ${employment2023.toLocaleString()} (no projection)`)
+        }
         console.log(`   💰 Median Wage: $${medianWage.toLocaleString()}`)
         console.log(`   🤖 AI Risk: ${aiImpactScore}% (${automationRisk})`)
+        console.log(`   🧮 Score breakdown: ${formatScoreBreakdown(breakdown)}`)
 
         // Add delay to respect API limits
         await new Promise((resolve) => setTimeout(resolve, blsService ? 250 : 50))
@@ -1149,7 +159,7 @@ async function populateJobsMultiAPI() {
       // Show progress every 25 jobs
       if (processedCount % 25 === 0) {
         console.log(
-          `\n📊 Progress: ${processedCount}/${OCCUPATION_CODES.length} (${Math.round((processedCount / OCCUPATION_CODES.length) * 100)}%)`,
+          `\n📊 Progress: ${processedCount}/${occupations.length} (${Math.round((processedCount / occupations.length) * 100)}%)`,
         )
 
         if (blsService) {
@@ -1,4 +1,6 @@
 import { neon } from "@neondatabase/serverless"
+import { calculateAIImpact } from "../lib/ai-impact-scoring"
+import { ensureJobDataQualityColumns } from "../lib/database-enhanced"
 
 const sql = neon(process.env.DATABASE_URL!)
 
@@ -152,46 +154,6 @@ const JOB_TITLES: { [key: string]: string } = {
   "53-7062": "Laborers and Freight, Stock, and Material Movers, Hand",
 }
 
-function calculateAIImpactScore(occupationCode: string): number {
-  // More sophisticated AI impact calculation based on occupation characteristics
-  const majorGroup = occupationCode.split("-")[0]
-
-  // Base scores by major occupation group
-  const baseScores: { [key: string]: { min: number; max: number } } = {
-    "11": { min: 20, max: 50 }, // Management - Medium-low risk
-    "15": { min: 10, max: 40 }, // Computer/Math - Low-medium risk
-    "17": { min: 15, max: 45 }, // Architecture/Engineering - Low-medium risk
-    "19": { min: 10, max: 35 }, // Life/Physical/Social Science - Low risk
-    "21": { min: 25, max: 55 }, // Community/Social Service - Medium risk
-    "23": { min: 30, max: 60 }, // Legal - Medium risk
-    "25": { min: 10, max: 30 }, // Education - Low risk
-    "27": { min: 20, max: 50 }, // Arts/Design/Entertainment - Medium risk
-    "29": { min: 5, max: 25 }, // Healthcare Practitioners - Very low risk
-    "31": { min: 15, max: 40 }, // Healthcare Support - Low-medium risk
-    "33": { min: 20, max: 50 }, // Protective Service - Medium risk
-    "35": { min: 60, max: 90 }, // Food Service - High risk
-    "37": { min: 40, max: 70 }, // Building/Grounds Cleaning - Medium-high risk
-    "39": { min: 20, max: 45 }, // Personal Care - Medium risk
-    "41": { min: 70, max: 95 }, // Sales - Very high risk
-    "43": { min: 75, max: 95 }, // Office/Administrative - Very high risk
-    "45": { min: 30, max: 60 }, // Farming/Fishing/Forestry - Medium risk
-    "47": { min: 25, max: 55 }, // Construction - Medium risk
-    "49": { min: 20, max: 50 }, // Installation/Maintenance/Repair - Medium risk
-    "51": { min: 50, max: 80 }, // Production - High risk
-    "53": { min: 40, max: 75 }, // Transportation - Medium-high risk
-  }
-
-  const scoreRange = baseScores[majorGroup] || { min: 30, max: 70 }
-  return Math.floor(Math.random() * (scoreRange.max - scoreRange.min + 1)) + scoreRange.min
-}
-
-function getAutomationRisk(aiScore: number): string {
-  if (aiScore >= 80) return "Very High"
-  if (aiScore >= 60) return "High"
-  if (aiScore >= 40) return "Medium"
-  return "Low"
-}
-
 function generateEmploymentData(occupationCode: string): {
   employment2023: number
   projectedEmployment2033: number
@@ -240,6 +202,7 @@ function generateEmploymentData(occupationCode: string): {
 async function populateJobsWithAdmin() {
   try {
     console.log("🚀 Starting comprehensive job population process...")
+    await ensureJobDataQualityColumns()
     console.log(`📊 Processing ${OCCUPATION_CODES.length} occupation codes`)
 
     let processedCount = 0
@@ -266,22 +229,31 @@ async function populateJobsWithAdmin() {
         // Generate realistic employment and wage data
         const { employment2023, projectedEmployment2033, medianWage } = generateEmploymentData(occupationCode)
 
-        // Calculate AI impact
-        const aiImpactScore = calculateAIImpactScore(occupationCode)
-        const automationRisk = getAutomationRisk(aiImpactScore)
+        // Calculate AI impact; generated figures widen the confidence range instead of moving the score
+        const { aiImpactScore, automationRisk, confidenceRange } = calculateAIImpact({
+          occupationCode,
+          occupationTitle: JOB_TITLES[occupationCode] || "",
+          medianWage,
+          employment: employment2023,
+          projectedEmployment: projectedEmployment2033,
+          estimatedInputs: true,
+        })
 
         // Generate AI analysis text
         const aiAnalysis = `This occupation has a ${automationRisk.toLowerCase()} risk of automation with an AI impact score of ${aiImpactScore}%. Key factors include the level of human interaction required, complexity of decision-making, and the degree of routine vs. creative tasks involved.`
 
         if (existing.length > 0) {
-          // Update existing job
+          // Update existing job; generated figures only fill gaps
           await sql`
             UPDATE jobs SET
-              employment_2023 = ${employment2023},
-              projected_employment_2033 = ${projectedEmployment2033},
-              median_wage = ${medianWage},
+              employment_2023 = COALESCE(employment_2023, ${employment2023}),
+              projected_employment_2033 = COALESCE(projected_employment_2033, ${projectedEmployment2033}),
+              median_wage = COALESCE(median_wage, ${medianWage}),
               ai_impact_score = ${aiImpactScore},
+              ai_impact_score_low = ${confidenceRange.low},
+              ai_impact_score_high = ${confidenceRange.high},
               automation_risk = ${automationRisk},
+              data_source = COALESCE(data_source, 'fallback'),
               ai_analysis = ${aiAnalysis},
               updated_at = NOW()
             WHERE occ_code = ${occupationCode}
@@ -292,12 +264,13 @@ async function populateJobsWithAdmin() {
           await sql`
             INSERT INTO jobs (
               occ_code, occ_title, employment_2023, projected_employment_2033,
-              median_wage, ai_impact_score, automation_risk, ai_analysis,
-              created_at, updated_at
+              median_wage, ai_impact_score, ai_impact_score_low, ai_impact_score_high,
+              automation_risk, data_source, ai_analysis, created_at, updated_at
             ) VALUES (
               ${occupationCode}, ${JOB_TITLES[occupationCode]}, ${employment2023}, 
               ${projectedEmployment2033}, ${medianWage}, ${aiImpactScore}, 
-              ${automationRisk}, ${aiAnalysis}, NOW(), NOW()
+              ${confidenceRange.low}, ${confidenceRange.high},
+              ${automationRisk}, 'fallback', ${aiAnalysis}, NOW(), NOW()
             )
           `
           console.log(`✅ Inserted new job ${occupationCode}`)
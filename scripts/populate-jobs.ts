@@ -1,4 +1,6 @@
 import { neon } from "@neondatabase/serverless"
+import { calculateAIImpact } from "../lib/ai-impact-scoring"
+import { ensureJobDataQualityColumns } from "../lib/database-enhanced"
 
 const sql = neon(process.env.DATABASE_URL!)
 
@@ -53,48 +55,10 @@ const JOB_TITLES: { [key: string]: string } = {
   "53-3032": "Heavy and Tractor-Trailer Truck Drivers",
 }
 
-function calculateAIImpactScore(occupationCode: string): number {
-  // Simplified AI impact calculation based on occupation type
-  const code = occupationCode.split("-")[0]
-
-  switch (code) {
-    case "11": // Management
-      return Math.floor(Math.random() * 30) + 20 // 20-50%
-    case "15": // Computer and Mathematical
-      return Math.floor(Math.random() * 40) + 10 // 10-50%
-    case "25": // Education
-      return Math.floor(Math.random() * 25) + 10 // 10-35%
-    case "29": // Healthcare
-      return Math.floor(Math.random() * 20) + 5 // 5-25%
-    case "33": // Protective Service
-      return Math.floor(Math.random() * 30) + 15 // 15-45%
-    case "35": // Food Preparation
-      return Math.floor(Math.random() * 40) + 50 // 50-90%
-    case "41": // Sales
-      return Math.floor(Math.random() * 50) + 40 // 40-90%
-    case "43": // Office and Administrative
-      return Math.floor(Math.random() * 40) + 50 // 50-90%
-    case "47": // Construction
-      return Math.floor(Math.random() * 35) + 25 // 25-60%
-    case "49": // Installation and Repair
-      return Math.floor(Math.random() * 30) + 20 // 20-50%
-    case "53": // Transportation
-      return Math.floor(Math.random() * 45) + 35 // 35-80%
-    default:
-      return Math.floor(Math.random() * 60) + 20 // 20-80%
-  }
-}
-
-function getAutomationRisk(aiScore: number): string {
-  if (aiScore >= 80) return "Very High"
-  if (aiScore >= 60) return "High"
-  if (aiScore >= 40) return "Medium"
-  return "Low"
-}
-
 async function populateJobs() {
   try {
     console.log("🚀 Starting job population process...")
+    await ensureJobDataQualityColumns()
 
     // Check if we have API keys
     const apiKeys = [process.env.BLS_API_KEY, process.env.BLS_API_KEY_2, process.env.BLS_API_KEY_3].filter(Boolean)
@@ -129,19 +93,27 @@ async function populateJobs() {
         const projectedEmployment2033 = Math.floor(employment2023 * (0.8 + Math.random() * 0.4))
         const medianWage = Math.floor(Math.random() * 80000) + 30000
 
-        // Calculate AI impact
-        const aiImpactScore = calculateAIImpactScore(occupationCode)
-        const automationRisk = getAutomationRisk(aiImpactScore)
+        // Calculate AI impact; mock figures widen the confidence range instead of moving the score
+        const { aiImpactScore, automationRisk, confidenceRange } = calculateAIImpact({
+          occupationCode,
+          occupationTitle: JOB_TITLES[occupationCode] || "",
+          medianWage,
+          employment: employment2023,
+          projectedEmployment: projectedEmployment2033,
+          estimatedInputs: true,
+        })
 
         // Insert job data
         await sql`
           INSERT INTO jobs (
             occ_code, occ_title, employment_2023, projected_employment_2033,
-            median_wage, ai_impact_score, automation_risk, created_at, updated_at
+            median_wage, ai_impact_score, ai_impact_score_low, ai_impact_score_high,
+            automation_risk, data_source, created_at, updated_at
           ) VALUES (
             ${occupationCode}, ${JOB_TITLES[occupationCode]}, ${employment2023}, 
             ${projectedEmployment2033}, ${medianWage}, ${aiImpactScore}, 
-            ${automationRisk}, NOW(), NOW()
+            ${confidenceRange.low}, ${confidenceRange.high},
+            ${automationRisk}, 'fallback', NOW(), NOW()
           )
         `
 
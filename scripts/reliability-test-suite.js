@@ -57,7 +57,7 @@ const config = {
       .filter(([k]) => /^BLS_API_KEY(_\d+)?$/.test(k))
       .map(([, v]) => v)
       .filter(Boolean),
-    baseUrl: 'https://api.bls.gov/publicAPI/v2/timeseries/data/',
+    baseUrl: process.env.BLS_API_BASE_URL || 'https://api.bls.gov/publicAPI/v2/timeseries/data/',
     testSeriesId: 'CEU0000000001', // Total nonfarm employment
     timeout: 30000
   },
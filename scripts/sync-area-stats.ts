@@ -0,0 +1,76 @@
+import { sqlEnhanced } from "../lib/database-enhanced"
+import { initializeAreaStatsTable, saveAreaStats } from "../lib/area-stats"
+import { BLSService, BLS_MAX_SERIES_PER_REQUEST, OEWS_SERIES_PER_OCCUPATION } from "../lib/bls-service"
+import { initializeBLSApiKeys } from "../lib/api-keys-helper"
+import { getOEWSArea, METRO_AREAS, STATE_AREAS, type OEWSArea } from "../lib/oews-areas"
+
+/**
+ * Fetch state and metro-area employment and wages for the occupations in the
+ * jobs table and store them in `job_area_stats`.  Each area takes one request
+ * per few occupations, so limit --areas or --codes when API keys are scarce.
+ *
+ * Usage:
+ *   npx tsx scripts/sync-area-stats.ts [--areas states|metros|all|0600000,0035620] \
+ *     [--codes 15-1252,43-9021] [--dry-run]
+ */
+
+const dryRun = process.argv.includes("--dry-run")
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function resolveAreas(value: string): OEWSArea[] {
+  if (value === "states") return STATE_AREAS
+  if (value === "metros") return METRO_AREAS
+  if (value === "all") return [...STATE_AREAS, ...METRO_AREAS]
+
+  return value.split(",").map((code) => {
+    const area = getOEWSArea(code.trim())
+    if (!area || area.type === "national") {
+      throw new Error(`Unknown state or metro area code "${code}"`)
+    }
+    return area
+  })
+}
+
+async function syncAreaStats() {
+  try {
+    const areas = resolveAreas(getArg("areas") || "states")
+    const codes = getArg("codes")
+      ? getArg("codes")!.split(",").map((code) => code.trim())
+      : (await sqlEnhanced<{ occ_code: string }>`SELECT occ_code FROM jobs ORDER BY occ_code`).map((job) => job.occ_code)
+
+    const occupationsPerRequest = Math.floor(BLS_MAX_SERIES_PER_REQUEST / OEWS_SERIES_PER_OCCUPATION)
+    const requests = areas.length * Math.ceil(codes.length / occupationsPerRequest)
+    console.log(`🚀 ${dryRun ? "Planning" : "Syncing"} ${codes.length} occupation(s) in ${areas.length} area(s), about ${requests} BLS request(s)`)
+    if (dryRun) return
+
+    await initializeAreaStatsTable()
+    const blsService = new BLSService(initializeBLSApiKeys())
+
+    let stored = 0
+    for (const area of areas) {
+      const result = await blsService.fetchOccupationalDataBatch(codes, area)
+      let areaStored = 0
+      for (const code of codes) {
+        const data = result.data.get(code)
+        if (data) {
+          await saveAreaStats(code, area, data)
+          areaStored++
+        }
+      }
+      stored += areaStored
+      console.log(`   ${area.name}: ${areaStored}/${codes.length} occupation(s) stored (${result.requestsMade} request(s))`)
+    }
+
+    console.log(`\n🎉 Area sync completed!`)
+    console.log(`   Occupation-area rows stored: ${stored}`)
+  } catch (error) {
+    console.error("❌ Area sync failed:", error)
+    process.exit(1)
+  }
+}
+
+syncAreaStats()
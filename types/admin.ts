@@ -3,6 +3,8 @@
  * Type definitions for the admin dashboard components
  */
 
+import type { RiskTierId } from "@/lib/risk-tiers";
+
 /**
  * Database connection status and information
  */
@@ -93,6 +95,7 @@ export interface JobDetails {
   mediumHighRiskJobs: number;
   mediumRiskJobs: number;
   lowRiskJobs: number;
+  riskDistribution?: Record<RiskTierId, number>;
   lastUpdated: string;
   recentJobs: Array<{
     code: string;